@@ -5,77 +5,86 @@
  * DatoCMS content through the MCP interface.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 // Required for DatoCMS client's HTTP requests
 import fetch from "node-fetch";
 
-// Import all tool registration functions
-// Several tools are consolidated into router tools
-import { registerRecordsRouter } from "./tools/Records/RecordsRouterTool.js";
-import { registerGetParametersTool } from "./tools/DocumentationTool.js";
-import {
-  registerProjectRouter,
-  registerUploadsRouter,
-  registerEnvironmentRouter,
-  registerPermissionsRouter,
-  registerSchemaRouter,
-  registerDeliveryManagementRouter,
-  registerUIRouter,
-  registerLocalesRouter
-} from "./tools/index.js";
-
-// Import schema initializer to register all schemas in the registry
-import { initializeSchemas } from "./utils/schemaInitializer.js";
+// Server factory with all tools registered
+import { createServer } from "./server.js";
+import { startHttpServer, DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT } from "./utils/httpServer.js";
 
 // Apply fetch polyfill for DatoCMS client compatibility
 // @ts-ignore - Type definition mismatch between node-fetch and global fetch
 globalThis.fetch = fetch;
 
 /**
- * Creates and configures an MCP server with DatoCMS integration capabilities.
- * 
- * @returns {McpServer} A configured MCP server instance with all DatoCMS tools registered
+ * Supported transport types, selected with the TRANSPORT_TYPE env var
  */
-const createServer = (): McpServer => {
-  // Initialize all schemas in the registry
-  initializeSchemas();
-  
-  // Initialize the MCP server with identifying metadata
-  const server = new McpServer({
-    name: "DatoCMSTools",
-    version: "1.0.0",
-    description: "MCP server providing DatoCMS query tools and utilities"
-  });
+type TransportType = "stdio" | "http";
 
-  // Register DatoCMS tools with clear order (parameters first, then execution)
-  registerGetParametersTool(server);      // Parameters tool MUST be registered FIRST
-  registerRecordsRouter(server);          // Execute tool for records
-  registerProjectRouter(server);          // Project actions
-  registerUploadsRouter(server);          // All uploads actions (router)
-  registerEnvironmentRouter(server);      // Environment and maintenance mode actions
-  registerPermissionsRouter(server);      // Permissions: Collaborators and Roles
-  registerSchemaRouter(server);           // Schema operations (item types, fieldsets, etc.)
-  registerDeliveryManagementRouter(server); // Webhooks and delivery management
-  registerUIRouter(server);               // Unified UI tools (menu items, schema menu items, etc.)
-  registerLocalesRouter(server);          // Locales management (multilingual content)
+/**
+ * Reads the transport type from the environment, defaulting to stdio
+ * @returns The configured transport type
+ */
+const getTransportType = (): TransportType => {
+  const transportType = (process.env.TRANSPORT_TYPE || "stdio").toLowerCase();
+  if (transportType !== "stdio" && transportType !== "http") {
+    throw new Error(`Invalid TRANSPORT_TYPE '${transportType}'. Valid values are: stdio, http`);
+  }
+  return transportType;
+};
+
+/**
+ * Reads the HTTP port from the environment
+ * @returns The configured port, or the default port
+ */
+const getHttpPort = (): number => {
+  if (!process.env.HTTP_PORT) {
+    return DEFAULT_HTTP_PORT;
+  }
 
-  return server;
+  const port = Number(process.env.HTTP_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP_PORT '${process.env.HTTP_PORT}'. Must be an integer between 0 and 65535.`);
+  }
+  return port;
 };
 
 /**
  * Main application entry point that initializes and starts the MCP server.
  * 
  * This function:  
- * 1. Creates the server using createServer()
- * 2. Sets up stdio transport for MCP communication
- * 3. Establishes the connection between server and transport
- * 4. Handles any errors during initialization
+ * 1. Reads the transport type from TRANSPORT_TYPE (stdio by default)
+ * 2. For stdio, creates a single server and connects it to the stdio transport
+ * 3. For http, starts the HTTP server, which creates one server per session
+ * 4. Closes open sessions on SIGINT/SIGTERM
+ * 5. Handles any errors during initialization
  * 
  * @returns {Promise<void>}
  */
 const main = async (): Promise<void> => {
   try {
+    if (getTransportType() === "http") {
+      const host = process.env.HTTP_HOST || DEFAULT_HTTP_HOST;
+      const httpServer = await startHttpServer({
+        host,
+        port: getHttpPort(),
+        createMcpServer: createServer
+      });
+
+      // stdout is reserved for stdio clients, so log startup on stderr
+      console.error(`DatoCMS MCP server listening on ${httpServer.url} (Streamable HTTP: /mcp, SSE: /sse)`);
+
+      const shutdown = () => {
+        httpServer.close()
+          .then(() => process.exit(0))
+          .catch(() => process.exit(1));
+      };
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+      return;
+    }
+
     // Initialize the configured MCP server
     const server = createServer();
 
@@ -83,15 +92,12 @@ const main = async (): Promise<void> => {
     const transport = new StdioServerTransport();
     
     // Connect transport to the MCP server
-    server.connect(transport);
-    
-
-    
+    await server.connect(transport);
   } catch (error) {
-    
+    console.error(`Failed to start DatoCMS MCP server: ${error instanceof Error ? error.message : String(error)}`);
     process.exit(1);
   }
 };
 
 // Bootstrap the application
-main();
\ No newline at end of file
+main();
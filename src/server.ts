@@ -0,0 +1,60 @@
+/**
+ * @file server.ts
+ * @description Builds the DatoCMS MCP server with every tool registered.
+ * Shared by the stdio and HTTP entry points and by the test harness.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+// Import all tool registration functions
+// Several tools are consolidated into router tools
+import { registerRecordsRouter } from "./tools/Records/RecordsRouterTool.js";
+import { registerGetParametersTool } from "./tools/DocumentationTool.js";
+import {
+  registerProjectRouter,
+  registerUploadsRouter,
+  registerEnvironmentRouter,
+  registerPermissionsRouter,
+  registerSchemaRouter,
+  registerDeliveryManagementRouter,
+  registerUIRouter,
+  registerLocalesRouter,
+  registerJobsRouter,
+  registerGraphQLRouter
+} from "./tools/index.js";
+
+// Import schema initializer to register all schemas in the registry
+import { initializeSchemas } from "./utils/schemaInitializer.js";
+
+/**
+ * Creates and configures an MCP server with DatoCMS integration capabilities.
+ * 
+ * @returns {McpServer} A configured MCP server instance with all DatoCMS tools registered
+ */
+export const createServer = (): McpServer => {
+  // Initialize all schemas in the registry
+  initializeSchemas();
+  
+  // Initialize the MCP server with identifying metadata
+  const server = new McpServer({
+    name: "DatoCMSTools",
+    version: "1.0.0",
+    description: "MCP server providing DatoCMS query tools and utilities"
+  });
+
+  // Register DatoCMS tools with clear order (parameters first, then execution)
+  registerGetParametersTool(server);      // Parameters tool MUST be registered FIRST
+  registerRecordsRouter(server);          // Execute tool for records
+  registerProjectRouter(server);          // Project actions
+  registerUploadsRouter(server);          // All uploads actions (router)
+  registerEnvironmentRouter(server);      // Environment and maintenance mode actions
+  registerPermissionsRouter(server);      // Permissions: Collaborators and Roles
+  registerSchemaRouter(server);           // Schema operations (item types, fieldsets, etc.)
+  registerDeliveryManagementRouter(server); // Webhooks and delivery management
+  registerUIRouter(server);               // Unified UI tools (menu items, schema menu items, etc.)
+  registerLocalesRouter(server);          // Locales management (multilingual content)
+  registerJobsRouter(server);             // Async job results (forks, bulk operations)
+  registerGraphQLRouter(server);          // Content Delivery API (GraphQL) queries
+
+  return server;
+};
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { createDeleteHandler } from "../../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../../utils/unifiedClientManager.js";
 import { apiTokenSchemas } from "../../../schemas.js";
 
 /**
@@ -14,6 +15,20 @@ export const destroyTokenHandler = createDeleteHandler<
   entityName: "API Token",
   idParam: "tokenId",
   successMessage: (tokenId: string) => `API Token with ID '${tokenId}' was successfully deleted.`,
+  // The preview names the token and what it can access, since integrations using it stop working
+  confirmationPreview: async (params) => {
+    const client = UnifiedClientManager.getDefaultClient(params.apiToken, params.environment, params.project);
+    const token = await client.accessTokens.find(params.tokenId);
+    return {
+      token: {
+        id: token.id,
+        name: token.name,
+        role: token.role?.id ?? null,
+        can_access_cda: token.can_access_cda,
+        can_access_cma: token.can_access_cma
+      }
+    };
+  },
   clientAction: async (client, args) => {
     await client.accessTokens.destroy(args.tokenId);
   }
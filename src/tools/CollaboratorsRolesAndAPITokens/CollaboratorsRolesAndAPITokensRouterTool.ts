@@ -9,6 +9,8 @@ import {
   apiTokenSchemas
 } from "./schemas.js";
 import { createErrorResponse, extractDetailedErrorInfo } from "../../utils/errorHandlers.js";
+import { countActionArgs } from "../../utils/serverConfig.js";
+import { createPolicyActionEnum, checkActionPolicy } from "../../utils/actionPolicy.js";
 import { assertNever } from "../../utils/exhaustive.js";
 
 // Import handlers from subdirectories for collaborators
@@ -94,7 +96,11 @@ export const registerPermissionsRouter = (server: McpServer) => {
  * Registers the Collaborator Router tool with the MCP server
  */
 export const registerCollaboratorRouter = (server: McpServer) => {
-  const actionEnum = z.enum(collaboratorActionsList as [string, ...string[]]);
+  const actionEnum = createPolicyActionEnum("collaborators", collaboratorActionsList);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
 
   server.tool(
     // Tool name - Using the datocms_collaborators pattern
@@ -112,11 +118,17 @@ export const registerCollaboratorRouter = (server: McpServer) => {
     // Handler function for the collaborator router
     async ({ action, args = {} }) => {
       try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("collaborators", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
         // ALWAYS CHECK FOR PARAMETERS FIRST
         // If there are no arguments, redirect users to get_parameters first
         const shouldSuggestParams = (
           // These conditions indicate the user is likely not providing proper parameters
-          Object.keys(args).length === 0
+          countActionArgs(args) === 0
         );
 
         if (shouldSuggestParams) {
@@ -226,10 +238,16 @@ To see proper documentation, use the 'datocms_parameters' tool first with:\n\n
  * Register the Roles router with the MCP server
  */
 export const registerRolesRouter = (server: McpServer) => {
+  const actionEnum = createPolicyActionEnum("roles", roleActionEnum.options);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
+
   server.tool(
     "datocms_roles",
     {
-      action: roleActionEnum,
+      action: actionEnum,
       args: z.record(z.any()).optional().describe("Arguments for the action to perform.")
     },
     {
@@ -238,6 +256,12 @@ export const registerRolesRouter = (server: McpServer) => {
     },
     async ({ action, args = {} }) => {
       try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("roles", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
         // Validate input parameters based on the action
         const schema = roleSchemas[action as keyof typeof roleSchemas];
         const params = schema.parse(args);
@@ -292,10 +316,16 @@ export const registerRolesRouter = (server: McpServer) => {
  * Register the API Tokens router with the MCP server
  */
 export const registerAPITokensRouter = (server: McpServer) => {
+  const actionEnum = createPolicyActionEnum("api_tokens", apiTokenActionEnum.options);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
+
   server.tool(
     "datocms_api_tokens",
     {
-      action: apiTokenActionEnum,
+      action: actionEnum,
       args: z.record(z.any()).optional().describe("Arguments for the action to perform.")
     },
     {
@@ -304,6 +334,12 @@ export const registerAPITokensRouter = (server: McpServer) => {
     },
     async ({ action, args = {} }) => {
       try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("api_tokens", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
         // Validate input parameters based on the action
         const schema = apiTokenSchemas[action as keyof typeof apiTokenSchemas];
         const params = schema.parse(args);
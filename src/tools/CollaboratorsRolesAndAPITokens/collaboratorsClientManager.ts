@@ -9,13 +9,15 @@ import { CollaboratorsClient } from './collaboratorsClient.js';
 /**
  * Creates a typed collaborators client from an API token and optional environment.
  * 
- * @param apiToken The DatoCMS API token
+ * @param apiToken The DatoCMS API token (optional when the server has one configured)
  * @param environment Optional environment name
+ * @param project Optional project profile name
  * @returns A TypedCollaboratorsClient instance
  */
 export function createTypedCollaboratorsClientFromToken(
-  apiToken: string,
-  environment?: string
+  apiToken?: string,
+  environment?: string,
+  project?: string
 ): CollaboratorsClient {
-  return UnifiedClientManager.getCollaboratorsClient(apiToken, environment);
+  return UnifiedClientManager.getCollaboratorsClient(apiToken, environment, project);
 }
\ No newline at end of file
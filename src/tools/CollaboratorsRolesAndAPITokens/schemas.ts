@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { baseToolSchema } from "../../utils/sharedSchemas.js";
+import { baseToolSchema, confirmationTokenSchema } from "../../utils/sharedSchemas.js";
 
 /**
  * Schemas for all collaborator-related actions.
@@ -180,7 +180,8 @@ export const updateTokenSchema = baseToolSchema.extend({
 
 // Schema for destroying an API token
 export const destroyTokenSchema = baseToolSchema.extend({
-  tokenId: z.string().describe("ID of the API token to destroy")
+  tokenId: z.string().describe("ID of the API token to destroy"),
+  confirmationToken: confirmationTokenSchema
 });
 
 // Schema for rotating an API token
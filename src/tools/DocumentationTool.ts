@@ -1,6 +1,7 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { createResponse } from "../utils/responseHandlers.js";
+import { checkActionPolicy } from "../utils/actionPolicy.js";
 import { recordsSchemas, recordActionsList } from "./Records/schemas.js";
 import { projectSchemas, projectActionsList } from "./Project/schemas.js";
 import { uploadsSchemas, uploadsActionsList } from "./Uploads/schemas.js";
@@ -14,6 +15,8 @@ import {
   apiTokenActionEnum as apiTokensActionsList
 } from "./CollaboratorsRolesAndAPITokens/schemas.js";
 import { schemaSchemas, schemaActionsList } from "./Schema/schemas.js";
+import { jobSchemas, jobActionsList } from "./Jobs/schemas.js";
+import { graphqlSchemas, graphqlActionsList } from "./GraphQL/schemas.js";
 
 // Define schema map for all resources
 const schemas = {
@@ -24,7 +27,9 @@ const schemas = {
   collaborators: collaboratorSchemas,
   roles: roleSchemas,
   api_tokens: apiTokenSchemas,
-  schema: schemaSchemas
+  schema: schemaSchemas,
+  jobs: jobSchemas,
+  graphql: graphqlSchemas
 };
 
 type SchemaMap = typeof schemas;
@@ -180,8 +185,8 @@ export const registerGetParametersTool = (server: McpServer) => {
     "datocms_parameters",
     // Parameter schema with types
     {
-      resource: z.enum(["records", "project", "uploads", "environments", "collaborators", "roles", "api_tokens", "schema"])
-        .describe("Resource type ('records', 'project', 'uploads', 'environments', 'collaborators', 'roles', 'api_tokens', or 'schema')"),
+      resource: z.enum(["records", "project", "uploads", "environments", "collaborators", "roles", "api_tokens", "schema", "jobs", "graphql"])
+        .describe("Resource type ('records', 'project', 'uploads', 'environments', 'collaborators', 'roles', 'api_tokens', 'schema', 'jobs', or 'graphql')"),
       action: z.union([
         z.enum(recordActionsList as [RecordActions, ...RecordActions[]]).describe("The specific action you want to perform for records (e.g., 'query', 'get', 'publish', etc.)"),
         z.enum(projectActionsList as [ProjectActions, ...ProjectActions[]])
@@ -197,7 +202,11 @@ export const registerGetParametersTool = (server: McpServer) => {
         apiTokensActionsList
           .describe("API token-level action"),
         z.enum(schemaActionsList as [SchemaActions, ...SchemaActions[]])
-          .describe("Schema-level action (item types, fieldsets, etc.)")
+          .describe("Schema-level action (item types, fieldsets, etc.)"),
+        z.enum(jobActionsList as [string, ...string[]])
+          .describe("Async job action"),
+        z.enum(graphqlActionsList as [string, ...string[]])
+          .describe("Content Delivery API (GraphQL) action")
       ])
     },
     // Annotations for the tool - Much stronger emphasis on using this first
@@ -220,6 +229,12 @@ export const registerGetParametersTool = (server: McpServer) => {
         };
       }
       
+      // Don't document actions the server policy blocks
+      const forbidden = checkActionPolicy(resource, action);
+      if (forbidden) {
+        return forbidden;
+      }
+      
       // Get the schema for the specified action
       const actionSchema = resourceSchemas[action as keyof typeof resourceSchemas];
       
@@ -274,7 +289,7 @@ export const registerGetParametersTool = (server: McpServer) => {
       return createResponse(JSON.stringify({
         ...schemaDoc,
         usage_example: usageExample,
-        important_note:  "⚠️ ALWAYS supply *all* required parameters exactly as listed (including `apiToken`, which **must** be provided by you—it is never injected automatically). Leave optional parameters out unless you explicitly need them, instead of redundantly sending their default value. If you’re not certain of a required value such as the API token, ALWAYS ask the user — do not hallucinate."
+        important_note:  "⚠️ ALWAYS supply *all* required parameters exactly as listed. `apiToken` is optional when the server has a default token configured, or when `project` names a profile configured on the server (call datocms_project with action 'list_profiles' to see them); otherwise provide it yourself. Leave optional parameters out unless you explicitly need them, instead of redundantly sending their default value. If you’re not certain of a required value, or a call fails because no API token is configured, ALWAYS ask the user — do not hallucinate."
       }, null, 2));
     }
   );
@@ -10,6 +10,7 @@
  */
 
 import { createDeleteHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
 import { environmentSchemas } from "../../schemas.js";
 
 /**
@@ -28,6 +29,19 @@ export const deleteEnvironmentHandler = createDeleteHandler({
   entityName: 'Environment',
   idParam: 'environmentId',
   successMessage: (id: string) => `Environment '${id}' has been deleted successfully`,
+  // The preview shows whether it's the primary environment and when it was made
+  confirmationPreview: async (params) => {
+    const client = UnifiedClientManager.getDefaultClient(params.apiToken, undefined, params.project);
+    const environment = await client.environments.find(params.environmentId);
+    return {
+      environment: {
+        id: environment.id,
+        primary: environment.meta.primary,
+        status: environment.meta.status,
+        created_at: environment.meta.created_at
+      }
+    };
+  },
   clientAction: async (client, args) => {
     // Delete the environment
     // Note: Don't pass environmentId when initializing client to avoid
@@ -2,6 +2,8 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { environmentSchemas, environmentActionsList } from "./schemas.js";
 import { createErrorResponse, extractDetailedErrorInfo } from "../../utils/errorHandlers.js";
+import { countActionArgs } from "../../utils/serverConfig.js";
+import { createPolicyActionEnum, checkActionPolicy } from "../../utils/actionPolicy.js";
 import { assertNever } from "../../utils/exhaustive.js";
 
 // Import handlers from subdirectories
@@ -39,7 +41,11 @@ type ActionArgsMap = {
  * Registers the Environment Router tool with the MCP server
  */
 export const registerEnvironmentRouter = (server: McpServer) => {
-  const actionEnum = z.enum(environmentActionsList as [string, ...string[]]);
+  const actionEnum = createPolicyActionEnum("environments", environmentActionsList);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
   
   server.tool(
     // Tool name - Using the new datocms_execute pattern with a specific prefix
@@ -57,11 +63,17 @@ export const registerEnvironmentRouter = (server: McpServer) => {
     // Handler function for the environment router
     async ({ action, args = {} }) => {
       try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("environments", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
         // ALWAYS CHECK FOR PARAMETERS FIRST
         // If there are no arguments, redirect users to get_parameters first
         const shouldSuggestParams = (
           // These conditions indicate the user is likely not providing proper parameters
-          Object.keys(args).length === 0
+          countActionArgs(args) === 0
         );
         
         if (shouldSuggestParams) {
@@ -5,8 +5,9 @@
 
 import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
 import { createResponse } from "../../../../utils/responseHandlers.js";
+import { createStandardSuccessResponse, createStandardMcpResponse } from "../../../../utils/standardResponse.js";
+import { runJob } from "../../../../utils/jobResults.js";
 import { environmentSchemas } from "../../schemas.js";
-import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
 
 /**
  * Handler for forking a DatoCMS environment
@@ -21,25 +22,34 @@ export const forkEnvironmentHandler = createCustomHandler({
     handlerName: "forkEnvironmentHandler"
   }
 }, async (args) => {
-  const { apiToken, environmentId, newId, fast = false, force = false } = args;
+  const {
+    apiToken, project, environmentId, newId, fast = false, force = false,
+    waitForCompletion = true, timeoutSeconds, debug
+  } = args;
   
-  // Initialize DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environmentId);
+  // The fork runs as an async job: either wait for it (up to the timeout)
+  // or hand back the job ID straight away
+  const outcome = await runJob(
+    { apiToken, environment: environmentId, project },
+    client => client.environments.fork(environmentId, { id: newId }, { immediate_return: false, fast, force }),
+    { waitForCompletion, timeoutSeconds }
+  );
   
-  // Fork the environment with immediate_return set to false
-  // to wait for the completion of the fork operation
-  const forkOptions = {
-    id: newId,
-    immediate_return: false,
-    fast,
-    force
-  };
-  
-  const environment = await client.environments.fork(environmentId, forkOptions);
+  if (outcome.status === "pending") {
+    return createStandardMcpResponse(createStandardSuccessResponse(
+      { jobId: outcome.jobId, status: "pending", environmentId: newId },
+      outcome.timedOut
+        ? `Fork of '${environmentId}' into '${newId}' is still running after the timeout. Use datocms_jobs action 'retrieve' with jobId '${outcome.jobId}' to check on it.`
+        : `Fork of '${environmentId}' into '${newId}' started. Use datocms_jobs action 'retrieve' with jobId '${outcome.jobId}' to check on it.`,
+      undefined,
+      debug
+    ));
+  }
   
+  const environment = outcome.result;
   if (!environment) {
     throw new Error(`Failed to fork environment with ID '${environmentId}'.`);
   }
   
   return createResponse(JSON.stringify(environment, null, 2));
-});
\ No newline at end of file
+});
@@ -13,7 +13,7 @@ export const registerActivateMaintenanceMode = (server: McpServer) => {
     "ActivateMaintenanceMode",
     // Parameter schema with types
     {
-      apiToken: z.string().describe("DatoCMS API token for authentication. If you are not certain of one, ask for the user, do not hallucinate."),
+      apiToken: z.string().optional().describe("DatoCMS API token for authentication. Optional if the server has a token configured; omit it in that case. Otherwise, if you are not certain of one, ask the user, do not hallucinate."),
       environment: z.string().optional().describe("The ID of a specific environment to target (defaults to primary environment)."),
       force: z.boolean().optional().default(false).describe("Force the activation, even if there are collaborators editing some records.")
     },
@@ -13,7 +13,7 @@ export const registerFetchMaintenanceMode = (server: McpServer) => {
     "FetchMaintenanceMode",
     // Parameter schema with types
     {
-      apiToken: z.string().describe("DatoCMS API token for authentication. If you are not certain of one, ask for the user, do not hallucinate."),
+      apiToken: z.string().optional().describe("DatoCMS API token for authentication. Optional if the server has a token configured; omit it in that case. Otherwise, if you are not certain of one, ask the user, do not hallucinate."),
       environment: z.string().optional().describe("The ID of a specific environment to target (defaults to primary environment).")
     },
     // Annotations for the tool
@@ -21,10 +21,10 @@ export const activateMaintenanceModeHandler = createCustomHandler({
     handlerName: "activateMaintenanceModeHandler"
   }
 }, async (args) => {
-  const { apiToken, force = false } = args;
+  const { apiToken, project, force = false } = args;
   
   // Initialize DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, undefined, project);
   
   // Activate maintenance mode
   const options = { force };
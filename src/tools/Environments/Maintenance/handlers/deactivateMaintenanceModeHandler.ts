@@ -21,10 +21,10 @@ export const deactivateMaintenanceModeHandler = createCustomHandler({
     handlerName: "deactivateMaintenanceModeHandler"
   }
 }, async (args) => {
-  const { apiToken } = args;
+  const { apiToken, project } = args;
   
   // Initialize DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, undefined, project);
   
   // Deactivate maintenance mode
   const maintenanceMode = await client.maintenanceMode.deactivate();
@@ -21,10 +21,10 @@ export const fetchMaintenanceModeHandler = createCustomHandler({
     handlerName: "fetchMaintenanceModeHandler"
   }
 }, async (args) => {
-  const { apiToken } = args;
+  const { apiToken, project } = args;
   
   // Initialize DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, undefined, project);
   
   // Fetch maintenance mode status
   const maintenanceMode = await client.maintenanceMode.find();
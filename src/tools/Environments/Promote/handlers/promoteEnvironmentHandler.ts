@@ -19,12 +19,22 @@ export const promoteEnvironmentHandler = createCustomHandler({
     operation: "promote",
     resourceType: "Environment",
     handlerName: "promoteEnvironmentHandler"
+  },
+  // The preview names the environment that stops being primary
+  confirmationPreview: async (params) => {
+    const client = UnifiedClientManager.getDefaultClient(params.apiToken, undefined, params.project);
+    const environment = await client.environments.find(params.environmentId);
+    const currentPrimary = (await client.environments.list()).find(candidate => candidate.meta.primary);
+    return {
+      environment: { id: environment.id, status: environment.meta.status, created_at: environment.meta.created_at },
+      currentPrimary: currentPrimary?.id ?? null
+    };
   }
 }, async (args) => {
-  const { apiToken, environmentId } = args;
+  const { apiToken, project, environmentId } = args;
   
   // Initialize DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, undefined, project);
   
   // Promote the environment to primary
   const environment = await client.environments.promote(environmentId);
@@ -41,10 +41,10 @@ export const standardizedListEnvironmentsHandler = createCustomHandler({
     handlerName: 'standardizedListEnvironmentsHandler'
   }
 }, async (args) => {
-  const { apiToken } = args;
+  const { apiToken, project } = args;
   
   // Initialize DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, undefined, project);
   
   // Fetch environments
   const environments = await client.environments.list();
@@ -24,9 +24,10 @@ export class EnvironmentClient {
    * 
    * @param apiToken - DatoCMS API token
    * @param environment - Optional environment to target
+   * @param project - Optional project profile name
    */
-  constructor(apiToken: string, environment?: string) {
-    this.client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  constructor(apiToken?: string, environment?: string, project?: string) {
+    this.client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   }
 
   /**
@@ -136,8 +137,9 @@ export class EnvironmentClient {
  * 
  * @param apiToken - DatoCMS API token
  * @param environment - Optional environment to target
+ * @param project - Optional project profile name
  * @returns Environment client instance
  */
-export function createEnvironmentClient(apiToken: string, environment?: string): EnvironmentClient {
-  return new EnvironmentClient(apiToken, environment);
+export function createEnvironmentClient(apiToken?: string, environment?: string, project?: string): EnvironmentClient {
+  return new EnvironmentClient(apiToken, environment, project);
 }
\ No newline at end of file
@@ -2,7 +2,10 @@ import { z } from "zod";
 import {
   baseToolSchema,
   createBaseSchema,
-  createListSchema
+  confirmationTokenSchema,
+  createListSchema,
+  jobTimeoutSchema,
+  waitForCompletionSchema
 } from "../../utils/sharedSchemas.js";
 
 /**
@@ -35,6 +38,7 @@ export const environmentSchemas = {
     confirmation: z.literal("confirm")
       .optional()
       .describe("Type 'confirm' to confirm the deletion. This is required in the DeleteDatoCMSEnvironment tool but optional here for backward compatibility."),
+    confirmationToken: confirmationTokenSchema,
   }),
 
   // Environment renaming operations
@@ -46,6 +50,7 @@ export const environmentSchemas = {
   // Environment promotion operations
   promote: createBaseSchema().extend({
     environmentId: environmentIdSchema,
+    confirmationToken: confirmationTokenSchema,
   }),
 
   // Environment forking operations
@@ -57,7 +62,9 @@ export const environmentSchemas = {
       .describe("If true, the fork will be created without copying records (faster but incomplete)."),
     force: z.boolean()
       .optional()
-      .describe("If true, the fork operation will proceed even if there are warnings.")
+      .describe("If true, the fork operation will proceed even if there are warnings."),
+    waitForCompletion: waitForCompletionSchema,
+    timeoutSeconds: jobTimeoutSchema
   }),
 
   // Maintenance mode operations
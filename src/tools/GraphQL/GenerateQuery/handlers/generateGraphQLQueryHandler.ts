@@ -0,0 +1,50 @@
+/**
+ * @file generateGraphQLQueryHandler.ts
+ * @description Handler for generating a Content Delivery API query from a model's schema
+ */
+
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
+import { createStandardMcpResponse, createStandardSuccessResponse } from "../../../../utils/standardResponse.js";
+import { generateQuery, type GeneratorField } from "../../queryGenerator.js";
+import { graphqlSchemas } from "../../schemas.js";
+
+/**
+ * Handler for generating a GraphQL query for a model, with fragments for its
+ * linked records and blocks
+ */
+export const generateGraphQLQueryHandler = createCustomHandler({
+  domain: "graphql",
+  schemaName: "generate_query",
+  schema: graphqlSchemas.generate_query,
+  errorContext: {
+    operation: "generate",
+    resourceType: "GraphQL Query",
+    handlerName: "generateGraphQLQueryHandler"
+  }
+}, async (args) => {
+  const { apiToken, environment, project, model: modelRef, depth = 2, collection = true, allLocales = false, debug } = args;
+
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
+  const models = await client.itemTypes.list();
+  const model = models.find(candidate => candidate.id === modelRef || candidate.api_key === modelRef);
+  if (!model) {
+    throw new Error(`Model '${modelRef}' not found. Available models: ${models.filter(candidate => !candidate.modular_block).map(candidate => candidate.api_key).join(", ") || "(none)"}`);
+  }
+
+  const generated = await generateQuery({
+    models,
+    loadFields: async modelId => await client.fields.list(modelId) as GeneratorField[],
+    model,
+    depth,
+    collection,
+    allLocales
+  });
+
+  return createStandardMcpResponse(createStandardSuccessResponse(
+    generated,
+    `Generated the ${generated.rootField} query for ${generated.typeName}. Run it with the datocms_graphql 'query' action.`,
+    undefined,
+    debug
+  ));
+});
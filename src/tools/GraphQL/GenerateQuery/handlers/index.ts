@@ -0,0 +1,6 @@
+/**
+ * @file index.ts
+ * @description Export all handlers for generating GraphQL queries
+ */
+
+export { generateGraphQLQueryHandler } from './generateGraphQLQueryHandler.js';
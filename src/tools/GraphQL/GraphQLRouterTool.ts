@@ -0,0 +1,65 @@
+/**
+ * @file GraphQLRouterTool.ts
+ * @description Router tool for Content Delivery API (GraphQL) queries
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { graphqlSchemas, graphqlActionsList } from "./schemas.js";
+import { runGraphQLQueryHandler } from "./Query/handlers/index.js";
+import { generateGraphQLQueryHandler } from "./GenerateQuery/handlers/index.js";
+import { createErrorResponse, extractDetailedErrorInfo } from "../../utils/errorHandlers.js";
+import { createPolicyActionEnum, checkActionPolicy } from "../../utils/actionPolicy.js";
+import { assertNever } from "../../utils/exhaustive.js";
+
+// Type for the action parameter
+type GraphQLAction = keyof typeof graphqlSchemas;
+
+/**
+ * Registers the GraphQL router tool with the MCP server
+ */
+export const registerGraphQLRouter = (server: McpServer) => {
+  const actionEnum = createPolicyActionEnum("graphql", graphqlActionsList);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
+
+  server.tool(
+    "datocms_graphql",
+    {
+      action: actionEnum,
+      args: z.record(z.any()).optional().describe("Arguments for the action to perform. Use datocms_parameters to see the arguments of each action.")
+    },
+    {
+      title: "DatoCMS Content Delivery API (GraphQL)",
+      description: "Runs GraphQL queries against the DatoCMS Content Delivery API: what the website sees, with published (or draft) content, localized fields, resolved links and responsive images. Use the other tools to change content. 'generate_query' writes a ready-to-use query for a model from its schema."
+    },
+    async ({ action, args = {} }) => {
+      try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("graphql", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
+        // Handlers validate their own arguments
+        const validAction = action as GraphQLAction;
+        switch (validAction) {
+          case "query":
+            return await runGraphQLQueryHandler(args);
+
+          case "generate_query":
+            return await generateGraphQLQueryHandler(args);
+
+          default: {
+            // Exhaustiveness check - TypeScript will error if we miss a case
+            return assertNever(validAction, `Unhandled GraphQL action: ${validAction}`);
+          }
+        }
+      } catch (error: unknown) {
+        return createErrorResponse(`Error in GraphQL Router: ${extractDetailedErrorInfo(error)}`);
+      }
+    }
+  );
+};
@@ -0,0 +1,6 @@
+/**
+ * @file index.ts
+ * @description Export all handlers for running GraphQL queries
+ */
+
+export { runGraphQLQueryHandler } from './runGraphQLQueryHandler.js';
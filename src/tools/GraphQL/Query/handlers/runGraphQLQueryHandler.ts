@@ -0,0 +1,108 @@
+/**
+ * @file runGraphQLQueryHandler.ts
+ * @description Handler for running a GraphQL query against the Content Delivery API
+ */
+
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { fetchWithRetries } from "../../../../utils/retry.js";
+import { getServerConfig, resolveCredentials } from "../../../../utils/serverConfig.js";
+import {
+  createStandardErrorResponse,
+  createStandardMcpResponse,
+  createStandardSuccessResponse
+} from "../../../../utils/standardResponse.js";
+import { mapGraphQLErrors, summarizeGraphQLErrors, type GraphQLError } from "../../graphqlErrors.js";
+import { graphqlSchemas } from "../../schemas.js";
+
+/**
+ * Body of a CDA response: a GraphQL result, or a JSON:API error for rejected requests
+ */
+interface DeliveryApiBody {
+  data?: unknown;
+  errors?: GraphQLError[];
+}
+
+/**
+ * Reads the error codes of a JSON:API error body (e.g. an invalid token)
+ */
+function extractApiErrorCodes(body: DeliveryApiBody): string[] {
+  if (!Array.isArray(body.data)) {
+    return [];
+  }
+  return body.data
+    .map(entry => (entry as { attributes?: { code?: string } })?.attributes?.code)
+    .filter((code): code is string => typeof code === "string");
+}
+
+/**
+ * Handler for running a GraphQL query against the Content Delivery API
+ */
+export const runGraphQLQueryHandler = createCustomHandler({
+  domain: "graphql",
+  schemaName: "query",
+  schema: graphqlSchemas.query,
+  errorContext: {
+    operation: "query",
+    resourceType: "GraphQL Query",
+    handlerName: "runGraphQLQueryHandler"
+  }
+}, async (args) => {
+  const { apiToken, environment, project, query, variables, operationName, includeDrafts, excludeInvalid, debug } = args;
+
+  // The CDA takes the same tokens as the CMA, as long as they have CDA access
+  const credentials = resolveCredentials(apiToken, environment, project);
+
+  const headers: Record<string, string> = {
+    "Authorization": `Bearer ${credentials.apiToken}`,
+    "Content-Type": "application/json",
+    "Accept": "application/json"
+  };
+  if (credentials.environment) {
+    headers["X-Environment"] = credentials.environment;
+  }
+  if (includeDrafts) {
+    headers["X-Include-Drafts"] = "true";
+  }
+  if (excludeInvalid) {
+    headers["X-Exclude-Invalid"] = "true";
+  }
+
+  const response = await fetchWithRetries(`${getServerConfig().graphqlBaseUrl}/`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ query, variables, operationName })
+  });
+
+  const text = await response.text();
+  let body: DeliveryApiBody;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new Error(`The Content Delivery API answered ${response.status} with a non-JSON body: ${text.slice(0, 500)}`);
+  }
+
+  if (!body.errors && !response.ok) {
+    const codes = extractApiErrorCodes(body);
+    throw new Error(`The Content Delivery API rejected the request (${response.status}${codes.length > 0 ? ` ${codes.join(", ")}` : ""}). Check that the API token has Content Delivery API access.`);
+  }
+
+  const errors = body.errors ? mapGraphQLErrors(query, body.errors) : undefined;
+  const mode = [includeDrafts ? "drafts" : "published", ...(excludeInvalid ? ["strict mode"] : [])].join(", ");
+
+  if (errors && (body.data === null || body.data === undefined)) {
+    return createStandardMcpResponse(createStandardErrorResponse(
+      `GraphQL query failed:\n${summarizeGraphQLErrors(errors)}`,
+      { error_code: "GRAPHQL_ERROR", error_details: { errors } },
+      debug
+    ));
+  }
+
+  return createStandardMcpResponse(createStandardSuccessResponse(
+    body.data,
+    errors
+      ? `GraphQL query returned partial data (${mode}) with ${errors.length} error(s):\n${summarizeGraphQLErrors(errors)}`
+      : `GraphQL query succeeded (${mode}).`,
+    errors ? { graphql_errors: errors } : undefined,
+    debug
+  ));
+});
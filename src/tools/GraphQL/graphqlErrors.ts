@@ -0,0 +1,80 @@
+/**
+ * @file graphqlErrors.ts
+ * @description Maps GraphQL error locations back to the query text
+ * The CDA reports errors with 1-based line/column positions. An agent sees the
+ * query it sent as one string, so each location gets an excerpt of the line
+ * with a caret under the column.
+ */
+
+/**
+ * A position in the query document, as reported by GraphQL
+ */
+export interface GraphQLErrorLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * An error in a GraphQL response
+ */
+export interface GraphQLError {
+  message: string;
+  locations?: GraphQLErrorLocation[];
+  path?: Array<string | number>;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * A GraphQL error with its locations mapped to the query
+ */
+export interface MappedGraphQLError extends GraphQLError {
+  locations?: Array<GraphQLErrorLocation & { excerpt?: string }>;
+}
+
+/**
+ * Renders the query line at a location with a caret under the column
+ * @param lines The query, split into lines
+ * @param location The 1-based position
+ * @returns The excerpt, or undefined when the position is outside the query
+ */
+function excerptAt(lines: string[], { line, column }: GraphQLErrorLocation): string | undefined {
+  const text = lines[line - 1];
+  if (text === undefined) {
+    return undefined;
+  }
+
+  const gutter = `${line} | `;
+  const caret = " ".repeat(gutter.length + Math.max(column - 1, 0)) + "^";
+  return `${gutter}${text}\n${caret}`;
+}
+
+/**
+ * Adds an excerpt of the query to every error location
+ * @param query The query that was sent
+ * @param errors The errors of the response
+ * @returns The errors with excerpts
+ */
+export function mapGraphQLErrors(query: string, errors: GraphQLError[]): MappedGraphQLError[] {
+  const lines = query.split(/\r?\n/);
+
+  return errors.map(error => error.locations
+    ? {
+        ...error,
+        locations: error.locations.map(location => {
+          const excerpt = excerptAt(lines, location);
+          return excerpt ? { ...location, excerpt } : location;
+        })
+      }
+    : error);
+}
+
+/**
+ * Summarizes errors in one line each, e.g. "Field 'titl' doesn't exist (line 3, column 5)"
+ * @param errors The mapped errors
+ */
+export function summarizeGraphQLErrors(errors: MappedGraphQLError[]): string {
+  return errors.map(error => {
+    const where = error.locations?.map(({ line, column }) => `line ${line}, column ${column}`).join("; ");
+    return where ? `${error.message} (${where})` : error.message;
+  }).join("\n");
+}
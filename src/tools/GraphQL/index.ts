@@ -0,0 +1,9 @@
+/**
+ * @file index.ts
+ * @description Main exports for the GraphQL (Content Delivery API) domain
+ */
+
+export * from './schemas.js';
+export * from './Query/index.js';
+export * from './GenerateQuery/index.js';
+export { registerGraphQLRouter } from './GraphQLRouterTool.js';
@@ -0,0 +1,315 @@
+/**
+ * @file queryGenerator.ts
+ * @description Builds Content Delivery API queries from the CMA schema
+ * The CDA derives its GraphQL names from API keys: model `blog_post` becomes the
+ * `BlogPostRecord` type with `blogPost` and `allBlogPosts` queries, field
+ * `cover_image` becomes `coverImage`, and localized fields get
+ * `_allCoverImageLocales`. Links, modular content and structured text are
+ * expanded with an inline fragment per target model, down to a given depth.
+ */
+
+/**
+ * A model, as far as query generation is concerned
+ */
+export interface GeneratorModel {
+  id: string;
+  api_key: string;
+  singleton?: boolean;
+  modular_block?: boolean;
+}
+
+/**
+ * A field, as far as query generation is concerned
+ */
+export interface GeneratorField {
+  api_key: string;
+  field_type: string;
+  localized?: boolean;
+  validators?: Record<string, unknown>;
+}
+
+/**
+ * Options for generateQuery()
+ */
+export interface GenerateQueryOptions {
+  /** Every model and block of the project */
+  models: GeneratorModel[];
+  /** Loads the fields of a model or block */
+  loadFields: (modelId: string) => Promise<GeneratorField[]>;
+  /** The model to query */
+  model: GeneratorModel;
+  /** How many levels of linked records and blocks to expand */
+  depth: number;
+  /** Query the collection (`allX`) instead of a single record */
+  collection: boolean;
+  /** Add `_allXLocales` for localized fields */
+  allLocales: boolean;
+}
+
+/**
+ * A generated query with the names it uses
+ */
+export interface GeneratedQuery {
+  query: string;
+  /** GraphQL type of the model's records (e.g. 'BlogPostRecord') */
+  typeName: string;
+  /** Root field that was queried (e.g. 'allBlogPosts') */
+  rootField: string;
+  /** Variables the query declares, with their GraphQL types and defaults */
+  variables: Record<string, string>;
+}
+
+const INDENT = "  ";
+
+/** Plurals the suffix rules below get wrong */
+const IRREGULAR_PLURALS: Record<string, string> = {
+  person: "people",
+  child: "children",
+  man: "men",
+  woman: "women",
+  news: "news",
+  series: "series",
+  species: "species",
+  information: "information"
+};
+
+/** Selection for uploads in file and gallery fields */
+const FILE_SELECTION = [
+  "id",
+  "url",
+  "alt",
+  "title",
+  "width",
+  "height",
+  "mimeType",
+  "responsiveImage(imgixParams: { auto: format }) {\n  src\n  srcSet\n  sizes\n  width\n  height\n  alt\n  title\n  base64\n}"
+];
+
+/** Selections of the field types that aren't scalars or references */
+const OBJECT_SELECTIONS: Record<string, string[]> = {
+  file: FILE_SELECTION,
+  gallery: FILE_SELECTION,
+  color: ["hex", "red", "green", "blue", "alpha"],
+  lat_lon: ["latitude", "longitude"],
+  seo: ["title", "description", "twitterCard", "image {\n  url\n}"],
+  video: ["url", "title", "provider", "providerUid", "thumbnailUrl", "width", "height"]
+};
+
+/**
+ * Converts an API key to camelCase (`cover_image` → `coverImage`)
+ */
+export function camelize(apiKey: string): string {
+  return apiKey.replace(/_+([a-z0-9])/g, (_, character: string) => character.toUpperCase());
+}
+
+/**
+ * Converts an API key to PascalCase (`blog_post` → `BlogPost`)
+ */
+export function pascalize(apiKey: string): string {
+  const camel = camelize(apiKey);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+/**
+ * Pluralizes the last word of a PascalCase name (`BlogPost` → `BlogPosts`)
+ */
+export function pluralize(name: string): string {
+  const [, head = "", last = ""] = /^(.*?)([A-Z]?[a-z0-9]*)$/.exec(name) ?? [];
+  const irregular = IRREGULAR_PLURALS[last.toLowerCase()];
+  if (irregular) {
+    return head + last.charAt(0) + irregular.slice(1);
+  }
+  if (/[^aeiou]y$/i.test(last)) {
+    return head + last.slice(0, -1) + "ies";
+  }
+  if (/(s|x|z|ch|sh)$/i.test(last)) {
+    return head + last + "es";
+  }
+  return head + last + "s";
+}
+
+/**
+ * GraphQL type of a model's records (`blog_post` → `BlogPostRecord`)
+ */
+export function recordTypeName(model: GeneratorModel): string {
+  return `${pascalize(model.api_key)}Record`;
+}
+
+/**
+ * Indents every line of a block of text
+ */
+function indent(text: string, levels = 1): string {
+  const prefix = INDENT.repeat(levels);
+  return text.split("\n").map(line => line ? prefix + line : line).join("\n");
+}
+
+/**
+ * Wraps selections in braces (`{\n  a\n  b\n}`)
+ */
+function selectionSet(selections: string[]): string {
+  return `{\n${indent(selections.join("\n"))}\n}`;
+}
+
+/**
+ * Reads the model IDs a validator allows (e.g. `item_item_type.item_types`)
+ */
+function validatorItemTypes(field: GeneratorField, validator: string): string[] {
+  const value = field.validators?.[validator] as { item_types?: unknown } | undefined;
+  return Array.isArray(value?.item_types) ? value.item_types.filter((id): id is string => typeof id === "string") : [];
+}
+
+/**
+ * Generates CDA queries for the models of one project
+ */
+class QueryBuilder {
+  private readonly modelsById: Map<string, GeneratorModel>;
+  private readonly fieldsCache = new Map<string, Promise<GeneratorField[]>>();
+
+  constructor(models: GeneratorModel[], private readonly loadFields: (modelId: string) => Promise<GeneratorField[]>, private readonly allLocales: boolean) {
+    this.modelsById = new Map(models.map(model => [model.id, model]));
+  }
+
+  /**
+   * Loads a model's fields once
+   */
+  fields(modelId: string): Promise<GeneratorField[]> {
+    let fields = this.fieldsCache.get(modelId);
+    if (!fields) {
+      fields = this.loadFields(modelId);
+      this.fieldsCache.set(modelId, fields);
+    }
+    return fields;
+  }
+
+  /**
+   * Builds the selections of a record: its ID and every field
+   * @param model The model or block
+   * @param depth Levels of links and blocks left to expand
+   */
+  async recordSelections(model: GeneratorModel, depth: number): Promise<string[]> {
+    const selections = ["id"];
+    for (const field of await this.fields(model.id)) {
+      const name = camelize(field.api_key);
+      const selection = await this.fieldSelection(field, depth);
+      selections.push(selection ? `${name} ${selection}` : name);
+
+      if (this.allLocales && field.localized) {
+        const value = selection ? `value ${selection}` : "value";
+        selections.push(`_all${pascalize(field.api_key)}Locales ${selectionSet(["locale", value])}`);
+      }
+    }
+    return selections;
+  }
+
+  /**
+   * Builds the inline fragments for records of several possible models
+   * @param modelIds Models the field accepts
+   * @param depth Levels left to expand; at 0 only the IDs are selected
+   */
+  async fragments(modelIds: string[], depth: number): Promise<string> {
+    const selections = ["__typename"];
+    for (const modelId of modelIds) {
+      const model = this.modelsById.get(modelId);
+      if (!model) {
+        continue;
+      }
+      const fields = depth > 0 ? await this.recordSelections(model, depth - 1) : ["id"];
+      selections.push(`... on ${recordTypeName(model)} ${selectionSet(fields)}`);
+    }
+    return selectionSet(selections);
+  }
+
+  /**
+   * Builds the sub-selection of a field, or undefined for scalars
+   */
+  async fieldSelection(field: GeneratorField, depth: number): Promise<string | undefined> {
+    switch (field.field_type) {
+      case "link":
+        return this.fragments(validatorItemTypes(field, "item_item_type"), depth);
+      case "links":
+        return this.fragments(validatorItemTypes(field, "items_item_type"), depth);
+      case "rich_text":
+        return this.fragments(validatorItemTypes(field, "rich_text_blocks"), depth);
+      case "single_block":
+        return this.fragments(validatorItemTypes(field, "single_block_blocks"), depth);
+      case "structured_text": {
+        const selections = ["value"];
+        const blocks = validatorItemTypes(field, "structured_text_blocks");
+        // The CDA returns inline blocks apart from blocks, under `inlineBlocks`
+        const inlineBlocks = validatorItemTypes(field, "structured_text_inline_blocks");
+        const links = validatorItemTypes(field, "structured_text_links");
+        if (blocks.length > 0) {
+          selections.push(`blocks ${await this.fragments(blocks, depth)}`);
+        }
+        if (inlineBlocks.length > 0) {
+          selections.push(`inlineBlocks ${await this.fragments(inlineBlocks, depth)}`);
+        }
+        if (links.length > 0) {
+          selections.push(`links ${await this.fragments(links, depth)}`);
+        }
+        return selectionSet(selections);
+      }
+      default: {
+        const selections = OBJECT_SELECTIONS[field.field_type];
+        return selections ? selectionSet(selections) : undefined;
+      }
+    }
+  }
+}
+
+/**
+ * Generates a CDA query for a model
+ *
+ * Collections take `$first`/`$skip` and also select `_allXMeta { count }`;
+ * single records are selected by `$id` (singletons take no arguments). Models
+ * with localized fields also take `$locale`.
+ *
+ * @param options The schema, the model and what to expand
+ * @returns The query and the names it uses
+ * @throws If the model is a block, which can't be queried on its own
+ */
+export async function generateQuery(options: GenerateQueryOptions): Promise<GeneratedQuery> {
+  const { models, loadFields, model, depth, collection, allLocales } = options;
+  if (model.modular_block) {
+    throw new Error(`'${model.api_key}' is a block model. Blocks can't be queried on their own; generate the query of a model that uses it.`);
+  }
+
+  const builder = new QueryBuilder(models, loadFields, allLocales);
+  const selections = await builder.recordSelections(model, depth);
+  const localized = (await builder.fields(model.id)).some(field => field.localized);
+
+  const typeName = recordTypeName(model);
+  const isCollection = collection && !model.singleton;
+  const rootField = isCollection ? `all${pluralize(pascalize(model.api_key))}` : camelize(model.api_key);
+
+  const variables: Record<string, string> = {};
+  const args: string[] = [];
+  if (isCollection) {
+    variables.first = "IntType = 20";
+    variables.skip = "IntType = 0";
+    args.push("first: $first", "skip: $skip");
+  } else if (!model.singleton) {
+    variables.id = "ItemId!";
+    args.push("filter: { id: { eq: $id } }");
+  }
+  if (localized) {
+    variables.locale = "SiteLocale";
+    args.push("locale: $locale");
+  }
+
+  const operationName = pascalize(rootField);
+  const declaration = Object.keys(variables).length > 0
+    ? `(${Object.entries(variables).map(([name, type]) => `$${name}: ${type}`).join(", ")})`
+    : "";
+  const root = [`${rootField}${args.length > 0 ? `(${args.join(", ")})` : ""} ${selectionSet(selections)}`];
+  if (isCollection) {
+    root.push(`_${rootField}Meta ${selectionSet(["count"])}`);
+  }
+
+  return {
+    query: `query ${operationName}${declaration} ${selectionSet(root)}\n`,
+    typeName,
+    rootField,
+    variables
+  };
+}
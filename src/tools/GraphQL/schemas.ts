@@ -0,0 +1,57 @@
+/**
+ * @file schemas.ts
+ * @description Zod schemas for Content Delivery API (GraphQL) operations
+ */
+
+import { z } from "zod";
+import { baseToolSchema } from "../../utils/sharedSchemas.js";
+
+/**
+ * Schemas for all GraphQL actions
+ */
+export const graphqlSchemas = {
+  query: baseToolSchema.extend({
+    query: z.string()
+      .min(1)
+      .describe("The GraphQL query to run against the Content Delivery API, e.g. '{ allArticles(first: 5) { id title } }'. Only queries are supported; the CDA is read-only."),
+    variables: z.record(z.unknown())
+      .optional()
+      .describe("Values for the variables declared by the query, e.g. { \"slug\": \"hello-world\" }."),
+    operationName: z.string()
+      .min(1)
+      .optional()
+      .describe("Which operation to run when the query document defines several."),
+    includeDrafts: z.boolean()
+      .optional()
+      .default(false)
+      .describe("If true, returns the latest draft of each record instead of the published version (preview mode, X-Include-Drafts header). Default is false: what the live site shows."),
+    excludeInvalid: z.boolean()
+      .optional()
+      .default(false)
+      .describe("If true, enables strict mode (X-Exclude-Invalid header): invalid records are left out and required fields are typed as non-nullable."),
+  }),
+
+  generate_query: baseToolSchema.extend({
+    model: z.string()
+      .min(1)
+      .describe("ID or API key of the model to query (e.g. 'blog_post'). Block models can't be queried on their own."),
+    depth: z.number()
+      .int()
+      .min(0)
+      .max(5)
+      .optional()
+      .default(2)
+      .describe("How many levels of linked records and blocks to expand with all their fields (default 2). Past this depth, only the IDs are selected."),
+    collection: z.boolean()
+      .optional()
+      .default(true)
+      .describe("If true (default), queries the collection (e.g. allBlogPosts with $first/$skip). If false, queries one record by $id. Singletons always query their one record."),
+    allLocales: z.boolean()
+      .optional()
+      .default(false)
+      .describe("If true, also selects every locale of localized fields (e.g. _allTitleLocales { locale value }).")
+  })
+};
+
+// Create an array of all available GraphQL actions for the enum
+export const graphqlActionsList = Object.keys(graphqlSchemas) as Array<keyof typeof graphqlSchemas>;
@@ -0,0 +1,61 @@
+/**
+ * @file JobsRouterTool.ts
+ * @description Router tool for async CMA job results
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { jobSchemas, jobActionsList } from "./schemas.js";
+import { retrieveJobResultHandler } from "./Retrieve/handlers/index.js";
+import { createErrorResponse, extractDetailedErrorInfo } from "../../utils/errorHandlers.js";
+import { createPolicyActionEnum, checkActionPolicy } from "../../utils/actionPolicy.js";
+import { assertNever } from "../../utils/exhaustive.js";
+
+// Type for the action parameter
+type JobAction = keyof typeof jobSchemas;
+
+/**
+ * Registers the Jobs router tool with the MCP server
+ */
+export const registerJobsRouter = (server: McpServer) => {
+  const actionEnum = createPolicyActionEnum("jobs", jobActionsList);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
+
+  server.tool(
+    "datocms_jobs",
+    {
+      action: actionEnum,
+      args: z.record(z.any()).optional().describe("Arguments for the action to perform. Use datocms_parameters to see the arguments of each action.")
+    },
+    {
+      title: "DatoCMS Async Jobs",
+      description: "Checks the result of an async DatoCMS job (environment forks, bulk operations, ...) by its job ID, optionally waiting for it to finish."
+    },
+    async ({ action, args = {} }) => {
+      try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("jobs", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
+        // Handlers validate their own arguments
+        const validAction = action as JobAction;
+        switch (validAction) {
+          case "retrieve":
+            return await retrieveJobResultHandler(args);
+
+          default: {
+            // Exhaustiveness check - TypeScript will error if we miss a case
+            return assertNever(validAction, `Unhandled job action: ${validAction}`);
+          }
+        }
+      } catch (error: unknown) {
+        return createErrorResponse(`Error in Jobs Router: ${extractDetailedErrorInfo(error)}`);
+      }
+    }
+  );
+};
@@ -0,0 +1,6 @@
+/**
+ * @file index.ts
+ * @description Export all handlers for retrieving async job results
+ */
+
+export { retrieveJobResultHandler } from './retrieveJobResultHandler.js';
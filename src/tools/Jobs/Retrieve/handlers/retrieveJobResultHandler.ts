@@ -0,0 +1,58 @@
+/**
+ * @file retrieveJobResultHandler.ts
+ * @description Handler for checking the result of an async CMA job
+ */
+
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
+import { findJobResult, waitForJobResult, DEFAULT_JOB_TIMEOUT_SECONDS } from "../../../../utils/jobResults.js";
+import { createStandardSuccessResponse, createStandardMcpResponse } from "../../../../utils/standardResponse.js";
+import { jobSchemas } from "../../schemas.js";
+
+/**
+ * Handler for retrieving a job result, optionally waiting for the job to finish
+ */
+export const retrieveJobResultHandler = createCustomHandler({
+  domain: "jobs",
+  schemaName: "retrieve",
+  schema: jobSchemas.retrieve,
+  errorContext: {
+    operation: "retrieve",
+    resourceType: "Job Result",
+    handlerName: "retrieveJobResultHandler"
+  }
+}, async (args) => {
+  const { apiToken, environment, project, jobId, wait, timeoutSeconds = DEFAULT_JOB_TIMEOUT_SECONDS, debug } = args;
+
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
+  const jobResult = wait
+    ? await waitForJobResult(client, jobId, timeoutSeconds * 1000)
+    : await findJobResult(client, jobId);
+
+  if (!jobResult) {
+    return createStandardMcpResponse(createStandardSuccessResponse(
+      { jobId, status: "pending" },
+      wait
+        ? `Job '${jobId}' is still running after ${timeoutSeconds} seconds. Check again later.`
+        : `Job '${jobId}' is still running. Retrieve it again with wait: true to wait for it.`,
+      undefined,
+      debug
+    ));
+  }
+
+  const succeeded = jobResult.status >= 200 && jobResult.status < 300;
+  return createStandardMcpResponse(createStandardSuccessResponse(
+    {
+      jobId,
+      status: "completed",
+      succeeded,
+      httpStatus: jobResult.status,
+      payload: jobResult.payload
+    },
+    succeeded
+      ? `Job '${jobId}' completed successfully.`
+      : `Job '${jobId}' completed with an error (status ${jobResult.status}); see the payload for details.`,
+    undefined,
+    debug
+  ));
+});
@@ -0,0 +1 @@
+export * from "./handlers/index.js";
@@ -0,0 +1,8 @@
+/**
+ * @file index.ts
+ * @description Main exports for the Jobs domain
+ */
+
+export * from './schemas.js';
+export * from './Retrieve/index.js';
+export { registerJobsRouter } from './JobsRouterTool.js';
@@ -0,0 +1,26 @@
+/**
+ * @file schemas.ts
+ * @description Zod schemas for async job operations
+ */
+
+import { z } from "zod";
+import { baseToolSchema, jobTimeoutSchema } from "../../utils/sharedSchemas.js";
+import { jobResultIdSchema } from "../../types/branded.js";
+
+/**
+ * Schemas for all job-related actions
+ */
+export const jobSchemas = {
+  retrieve: baseToolSchema.extend({
+    jobId: jobResultIdSchema
+      .describe("The job ID returned by an action that started an async job (e.g. an environment fork)."),
+    wait: z.boolean()
+      .optional()
+      .default(false)
+      .describe("If true, keep polling until the job finishes or timeoutSeconds is reached. If false, check once."),
+    timeoutSeconds: jobTimeoutSchema
+  })
+};
+
+// Create an array of all available job actions for the enum
+export const jobActionsList = Object.keys(jobSchemas) as Array<keyof typeof jobSchemas>;
@@ -11,6 +11,7 @@ import { listLocalesHandler, getLocaleHandler } from './Read/index.js';
 import { updateLocaleHandler } from './Update/index.js';
 import { deleteLocaleHandler } from './Delete/index.js';
 import { assertNever } from '../../utils/exhaustive.js';
+import { createPolicyActionEnum, checkActionPolicy } from '../../utils/actionPolicy.js';
 
 /**
  * Combined schema for all locale operations
@@ -48,10 +49,10 @@ Locales define the languages available for content in your DatoCMS project.`;
    * Route the request to the appropriate handler based on the operation
    */
   async execute(args: LocalesToolArgs): Promise<any> {
-    const { operation, apiToken, environment, ...params } = args;
+    const { operation, apiToken, environment, project, ...params } = args;
 
     // Ensure we have base params for all operations
-    const baseParams = { apiToken, environment };
+    const baseParams = { apiToken, environment, project };
 
     switch (operation) {
       case "create":
@@ -81,7 +82,11 @@ Locales define the languages available for content in your DatoCMS project.`;
  * Registers the Locales router tool with the MCP server
  */
 export const registerLocalesRouter = (server: McpServer) => {
-  const actionEnum = z.enum(["create", "list", "get", "update", "delete"] as const);
+  const actionEnum = createPolicyActionEnum("locales", ["create", "list", "get", "update", "delete"]);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
   
   server.tool(
     "datocms_locales",
@@ -94,6 +99,12 @@ export const registerLocalesRouter = (server: McpServer) => {
       description: "Manage locales (languages) in DatoCMS projects"
     },
     async (args) => {
+      // Reject actions blocked by the server policy before anything else
+      const forbidden = checkActionPolicy("locales", args.action);
+      if (forbidden) {
+        return forbidden;
+      }
+
       const tool = new LocalesRouterTool();
       return await tool.execute({ operation: args.action, ...args.args } as LocalesToolArgs);
     }
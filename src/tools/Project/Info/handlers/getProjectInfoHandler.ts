@@ -32,10 +32,10 @@ export const getProjectInfoHandler = createCustomHandler({
     handlerName: 'getProjectInfoHandler'
   }
 }, async (args) => {
-  const { apiToken, environment } = args;
+  const { apiToken, environment, project } = args;
   
   // Initialize DatoCMS typed client
-  const projectClient = createProjectClient(apiToken, environment);
+  const projectClient = createProjectClient(apiToken, environment, project);
   
   // Retrieve the project information using the typed client
   const site = await projectClient.findSite();
@@ -0,0 +1,4 @@
+/**
+ * Export all project profiles handlers
+ */
+export * from './listProfilesHandler.js';
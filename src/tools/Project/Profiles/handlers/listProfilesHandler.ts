@@ -0,0 +1,46 @@
+/**
+ * @file listProfilesHandler.ts
+ * @description Handler for listing the project profiles configured on the server
+ *
+ * This handler uses the enhanced factory pattern which provides:
+ * - Automatic debug tracking when DEBUG=true
+ * - Standardized error handling
+ * - Schema validation
+ */
+
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { createResponse } from "../../../../utils/responseHandlers.js";
+import { getServerConfig, listProjectProfiles } from "../../../../utils/serverConfig.js";
+import { projectSchemas } from "../../schemas.js";
+
+/**
+ * Handler for listing the configured project profiles
+ *
+ * Reads the server configuration only; no DatoCMS API call is made and
+ * API tokens are never included in the response.
+ */
+export const listProfilesHandler = createCustomHandler({
+  domain: 'project',
+  schemaName: 'list_profiles',
+  schema: projectSchemas.list_profiles,
+  errorContext: {
+    operation: 'list',
+    resourceType: 'Project Profile',
+    handlerName: 'listProfilesHandler'
+  }
+}, async () => {
+  const serverConfig = getServerConfig();
+  const profiles = listProjectProfiles();
+
+  return createResponse(JSON.stringify({
+    success: true,
+    data: {
+      profiles,
+      defaultProfile: serverConfig.defaultProfile ?? null,
+      hasDefaultToken: Boolean(serverConfig.apiToken)
+    },
+    message: profiles.length > 0
+      ? `${profiles.length} project profile(s) configured. Pass 'project' with one of these names to target that project.`
+      : "No project profiles are configured on this server."
+  }, null, 2));
+});
@@ -0,0 +1,4 @@
+/**
+ * Export all Project Profiles handlers
+ */
+export * from './handlers/index.js';
@@ -3,11 +3,14 @@ import { createResponse } from "../../utils/responseHandlers.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { projectSchemas, projectActionsList } from "./schemas.js";
 import { createErrorResponse , extractDetailedErrorInfo } from "../../utils/errorHandlers.js";
+import { countActionArgs } from "../../utils/serverConfig.js";
+import { createPolicyActionEnum, checkActionPolicy } from "../../utils/actionPolicy.js";
 import { assertNever } from "../../utils/exhaustive.js";
 
 // Import handlers from subdirectories
 import { getProjectInfoHandler } from "./Info/handlers/index.js";
 import { updateSiteSettingsHandler } from "./Update/handlers/index.js";
+import { listProfilesHandler } from "./Profiles/handlers/index.js";
 
 // Annotate the args parameter with the discriminated union type
 // Currently unused but kept for potential future use
@@ -22,6 +25,7 @@ type ProjectAction = keyof typeof projectSchemas;
 // Type map for action arguments to help with type safety
 type ActionArgsMap = {
   get_info: z.infer<typeof projectSchemas.get_info>;
+  list_profiles: z.infer<typeof projectSchemas.list_profiles>;
   update_site_settings: z.infer<typeof projectSchemas.update_site_settings>;
 };
 
@@ -29,7 +33,11 @@ type ActionArgsMap = {
  * Registers the Project Router tool with the MCP server
  */
 export const registerProjectRouter = (server: McpServer) => {
-  const actionEnum = z.enum(projectActionsList as [string, ...string[]]);
+  const actionEnum = createPolicyActionEnum("project", projectActionsList);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
   
   server.tool(
     // Tool name - Using the new datocms_execute pattern with a specific prefix
@@ -47,11 +55,19 @@ export const registerProjectRouter = (server: McpServer) => {
     // Handler function for the project router
     async ({ action, args = {} }) => {
       try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("project", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
         // ALWAYS CHECK FOR PARAMETERS FIRST
         // If there are no arguments, redirect users to get_parameters first
         const shouldSuggestParams = (
           // These conditions indicate the user is likely not providing proper parameters
-          Object.keys(args).length === 0
+          countActionArgs(args) === 0 &&
+          // Listing profiles takes no parameters
+          action !== "list_profiles"
         );
         
         if (shouldSuggestParams) {
@@ -86,6 +102,11 @@ This will show you all the required parameters and their types.`);
               handlerResult = await getProjectInfoHandler(validatedArgs as ActionArgsMap['get_info']);
               break;
             
+            // Project profile operations
+            case "list_profiles":
+              handlerResult = await listProfilesHandler(validatedArgs as ActionArgsMap['list_profiles']);
+              break;
+            
             // Site settings operations
             case "update_site_settings":
               handlerResult = await updateSiteSettingsHandler(validatedArgs as ActionArgsMap['update_site_settings']);
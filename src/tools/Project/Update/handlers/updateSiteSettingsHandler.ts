@@ -34,11 +34,11 @@ export const updateSiteSettingsHandler = createCustomHandler({
     handlerName: 'updateSiteSettingsHandler'
   }
 }, async (args) => {
-  const { apiToken, settings, environment } = args;
+  const { apiToken, settings, environment, project } = args;
   
   try {
     // Initialize DatoCMS typed client
-    const projectClient = createProjectClient(apiToken, environment);
+    const projectClient = createProjectClient(apiToken, environment, project);
     
     // Update the site settings using the typed client
     const updatedSite = await projectClient.updateSite(settings as SiteUpdateParams);
@@ -6,5 +6,6 @@
  */
 export * from './Info/index.js';
 export * from './Update/index.js';
+export * from './Profiles/index.js';
 // Export the Project Router Tool directly
 export { registerProjectRouter, destroy } from './ProjectRouterTool.js';
@@ -27,8 +27,8 @@ export interface ProjectClient {
 export class TypedProjectClient implements ProjectClient {
   private client: any;
   
-  constructor(apiToken: string, environment?: string) {
-    this.client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  constructor(apiToken?: string, environment?: string, project?: string) {
+    this.client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   }
   
   // Site operations
@@ -46,6 +46,6 @@ export class TypedProjectClient implements ProjectClient {
 /**
  * Factory function to create a typed project client
  */
-export function createProjectClient(apiToken: string, environment?: string): ProjectClient {
-  return new TypedProjectClient(apiToken, environment);
+export function createProjectClient(apiToken?: string, environment?: string, project?: string): ProjectClient {
+  return new TypedProjectClient(apiToken, environment, project);
 }
\ No newline at end of file
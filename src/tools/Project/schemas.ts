@@ -10,6 +10,10 @@ export const projectSchemas = {
   // Project info operations
   get_info: baseToolSchema,
 
+  // Project profile operations (no API call, so no credentials needed)
+  list_profiles: baseToolSchema.pick({ debug: true })
+    .describe("List the project profiles configured on this server. Returns each profile's name, default environment and description; API tokens are never included."),
+
   // Site settings operations
   update_site_settings: baseToolSchema.extend({
     settings: z.record(z.any()).describe("Object containing site settings to update. Keys can include 'name', 'locales', 'timezone', etc. Only the fields you want to update need to be included.")
@@ -11,6 +11,9 @@
 
 import { createCreateHandler, DatoCMSClient, RequestContext, BaseParams } from "../../../../utils/enhancedHandlerFactory.js";
 import { recordsSchemas } from "../../schemas.js";
+import { convertStructuredTextInputs, hasStructuredTextInput, type StructuredTextInputField } from "../../structuredTextInput.js";
+import { buildBlockInputs, hasBlockInput } from "../../blockBuilder.js";
+import { assertValidRecordPayload } from "../../payloadValidation.js";
 import { SimpleSchemaTypes } from "@datocms/cma-client-node";
 
 // Extend the inferred type with BaseParams
@@ -22,6 +25,7 @@ interface CreateRecordParams extends BaseParams {
     current_version?: string;
   };
   returnOnlyConfirmation?: boolean;
+  validate?: boolean;
 }
 
 /**
@@ -49,16 +53,30 @@ export const createRecordHandler = createCreateHandler<CreateRecordParams, Simpl
     const { 
       itemType, 
       data, 
-      meta
+      meta,
+      validate = false
     } = args;
     
+    // Markdown and HTML values of Structured Text fields are converted to DAST,
+    // and `_block` shorthands built into block payloads, before anything is sent;
+    // on request, the result is then checked against the model
+    let fieldValues = data;
+    if (validate || hasStructuredTextInput(data) || hasBlockInput(data)) {
+      const fields = await client.fields.list(itemType) as StructuredTextInputField[];
+      fieldValues = convertStructuredTextInputs(fieldValues, fields);
+      fieldValues = await buildBlockInputs(client, fieldValues, fields);
+      if (validate) {
+        await assertValidRecordPayload(client, fieldValues, fields, true);
+      }
+    }
+
     // Create the item
     const createdItem = await client.items.create({
       item_type: { 
         id: itemType, 
         type: "item_type" 
       },
-      ...data,
+      ...fieldValues,
       ...(meta && { meta })
     });
     
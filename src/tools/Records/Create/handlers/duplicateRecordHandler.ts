@@ -25,11 +25,11 @@ export const duplicateRecordHandler = createCustomHandler<DuplicateRecordParams,
     schema: recordsSchemas.duplicate
   },
   async (args) => {
-    const { itemId, returnOnlyConfirmation = false, apiToken, environment } = args;
+    const { itemId, returnOnlyConfirmation = false, apiToken, environment, project } = args;
     
     // Get the records client
     const { UnifiedClientManager } = await import("../../../../utils/unifiedClientManager.js");
-    const client = UnifiedClientManager.getDefaultClient(apiToken, environment) as Client;
+    const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project) as Client;
     
     // Duplicate the item
     const duplicatedItem = await client.items.duplicate(itemId);
@@ -5,7 +5,8 @@
  */
 
 import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
-import { createResponse, Response as MCPResponse } from "../../../../utils/responseHandlers.js";
+import { Response as MCPResponse } from "../../../../utils/responseHandlers.js";
+import { executeBulk, createBulkResponse } from "../../../../utils/bulkExecutor.js";
 import { recordsSchemas } from "../../schemas.js";
 import type { BaseParams } from "../../../../utils/enhancedHandlerFactory.js";
 import type { Client } from "@datocms/cma-client-node";
@@ -24,33 +25,26 @@ export const bulkDestroyRecordsHandler = createCustomHandler<BulkDestroyRecordsP
     schema: recordsSchemas.bulk_destroy
   },
   async (args) => {
-    const { itemIds, apiToken, environment } = args;
+    const { itemIds, apiToken, environment, project, debug } = args;
 
     // Get the records client
     const { UnifiedClientManager } = await import("../../../../utils/unifiedClientManager.js");
-    const client = UnifiedClientManager.getDefaultClient(apiToken, environment) as Client;
+    const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project) as Client;
 
     // Check if we have any IDs to delete
     if (!Array.isArray(itemIds) || itemIds.length === 0) {
       throw new Error("No record IDs provided for deletion or itemIds is not an array.");
     }
     
-    // Check maximum number of records (similar to bulk publish)
-    if (itemIds.length > 200) {
-      throw new Error("Maximum of 200 records allowed per bulk delete request.");
-    }
-    
-    // Format input for bulkDestroy with explicit type annotation
-    // Format each ID into the required structure for the API
-    const itemsToDelete = itemIds.map((id) => ({ type: "item" as const, id }));
-    
-    // Execute bulk deletion
-    await client.items.bulkDestroy({
-      items: itemsToDelete,
+    // Delete in chunks of the API limit, isolating failing IDs one by one
+    const report = await executeBulk({
+      ids: itemIds,
+      runChunk: (ids) => client.items.bulkDestroy({
+        items: ids.map((id) => ({ type: "item" as const, id }))
+      }),
+      runItem: (id) => client.items.destroy(id)
     });
     
-    // Return success response with count
-    const message = `Successfully deleted ${itemIds.length} record(s) with IDs: ${itemIds.join(", ")}`;
-    return createResponse(JSON.stringify({ success: true, message }, null, 2));
+    return createBulkResponse(report, "deleted", "record(s)", debug);
   }
 );
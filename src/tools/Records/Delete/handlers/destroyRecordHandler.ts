@@ -9,12 +9,30 @@ import { recordsSchemas } from "../../schemas.js";
 import { SimpleSchemaTypes } from "@datocms/cma-client-node";
 import { createStandardSuccessResponse, createStandardMcpResponse } from "../../../../utils/standardResponse.js";
 import type { Response as McpResponse } from "../../../../utils/responseHandlers.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
 
 interface DestroyRecordParams extends BaseParams {
   itemId: string;
   returnOnlyConfirmation?: boolean;
 }
 
+/**
+ * Reads a record's title: the model's title field, else its first string field,
+ * in the first locale that has a value
+ */
+function recordTitle(item: SimpleSchemaTypes.Item, model: SimpleSchemaTypes.ItemType, fields: SimpleSchemaTypes.Field[]): string | null {
+  const titleField = fields.find(field => field.id === model.title_field?.id)
+    ?? fields.find(field => field.field_type === "string");
+  const value = titleField ? item[titleField.api_key] : undefined;
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.values(value).find((localeValue): localeValue is string => typeof localeValue === "string" && localeValue !== "") ?? null;
+  }
+  return null;
+}
+
 /**
  * Handler function for deleting a DatoCMS record
  */
@@ -26,14 +44,28 @@ export const destroyRecordHandler = createCustomHandler<DestroyRecordParams, Mcp
     errorContext: {
       operation: "delete",
       resourceType: "Record"
+    },
+    // The preview names the record, so the user can tell it's the right one
+    confirmationPreview: async (params) => {
+      const client = UnifiedClientManager.getDefaultClient(params.apiToken, params.environment, params.project);
+      const item = await client.items.find(params.itemId);
+      const model = await client.itemTypes.find(item.item_type.id);
+      const fields = await client.fields.list(model.id);
+      return {
+        record: {
+          id: item.id,
+          title: recordTitle(item, model, fields),
+          model: model.api_key,
+          status: item.meta.status
+        }
+      };
     }
   },
   async (args) => {
-    const { apiToken, environment, itemId, returnOnlyConfirmation = false } = args;
+    const { apiToken, environment, project, itemId, returnOnlyConfirmation = false } = args;
     
     // Get the client
-    const { UnifiedClientManager } = await import("../../../../utils/unifiedClientManager.js");
-    const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+    const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
     
     const deletedItem = await client.items.destroy(itemId) as SimpleSchemaTypes.Item;
     
@@ -0,0 +1,106 @@
+/**
+ * @file exportRecordsHandler.ts
+ * @description Handler for exporting records to a CSV, JSON or NDJSON file
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { fetchAllPages } from "../../../../utils/fetchAll.js";
+import { resolveLocalFilePath } from "../../../../utils/localFiles.js";
+import { findMostPopulatedLocale, keepOnlyLocale } from "../../../../utils/returnMostPopulatedLocale.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
+import { createStandardMcpResponse, createStandardSuccessResponse } from "../../../../utils/standardResponse.js";
+import {
+  buildExportColumns,
+  flattenRecord,
+  resolveFileFormat,
+  serializeRows,
+  type ExportField
+} from "../../recordExport.js";
+import { buildRecordQueryParams, listRecordsPage } from "../../recordQuery.js";
+import { recordsSchemas } from "../../schemas.js";
+import type { Item } from "../../types.js";
+
+/**
+ * Handler for exporting every record matching a query to a file in the server's files directory
+ */
+export const exportRecordsHandler = createCustomHandler({
+  domain: "records",
+  schemaName: "export",
+  schema: recordsSchemas.export,
+  errorContext: {
+    operation: "export",
+    resourceType: "Record",
+    handlerName: "exportRecordsHandler"
+  }
+}, async (args) => {
+  const {
+    apiToken,
+    environment,
+    project,
+    debug,
+    path: outputPath,
+    format: requestedFormat,
+    structuredText = "text",
+    mostPopulatedLocale = false,
+    maxRecords,
+    overwrite = false,
+    ...filters
+  } = args;
+
+  const format = resolveFileFormat(outputPath, requestedFormat);
+  const filePath = await resolveLocalFilePath(outputPath);
+  if (!overwrite && await fs.stat(filePath).then(() => true, () => false)) {
+    throw new Error(`'${outputPath}' already exists. Pass overwrite: true to replace it.`);
+  }
+
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
+
+  // Links and blocks are exported as IDs, so nested payloads aren't needed
+  const queryParams = await buildRecordQueryParams(client, { ...filters, nested: false });
+  const result = await fetchAllPages({
+    fetchPage: (offset, limit) => listRecordsPage(client, { ...queryParams, page: { offset, limit } }),
+    startOffset: 0,
+    maxRecords,
+    maxBytes: Infinity,
+    noun: "records"
+  });
+
+  // Columns follow the models in the order their first record appears
+  const [models, site] = await Promise.all([client.itemTypes.list(), client.site.find()]);
+  const modelApiKeys = new Map(models.map(model => [model.id, model.api_key]));
+  const fieldsByModel = new Map<string, ExportField[]>();
+  for (const record of result.items) {
+    if (!fieldsByModel.has(record.item_type.id)) {
+      fieldsByModel.set(record.item_type.id, await client.fields.list(record.item_type.id) as ExportField[]);
+    }
+  }
+
+  const options = { locales: site.locales, structuredText, singleLocale: mostPopulatedLocale };
+  const columns = buildExportColumns([...fieldsByModel.values()].flat(), options);
+  const rows = result.items.map(record => {
+    // Each record keeps its own most populated locale (the main one when none is filled),
+    // named in the row so imports can put the values back in that locale
+    const locale = mostPopulatedLocale ? findMostPopulatedLocale(record) ?? site.locales[0] ?? null : null;
+    return flattenRecord(
+      locale ? keepOnlyLocale(record, locale) as Item : record,
+      modelApiKeys.get(record.item_type.id) ?? record.item_type.id,
+      fieldsByModel.get(record.item_type.id) ?? [],
+      options,
+      locale
+    );
+  });
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, serializeRows(rows, columns, format), "utf8");
+
+  const remaining = result.totalCount - rows.length;
+  return createStandardMcpResponse(createStandardSuccessResponse(
+    { path: filePath, format, rows: rows.length, columns, totalCount: result.totalCount },
+    `Exported ${rows.length} record(s) to ${filePath} (${format}, ${columns.length} columns).`
+      + (remaining > 0 ? ` ${remaining} more matching record(s) were left out by maxRecords.` : ""),
+    undefined,
+    debug
+  ));
+});
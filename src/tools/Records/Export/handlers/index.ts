@@ -0,0 +1,4 @@
+/**
+ * Export all record export handlers
+ */
+export * from './exportRecordsHandler.js';
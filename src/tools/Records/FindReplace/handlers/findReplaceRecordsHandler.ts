@@ -0,0 +1,149 @@
+/**
+ * @file findReplaceRecordsHandler.ts
+ * @description Handler for finding and replacing text across the records of a model
+ */
+
+import type { Client } from "@datocms/cma-client-node";
+import type { z } from "zod";
+import { createBulkResponse, executeBulk } from "../../../../utils/bulkExecutor.js";
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { fetchAllPages } from "../../../../utils/fetchAll.js";
+import { reportProgress } from "../../../../utils/progress.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
+import { createStandardMcpResponse, createStandardSuccessResponse } from "../../../../utils/standardResponse.js";
+import {
+  createMatcher,
+  replaceInRecord,
+  SEARCHABLE_FIELD_TYPES,
+  type FindReplaceMatch,
+  type RecordReplacement,
+  type SearchableField
+} from "../../findReplace.js";
+import { listRecordsPage } from "../../recordQuery.js";
+import { recordsSchemas } from "../../schemas.js";
+
+/** How many matches the confirmation preview shows */
+const PREVIEW_SAMPLE_SIZE = 20;
+
+type FindReplaceArgs = z.input<typeof recordsSchemas.find_replace>;
+
+/**
+ * A record with matches, and the version it was read at
+ */
+interface PlannedReplacement extends RecordReplacement {
+  id: string;
+  currentVersion: string;
+}
+
+/**
+ * Scans every record of the model and works out the replacements
+ */
+async function planReplacements(client: Client, args: FindReplaceArgs): Promise<{ scannedRecords: number; planned: PlannedReplacement[] }> {
+  const { modelId, modelName, find, replace, regex = false, caseSensitive = true, locale, fields: fieldKeys } = args;
+  const matcher = createMatcher({ find, regex, caseSensitive });
+
+  const model = await client.itemTypes.find((modelId || modelName)!);
+  const modelFields = await client.fields.list(model.id) as SearchableField[];
+
+  let fields = modelFields.filter(field => SEARCHABLE_FIELD_TYPES.includes(field.field_type));
+  if (fieldKeys) {
+    for (const apiKey of fieldKeys) {
+      const field = modelFields.find(candidate => candidate.api_key === apiKey);
+      if (!field) {
+        throw new Error(`'${apiKey}' isn't a field of '${model.api_key}'. Fields: ${modelFields.map(candidate => candidate.api_key).join(", ")}.`);
+      }
+      if (!SEARCHABLE_FIELD_TYPES.includes(field.field_type)) {
+        throw new Error(`'${apiKey}' is a ${field.field_type} field; find_replace searches ${SEARCHABLE_FIELD_TYPES.join(", ")} fields.`);
+      }
+    }
+    fields = fields.filter(field => fieldKeys.includes(field.api_key));
+  }
+  if (fields.length === 0) {
+    throw new Error(`'${model.api_key}' has no ${SEARCHABLE_FIELD_TYPES.join(", ")} fields to search.`);
+  }
+
+  const { items } = await fetchAllPages({
+    fetchPage: (offset, limit) => listRecordsPage(client, {
+      filter: { type: model.id },
+      version: "current",
+      nested: false,
+      page: { offset, limit }
+    }),
+    startOffset: 0,
+    maxBytes: Infinity,
+    noun: "records"
+  });
+
+  const planned: PlannedReplacement[] = [];
+  for (const item of items) {
+    const replacement = replaceInRecord(item, fields, matcher, { find, replace, regex, caseSensitive, locale });
+    if (replacement.matches.length > 0) {
+      planned.push({ id: item.id, currentVersion: item.meta.current_version, ...replacement });
+    }
+  }
+  return { scannedRecords: items.length, planned };
+}
+
+/**
+ * Counts the matches of planned replacements
+ */
+function countMatches(planned: PlannedReplacement[]): number {
+  return planned.reduce((total, record) => total + record.matches.length, 0);
+}
+
+/**
+ * Handler for replacing text in the string, text, SEO and Structured Text
+ * fields of every record of a model
+ */
+export const findReplaceRecordsHandler = createCustomHandler({
+  domain: "records",
+  schemaName: "find_replace",
+  schema: recordsSchemas.find_replace,
+  errorContext: {
+    operation: "find_replace",
+    resourceType: "Records",
+    handlerName: "findReplaceRecordsHandler"
+  },
+  // The confirmation preview shows each match in context, before and after
+  confirmationPreview: async (params) => {
+    const client = UnifiedClientManager.getDefaultClient(params.apiToken, params.environment, params.project);
+    const { scannedRecords, planned } = await planReplacements(client, params);
+    const samples: Array<FindReplaceMatch & { id: string }> = planned
+      .flatMap(record => record.matches.map(match => ({ id: record.id, ...match })))
+      .slice(0, PREVIEW_SAMPLE_SIZE);
+    return { scannedRecords, matchedRecords: planned.length, replacements: countMatches(planned), samples };
+  }
+}, async (args) => {
+  const { apiToken, environment, project, debug } = args;
+
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
+  const { scannedRecords, planned } = await planReplacements(client, args);
+
+  if (planned.length === 0) {
+    return createStandardMcpResponse(createStandardSuccessResponse(
+      { scannedRecords, matchedRecords: 0 },
+      `No matches in ${scannedRecords} record(s); nothing was changed.`,
+      undefined,
+      debug
+    ));
+  }
+
+  const byId = new Map(planned.map(record => [record.id, record]));
+  let done = 0;
+  const report = await executeBulk({
+    ids: planned.map(record => record.id),
+    chunkSize: 1,
+    runChunk: async ([id]) => {
+      const record = byId.get(id!)!;
+      try {
+        // Sending the version the record was read at keeps concurrent edits from being overwritten
+        await client.items.update(record.id, { ...record.data, meta: { current_version: record.currentVersion } });
+      } finally {
+        done++;
+        await reportProgress(done, planned.length, `Updated ${done} of ${planned.length} records`);
+      }
+    }
+  });
+
+  return createBulkResponse(report, "updated", "record(s)", debug);
+});
@@ -0,0 +1,4 @@
+/**
+ * Export all record find and replace handlers
+ */
+export * from './findReplaceRecordsHandler.js';
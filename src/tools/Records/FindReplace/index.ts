@@ -0,0 +1,6 @@
+/**
+ * Export all find and replace operation handlers via the handlers directory
+ */
+
+// Export all handlers
+export * from './handlers/index.js';
@@ -0,0 +1,231 @@
+/**
+ * @file importRecordsHandler.ts
+ * @description Handler for importing records from a CSV, JSON or NDJSON file
+ */
+
+import fs from "node:fs/promises";
+import { executeBulk } from "../../../../utils/bulkExecutor.js";
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { resolveLocalFilePath } from "../../../../utils/localFiles.js";
+import { reportProgress } from "../../../../utils/progress.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
+import {
+  createStandardErrorResponse,
+  createStandardMcpResponse,
+  createStandardSuccessResponse
+} from "../../../../utils/standardResponse.js";
+import { alignRecordLocales } from "../../localeMerge.js";
+import { resolveFileFormat } from "../../recordExport.js";
+import {
+  buildRowPayload,
+  findLossyValues,
+  findMissingRequiredValues,
+  mapColumns,
+  parseRecordFile,
+  type ImportField,
+  type RowPayload
+} from "../../recordImport.js";
+import { listRecordsPage } from "../../recordQuery.js";
+import { recordsSchemas } from "../../schemas.js";
+import type { Item } from "../../types.js";
+
+/** How many existing records are looked up per request */
+const LOOKUP_CHUNK_SIZE = 100;
+
+/**
+ * Outcome of importing one row
+ */
+interface ImportRowResult {
+  /** Data row number, from 1 (in CSV, row 1 is the line after the header) */
+  row: number;
+  action: "create" | "update";
+  success: boolean;
+  /** ID of the created or updated record */
+  id?: string;
+  error?: string;
+}
+
+/**
+ * Handler for importing the rows of a file in the server's files directory as records of a model
+ */
+export const importRecordsHandler = createCustomHandler({
+  domain: "records",
+  schemaName: "import",
+  schema: recordsSchemas.import,
+  errorContext: {
+    operation: "import",
+    resourceType: "Record",
+    handlerName: "importRecordsHandler"
+  }
+}, async (args) => {
+  const {
+    apiToken,
+    environment,
+    project,
+    debug,
+    path: inputPath,
+    format: requestedFormat,
+    modelId,
+    modelName,
+    mapping: overrides,
+    mode = "create",
+    validateOnly = false
+  } = args;
+
+  const format = resolveFileFormat(inputPath, requestedFormat);
+  const filePath = await resolveLocalFilePath(inputPath);
+  // The fs error would repeat the absolute path, so only its code is reported
+  const text = await fs.readFile(filePath, "utf8").catch((error: NodeJS.ErrnoException) => {
+    throw new Error(`Could not read '${inputPath}' (${error.code ?? "unknown error"}).`);
+  });
+  const rows = parseRecordFile(text, format);
+
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
+  const model = await client.itemTypes.find((modelId || modelName)!);
+  if (model.modular_block) {
+    throw new Error(`'${model.api_key}' is a block model. Blocks are imported as part of the records that use them.`);
+  }
+  const [fields, site] = await Promise.all([
+    client.fields.list(model.id) as Promise<ImportField[]>,
+    client.site.find()
+  ]);
+
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const mapping = mapColumns(columns, fields, site.locales, overrides);
+  const summary = {
+    rows: rows.length,
+    mapping: Object.fromEntries([...mapping.targets].map(([column, target]) => [
+      column,
+      target.kind === "field"
+        ? target.locale ? `${target.field.api_key}[${target.locale}]` : target.field.api_key
+        : target.kind
+    ])),
+    ignoredColumns: mapping.ignored
+  };
+  if (mapping.errors.length > 0) {
+    return createStandardMcpResponse(createStandardErrorResponse(
+      `The columns of '${inputPath}' can't be mapped to '${model.api_key}':\n${mapping.errors.join("\n")}`,
+      { error_code: "IMPORT_MAPPING_INVALID", errors: mapping.errors, ...summary },
+      debug
+    ));
+  }
+
+  const payloads = rows.map((row, index) => buildRowPayload(row, index + 1, mapping, site.locales));
+
+  // Rows with an ID update their record in upsert mode, so look the records up first
+  const existing = new Map<string, Item>();
+  const ids = [...new Set(payloads.flatMap(payload => payload.id ? [payload.id] : []))];
+  for (let index = 0; index < ids.length; index += LOOKUP_CHUNK_SIZE) {
+    const chunk = ids.slice(index, index + LOOKUP_CHUNK_SIZE);
+    const { items } = await listRecordsPage(client, {
+      filter: { ids: chunk.join(",") },
+      version: "current",
+      nested: false,
+      page: { offset: 0, limit: chunk.length }
+    });
+    items.forEach(item => existing.set(item.id, item));
+  }
+
+  const updating = (payload: RowPayload) => !!payload.id && existing.has(payload.id);
+  for (const payload of payloads) {
+    const record = payload.id ? existing.get(payload.id) : undefined;
+    if (!updating(payload)) {
+      // A new record's localized fields share the locales the row fills (null where a field has none)
+      payload.data = alignRecordLocales({}, payload.data, fields.filter(field => field.api_key in payload.data));
+    }
+    if (record && record.item_type.id !== model.id) {
+      payload.errors.push(`id: record '${payload.id}' belongs to another model`);
+    } else if (record && mode === "create") {
+      payload.errors.push(`id: record '${payload.id}' already exists; use mode 'upsert' to update it`);
+    }
+    payload.errors.push(...findMissingRequiredValues(payload, fields, !updating(payload)));
+    payload.errors.push(...findLossyValues(payload, fields, updating(payload) ? record : undefined));
+  }
+
+  // Nothing is written unless every row is valid
+  const invalid = payloads.filter(payload => payload.errors.length > 0).map(({ row, errors }) => ({ row, errors }));
+  if (invalid.length > 0) {
+    return createStandardMcpResponse(createStandardErrorResponse(
+      `${invalid.length} of ${rows.length} row(s) are invalid; nothing was imported. First problem: row ${invalid[0]!.row}, ${invalid[0]!.errors[0]}`,
+      { error_code: "IMPORT_VALIDATION_FAILED", invalidRows: invalid, ...summary },
+      debug
+    ));
+  }
+
+  const creates = payloads.filter(payload => !updating(payload)).length;
+  if (validateOnly) {
+    return createStandardMcpResponse(createStandardSuccessResponse(
+      { ...summary, toCreate: creates, toUpdate: payloads.length - creates },
+      `All ${rows.length} row(s) are valid: ${creates} would be created and ${payloads.length - creates} updated. Nothing was written.`,
+      undefined,
+      debug
+    ));
+  }
+
+  // Each row is its own chunk of the bulk engine: there is no bulk create endpoint
+  const results = new Map<number, ImportRowResult>();
+  let done = 0;
+  const report = await executeBulk({
+    ids: payloads.map(payload => String(payload.row)),
+    chunkSize: 1,
+    runChunk: async ([rowKey]) => {
+      const payload = payloads[Number(rowKey) - 1]!;
+      const record = payload.id ? existing.get(payload.id) : undefined;
+      try {
+        if (record) {
+          // Keep the locales of localized fields that the file doesn't fill, and add
+          // the locales it does fill to the record's other localized fields
+          const data = Object.fromEntries(Object.entries(payload.data).map(([apiKey, value]) =>
+            fields.find(field => field.api_key === apiKey)?.localized
+              ? [apiKey, { ...(record[apiKey] as Record<string, unknown> | null), ...(value as Record<string, unknown>) }]
+              : [apiKey, value]));
+          await client.items.update(record.id, alignRecordLocales(record, data, fields));
+          results.set(payload.row, { row: payload.row, action: "update", success: true, id: record.id });
+        } else {
+          const created = await client.items.create({
+            item_type: { type: "item_type", id: model.id },
+            ...(payload.id && { id: payload.id }),
+            ...payload.data
+          });
+          results.set(payload.row, { row: payload.row, action: "create", success: true, id: created.id });
+        }
+      } finally {
+        done++;
+        await reportProgress(done, payloads.length, `Imported ${done} of ${payloads.length} rows`);
+      }
+    }
+  });
+
+  const rowResults = report.results.map(({ id: rowKey, error }): ImportRowResult => {
+    const row = Number(rowKey);
+    const payload = payloads[row - 1]!;
+    return results.get(row) ?? {
+      row,
+      action: updating(payload) ? "update" : "create",
+      success: false,
+      ...(payload.id && { id: payload.id }),
+      ...(error && { error })
+    };
+  });
+  const created = rowResults.filter(result => result.success && result.action === "create").length;
+  const updated = rowResults.filter(result => result.success && result.action === "update").length;
+  const importReport = { ...summary, succeeded: report.succeeded, failed: report.failed, created, updated, results: rowResults };
+
+  if (report.succeeded === 0 && report.total > 0) {
+    return createStandardMcpResponse(createStandardErrorResponse(
+      `The import failed for all ${report.total} row(s); none were imported.`,
+      { error_code: "IMPORT_FAILED", import: importReport },
+      debug
+    ));
+  }
+
+  const counts = `${created} created, ${updated} updated`;
+  return createStandardMcpResponse(createStandardSuccessResponse(
+    importReport,
+    report.failed > 0
+      ? `${report.succeeded} of ${report.total} row(s) imported into '${model.api_key}' (${counts}); ${report.failed} failed (see the result for each row).`
+      : `${report.total} row(s) imported into '${model.api_key}' (${counts}).`,
+    undefined,
+    debug
+  ));
+});
@@ -0,0 +1,4 @@
+/**
+ * Export all record import handlers
+ */
+export * from './importRecordsHandler.js';
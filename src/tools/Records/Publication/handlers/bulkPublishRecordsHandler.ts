@@ -7,7 +7,8 @@
 import { createCustomHandler, BaseParams } from "../../../../utils/enhancedHandlerFactory.js";
 import { recordsSchemas } from "../../schemas.js";
 import { SimpleSchemaTypes } from "@datocms/cma-client-node";
-import { createResponse, Response as McpResponse } from "../../../../utils/responseHandlers.js";
+import { Response as McpResponse } from "../../../../utils/responseHandlers.js";
+import { executeBulk, createBulkResponse } from "../../../../utils/bulkExecutor.js";
 
 interface BulkPublishParams extends BaseParams {
   itemIds: string[];
@@ -30,35 +31,40 @@ export const bulkPublishRecordsHandler = createCustomHandler<BulkPublishParams,
     }
   },
   async (args) => {
-    const { apiToken, environment, itemIds } = args;
+    const { apiToken, environment, project, itemIds, content_in_locales, non_localized_content, recursive, debug } = args;
     
     // Check if we have any IDs to publish
     if (itemIds.length === 0) {
       throw new Error("No record IDs provided for publication.");
     }
     
-    // Check maximum number of records (DatoCMS API limit)
-    if (itemIds.length > 200) {
-      throw new Error("Maximum of 200 records allowed per bulk publish request.");
-    }
-    
     // Get the client
     const { UnifiedClientManager } = await import("../../../../utils/unifiedClientManager.js");
-    const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+    const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
     
-    // Format input for bulkPublish with explicit type annotation
-    const itemsToPublish: SimpleSchemaTypes.ItemBulkPublishSchema = {
-      items: itemIds.map(id => ({ type: "item", id }))
-    };
+    // Only single-record publishing supports selective locales and recursion,
+    // so those requests go one record at a time
+    const publishBody: SimpleSchemaTypes.ItemPublishSchema | undefined = content_in_locales && non_localized_content !== undefined
+      ? { type: "selective_publish_operation", content_in_locales, non_localized_content }
+      : undefined;
+    const publishOne = (id: string) => client.items.publish(id, publishBody, { recursive });
+    const publishOneByOne = Boolean(publishBody || recursive);
     
-    // Call bulkPublish API
-    const result = await client.items.bulkPublish(itemsToPublish);
+    // Publish in chunks of the API limit, isolating failing IDs one by one
+    const report = await executeBulk({
+      ids: itemIds,
+      chunkSize: publishOneByOne ? 1 : undefined,
+      runChunk: publishOneByOne
+        ? (ids) => Promise.all(ids.map(publishOne))
+        : (ids) => {
+            const itemsToPublish: SimpleSchemaTypes.ItemBulkPublishSchema = {
+              items: ids.map(id => ({ type: "item", id }))
+            };
+            return client.items.bulkPublish(itemsToPublish);
+          },
+      runItem: publishOneByOne ? undefined : publishOne
+    });
     
-    // Return response
-    return createResponse(JSON.stringify({
-      success: true,
-      data: result,
-      message: `Successfully published ${itemIds.length} record(s).`
-    }, null, 2));
+    return createBulkResponse(report, "published", "record(s)", debug);
   }
 );
@@ -7,7 +7,8 @@
 import { createCustomHandler, BaseParams } from "../../../../utils/enhancedHandlerFactory.js";
 import { recordsSchemas } from "../../schemas.js";
 import { SimpleSchemaTypes } from "@datocms/cma-client-node";
-import { createResponse, Response as McpResponse } from "../../../../utils/responseHandlers.js";
+import { Response as McpResponse } from "../../../../utils/responseHandlers.js";
+import { executeBulk, createBulkResponse } from "../../../../utils/bulkExecutor.js";
 
 // Define proper params that extend BaseParams
 interface BulkUnpublishParams extends BaseParams {
@@ -29,35 +30,35 @@ export const bulkUnpublishRecordsHandler = createCustomHandler<BulkUnpublishPara
     }
   },
   async (args) => {
-    const { apiToken, environment, itemIds } = args;
+    const { apiToken, environment, project, itemIds, recursive, debug } = args;
     
     // Check if we have any IDs to unpublish
     if (itemIds.length === 0) {
       throw new Error("No record IDs provided for unpublication.");
     }
     
-    // Check maximum number of records (DatoCMS API limit)
-    if (itemIds.length > 200) {
-      throw new Error("Maximum of 200 records allowed per bulk unpublish request.");
-    }
-    
     // Get the client
     const { UnifiedClientManager } = await import("../../../../utils/unifiedClientManager.js");
-    const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+    const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
     
-    // Format input for bulkUnpublish with explicit type annotation
-    const itemsToUnpublish: SimpleSchemaTypes.ItemBulkUnpublishSchema = {
-      items: itemIds.map(id => ({ type: "item", id }))
-    };
+    // Only single-record unpublishing supports recursion, so those requests go one record at a time
+    const unpublishOne = (id: string) => client.items.unpublish(id, undefined, { recursive });
     
-    // Call bulkUnpublish API
-    const result = await client.items.bulkUnpublish(itemsToUnpublish);
+    // Unpublish in chunks of the API limit, isolating failing IDs one by one
+    const report = await executeBulk({
+      ids: itemIds,
+      chunkSize: recursive ? 1 : undefined,
+      runChunk: recursive
+        ? (ids) => Promise.all(ids.map(unpublishOne))
+        : (ids) => {
+            const itemsToUnpublish: SimpleSchemaTypes.ItemBulkUnpublishSchema = {
+              items: ids.map(id => ({ type: "item", id }))
+            };
+            return client.items.bulkUnpublish(itemsToUnpublish);
+          },
+      runItem: recursive ? undefined : unpublishOne
+    });
     
-    // Return response
-    return createResponse(JSON.stringify({
-      success: true,
-      data: result,
-      message: `Successfully unpublished ${itemIds.length} record(s).`
-    }, null, 2));
+    return createBulkResponse(report, "unpublished", "record(s)", debug);
   }
 );
@@ -11,6 +11,7 @@
 
 import { createRetrieveHandler } from "../../../../utils/enhancedHandlerFactory.js";
 import { returnMostPopulatedLocale } from "../../../../utils/returnMostPopulatedLocale.js";
+import { renderStructuredText } from "../../../../utils/renderStructuredText.js";
 import { recordsSchemas } from "../../schemas.js";
 import type { Item } from "../../types.js";
 import { isPublished, hasScheduledPublication, hasScheduledUnpublishing } from "../../advancedTypes.js";
@@ -36,6 +37,7 @@ export const getRecordByIdHandler = createRetrieveHandler({
       itemId, 
       version = "published", 
       returnAllLocales = false, 
+      structuredTextFormat = "dast",
       nested = true 
     } = args;
     
@@ -73,8 +75,8 @@ export const getRecordByIdHandler = createRetrieveHandler({
       additionalInfo.push(`Scheduled Unpublishing: ${new Date(item.meta.unpublishing_scheduled_at!).toLocaleString()}`);
     }
     
-    // Process locales
-    const processedItem = returnMostPopulatedLocale(item, returnAllLocales);
+    // Process locales, then render Structured Text as asked
+    const processedItem = renderStructuredText(returnMostPopulatedLocale(item, returnAllLocales), structuredTextFormat);
     
     // Add locale information if returning all locales
     let localeNote = '';
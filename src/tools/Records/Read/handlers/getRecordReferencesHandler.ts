@@ -8,6 +8,7 @@ import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js
 import { createResponse, Response as MCPResponse } from "../../../../utils/responseHandlers.js";
 import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
 import { returnMostPopulatedLocale } from "../../../../utils/returnMostPopulatedLocale.js";
+import { renderStructuredText, type StructuredTextFormat } from "../../../../utils/renderStructuredText.js";
 import { recordsSchemas } from "../../schemas.js";
 import type { BaseParams } from "../../../../utils/enhancedHandlerFactory.js";
 import type { Client } from "@datocms/cma-client-node";
@@ -16,6 +17,7 @@ interface GetRecordReferencesParams extends BaseParams {
   itemId: string;
   version?: "current" | "published";
   returnAllLocales?: boolean;
+  structuredTextFormat?: StructuredTextFormat;
   nested?: boolean;
   returnOnlyIds?: boolean;
 }
@@ -31,15 +33,17 @@ export const getRecordReferencesHandler = createCustomHandler<GetRecordReference
   const {
     apiToken,
     environment,
+    project,
     itemId,
     version = "current",
     returnAllLocales = false,
+    structuredTextFormat = "dast",
     nested = true,
     returnOnlyIds = false
   } = args;
   
   // Initialize client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment) as Client;
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project) as Client;
   
   // Retrieve records that reference the specified item with nested parameter
   const referencingItems = await client.items.references(itemId, { nested, version });
@@ -55,7 +59,8 @@ export const getRecordReferencesHandler = createCustomHandler<GetRecordReference
     return createResponse(JSON.stringify(result, null, 2));
   }
   
-  // Process the items to filter locales (saves on tokens) unless returnAllLocales is true
-  const result = returnMostPopulatedLocale(referencingItems, returnAllLocales);
+  // Process the items to filter locales (saves on tokens) unless returnAllLocales is true,
+  // and render Structured Text as asked
+  const result = renderStructuredText(returnMostPopulatedLocale(referencingItems, returnAllLocales), structuredTextFormat);
   return createResponse(JSON.stringify(result, null, 2));
 });
@@ -39,7 +39,7 @@ export const validatedQueryHandler = createCustomHandler({
   const queryDescription = {
     message: "Query validation succeeded. In a real handler, this would query the DatoCMS API.",
     queryParams: {
-      apiToken: `${apiToken.substring(0, 3)}...${apiToken.substring(apiToken.length - 3)}`, // Don't expose the full token
+      apiToken: apiToken ? `${apiToken.substring(0, 3)}...${apiToken.substring(apiToken.length - 3)}` : "(server-configured)", // Don't expose the full token
       environment,
       textSearch,
       ids,
@@ -1,5 +1,8 @@
 import { z } from "zod";
 import { createErrorResponse } from "../../utils/errorHandlers.js";
+import { countActionArgs } from "../../utils/serverConfig.js";
+import { createPolicyActionEnum, checkActionPolicy } from "../../utils/actionPolicy.js";
+import { withToolProgress } from "../../utils/progress.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SchemaRegistry } from "../../utils/schemaRegistry.js";
 
@@ -14,8 +17,12 @@ import { getRecordByIdHandler } from "./Read/handlers/getRecordByIdHandler.js";
 import { getRecordReferencesHandler } from "./Read/handlers/getRecordReferencesHandler.js";
 import { queryRecordsHandler } from "./Read/handlers/queryRecordsHandler.js";
 import { buildRecordEditorUrlFromTypeHandler } from "./Read/handlers/buildRecordEditorUrlFromTypeHandler.js";
+import { exportRecordsHandler } from "./Export/handlers/index.js";
+import { importRecordsHandler } from "./Import/handlers/index.js";
 import { duplicateRecordHandler, createRecordHandler } from "./Create/handlers/index.js";
-import { updateRecordHandler } from "./Update/handlers/index.js";
+import { updateRecordHandler, bulkUpdateRecordsHandler } from "./Update/handlers/index.js";
+import { upsertRecordHandler } from "./Upsert/handlers/index.js";
+import { findReplaceRecordsHandler } from "./FindReplace/handlers/index.js";
 import { 
   publishRecordHandler,
   unpublishRecordHandler,
@@ -25,7 +32,8 @@ import {
 import { 
   listRecordVersionsHandler,
   getRecordVersionHandler,
-  restoreRecordVersionHandler 
+  restoreRecordVersionHandler,
+  diffRecordVersionsHandler
 } from "./Versions/handlers/index.js";
 import { 
   schedulePublicationHandler,
@@ -44,8 +52,13 @@ type ActionArgsMap = {
   get: z.infer<typeof recordsSchemas.get>;
   references: z.infer<typeof recordsSchemas.references>;
   record_url: z.infer<typeof recordsSchemas.record_url>;
+  export: z.infer<typeof recordsSchemas.export>;
+  import: z.infer<typeof recordsSchemas.import>;
   create: z.infer<typeof recordsSchemas.create>;
   update: z.infer<typeof recordsSchemas.update>;
+  upsert: z.infer<typeof recordsSchemas.upsert>;
+  bulk_update: z.infer<typeof recordsSchemas.bulk_update>;
+  find_replace: z.infer<typeof recordsSchemas.find_replace>;
   duplicate: z.infer<typeof recordsSchemas.duplicate>;
   destroy: z.infer<typeof recordsSchemas.destroy>;
   bulk_destroy: z.infer<typeof recordsSchemas.bulk_destroy>;
@@ -60,6 +73,7 @@ type ActionArgsMap = {
   versions_list: z.infer<typeof recordsSchemas.versions_list>;
   version_get: z.infer<typeof recordsSchemas.version_get>;
   version_restore: z.infer<typeof recordsSchemas.version_restore>;
+  version_diff: z.infer<typeof recordsSchemas.version_diff>;
 };
 
 // Type for the action parameter
@@ -77,7 +91,11 @@ function registerRecordSchemas() {
  */
 export const registerRecordsRouter = (server: McpServer) => {
   registerRecordSchemas();
-  const actionEnum = z.enum(recordActionsList as [string, ...string[]]);
+  const actionEnum = createPolicyActionEnum("records", recordActionsList);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
   
   // Define the parameter schema using raw properties for compatibility with server.tool
   // This avoids the type error with the server.tool method
@@ -91,15 +109,21 @@ export const registerRecordsRouter = (server: McpServer) => {
       title: "DatoCMS Records",
       description: "Manage DatoCMS records - items (records) that are instances of item types (models)."
     },
-    async (args) => {
+    async (args, extra) => {
       const { action, args: actionArgs = {} } = args;
 
       try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("records", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
         // ALWAYS CHECK FOR PARAMETERS FIRST
         const shouldSuggestParams = (
-          Object.keys(actionArgs).length === 0 ||
-          (action === 'bulk_destroy' && (!actionArgs.apiToken || !actionArgs.itemIds || !Array.isArray(actionArgs.itemIds))) ||
-          (Object.keys(actionArgs).length < 3 && ['query', 'create', 'update', 'bulk_publish'].includes(action))
+          countActionArgs(actionArgs) === 0 ||
+          (action === 'bulk_destroy' && (!actionArgs.itemIds || !Array.isArray(actionArgs.itemIds))) ||
+          (countActionArgs(actionArgs) < 3 && ['query', 'create', 'update', 'upsert', 'bulk_update', 'bulk_publish'].includes(action))
         );
 
         if (shouldSuggestParams) {
@@ -120,7 +144,8 @@ export const registerRecordsRouter = (server: McpServer) => {
               try {
                 // Validate args using schema
                 const validatedArgs = recordsSchemas.query.parse(actionArgs);
-                handlerResult = await queryRecordsHandler(validatedArgs);
+                // Fetch-all queries report their progress to the client
+                handlerResult = await withToolProgress(extra, () => queryRecordsHandler(validatedArgs));
                 break;
               } catch (error) {
                 return createErrorResponse(`Error in records.list.query: ${error}`);
@@ -144,12 +169,28 @@ export const registerRecordsRouter = (server: McpServer) => {
             case "record_url":
               handlerResult = await buildRecordEditorUrlFromTypeHandler(actionArgs as ActionArgsMap['record_url']);
               break;
+            case "export":
+              // Exports walk every page, so they report their progress too
+              handlerResult = await withToolProgress(extra, () => exportRecordsHandler(actionArgs as ActionArgsMap['export']));
+              break;
+            case "import":
+              handlerResult = await withToolProgress(extra, () => importRecordsHandler(actionArgs as ActionArgsMap['import']));
+              break;
             case "create":
               handlerResult = await createRecordHandler(actionArgs as ActionArgsMap['create']);
               break;
             case "update":
               handlerResult = await updateRecordHandler(actionArgs as ActionArgsMap['update']);
               break;
+            case "upsert":
+              handlerResult = await upsertRecordHandler(actionArgs as ActionArgsMap['upsert']);
+              break;
+            case "bulk_update":
+              handlerResult = await withToolProgress(extra, () => bulkUpdateRecordsHandler(actionArgs as ActionArgsMap['bulk_update']));
+              break;
+            case "find_replace":
+              handlerResult = await withToolProgress(extra, () => findReplaceRecordsHandler(actionArgs as ActionArgsMap['find_replace']));
+              break;
             case "duplicate":
               handlerResult = await duplicateRecordHandler(actionArgs as ActionArgsMap['duplicate']);
               break;
@@ -192,6 +233,9 @@ export const registerRecordsRouter = (server: McpServer) => {
             case "version_restore":
               handlerResult = await restoreRecordVersionHandler(actionArgs as ActionArgsMap['version_restore']);
               break;
+            case "version_diff":
+              handlerResult = await diffRecordVersionsHandler(actionArgs as ActionArgsMap['version_diff']);
+              break;
             default: {
               const _exhaustiveCheck: never = validAction;
               throw new Error(`Unsupported action: ${_exhaustiveCheck}`);
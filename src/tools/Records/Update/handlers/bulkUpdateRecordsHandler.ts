@@ -0,0 +1,109 @@
+/**
+ * @file bulkUpdateRecordsHandler.ts
+ * @description Handler for applying one patch to every record matching a query
+ */
+
+import type { Client } from "@datocms/cma-client-node";
+import { createBulkResponse, executeBulk } from "../../../../utils/bulkExecutor.js";
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { fetchAllPages } from "../../../../utils/fetchAll.js";
+import { reportProgress } from "../../../../utils/progress.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
+import { createStandardMcpResponse, createStandardSuccessResponse } from "../../../../utils/standardResponse.js";
+import { mergeRecordData, type MergeField } from "../../localeMerge.js";
+import { buildRecordQueryParams, listRecordsPage, type RecordFilterArgs } from "../../recordQuery.js";
+import { recordsSchemas } from "../../schemas.js";
+import type { RecordQueryParams } from "../../types.js";
+
+/** How many matching IDs the confirmation preview shows */
+const PREVIEW_SAMPLE_SIZE = 10;
+
+/**
+ * Builds the list parameters of a bulk update, which must be filtered
+ */
+async function buildMatchParams(client: Client, filters: RecordFilterArgs): Promise<RecordQueryParams> {
+  const queryParams = await buildRecordQueryParams(client, { ...filters, nested: false });
+  if (!queryParams.filter) {
+    throw new Error("bulk_update needs a filter: pass 'modelId' or 'modelName' (optionally with 'fields'), 'ids' or 'textSearch'.");
+  }
+  return queryParams;
+}
+
+/**
+ * Handler for updating every record that matches a query with the same patch
+ */
+export const bulkUpdateRecordsHandler = createCustomHandler({
+  domain: "records",
+  schemaName: "bulk_update",
+  schema: recordsSchemas.bulk_update,
+  errorContext: {
+    operation: "bulk_update",
+    resourceType: "Records",
+    handlerName: "bulkUpdateRecordsHandler"
+  },
+  // The confirmation preview says how many records the patch would touch
+  confirmationPreview: async (params) => {
+    const client = UnifiedClientManager.getDefaultClient(params.apiToken, params.environment, params.project);
+    const queryParams = await buildMatchParams(client, params);
+    const { items, totalCount } = await listRecordsPage(client, { ...queryParams, page: { offset: 0, limit: PREVIEW_SAMPLE_SIZE } });
+    return { matchedCount: totalCount, sampleIds: items.map(item => item.id) };
+  }
+}, async (args) => {
+  const { apiToken, environment, project, debug, data, mergeLocales = true, maxRecords, ...filters } = args;
+
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
+  const queryParams = await buildMatchParams(client, filters);
+
+  const first = await listRecordsPage(client, { ...queryParams, page: { offset: 0, limit: 1 } });
+  if (first.totalCount === 0) {
+    return createStandardMcpResponse(createStandardSuccessResponse(
+      { matchedCount: 0 },
+      "No records match the query; nothing was updated.",
+      undefined,
+      debug
+    ));
+  }
+  if (maxRecords !== undefined && first.totalCount > maxRecords) {
+    throw new Error(`${first.totalCount} records match the query, more than maxRecords (${maxRecords}). Nothing was updated; narrow the query or raise maxRecords.`);
+  }
+
+  const { items } = await fetchAllPages({
+    fetchPage: (offset, limit) => listRecordsPage(client, { ...queryParams, page: { offset, limit } }),
+    startOffset: 0,
+    maxBytes: Infinity,
+    noun: "records"
+  });
+
+  // Records can come from several models when the query doesn't name one
+  const fieldsByModel = new Map<string, Promise<MergeField[]>>();
+  const fieldsOf = (modelId: string) => {
+    let fields = fieldsByModel.get(modelId);
+    if (!fields) {
+      fields = client.fields.list(modelId) as Promise<MergeField[]>;
+      fieldsByModel.set(modelId, fields);
+    }
+    return fields;
+  };
+
+  const byId = new Map(items.map(item => [item.id, item]));
+  let done = 0;
+  const report = await executeBulk({
+    ids: items.map(item => item.id),
+    chunkSize: 1,
+    runChunk: async ([id]) => {
+      const item = byId.get(id!)!;
+      try {
+        // Merged updates carry the version they were read at, so concurrent edits aren't overwritten
+        const payload = mergeLocales
+          ? { ...mergeRecordData(item, data, await fieldsOf(item.item_type.id)).data, meta: { current_version: item.meta.current_version } }
+          : data;
+        await client.items.update(item.id, payload);
+      } finally {
+        done++;
+        await reportProgress(done, items.length, `Updated ${done} of ${items.length} records`);
+      }
+    }
+  });
+
+  return createBulkResponse(report, "updated", "record(s)", debug);
+});
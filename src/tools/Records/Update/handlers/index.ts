@@ -1,4 +1,4 @@
 /**
  * Export all record update operation handlers
  */
-export * from './updateRecordHandler.js';
\ No newline at end of file
+export * from './updateRecordHandler.js';export * from './bulkUpdateRecordsHandler.js';
@@ -3,9 +3,13 @@
  * @description Handler for updating an existing DatoCMS record
  */
 
-import { createUpdateHandler } from "../../../../utils/enhancedHandlerFactory.js";
-import { extractDetailedErrorInfo } from "../../../../utils/errorHandlers.js";
+import { createUpdateHandler, UpdateOutcome } from "../../../../utils/enhancedHandlerFactory.js";
+import { extractDetailedErrorInfo, PayloadValidationError } from "../../../../utils/errorHandlers.js";
+import { describeChangedLocales, mergeRecordData, type MergeField } from "../../localeMerge.js";
 import { recordsSchemas } from "../../schemas.js";
+import { convertStructuredTextInputs, hasStructuredTextInput, type StructuredTextInputField } from "../../structuredTextInput.js";
+import { buildBlockInputs, collectBlockIds, hasBlockInput } from "../../blockBuilder.js";
+import { assertValidRecordPayload } from "../../payloadValidation.js";
 
 /**
  * Handler function for updating an existing DatoCMS record
@@ -16,17 +20,52 @@ export const updateRecordHandler = createUpdateHandler({
   schema: recordsSchemas.update,
   entityName: "Record",
   idParam: "itemId",
+  successMessage: (result, meta) => {
+    const entityId = typeof result === "object" && result !== null && "id" in result ? result.id : "unknown";
+    const changedLocales = meta?.changedLocales as Record<string, string[]> | undefined;
+    return `Record ${entityId} was successfully updated.` +
+      (changedLocales ? ` Changed locales: ${describeChangedLocales(changedLocales)}.` : "");
+  },
   clientAction: async (client, args) => {
     const { 
       itemId,
       data,
       version,
-      returnOnlyConfirmation = false
+      mergeLocales = false,
+      returnOnlyConfirmation = false,
+      validate = false
     } = args;
     
     try {
+      // The current record and its model's fields, read once for whichever steps need them
+      const needsSchema = mergeLocales || validate || hasStructuredTextInput(data) || hasBlockInput(data);
+      const current = needsSchema ? await client.items.find(itemId) : undefined;
+      const fields = current ? await client.fields.list(current.item_type.id) as Array<StructuredTextInputField & MergeField> : [];
+
+      // Markdown and HTML values of Structured Text fields are converted to DAST,
+      // and `_block` shorthands built into block payloads (keeping the IDs of existing blocks)
+      let fieldValues = data;
+      if (current && (hasStructuredTextInput(data) || hasBlockInput(data))) {
+        fieldValues = convertStructuredTextInputs(fieldValues, fields);
+        fieldValues = await buildBlockInputs(client, fieldValues, fields, collectBlockIds(current, fields));
+      }
+
       // Prepare update parameters
-      const updateParams: Record<string, any> = { ...data };
+      let updateParams: Record<string, any> = { ...fieldValues };
+      let changedLocales: Record<string, string[]> | undefined;
+
+      if (mergeLocales && current) {
+        // Merge into the current values; the version it was read at guards against concurrent edits
+        const merged = mergeRecordData(current, fieldValues, fields);
+        updateParams = merged.data;
+        changedLocales = merged.changedLocales;
+        updateParams.meta = { current_version: current.meta.current_version };
+      }
+
+      // Check what will be sent against the model, on request
+      if (validate) {
+        await assertValidRecordPayload(client, updateParams, fields, false);
+      }
       
       // Add version if provided (for optimistic locking)
       if (version !== undefined) {
@@ -43,12 +82,17 @@ export const updateRecordHandler = createUpdateHandler({
 
       // Return only confirmation message if requested (to save on tokens)
       if (returnOnlyConfirmation) {
-        return `Successfully updated record with ID '${itemId}'.`;
+        return `Successfully updated record with ID '${itemId}'.` +
+          (changedLocales ? ` Changed locales: ${describeChangedLocales(changedLocales)}.` : "");
       }
 
-      // Otherwise return the full record data
-      return updatedItem;
+      // Otherwise return the full record data, with the changed locales of a merge
+      return changedLocales ? new UpdateOutcome(updatedItem, { changedLocales }) : updatedItem;
     } catch (apiError: unknown) {
+      if (apiError instanceof PayloadValidationError) {
+        throw apiError;
+      }
+
       // Check for version conflict errors
       const errorMessage = extractDetailedErrorInfo(apiError);
       if (errorMessage.includes("version") && errorMessage.includes("conflict")) {
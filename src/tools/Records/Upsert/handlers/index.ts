@@ -0,0 +1,4 @@
+/**
+ * Export all record upsert handlers
+ */
+export * from './upsertRecordHandler.js';
@@ -0,0 +1,107 @@
+/**
+ * @file upsertRecordHandler.ts
+ * @description Handler for creating or updating a record matched by a field value
+ */
+
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
+import { createStandardMcpResponse, createStandardSuccessResponse } from "../../../../utils/standardResponse.js";
+import { buildBlockInputs, collectBlockIds, hasBlockInput } from "../../blockBuilder.js";
+import { buildFieldFilters, type FilterableField } from "../../fieldFilters.js";
+import { assertValidRecordPayload } from "../../payloadValidation.js";
+import { listRecordsPage } from "../../recordQuery.js";
+import { recordsSchemas } from "../../schemas.js";
+import { convertStructuredTextInputs, hasStructuredTextInput, type StructuredTextInputField } from "../../structuredTextInput.js";
+
+/**
+ * Handler for upserting a record: the record whose `matchOn` field equals the
+ * value in `data` is updated, or a record is created when none matches
+ */
+export const upsertRecordHandler = createCustomHandler({
+  domain: "records",
+  schemaName: "upsert",
+  schema: recordsSchemas.upsert,
+  errorContext: {
+    operation: "upsert",
+    resourceType: "Record",
+    handlerName: "upsertRecordHandler"
+  }
+}, async (args) => {
+  const {
+    apiToken,
+    environment,
+    project,
+    debug,
+    itemType,
+    matchOn,
+    matchLocale,
+    data,
+    returnOnlyConfirmation = false,
+    validate = false
+  } = args;
+
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
+  const model = await client.itemTypes.find(itemType);
+  const fields = await client.fields.list(model.id) as Array<FilterableField & StructuredTextInputField>;
+
+  const field = fields.find(candidate => candidate.api_key === matchOn);
+  if (!field) {
+    throw new Error(`'${matchOn}' isn't a field of '${model.api_key}'. Fields: ${fields.map(candidate => candidate.api_key).join(", ")}.`);
+  }
+
+  let value = data[matchOn];
+  let locale: string | undefined;
+  if (field.localized && value !== null && typeof value === "object") {
+    const byLocale = value as Record<string, unknown>;
+    locale = matchLocale ?? Object.keys(byLocale)[0];
+    value = locale ? byLocale[locale] : undefined;
+  }
+  if (value === undefined || value === null || value === "") {
+    throw new Error(`data.${matchOn}${locale ? `.${locale}` : ""} must have a value: it identifies the record to update.`);
+  }
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+    throw new Error(`data.${matchOn}${locale ? `.${locale}` : ""} must be a string, number or boolean to match records on it.`);
+  }
+
+  // The match runs as a server-side field filter, so the operator is checked against the field type
+  const { items, totalCount } = await listRecordsPage(client, {
+    filter: {
+      type: model.id,
+      fields: buildFieldFilters({ [matchOn]: { eq: value } }, fields)
+    },
+    // Localized fields are matched in this locale (the CMA defaults to the main one)
+    ...(locale && { locale }),
+    version: "current",
+    nested: false,
+    page: { offset: 0, limit: 2 }
+  });
+  if (totalCount > 1) {
+    throw new Error(`${totalCount} records of '${model.api_key}' have ${matchOn} = ${JSON.stringify(value)} (e.g. ${items.map(item => item.id).join(", ")}), so the upsert can't tell which one to update. Add a unique validator to '${matchOn}' or match on another field.`);
+  }
+
+  // Markdown and HTML values of Structured Text fields are converted to DAST, and
+  // `_block` shorthands built into block payloads, as in create and update; on
+  // request, the result is then checked against the model
+  const existing = items[0];
+  let fieldValues = data;
+  if (hasStructuredTextInput(data) || hasBlockInput(data)) {
+    fieldValues = convertStructuredTextInputs(fieldValues, fields);
+    fieldValues = await buildBlockInputs(client, fieldValues, fields, existing ? collectBlockIds(existing, fields) : undefined);
+  }
+  if (validate) {
+    await assertValidRecordPayload(client, fieldValues, fields, !existing);
+  }
+
+  const record = existing
+    ? await client.items.update(existing.id, fieldValues)
+    : await client.items.create({ item_type: { type: "item_type", id: model.id }, ...fieldValues });
+  const operation = existing ? "updated" : "created";
+  const message = `Successfully ${operation} record with ID '${record.id}' (matched on ${matchOn} = ${JSON.stringify(value)}).`;
+
+  return createStandardMcpResponse(createStandardSuccessResponse(
+    returnOnlyConfirmation ? { id: record.id, operation } : record,
+    message,
+    { operation },
+    debug
+  ));
+});
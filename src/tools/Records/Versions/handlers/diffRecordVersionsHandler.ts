@@ -0,0 +1,106 @@
+/**
+ * @file diffRecordVersionsHandler.ts
+ * @description Handler for comparing two versions of a DatoCMS record field by field
+ */
+
+import { ApiError, type Client } from "@datocms/cma-client-node";
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
+import { createStandardMcpResponse, createStandardSuccessResponse } from "../../../../utils/standardResponse.js";
+import { recordsSchemas } from "../../schemas.js";
+import { diffRecordVersions, type DiffField } from "../../versionDiff.js";
+
+/**
+ * One side of the comparison
+ */
+interface LoadedVersion {
+  /** What the side is, for the response: the version ID and when it was made */
+  summary: Record<string, unknown>;
+  /** Field values by API key */
+  values: Record<string, unknown>;
+  itemTypeId: string;
+}
+
+/**
+ * Loads a version of a record, with the full payload of its blocks for
+ * 'current' and 'published' (a version ID only gives block IDs)
+ * @param client The CMA client
+ * @param itemId The record
+ * @param version A version ID, 'current' or 'published'
+ */
+async function loadVersion(client: Client, itemId: string, version: string): Promise<LoadedVersion> {
+  if (version === "current") {
+    const item = await client.items.find(itemId, { nested: true });
+    return {
+      summary: { version, id: item.meta.current_version, updated_at: item.meta.updated_at },
+      values: item,
+      itemTypeId: item.item_type.id
+    };
+  }
+
+  if (version === "published") {
+    try {
+      const item = await client.items.find(itemId, { version: "published", nested: true });
+      return {
+        summary: { version, published_at: item.meta.published_at },
+        values: item,
+        itemTypeId: item.item_type.id
+      };
+    } catch (error) {
+      if (!(error instanceof ApiError && error.response.status === 404)) {
+        throw error;
+      }
+      // Tell a missing record (which throws here) from one that was never published
+      await client.items.find(itemId);
+      throw new Error(`Record '${itemId}' isn't published, so it has no published version. Compare version IDs from versions_list instead.`);
+    }
+  }
+
+  const itemVersion = await client.itemVersions.find(version);
+  if (itemVersion.item.id !== itemId) {
+    throw new Error(`Version '${version}' belongs to record '${itemVersion.item.id}', not '${itemId}'.`);
+  }
+  return {
+    summary: { version, created_at: itemVersion.meta.created_at },
+    values: itemVersion,
+    itemTypeId: itemVersion.item_type.id
+  };
+}
+
+/**
+ * Handler for diffing two versions of a record: only the changed fields (and
+ * locales) are returned, with text and Structured Text diffs
+ */
+export const diffRecordVersionsHandler = createCustomHandler({
+  domain: "records",
+  schemaName: "version_diff",
+  schema: recordsSchemas.version_diff,
+  errorContext: {
+    operation: "version_diff",
+    resourceType: "Record Version",
+    handlerName: "diffRecordVersionsHandler"
+  }
+}, async (args) => {
+  const { apiToken, environment, project, debug, itemId, from = "published", to = "current", locale } = args;
+
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
+  const before = await loadVersion(client, itemId, from);
+  const after = await loadVersion(client, itemId, to);
+  const fields = await client.fields.list(after.itemTypeId) as DiffField[];
+
+  const changes = diffRecordVersions(before.values, after.values, fields, locale);
+  const changedFields = new Set(changes.filter(change => change.change !== "may_have_changed").map(change => change.field)).size;
+  const uncertainFields = new Set(changes.filter(change => change.uncomparedBlocks).map(change => change.field)).size;
+  const uncertainty = uncertainFields > 0
+    ? ` The blocks of ${uncertainFields} field(s) were only compared by ID and may have changed: only 'current' and 'published' carry block content.`
+    : "";
+
+  return createStandardMcpResponse(createStandardSuccessResponse(
+    { itemId, from: before.summary, to: after.summary, changes },
+    changes.length === 0
+      ? `No field changed between '${from}' and '${to}'.`
+      : `${changedFields} of ${fields.length} field(s) changed between '${from}' and '${to}'.${uncertainty}`,
+    undefined,
+    debug
+  ));
+});
@@ -4,3 +4,4 @@
 export * from './listRecordVersionsHandler.js';
 export * from './getRecordVersionHandler.js';
 export * from './restoreRecordVersionHandler.js';
+export * from './diffRecordVersionsHandler.js';
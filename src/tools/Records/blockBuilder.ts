@@ -0,0 +1,288 @@
+/**
+ * @file blockBuilder.ts
+ * @description Builds block payloads from the `_block` shorthand
+ * Blocks in Modular Content, Single Block and Structured Text fields are sent
+ * as `{ type: "item", attributes, relationships: { item_type } }` payloads.
+ * Record payloads can instead give `{ "_block": "cta_block", "title": "..." }`:
+ * the block model is resolved by API key, the values are checked against its
+ * fields and against the blocks the parent field allows, and the payload is
+ * built with the client's buildBlockRecord(). Adding `"id"` updates an
+ * existing block of the record in place instead of creating one.
+ */
+
+import { buildBlockRecord, type Client, type SimpleSchemaTypes } from "@datocms/cma-client-node";
+import { isStructuredTextValue, type DastNode } from "../../utils/structuredText.js";
+
+/**
+ * A field, as far as building blocks is concerned
+ */
+export interface BlockBuilderField {
+  api_key: string;
+  field_type: string;
+  localized: boolean;
+  validators?: Record<string, unknown>;
+}
+
+/**
+ * A block in shorthand form
+ */
+interface BlockInput {
+  /** API key (or ID) of the block model */
+  _block: string;
+  /** ID of an existing block to update */
+  id?: string;
+  [field: string]: unknown;
+}
+
+/** Validators listing the block models a field accepts, by field type and DAST node */
+const BLOCK_VALIDATORS: Record<string, string> = {
+  rich_text: "rich_text_blocks",
+  single_block: "single_block_blocks",
+  block: "structured_text_blocks",
+  inlineBlock: "structured_text_inline_blocks"
+};
+
+/**
+ * Narrowing helper: plain object (not array / null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a value is a block in shorthand form
+ */
+function isBlockInput(value: unknown): value is BlockInput {
+  return isPlainObject(value) && typeof value._block === "string";
+}
+
+/**
+ * Whether a payload uses the `_block` shorthand anywhere, so the model's
+ * fields only need loading when it does
+ */
+export function hasBlockInput(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some(hasBlockInput);
+  }
+  return isPlainObject(value) && (isBlockInput(value) || Object.values(value).some(hasBlockInput));
+}
+
+/**
+ * Whether a field value counts as empty for the required validator
+ */
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Visits the block and inline block nodes of a DAST document
+ */
+function forEachBlockNode(node: DastNode, visit: (node: DastNode) => void): void {
+  if (node.type === "block" || node.type === "inlineBlock") {
+    visit(node);
+  }
+  node.children?.forEach(child => forEachBlockNode(child, visit));
+}
+
+/**
+ * Collects the IDs of a record's blocks, which `_block` inputs may update
+ * @param record The record, fetched without nested blocks
+ * @param fields The record's model fields
+ */
+export function collectBlockIds(record: Record<string, unknown>, fields: BlockBuilderField[]): Set<string> {
+  const ids = new Set<string>();
+  const collect = (field: BlockBuilderField, value: unknown) => {
+    if (field.field_type === "rich_text" && Array.isArray(value)) {
+      value.filter((id): id is string => typeof id === "string").forEach(id => ids.add(id));
+    } else if (field.field_type === "single_block" && typeof value === "string") {
+      ids.add(value);
+    } else if (field.field_type === "structured_text" && isStructuredTextValue(value)) {
+      forEachBlockNode(value.document, node => {
+        if (typeof node.item === "string") {
+          ids.add(node.item);
+        }
+      });
+    }
+  };
+
+  for (const field of fields) {
+    const value = record[field.api_key];
+    if (field.localized && isPlainObject(value)) {
+      Object.values(value).forEach(localeValue => collect(field, localeValue));
+    } else {
+      collect(field, value);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Resolves `_block` inputs to block payloads, collecting every problem
+ */
+class BlockBuilder {
+  readonly problems: string[] = [];
+  private readonly models = new Map<string, Promise<SimpleSchemaTypes.ItemType | undefined>>();
+  private readonly fields = new Map<string, Promise<BlockBuilderField[]>>();
+
+  constructor(private readonly client: Client, private readonly existingBlockIds: Set<string>) {}
+
+  /**
+   * Loads a model by ID or API key once; undefined when it doesn't exist
+   */
+  private model(idOrApiKey: string): Promise<SimpleSchemaTypes.ItemType | undefined> {
+    let model = this.models.get(idOrApiKey);
+    if (!model) {
+      model = this.client.itemTypes.find(idOrApiKey).catch(() => undefined);
+      this.models.set(idOrApiKey, model);
+    }
+    return model;
+  }
+
+  /**
+   * Loads a block model's fields once
+   */
+  private blockFields(modelId: string): Promise<BlockBuilderField[]> {
+    let fields = this.fields.get(modelId);
+    if (!fields) {
+      fields = this.client.fields.list(modelId) as Promise<BlockBuilderField[]>;
+      this.fields.set(modelId, fields);
+    }
+    return fields;
+  }
+
+  /**
+   * Builds the blocks in a field value, locale by locale for localized fields
+   * @param field The field
+   * @param value The value from the payload
+   * @param path Where the value is, for problems (e.g. 'sections[en][0]')
+   */
+  async fieldValue(field: BlockBuilderField, value: unknown, path: string): Promise<unknown> {
+    if (field.localized && isPlainObject(value) && !isBlockInput(value)) {
+      const locales = await Promise.all(Object.entries(value).map(async ([locale, localeValue]) =>
+        [locale, await this.localeValue(field, localeValue, `${path}[${locale}]`)] as const));
+      return Object.fromEntries(locales);
+    }
+    return this.localeValue(field, value, path);
+  }
+
+  /**
+   * Builds the blocks in the value of one locale of a field
+   */
+  private async localeValue(field: BlockBuilderField, value: unknown, path: string): Promise<unknown> {
+    switch (field.field_type) {
+      case "rich_text":
+        return Array.isArray(value)
+          ? Promise.all(value.map((entry, index) => isBlockInput(entry) ? this.block(entry, field, "rich_text", `${path}[${index}]`) : entry))
+          : value;
+      case "single_block":
+        return isBlockInput(value) ? this.block(value, field, "single_block", path) : value;
+      case "structured_text": {
+        if (!isStructuredTextValue(value)) {
+          return value;
+        }
+        const document = structuredClone(value.document);
+        const pending: Array<Promise<void>> = [];
+        forEachBlockNode(document, node => {
+          if (isBlockInput(node.item)) {
+            const input = node.item;
+            pending.push(this.block(input, field, node.type, `${path} ${node.type}`).then(block => {
+              node.item = block;
+            }));
+          }
+        });
+        await Promise.all(pending);
+        return { ...value, document };
+      }
+      default:
+        if (hasBlockInput(value)) {
+          this.problems.push(`${path}: '${field.api_key}' is a ${field.field_type} field, which can't hold blocks`);
+        }
+        return value;
+    }
+  }
+
+  /**
+   * Builds one block payload
+   * @param input The block in shorthand form
+   * @param parent The field the block goes in
+   * @param kind Field type or DAST node type, which picks the validator of allowed blocks
+   * @param path Where the block is, for problems
+   */
+  private async block(input: BlockInput, parent: BlockBuilderField, kind: string, path: string): Promise<unknown> {
+    const { _block: blockKey, id, ...values } = input;
+    const model = await this.model(blockKey);
+    if (!model || !model.modular_block) {
+      this.problems.push(`${path}: '${blockKey}' isn't a block model${model ? ` ('${model.api_key}' is a regular model)` : ""}`);
+      return input;
+    }
+
+    const allowed = (parent.validators?.[BLOCK_VALIDATORS[kind]!] as { item_types?: string[] } | undefined)?.item_types;
+    if (allowed && !allowed.includes(model.id)) {
+      const allowedKeys = (await Promise.all(allowed.map(modelId => this.model(modelId)))).map((allowedModel, index) => allowedModel?.api_key ?? allowed[index]);
+      this.problems.push(`${path}: '${model.api_key}' blocks aren't allowed in '${parent.api_key}' (allowed: ${allowedKeys.join(", ") || "none"})`);
+      return input;
+    }
+
+    if (id !== undefined && !this.existingBlockIds.has(id)) {
+      this.problems.push(`${path}: block '${id}' isn't a block of this record; leave 'id' out to create a new block`);
+      return input;
+    }
+
+    const fields = await this.blockFields(model.id);
+    const byApiKey = new Map(fields.map(field => [field.api_key, field]));
+    const unknown = Object.keys(values).filter(key => !byApiKey.has(key));
+    if (unknown.length > 0) {
+      this.problems.push(`${path}: '${model.api_key}' has no field ${unknown.map(key => `'${key}'`).join(", ")} (fields: ${fields.map(field => field.api_key).join(", ")})`);
+    }
+    // Existing blocks only receive the values that change
+    if (id === undefined) {
+      const missing = fields.filter(field => field.validators?.required && isEmptyValue(values[field.api_key]));
+      if (missing.length > 0) {
+        this.problems.push(`${path}: '${model.api_key}' requires ${missing.map(field => `'${field.api_key}'`).join(", ")}`);
+      }
+    }
+
+    const attributes: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(values)) {
+      const field = byApiKey.get(key);
+      attributes[key] = field ? await this.fieldValue(field, value, `${path}.${key}`) : value;
+    }
+
+    return buildBlockRecord({
+      ...(id !== undefined && { id }),
+      item_type: { type: "item_type", id: model.id },
+      ...attributes
+    });
+  }
+}
+
+/**
+ * Replaces the `_block` inputs of a record payload with block payloads
+ * @param client The CMA client, to load block models and their fields
+ * @param data The record payload
+ * @param fields The record's model fields
+ * @param existingBlockIds IDs of the record's current blocks (none on create)
+ * @returns The payload with block payloads
+ * @throws If a block model is unknown or not allowed in its field, or a block's
+ * values don't fit its fields; the error lists every problem
+ */
+export async function buildBlockInputs(
+  client: Client,
+  data: Record<string, unknown>,
+  fields: BlockBuilderField[],
+  existingBlockIds: Set<string> = new Set()
+): Promise<Record<string, unknown>> {
+  const builder = new BlockBuilder(client, existingBlockIds);
+  const byApiKey = new Map(fields.map(field => [field.api_key, field]));
+  const built: Record<string, unknown> = {};
+
+  for (const [apiKey, value] of Object.entries(data)) {
+    const field = byApiKey.get(apiKey);
+    built[apiKey] = field && hasBlockInput(value) ? await builder.fieldValue(field, value, apiKey) : value;
+  }
+
+  if (builder.problems.length > 0) {
+    throw new Error(`Can't build the blocks; nothing was sent:\n- ${builder.problems.join("\n- ")}`);
+  }
+  return built;
+}
@@ -0,0 +1,146 @@
+/**
+ * @file fieldFilters.ts
+ * @description Translates the `fields` conditions of a records query (see
+ * filterCondition.ts) into CMA `filter[fields]` parameters
+ * The CMA only accepts some operators on each field type, so conditions are
+ * checked against the model's fields before the request is sent.
+ *
+ * See: https://www.datocms.com/docs/content-management-api/resources/item/instances
+ */
+
+import type { z } from "zod";
+import type { filterConditions } from "./filterCondition.js";
+
+/** Field conditions as accepted by the records query schema */
+export type FieldConditions = z.infer<typeof filterConditions>;
+
+/** Operators of the query schema (`nin` is the CMA's `not_in`) */
+type QueryOperator = "eq" | "neq" | "matches" | "in" | "nin" | "gt" | "gte" | "lt" | "lte" | "exists";
+
+const EQUALITY: QueryOperator[] = ["eq", "neq", "in", "nin"];
+const COMPARISON: QueryOperator[] = ["eq", "neq", "gt", "gte", "lt", "lte", "exists"];
+
+/**
+ * Operators each field type supports
+ * Field types missing here are passed through and left for the CMA to check.
+ */
+export const FIELD_TYPE_OPERATORS: Record<string, QueryOperator[]> = {
+  string: [...EQUALITY, "matches", "exists"],
+  text: ["matches", "exists"],
+  slug: EQUALITY,
+  integer: COMPARISON,
+  float: COMPARISON,
+  date: COMPARISON,
+  date_time: COMPARISON,
+  boolean: ["eq"],
+  link: [...EQUALITY, "exists"],
+  file: [...EQUALITY, "exists"],
+  links: ["eq", "in", "nin", "exists"],
+  gallery: ["eq", "in", "nin", "exists"],
+  structured_text: ["matches", "exists"],
+  rich_text: ["exists"],
+  single_block: ["exists"],
+  color: ["exists"],
+  lat_lon: ["exists"],
+  json: ["exists"],
+  seo: ["exists"],
+  video: ["exists"]
+};
+
+/**
+ * Operators of the record meta fields that can be filtered on
+ */
+const META_FIELD_OPERATORS: Record<string, QueryOperator[]> = {
+  id: EQUALITY,
+  _status: EQUALITY,
+  _is_valid: ["eq"],
+  _created_at: COMPARISON,
+  _updated_at: COMPARISON,
+  _published_at: COMPARISON,
+  _first_published_at: COMPARISON
+};
+
+/** Field types holding several references, where `in` means "any of" */
+const MULTI_REFERENCE_TYPES = new Set(["links", "gallery"]);
+
+/**
+ * A model field, as far as filtering is concerned
+ */
+export interface FilterableField {
+  api_key: string;
+  field_type: string;
+}
+
+/**
+ * Turns a condition into `[operator, value]` pairs, expanding the shorthand
+ * `title: "x"` and rewriting null comparisons as `exists`
+ */
+function normalizeCondition(condition: FieldConditions[string]): Array<[QueryOperator, unknown]> {
+  const entries: Array<[QueryOperator, unknown]> = condition !== null && typeof condition === "object"
+    ? Object.entries(condition) as Array<[QueryOperator, unknown]>
+    : [["eq", condition]];
+
+  return entries.map(([operator, value]): [QueryOperator, unknown] => {
+    if (value === null && operator === "eq") {
+      return ["exists", false];
+    }
+    if (value === null && operator === "neq") {
+      return ["exists", true];
+    }
+    return [operator, value];
+  });
+}
+
+/**
+ * Builds the `filter[fields]` parameter for a records query on one model
+ * @param conditions The `fields` argument of the query
+ * @param fields The fields of the queried model
+ * @returns The CMA filter, keyed by field API key and operator
+ * @throws Error for unknown fields and for operators the field type doesn't support
+ */
+export function buildFieldFilters(
+  conditions: FieldConditions,
+  fields: FilterableField[]
+): Record<string, Record<string, unknown>> {
+  const fieldTypes = new Map(fields.map(field => [field.api_key, field.field_type]));
+  const filters: Record<string, Record<string, unknown>> = {};
+
+  for (const [apiKey, condition] of Object.entries(conditions)) {
+    const fieldType = fieldTypes.get(apiKey);
+    const supported = META_FIELD_OPERATORS[apiKey] ?? (fieldType ? FIELD_TYPE_OPERATORS[fieldType] : undefined);
+
+    if (!fieldType && !META_FIELD_OPERATORS[apiKey]) {
+      throw new Error(
+        `Unknown field '${apiKey}'. The model's fields are: ${[...fieldTypes.keys()].join(", ") || "(none)"}. ` +
+        `Meta fields: ${Object.keys(META_FIELD_OPERATORS).join(", ")}.`
+      );
+    }
+
+    const filter: Record<string, unknown> = {};
+    for (const [operator, value] of normalizeCondition(condition)) {
+      if (supported && !supported.includes(operator)) {
+        throw new Error(
+          `Operator '${operator}' isn't supported on '${apiKey}'${fieldType ? ` (${fieldType} field)` : ""}. ` +
+          `Supported operators: ${supported.join(", ")}.`
+        );
+      }
+
+      switch (operator) {
+        case "nin":
+          filter.not_in = value;
+          break;
+        case "in":
+          filter[fieldType && MULTI_REFERENCE_TYPES.has(fieldType) ? "any_in" : "in"] = value;
+          break;
+        case "matches":
+          filter.matches = { pattern: value, case_sensitive: false };
+          break;
+        default:
+          filter[operator] = value;
+      }
+    }
+    filters[apiKey] = filter;
+  }
+
+  return filters;
+}
@@ -0,0 +1,210 @@
+/**
+ * @file findReplace.ts
+ * @description Finds and replaces text in the field values of records
+ * Searches string, text, SEO (title and description) and Structured Text
+ * fields. In Structured Text, each span and each link URL is searched on its
+ * own and only its text changes, so the DAST node structure (marks, links,
+ * blocks) stays intact; a match can't span two differently formatted spans.
+ * Blocks are records of their own and aren't searched. When a locale is
+ * given, only that locale of localized fields is searched.
+ */
+
+import type { DastNode } from "../../utils/structuredText.js";
+import { isStructuredTextValue } from "../../utils/structuredText.js";
+
+/**
+ * A field, as far as find and replace is concerned
+ */
+export interface SearchableField {
+  api_key: string;
+  field_type: string;
+  localized: boolean;
+}
+
+/**
+ * What to find and what to replace it with
+ */
+export interface FindReplaceOptions {
+  find: string;
+  replace: string;
+  /** Treat `find` as a regular expression (`replace` can then use $1, $2, ...) */
+  regex: boolean;
+  caseSensitive: boolean;
+  /** Only search this locale of localized fields */
+  locale?: string;
+}
+
+/**
+ * One match, with some context around it
+ */
+export interface FindReplaceMatch {
+  /** Field, with the locale for localized fields (e.g. 'title[en]') */
+  field: string;
+  /** Where in the value, for SEO and Structured Text (e.g. 'description', 'span', 'link url') */
+  location?: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * The changes find and replace makes to one record
+ */
+export interface RecordReplacement {
+  /** Changed fields only, each with all its locales */
+  data: Record<string, unknown>;
+  matches: FindReplaceMatch[];
+}
+
+/** Field types find and replace searches */
+export const SEARCHABLE_FIELD_TYPES = ["string", "text", "seo", "structured_text"];
+
+/** Characters of context on each side of a match in snippets */
+const SNIPPET_CONTEXT = 30;
+
+/**
+ * Builds the global regular expression for a search
+ * @throws If the regular expression is invalid or matches empty text
+ */
+export function createMatcher({ find, regex, caseSensitive }: Pick<FindReplaceOptions, "find" | "regex" | "caseSensitive">): RegExp {
+  const source = regex ? find : find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  let matcher: RegExp;
+  try {
+    matcher = new RegExp(source, caseSensitive ? "g" : "gi");
+  } catch (error) {
+    throw new Error(`Invalid regular expression '${find}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (matcher.test("")) {
+    throw new Error(`'${find}' matches empty text, so it would insert the replacement everywhere. Use a pattern that matches at least one character.`);
+  }
+  return matcher;
+}
+
+/**
+ * Replaces text with a search, collecting a snippet per match
+ */
+class TextReplacer {
+  private readonly singleMatcher: RegExp;
+
+  constructor(private readonly matcher: RegExp, private readonly options: FindReplaceOptions) {
+    this.singleMatcher = new RegExp(matcher.source, matcher.flags.replace("g", ""));
+  }
+
+  /**
+   * Replaces every match in a text
+   * @param text The text
+   * @param field Field name for the snippets
+   * @param location Where the text is in the field value
+   * @param matches Collects a snippet per match
+   * @returns The new text
+   */
+  replace(text: string, field: string, location: string | undefined, matches: FindReplaceMatch[]): string {
+    // A literal replacement must not expand $ patterns
+    const replacement = this.options.regex ? this.options.replace : this.options.replace.replace(/\$/g, "$$$$");
+
+    for (const match of text.matchAll(this.matcher)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const prefix = `${start > SNIPPET_CONTEXT ? "…" : ""}${text.slice(Math.max(0, start - SNIPPET_CONTEXT), start)}`;
+      const suffix = `${text.slice(end, end + SNIPPET_CONTEXT)}${end + SNIPPET_CONTEXT < text.length ? "…" : ""}`;
+      matches.push({
+        field,
+        ...(location && { location }),
+        before: `${prefix}${match[0]}${suffix}`,
+        after: `${prefix}${match[0].replace(this.singleMatcher, replacement)}${suffix}`
+      });
+    }
+    return text.replace(this.matcher, replacement);
+  }
+
+  /**
+   * Replaces text in the spans and link URLs of a DAST node, keeping its structure
+   */
+  replaceInDast(node: DastNode, field: string, matches: FindReplaceMatch[]): DastNode {
+    const copy: DastNode = { ...node };
+    if (node.type === "span" && typeof node.value === "string") {
+      copy.value = this.replace(node.value, field, "span", matches);
+    }
+    if (node.type === "link" && typeof node.url === "string") {
+      copy.url = this.replace(node.url, field, "link url", matches);
+    }
+    if (node.children) {
+      copy.children = node.children.map(child => this.replaceInDast(child, field, matches));
+    }
+    return copy;
+  }
+
+  /**
+   * Replaces text in one value (of one locale) of a field
+   */
+  replaceInValue(field: SearchableField, value: unknown, name: string, matches: FindReplaceMatch[]): unknown {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    switch (field.field_type) {
+      case "string":
+      case "text":
+        return typeof value === "string" ? this.replace(value, name, undefined, matches) : value;
+      case "seo": {
+        const seo = { ...(value as Record<string, unknown>) };
+        for (const key of ["title", "description"]) {
+          if (typeof seo[key] === "string") {
+            seo[key] = this.replace(seo[key] as string, name, key, matches);
+          }
+        }
+        return seo;
+      }
+      case "structured_text":
+        return isStructuredTextValue(value)
+          ? { ...value, document: this.replaceInDast(value.document, name, matches) }
+          : value;
+      default:
+        return value;
+    }
+  }
+}
+
+/**
+ * Finds and replaces text in a record
+ * @param record The record's field values
+ * @param fields The fields to search (of searchable types)
+ * @param matcher The search, from createMatcher()
+ * @param options The replacement and locale
+ * @returns The changed fields and the matches
+ */
+export function replaceInRecord(
+  record: Record<string, unknown>,
+  fields: SearchableField[],
+  matcher: RegExp,
+  options: FindReplaceOptions
+): RecordReplacement {
+  const replacer = new TextReplacer(matcher, options);
+  const data: Record<string, unknown> = {};
+  const matches: FindReplaceMatch[] = [];
+
+  for (const field of fields) {
+    // A locale scopes the search to localized content
+    if (options.locale && !field.localized) {
+      continue;
+    }
+    const value = record[field.api_key];
+    const found = matches.length;
+
+    if (field.localized) {
+      const byLocale = (value ?? {}) as Record<string, unknown>;
+      const replaced = Object.fromEntries(Object.entries(byLocale).map(([locale, localeValue]) =>
+        options.locale && locale !== options.locale
+          ? [locale, localeValue]
+          : [locale, replacer.replaceInValue(field, localeValue, `${field.api_key}[${locale}]`, matches)]));
+      if (matches.length > found) {
+        data[field.api_key] = replaced;
+      }
+    } else {
+      const replaced = replacer.replaceInValue(field, value, field.api_key, matches);
+      if (matches.length > found) {
+        data[field.api_key] = replaced;
+      }
+    }
+  }
+
+  return { data, matches };
+}
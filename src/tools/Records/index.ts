@@ -3,9 +3,13 @@
  */
 // Export handlers from category directories
 export * from './Read/index.js';
+export * from './Export/index.js';
+export * from './Import/index.js';
 export * from './Versions/index.js';
 export * from './PublicationScheduling/index.js';
 export * from './Create/index.js';
+export * from './Upsert/index.js';
+export * from './FindReplace/index.js';
 export * from './Delete/index.js';
 export * from './Publication/index.js';
 
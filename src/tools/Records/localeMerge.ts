@@ -0,0 +1,163 @@
+/**
+ * @file localeMerge.ts
+ * @description Merges a partial update into a record's current field values
+ * The CMA replaces a localized field with exactly the locales it receives, so
+ * an update that only sends `{ title: { it: "..." } }` deletes the other
+ * locales. With `mergeLocales`, the provided locales are merged into the
+ * current value instead. Modular content is merged by block ID the same way:
+ * blocks that aren't mentioned stay where they are. Structured Text isn't
+ * merged: a block's place in the document tree can't be inferred, so each
+ * locale sent replaces the whole document. A locale added to one field is
+ * added, as null, to the record's other localized fields, which must share it.
+ */
+
+/**
+ * A field, as far as merging is concerned
+ */
+export interface MergeField {
+  api_key: string;
+  field_type: string;
+  localized: boolean;
+}
+
+/**
+ * Result of mergeRecordData()
+ */
+export interface LocaleMergeResult {
+  /** The update payload, with the current values merged in */
+  data: Record<string, unknown>;
+  /** Locales whose value changed, by localized field */
+  changedLocales: Record<string, string[]>;
+}
+
+/** Field types whose values are objects that can be updated key by key */
+const OBJECT_FIELD_TYPES = new Set(["seo", "file", "color", "lat_lon", "video"]);
+
+/**
+ * Narrowing helper: plain object (not array / null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * ID of a block entry: an ID string, or a block object
+ */
+function blockId(entry: unknown): string | undefined {
+  if (typeof entry === "string") {
+    return entry;
+  }
+  return isPlainObject(entry) && typeof entry.id === "string" ? entry.id : undefined;
+}
+
+/**
+ * Merges blocks into a modular content value by block ID
+ *
+ * Provided blocks with the ID of a current block replace it in place; other
+ * provided blocks are appended. Current blocks that aren't mentioned are kept
+ * (as IDs, so the CMA leaves them unchanged).
+ */
+function mergeBlocks(current: unknown, provided: unknown[]): unknown[] {
+  const merged: unknown[] = Array.isArray(current) ? current.map(entry => blockId(entry) ?? entry) : [];
+  for (const entry of provided) {
+    const id = blockId(entry);
+    const index = id === undefined ? -1 : merged.findIndex(existing => blockId(existing) === id);
+    if (index >= 0) {
+      merged[index] = entry;
+    } else {
+      merged.push(entry);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merges one value (of one locale) into the current one
+ */
+function mergeValue(field: MergeField | undefined, current: unknown, provided: unknown): unknown {
+  if (field?.field_type === "rich_text" && Array.isArray(provided)) {
+    return mergeBlocks(current, provided);
+  }
+  if (field && OBJECT_FIELD_TYPES.has(field.field_type) && isPlainObject(current) && isPlainObject(provided)) {
+    return { ...current, ...provided };
+  }
+  return provided;
+}
+
+/**
+ * Gives every localized field of a record the same locales after an update
+ *
+ * The CMA requires the localized fields of a record to share one locale set.
+ * When the payload adds a locale to some fields, the other localized fields get
+ * it too, as null, keeping their current values for the other locales. Fields
+ * the payload leaves out are added to it when they need the new locale.
+ *
+ * @param current The record's current field values
+ * @param data The update payload, with localized values already merged into the current ones
+ * @param fields The model's fields
+ * @returns The payload, with the missing locales filled
+ */
+export function alignRecordLocales(current: Record<string, unknown>, data: Record<string, unknown>, fields: MergeField[]): Record<string, unknown> {
+  const localized = fields.filter(field => field.localized);
+  const valueOf = (field: MergeField) => field.api_key in data ? data[field.api_key] : current[field.api_key];
+  const locales = new Set(localized.flatMap(field => {
+    const value = valueOf(field);
+    return isPlainObject(value) ? Object.keys(value) : [];
+  }));
+
+  const aligned = { ...data };
+  for (const field of localized) {
+    const value = valueOf(field);
+    const byLocale = isPlainObject(value) ? value : {};
+    const missing = [...locales].filter(locale => !(locale in byLocale));
+    if (missing.length > 0) {
+      aligned[field.api_key] = { ...byLocale, ...Object.fromEntries(missing.map(locale => [locale, null])) };
+    }
+  }
+  return aligned;
+}
+
+/**
+ * Merges an update payload into a record's current values
+ * @param current The record's current field values
+ * @param data The update payload
+ * @param fields The model's fields
+ * @returns The payload to send, and the locales that changed per localized field
+ */
+export function mergeRecordData(current: Record<string, unknown>, data: Record<string, unknown>, fields: MergeField[]): LocaleMergeResult {
+  const byApiKey = new Map(fields.map(field => [field.api_key, field]));
+  const merged: Record<string, unknown> = {};
+  const changedLocales: Record<string, string[]> = {};
+
+  for (const [apiKey, value] of Object.entries(data)) {
+    const field = byApiKey.get(apiKey);
+    if (!field?.localized || !isPlainObject(value)) {
+      merged[apiKey] = mergeValue(field, current[apiKey], value);
+      continue;
+    }
+
+    const currentLocales = isPlainObject(current[apiKey]) ? current[apiKey] : {};
+    const locales: Record<string, unknown> = { ...currentLocales };
+    const changed: string[] = [];
+    for (const [locale, localeValue] of Object.entries(value)) {
+      locales[locale] = mergeValue(field, currentLocales[locale], localeValue);
+      if (JSON.stringify(locales[locale]) !== JSON.stringify(currentLocales[locale] ?? null)) {
+        changed.push(locale);
+      }
+    }
+    merged[apiKey] = locales;
+    changedLocales[apiKey] = changed;
+  }
+
+  return { data: alignRecordLocales(current, merged, fields), changedLocales };
+}
+
+/**
+ * Describes changed locales for a message, e.g. "title (it), body (en, it)"
+ */
+export function describeChangedLocales(changedLocales: Record<string, string[]>): string {
+  const entries = Object.entries(changedLocales).filter(([, locales]) => locales.length > 0);
+  return entries.length > 0
+    ? entries.map(([apiKey, locales]) => `${apiKey} (${locales.join(", ")})`).join(", ")
+    : "none";
+}
@@ -0,0 +1,352 @@
+/**
+ * @file payloadValidation.ts
+ * @description Checks record payloads against the model before they are sent
+ * The CMA rejects a payload at the first kind of problem it finds, so fixing
+ * one issue often only reveals the next. On request (`validate: true`), this
+ * check loads what the API would check against (the model's fields and the site
+ * locales) and reports every issue with its path at once: unknown fields,
+ * localized values and locales, required fields, value types, the
+ * enum/length/range/size validators and the records links point to.
+ *
+ * The API stays the authority: format and slug_format patterns are left to it,
+ * since matching them here could reject values it accepts.
+ */
+
+import type { Client } from "@datocms/cma-client-node";
+import { PayloadValidationError, type PayloadIssue } from "../../utils/errorHandlers.js";
+import { isStructuredTextValue } from "../../utils/structuredText.js";
+import { listRecordsPage } from "./recordQuery.js";
+
+/**
+ * A field, as far as payload validation is concerned
+ */
+export interface ValidationField {
+  api_key: string;
+  field_type: string;
+  localized: boolean;
+  validators?: Record<string, unknown>;
+}
+
+/**
+ * What a payload is checked against
+ */
+export interface PayloadValidationContext {
+  /** The model's fields */
+  fields: ValidationField[];
+  /** The site locales */
+  locales: string[];
+  /** Whether the payload creates a record: required fields must then be present */
+  creating: boolean;
+  /** Looks up records by ID, returning the model ID of each one that exists */
+  findRecordModels: (ids: string[]) => Promise<Map<string, string>>;
+}
+
+/**
+ * A link to check once all the payload's links are known
+ */
+interface LinkTarget {
+  path: string;
+  id: string;
+  /** Model IDs the field accepts, if it restricts them */
+  itemTypes?: string[];
+}
+
+/** Payload keys that aren't field values */
+const RESERVED_KEYS = new Set(["meta", "creator", "item_type", "id"]);
+
+/** Field types whose values are objects, so a locale-keyed object can't be told apart by shape */
+const OBJECT_FIELD_TYPES = new Set(["color", "lat_lon", "seo", "video", "file", "structured_text", "single_block"]);
+
+/** Record lookups per request */
+const LOOKUP_CHUNK_SIZE = 100;
+
+/**
+ * Narrowing helper: plain object (not array / null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a field value counts as empty for the required validator
+ */
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Whether a value is an upload reference (`{ upload_id }`)
+ */
+function isUploadValue(value: unknown): boolean {
+  return isPlainObject(value) && typeof value.upload_id === "string";
+}
+
+/**
+ * Describes a value's type for messages
+ */
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) return "an array";
+  if (value === null) return "null";
+  return typeof value === "object" ? "an object" : `a ${typeof value}`;
+}
+
+/**
+ * Checks a value's shape against its field type
+ * @returns What the value should be, or undefined when it fits
+ */
+function typeMismatch(fieldType: string, value: unknown): string | undefined {
+  switch (fieldType) {
+    case "string":
+    case "text":
+    case "slug":
+      return typeof value === "string" ? undefined : "a string";
+    case "integer":
+      return Number.isInteger(value) ? undefined : "an integer";
+    case "float":
+      return typeof value === "number" && Number.isFinite(value) ? undefined : "a number";
+    case "boolean":
+      return typeof value === "boolean" ? undefined : "true or false";
+    case "date":
+      return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+        ? undefined
+        : "a date as YYYY-MM-DD";
+    case "date_time":
+      return typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value))
+        ? undefined
+        : "an ISO 8601 date and time, e.g. 2024-01-31T09:30:00+00:00";
+    case "json":
+      if (typeof value === "string") {
+        try {
+          JSON.parse(value);
+          return undefined;
+        } catch {
+          return "a string of valid JSON";
+        }
+      }
+      return "a string of JSON (stringify objects first)";
+    case "color":
+      return isPlainObject(value) && ["red", "green", "blue", "alpha"].every(channel => {
+        const level = value[channel];
+        return Number.isInteger(level) && (level as number) >= 0 && (level as number) <= 255;
+      }) ? undefined : "a color { red, green, blue, alpha } with levels from 0 to 255";
+    case "lat_lon":
+      return isPlainObject(value)
+        && typeof value.latitude === "number" && Math.abs(value.latitude) <= 90
+        && typeof value.longitude === "number" && Math.abs(value.longitude) <= 180
+        ? undefined
+        : "a location { latitude, longitude }";
+    case "seo":
+    case "video":
+      return isPlainObject(value) ? undefined : "an object";
+    case "file":
+      return isUploadValue(value) ? undefined : "an upload { upload_id }";
+    case "gallery":
+      return Array.isArray(value) && value.every(isUploadValue) ? undefined : "an array of uploads { upload_id }";
+    case "link":
+      return typeof value === "string" ? undefined : "a record ID";
+    case "links":
+      return Array.isArray(value) && value.every(id => typeof id === "string") ? undefined : "an array of record IDs";
+    case "rich_text":
+      return Array.isArray(value) && value.every(block => typeof block === "string" || isPlainObject(block))
+        ? undefined
+        : "an array of blocks (block IDs or payloads)";
+    case "single_block":
+      return typeof value === "string" || isPlainObject(value) ? undefined : "a block (block ID or payload)";
+    case "structured_text":
+      return isStructuredTextValue(value) ? undefined : "a Structured Text value { schema: \"dast\", document }";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Describes the bounds of a length or size validator (`min`, `max`, `eq`)
+ */
+function outOfBounds(count: number, bounds: Record<string, unknown>, unit: string): string | undefined {
+  const { min, max, eq } = bounds as { min?: number; max?: number; eq?: number };
+  if (typeof eq === "number" && count !== eq) return `must have exactly ${eq} ${unit} (has ${count})`;
+  if (typeof min === "number" && count < min) return `must have at least ${min} ${unit} (has ${count})`;
+  if (typeof max === "number" && count > max) return `must have at most ${max} ${unit} (has ${count})`;
+  return undefined;
+}
+
+/**
+ * Checks one value (of a field, or of one locale of it)
+ * @param field The field
+ * @param value The value
+ * @param path Where the value is, e.g. 'title[en]'
+ * @param issues Collects the issues
+ * @param links Collects the links to check
+ */
+function checkValue(field: ValidationField, value: unknown, path: string, issues: PayloadIssue[], links: LinkTarget[]): void {
+  const validators = field.validators ?? {};
+  if (isEmptyValue(value)) {
+    if (validators.required) {
+      issues.push({ path, code: "VALIDATION_REQUIRED", message: "the field is required, but the value is empty" });
+    }
+    if (value === null || value === undefined) {
+      return;
+    }
+  }
+
+  const expected = typeMismatch(field.field_type, value);
+  if (expected) {
+    issues.push({ path, code: "VALIDATION_TYPE", message: `${field.field_type} fields take ${expected}, got ${describeType(value)}` });
+    return;
+  }
+
+  const enumValidator = validators.enum as { values?: unknown[] } | undefined;
+  if (enumValidator?.values && !enumValidator.values.includes(value)) {
+    issues.push({ path, code: "VALIDATION_ENUM", message: `must be one of: ${enumValidator.values.map(option => JSON.stringify(option)).join(", ")}` });
+  }
+
+  if (typeof value === "string" && isPlainObject(validators.length)) {
+    const length = outOfBounds([...value].length, validators.length, "characters");
+    if (length) {
+      issues.push({ path, code: "VALIDATION_LENGTH", message: length });
+    }
+  }
+
+  if (Array.isArray(value) && isPlainObject(validators.size)) {
+    const size = outOfBounds(value.length, validators.size, "items");
+    const multipleOf = validators.size.multiple_of;
+    if (size) {
+      issues.push({ path, code: "VALIDATION_SIZE", message: size });
+    } else if (typeof multipleOf === "number" && value.length % multipleOf !== 0) {
+      issues.push({ path, code: "VALIDATION_SIZE", message: `must have a multiple of ${multipleOf} items (has ${value.length})` });
+    }
+  }
+
+  if (typeof value === "number" && isPlainObject(validators.number_range)) {
+    const { min, max } = validators.number_range as { min?: number; max?: number };
+    if ((typeof min === "number" && value < min) || (typeof max === "number" && value > max)) {
+      issues.push({ path, code: "VALIDATION_NUMBER_RANGE", message: `must be ${[typeof min === "number" && `at least ${min}`, typeof max === "number" && `at most ${max}`].filter(Boolean).join(" and ")}` });
+    }
+  }
+
+  const dateRange = validators.date_range ?? validators.date_time_range;
+  if (typeof value === "string" && isPlainObject(dateRange)) {
+    const { min, max } = dateRange as { min?: string; max?: string };
+    const time = Date.parse(value);
+    if ((min && time < Date.parse(min)) || (max && time > Date.parse(max))) {
+      issues.push({ path, code: "VALIDATION_DATE_RANGE", message: `must be ${[min && `on or after ${min}`, max && `on or before ${max}`].filter(Boolean).join(" and ")}` });
+    }
+  }
+
+  if (field.field_type === "link" && typeof value === "string") {
+    links.push({ path, id: value, itemTypes: (validators.item_item_type as { item_types?: string[] } | undefined)?.item_types });
+  }
+  if (field.field_type === "links" && Array.isArray(value)) {
+    const itemTypes = (validators.items_item_type as { item_types?: string[] } | undefined)?.item_types;
+    value.forEach((id, index) => links.push({ path: `${path}[${index}]`, id: id as string, itemTypes }));
+  }
+}
+
+/**
+ * Checks a record payload against its model
+ * @param data The payload (field values by API key)
+ * @param context The fields, locales and record lookup to check against
+ * @returns Every issue found, empty when the payload looks valid
+ */
+export async function validateRecordPayload(data: Record<string, unknown>, context: PayloadValidationContext): Promise<PayloadIssue[]> {
+  const { fields, locales, creating } = context;
+  const byApiKey = new Map(fields.map(field => [field.api_key, field]));
+  const issues: PayloadIssue[] = [];
+  const links: LinkTarget[] = [];
+
+  for (const [apiKey, value] of Object.entries(data)) {
+    if (RESERVED_KEYS.has(apiKey)) {
+      continue;
+    }
+    const field = byApiKey.get(apiKey);
+    if (!field) {
+      issues.push({ path: apiKey, code: "VALIDATION_UNKNOWN_FIELD", message: `the model has no such field (fields: ${fields.map(known => known.api_key).join(", ") || "none"})` });
+      continue;
+    }
+
+    if (!field.localized) {
+      const keys = isPlainObject(value) ? Object.keys(value) : [];
+      if (keys.length > 0 && keys.every(key => locales.includes(key)) && !OBJECT_FIELD_TYPES.has(field.field_type)) {
+        issues.push({ path: apiKey, code: "VALIDATION_INVALID_LOCALIZED_VALUE", message: "the field isn't localized; give the value itself, not one per locale" });
+      } else {
+        checkValue(field, value, apiKey, issues, links);
+      }
+      continue;
+    }
+
+    if (!isPlainObject(value)) {
+      issues.push({ path: apiKey, code: "VALIDATION_INVALID_LOCALIZED_VALUE", message: `the field is localized; give an object keyed by locale, e.g. { "${locales[0] ?? "en"}": ... }` });
+      continue;
+    }
+    for (const [locale, localeValue] of Object.entries(value)) {
+      if (!locales.includes(locale)) {
+        issues.push({ path: `${apiKey}[${locale}]`, code: "INVALID_LOCALES", message: `'${locale}' isn't a locale of the site (locales: ${locales.join(", ")})` });
+      } else {
+        checkValue(field, localeValue, `${apiKey}[${locale}]`, issues, links);
+      }
+    }
+  }
+
+  if (creating) {
+    for (const field of fields) {
+      if (field.validators?.required && data[field.api_key] === undefined) {
+        issues.push({ path: field.api_key, code: "VALIDATION_REQUIRED", message: "the field is required, but no value was given" });
+      }
+    }
+  }
+
+  if (links.length > 0) {
+    const models = await context.findRecordModels([...new Set(links.map(link => link.id))]);
+    for (const link of links) {
+      const modelId = models.get(link.id);
+      if (modelId === undefined) {
+        issues.push({ path: link.path, code: "VALIDATION_LINK_NOT_FOUND", message: `record '${link.id}' doesn't exist` });
+      } else if (link.itemTypes && !link.itemTypes.includes(modelId)) {
+        issues.push({ path: link.path, code: "VALIDATION_LINK_ITEM_TYPE", message: `record '${link.id}' belongs to model '${modelId}', which the field doesn't accept (accepted: ${link.itemTypes.join(", ") || "none"})` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks a record payload against its model, loading the site locales and
+ * linked records
+ * @param client The CMA client
+ * @param data The payload
+ * @param fields The model's fields
+ * @param creating Whether the payload creates a record
+ * @throws PayloadValidationError listing every issue, so nothing is sent
+ */
+export async function assertValidRecordPayload(
+  client: Client,
+  data: Record<string, unknown>,
+  fields: ValidationField[],
+  creating: boolean
+): Promise<void> {
+  const site = await client.site.find();
+  const issues = await validateRecordPayload(data, {
+    fields,
+    locales: site.locales,
+    creating,
+    findRecordModels: async (ids) => {
+      const models = new Map<string, string>();
+      for (let index = 0; index < ids.length; index += LOOKUP_CHUNK_SIZE) {
+        const chunk = ids.slice(index, index + LOOKUP_CHUNK_SIZE);
+        const { items } = await listRecordsPage(client, {
+          filter: { ids: chunk.join(",") },
+          version: "current",
+          nested: false,
+          page: { offset: 0, limit: chunk.length }
+        });
+        items.forEach(item => models.set(item.id, item.item_type.id));
+      }
+      return models;
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new PayloadValidationError(`The record data has ${issues.length} issue${issues.length === 1 ? "" : "s"}; nothing was sent. Fix them all and retry (or leave out validate: true):`, issues);
+  }
+}
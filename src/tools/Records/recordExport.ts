@@ -0,0 +1,207 @@
+/**
+ * @file recordExport.ts
+ * @description Flattens records into rows and serializes them as CSV, JSON or NDJSON
+ * Every record becomes one row with the same columns: its ID and meta data,
+ * then the model's fields. Localized fields get a `field[locale]` column per
+ * site locale, or a single column when each record was trimmed to one locale,
+ * which the `_locale` column then names. References come out as IDs (links,
+ * blocks and uploads), and Structured Text as plain text or as the DAST document.
+ */
+
+import { structuredTextToPlainText } from "../../utils/structuredText.js";
+
+/**
+ * Export file formats
+ */
+export type ExportFormat = "csv" | "json" | "ndjson";
+
+/**
+ * How Structured Text fields are exported
+ */
+export type StructuredTextExport = "text" | "dast";
+
+/**
+ * A field, as far as exporting is concerned
+ */
+export interface ExportField {
+  api_key: string;
+  field_type: string;
+  localized: boolean;
+}
+
+/**
+ * A row of the export, by column name
+ */
+export type ExportRow = Record<string, unknown>;
+
+/**
+ * A record as returned by the CMA client
+ */
+interface ExportedRecord {
+  id: string;
+  item_type: { id: string };
+  meta?: Record<string, unknown>;
+  [field: string]: unknown;
+}
+
+/**
+ * Options for flattening records
+ */
+export interface FlattenOptions {
+  /** Site locales, in order; each localized field gets a column per locale */
+  locales: string[];
+  structuredText: StructuredTextExport;
+  /** Localized fields hold a single value (the records were trimmed to one locale) */
+  singleLocale: boolean;
+}
+
+/** Column naming the locale of a row whose record was trimmed to one locale */
+export const LOCALE_COLUMN = "_locale";
+
+/** File extensions of each format */
+const FORMAT_EXTENSIONS: Record<string, ExportFormat> = {
+  ".csv": "csv",
+  ".json": "json",
+  ".ndjson": "ndjson",
+  ".jsonl": "ndjson"
+};
+
+/** Columns every row starts with, and the record meta they come from */
+const META_COLUMNS: Array<[column: string, meta: string]> = [
+  ["_status", "status"],
+  ["_created_at", "created_at"],
+  ["_updated_at", "updated_at"],
+  ["_published_at", "published_at"]
+];
+
+/**
+ * Picks the file format from the argument or the file extension (also used by imports)
+ * @param path The file path
+ * @param format The requested format, if any
+ * @throws If no format is given and the extension isn't a known one
+ */
+export function resolveFileFormat(path: string, format?: ExportFormat): ExportFormat {
+  if (format) {
+    return format;
+  }
+  const extension = /\.[^./\\]+$/.exec(path)?.[0].toLowerCase() ?? "";
+  const inferred = FORMAT_EXTENSIONS[extension];
+  if (!inferred) {
+    throw new Error(`Can't tell the file format of '${path}'. Pass 'format' ('csv', 'json' or 'ndjson') or use a .csv, .json, .ndjson or .jsonl extension.`);
+  }
+  return inferred;
+}
+
+/**
+ * Lists the columns of an export
+ * @param fields Fields of every exported model, in order
+ * @param options Locales and locale mode
+ * @returns The column names
+ */
+export function buildExportColumns(fields: ExportField[], options: Pick<FlattenOptions, "locales" | "singleLocale">): string[] {
+  const columns = new Set(["id", "_model", ...(options.singleLocale ? [LOCALE_COLUMN] : []), ...META_COLUMNS.map(([column]) => column)]);
+  for (const field of fields) {
+    if (field.localized && !options.singleLocale) {
+      options.locales.forEach(locale => columns.add(`${field.api_key}[${locale}]`));
+    } else {
+      columns.add(field.api_key);
+    }
+  }
+  return [...columns];
+}
+
+/**
+ * Converts a field value for export: references become IDs
+ */
+function exportValue(field: ExportField, value: unknown, structuredText: StructuredTextExport): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (field.field_type) {
+    case "file":
+      return (value as { upload_id?: string }).upload_id ?? null;
+    case "gallery":
+      return (value as Array<{ upload_id?: string }>).map(upload => upload.upload_id);
+    case "links":
+    case "rich_text":
+      // Nested blocks come back as objects when the records were fetched nested
+      return (value as Array<string | { id: string }>).map(entry => typeof entry === "string" ? entry : entry.id);
+    case "link":
+    case "single_block":
+      return typeof value === "string" ? value : (value as { id: string }).id;
+    case "structured_text":
+      return structuredText === "text" ? structuredTextToPlainText(value) : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Flattens a record into a row
+ * @param record The record
+ * @param modelApiKey API key of the record's model
+ * @param fields The model's fields
+ * @param options Locales and conversion options
+ * @param locale With `singleLocale`, the locale the record was trimmed to (null when it has none)
+ * @returns The row
+ */
+export function flattenRecord(record: ExportedRecord, modelApiKey: string, fields: ExportField[], options: FlattenOptions, locale: string | null = null): ExportRow {
+  const row: ExportRow = { id: record.id, _model: modelApiKey };
+  if (options.singleLocale) {
+    row[LOCALE_COLUMN] = locale;
+  }
+  for (const [column, meta] of META_COLUMNS) {
+    row[column] = record.meta?.[meta] ?? null;
+  }
+
+  for (const field of fields) {
+    const value = record[field.api_key];
+    if (field.localized && !options.singleLocale) {
+      const byLocale = (value ?? {}) as Record<string, unknown>;
+      for (const locale of options.locales) {
+        row[`${field.api_key}[${locale}]`] = exportValue(field, byLocale[locale], options.structuredText);
+      }
+    } else {
+      row[field.api_key] = exportValue(field, value, options.structuredText);
+    }
+  }
+  return row;
+}
+
+/**
+ * Renders a value as a CSV cell: lists of IDs are joined, other objects become JSON
+ */
+function csvCell(value: unknown): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = "";
+  } else if (Array.isArray(value) && value.every(entry => typeof entry !== "object" || entry === null)) {
+    text = value.join(", ");
+  } else if (typeof value === "object") {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows in an export format
+ * @param rows The rows
+ * @param columns The columns, in order (CSV header and JSON key order)
+ * @param format The format
+ * @returns The file contents
+ */
+export function serializeRows(rows: ExportRow[], columns: string[], format: ExportFormat): string {
+  const ordered = rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null])));
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(ordered, null, 2)}\n`;
+    case "ndjson":
+      return ordered.map(row => `${JSON.stringify(row)}\n`).join("");
+    case "csv":
+      return [columns, ...ordered.map(row => columns.map(column => row[column]))]
+        .map(cells => `${cells.map(csvCell).join(",")}\r\n`)
+        .join("");
+  }
+}
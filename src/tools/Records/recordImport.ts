@@ -0,0 +1,564 @@
+/**
+ * @file recordImport.ts
+ * @description Parses CSV, JSON and NDJSON files into records of a model
+ * The counterpart of recordExport.ts: columns are mapped to fields by API key
+ * or label (`field[locale]` columns fill one locale of a localized field), and
+ * each value is coerced to what the CMA expects for the field's type.
+ *
+ * Exports don't always import back losslessly. Blocks are exported as the
+ * IDs of the source record's blocks, which only the same record can reuse;
+ * Structured Text exported as plain text has lost its formatting, blocks and
+ * links. Both are rejected by findLossyValues. `mostPopulatedLocale` exports
+ * have plain columns whose values come from each record's own locale, which
+ * their `_locale` column names, so those values go back into that locale.
+ */
+
+import { plainTextToStructuredText, isStructuredTextValue } from "../../utils/structuredText.js";
+import { LOCALE_COLUMN, type ExportFormat } from "./recordExport.js";
+
+/**
+ * A field, as far as importing is concerned
+ */
+export interface ImportField {
+  api_key: string;
+  label: string;
+  field_type: string;
+  localized: boolean;
+  validators?: Record<string, unknown>;
+}
+
+/**
+ * A row of the file, by column name
+ */
+export type ImportRow = Record<string, unknown>;
+
+/**
+ * Where a column's values go: the record ID, the row's locale, or a field (and locale)
+ */
+export type ColumnTarget =
+  | { kind: "id" }
+  | { kind: "locale" }
+  | { kind: "field"; field: ImportField; locale?: string };
+
+/**
+ * How the columns of a file map to a model
+ */
+export interface ColumnMapping {
+  targets: Map<string, ColumnTarget>;
+  /** Columns that aren't imported (meta columns and unknown names) */
+  ignored: string[];
+  /** Problems that make the mapping unusable */
+  errors: string[];
+}
+
+/**
+ * The record a row becomes
+ */
+export interface RowPayload {
+  /** Data row number, from 1 */
+  row: number;
+  /** Record ID from the `id` column, if any */
+  id?: string;
+  /** Field values, in CMA format */
+  data: Record<string, unknown>;
+  /** Structured Text values given as plain text, as `field` or `field[locale]` */
+  plainStructuredText: string[];
+  errors: string[];
+}
+
+/** Matches `field[locale]` column names */
+const LOCALIZED_COLUMN = /^(.+)\[([^\]]+)\]$/;
+
+/** Field types whose values are JSON objects */
+const OBJECT_FIELD_TYPES = new Set(["color", "lat_lon", "seo", "video"]);
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, doubled quotes and line breaks). Blank lines are skipped.
+ * @param text The CSV text
+ * @returns The rows
+ * @throws If a quoted cell isn't closed
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (; index < text.length; index++) {
+    const character = text[index];
+    if (quoted) {
+      if (character === "\"" && text[index + 1] === "\"") {
+        cell += "\"";
+        index++;
+      } else if (character === "\"") {
+        quoted = false;
+      } else {
+        cell += character;
+      }
+    } else if (character === "\"" && cell === "") {
+      quoted = true;
+    } else if (character === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (character === "\n" || character === "\r") {
+      if (character === "\r" && text[index + 1] === "\n") {
+        index++;
+      }
+      endRow();
+    } else {
+      cell += character;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("The CSV ends inside a quoted cell: a closing quote is missing.");
+  }
+  if (cell !== "" || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Parses the rows of an import file
+ * @param text The file contents
+ * @param format The file format
+ * @returns The rows, by column name
+ * @throws If the file isn't valid in its format
+ */
+export function parseRecordFile(text: string, format: ExportFormat): ImportRow[] {
+  switch (format) {
+    case "csv": {
+      const [header, ...rows] = parseCsv(text);
+      if (!header) {
+        return [];
+      }
+      return rows.map(cells => Object.fromEntries(header.map((column, index) => [column.trim(), cells[index] ?? ""])));
+    }
+    case "json": {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        // The parser's message quotes the file, so it isn't passed on
+        throw new Error("The import file isn't valid JSON.");
+      }
+      if (!Array.isArray(parsed) || parsed.some(row => typeof row !== "object" || row === null || Array.isArray(row))) {
+        throw new Error("A JSON import file must contain an array of objects, one per record.");
+      }
+      return parsed as ImportRow[];
+    }
+    case "ndjson":
+      return text.split(/\r?\n/).flatMap((line, index) => {
+        if (line.trim() === "") {
+          return [];
+        }
+        try {
+          const parsed: unknown = JSON.parse(line);
+          if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+            return [parsed as ImportRow];
+          }
+        } catch {
+          // Reported below
+        }
+        throw new Error(`Line ${index + 1} of the NDJSON file isn't a JSON object.`);
+      });
+  }
+}
+
+/**
+ * Normalizes a column name or label for matching (`Cover image` → `cover_image`)
+ */
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Finds the field a name refers to: its API key, or its label
+ */
+function findField(name: string, fields: ImportField[]): ImportField | undefined {
+  const normalized = normalizeName(name);
+  return fields.find(field => field.api_key === name)
+    ?? fields.find(field => normalizeName(field.api_key) === normalized)
+    ?? fields.find(field => normalizeName(field.label) === normalized);
+}
+
+/**
+ * Maps the columns of a file to the fields of a model
+ *
+ * Columns are matched by API key, then by label, ignoring case and
+ * punctuation. `field[locale]` columns fill one locale; plain columns for a
+ * localized field fill the row's `_locale`, or the main locale. Other columns
+ * starting with `_` (the meta columns of an export) and unknown columns are
+ * ignored.
+ *
+ * @param columns The file's columns
+ * @param fields The model's fields
+ * @param locales The site locales; the first is the main locale
+ * @param overrides Explicit column → field mappings (e.g. `title[it]`)
+ * @returns The mapping, with the ignored columns and any errors
+ */
+export function mapColumns(columns: string[], fields: ImportField[], locales: string[], overrides: Record<string, string> = {}): ColumnMapping {
+  const targets = new Map<string, ColumnTarget>();
+  const ignored: string[] = [];
+  const errors: string[] = [];
+  const claimedBy = new Map<string, string>();
+
+  for (const column of Object.keys(overrides)) {
+    if (!columns.includes(column)) {
+      errors.push(`The mapping names column '${column}', which isn't in the file.`);
+    }
+  }
+
+  for (const column of columns) {
+    const explicit = overrides[column];
+    const name = explicit ?? column;
+    const [, base = name, locale] = LOCALIZED_COLUMN.exec(name) ?? [];
+
+    if (!locale && normalizeName(base) === "id") {
+      targets.set(column, { kind: "id" });
+      continue;
+    }
+    if (explicit === undefined && column === LOCALE_COLUMN) {
+      targets.set(column, { kind: "locale" });
+      continue;
+    }
+    if (explicit === undefined && column.startsWith("_")) {
+      ignored.push(column);
+      continue;
+    }
+
+    const field = findField(base, fields);
+    if (!field) {
+      if (explicit !== undefined) {
+        errors.push(`Column '${column}' is mapped to '${explicit}', which isn't a field of the model. Fields: ${fields.map(candidate => candidate.api_key).join(", ")}.`);
+      } else {
+        ignored.push(column);
+      }
+      continue;
+    }
+    if (locale && !field.localized) {
+      errors.push(`Column '${column}' has a locale, but '${field.api_key}' isn't localized.`);
+      continue;
+    }
+    if (locale && !locales.includes(locale)) {
+      errors.push(`Column '${column}' uses locale '${locale}', which isn't a site locale (${locales.join(", ")}).`);
+      continue;
+    }
+
+    const key = field.localized ? `${field.api_key}[${locale ?? locales[0]}]` : field.api_key;
+    const previous = claimedBy.get(key);
+    if (previous) {
+      errors.push(`Columns '${previous}' and '${column}' both map to '${key}'.`);
+      continue;
+    }
+    claimedBy.set(key, column);
+    targets.set(column, { kind: "field", field, ...(locale && { locale }) });
+  }
+
+  return { targets, ignored, errors };
+}
+
+/**
+ * Whether a cell is empty
+ */
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+/**
+ * Parses a cell holding JSON
+ */
+function parseJsonCell(value: unknown, expected: string): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`expected ${expected} as JSON`);
+  }
+}
+
+/**
+ * Reads a list of IDs: an array, or a comma-separated cell
+ */
+function parseIdList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(entry => typeof entry === "object" && entry !== null ? String((entry as { id?: unknown }).id) : String(entry));
+  }
+  if (typeof value === "string" && value.trim().startsWith("[")) {
+    return parseIdList(parseJsonCell(value, "a list of IDs"));
+  }
+  return String(value).split(",").map(id => id.trim()).filter(id => id !== "");
+}
+
+/**
+ * Coerces a cell to the value a field type takes
+ * @param field The field
+ * @param value The cell (a string in CSV, any JSON value otherwise)
+ * @returns The value in CMA format; null for empty cells
+ * @throws An Error describing the expected value when the cell doesn't fit
+ */
+export function coerceFieldValue(field: ImportField, value: unknown): unknown {
+  if (isBlank(value)) {
+    return null;
+  }
+  const text = typeof value === "string" ? value.trim() : value;
+
+  switch (field.field_type) {
+    case "string":
+    case "text":
+    case "slug":
+      if (typeof value === "object") {
+        throw new Error("expected text");
+      }
+      return String(value);
+    case "integer": {
+      const number = typeof text === "number" ? text : /^[-+]?\d+$/.test(String(text)) ? Number(text) : NaN;
+      if (!Number.isInteger(number)) {
+        throw new Error(`expected an integer, got '${String(value)}'`);
+      }
+      return number;
+    }
+    case "float": {
+      const number = typeof text === "number" ? text : typeof text === "string" ? Number(text) : NaN;
+      if (!Number.isFinite(number)) {
+        throw new Error(`expected a number, got '${String(value)}'`);
+      }
+      return number;
+    }
+    case "boolean": {
+      if (typeof text === "boolean") {
+        return text;
+      }
+      const normalized = String(text).toLowerCase();
+      if (["true", "yes", "1"].includes(normalized)) {
+        return true;
+      }
+      if (["false", "no", "0"].includes(normalized)) {
+        return false;
+      }
+      throw new Error(`expected true or false, got '${String(value)}'`);
+    }
+    case "date":
+      if (typeof text !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(text) || Number.isNaN(Date.parse(text))) {
+        throw new Error(`expected a date (YYYY-MM-DD), got '${String(value)}'`);
+      }
+      return text;
+    case "date_time":
+      if (typeof text !== "string" || Number.isNaN(Date.parse(text))) {
+        throw new Error(`expected an ISO 8601 date and time, got '${String(value)}'`);
+      }
+      return new Date(text).toISOString();
+    case "link":
+    case "single_block":
+      if (typeof text === "string" && text.startsWith("{")) {
+        return parseJsonCell(text, "a block");
+      }
+      return typeof text === "object" ? text : String(text);
+    case "links":
+      return parseIdList(value);
+    case "rich_text":
+      return Array.isArray(value) || (typeof text === "string" && text.startsWith("[")) ? parseJsonCell(value, "a list of blocks") : parseIdList(value);
+    case "file":
+      return typeof text === "object" ? text : { upload_id: String(text) };
+    case "gallery":
+      return parseIdList(value).map(uploadId => ({ upload_id: uploadId }));
+    case "structured_text": {
+      if (typeof text === "string" && !text.startsWith("{")) {
+        return plainTextToStructuredText(text);
+      }
+      const parsed = parseJsonCell(text, "a DAST document");
+      if (!isStructuredTextValue(parsed)) {
+        throw new Error("expected plain text or a DAST document ({ \"schema\": \"dast\", \"document\": ... })");
+      }
+      return parsed;
+    }
+    case "json":
+      if (typeof value === "string") {
+        parseJsonCell(value, "a JSON value");
+        return value;
+      }
+      return JSON.stringify(value);
+    default:
+      return OBJECT_FIELD_TYPES.has(field.field_type) ? parseJsonCell(text, `a ${field.field_type} object`) : value;
+  }
+}
+
+/**
+ * Builds the record payload of a row
+ *
+ * Localized fields only get the locales they have a column for, and only the
+ * locales the row fills in some localized field. The handler gives the fields
+ * one shared locale set before writing, as the CMA expects.
+ *
+ * @param row The row
+ * @param rowNumber Data row number, from 1
+ * @param mapping The column mapping
+ * @param locales The site locales; the first is the main locale
+ * @returns The payload, with an error per cell that doesn't fit its field
+ */
+export function buildRowPayload(row: ImportRow, rowNumber: number, mapping: ColumnMapping, locales: string[]): RowPayload {
+  const payload: RowPayload = { row: rowNumber, data: {}, plainStructuredText: [], errors: [] };
+  const localizedFields = new Set<string>();
+  const rowLocales = new Set<string>();
+
+  // Plain columns of localized fields fill the row's own locale, if it names one
+  let defaultLocale = locales[0]!;
+  const localeCell = row[LOCALE_COLUMN];
+  if (mapping.targets.get(LOCALE_COLUMN)?.kind === "locale" && !isBlank(localeCell)) {
+    const locale = String(localeCell).trim();
+    if (locales.includes(locale)) {
+      defaultLocale = locale;
+    } else {
+      payload.errors.push(`${LOCALE_COLUMN}: '${locale}' isn't a site locale (${locales.join(", ")})`);
+    }
+  }
+
+  for (const [column, target] of mapping.targets) {
+    const cell = row[column];
+    if (target.kind === "id") {
+      if (!isBlank(cell)) {
+        payload.id = String(cell).trim();
+      }
+      continue;
+    }
+    if (target.kind === "locale") {
+      continue;
+    }
+
+    const { field } = target;
+    let value: unknown;
+    try {
+      value = coerceFieldValue(field, cell);
+    } catch (error) {
+      payload.errors.push(`${column}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const key = field.localized ? `${field.api_key}[${target.locale ?? defaultLocale}]` : field.api_key;
+    if (field.field_type === "structured_text" && typeof cell === "string" && !isBlank(cell) && !cell.trim().startsWith("{")) {
+      payload.plainStructuredText.push(key);
+    }
+
+    if (field.localized) {
+      const locale = target.locale ?? defaultLocale;
+      const byLocale = (payload.data[field.api_key] ??= {}) as Record<string, unknown>;
+      byLocale[locale] = value;
+      localizedFields.add(field.api_key);
+      if (value !== null) {
+        rowLocales.add(locale);
+      }
+    } else {
+      payload.data[field.api_key] = value;
+    }
+  }
+
+  if (localizedFields.size > 0 && rowLocales.size === 0) {
+    rowLocales.add(defaultLocale);
+  }
+  for (const apiKey of localizedFields) {
+    const byLocale = payload.data[apiKey] as Record<string, unknown>;
+    payload.data[apiKey] = Object.fromEntries(locales
+      .filter(locale => rowLocales.has(locale) && locale in byLocale)
+      .map(locale => [locale, byLocale[locale]]));
+  }
+
+  return payload;
+}
+
+/**
+ * Checks the required fields of a row's payload
+ * @param payload The payload
+ * @param fields The model's fields
+ * @param creating Whether the row creates a record: unmapped required fields are then missing
+ * @returns One message per missing value
+ */
+export function findMissingRequiredValues(payload: RowPayload, fields: ImportField[], creating: boolean): string[] {
+  const missing: string[] = [];
+  for (const field of fields) {
+    if (!field.validators?.required) {
+      continue;
+    }
+    const value = payload.data[field.api_key];
+    if (value === undefined) {
+      if (creating) {
+        missing.push(`${field.api_key}: required, but no column maps to it`);
+      }
+    } else if (field.localized) {
+      for (const [locale, localeValue] of Object.entries(value as Record<string, unknown>)) {
+        if (localeValue === null) {
+          missing.push(`${field.api_key}[${locale}]: required, but empty`);
+        }
+      }
+    } else if (value === null) {
+      missing.push(`${field.api_key}: required, but empty`);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Lists the values of a field by `field` or `field[locale]` key
+ */
+function valuesByKey(field: ImportField, value: unknown): Array<[key: string, value: unknown]> {
+  if (!field.localized) {
+    return [[field.api_key, value]];
+  }
+  return Object.entries((value ?? {}) as Record<string, unknown>).map(([locale, localeValue]) => [`${field.api_key}[${locale}]`, localeValue]);
+}
+
+/**
+ * Checks a row's payload for values that would lose data when written
+ *
+ * Block IDs (as exported for Modular Content and Single Block fields) name
+ * blocks of the record they were exported from, so a new record can't take
+ * them. Plain text replacing a non-empty Structured Text value drops its
+ * formatting, blocks and links.
+ *
+ * @param payload The payload
+ * @param fields The model's fields
+ * @param record The record the row updates, if any
+ * @returns One message per lossy value
+ */
+export function findLossyValues(payload: RowPayload, fields: ImportField[], record?: Record<string, unknown>): string[] {
+  const lossy: string[] = [];
+  for (const field of fields) {
+    const value = payload.data[field.api_key];
+    if (value === undefined) {
+      continue;
+    }
+
+    if (!record && (field.field_type === "rich_text" || field.field_type === "single_block")) {
+      for (const [key, blocks] of valuesByKey(field, value)) {
+        const ids = Array.isArray(blocks) ? blocks.filter(block => typeof block === "string") : typeof blocks === "string" ? [blocks] : [];
+        if (ids.length > 0) {
+          lossy.push(`${key}: holds IDs of existing blocks (${ids.join(", ")}), which a new record can't reuse; give the blocks as JSON objects instead`);
+        }
+      }
+    }
+
+    if (record && field.field_type === "structured_text") {
+      const current = new Map(valuesByKey(field, record[field.api_key]));
+      for (const [key] of valuesByKey(field, value)) {
+        const existing = current.get(key);
+        if (payload.plainStructuredText.includes(key) && isStructuredTextValue(existing) && (existing.document.children ?? []).length > 0) {
+          lossy.push(`${key}: plain text would replace the record's Structured Text and drop its formatting, blocks and links; export with structuredText 'dast' to import it back`);
+        }
+      }
+    }
+  }
+  return lossy;
+}
@@ -0,0 +1,111 @@
+/**
+ * @file recordQuery.ts
+ * @description Builds CMA list parameters from the filters of a records query
+ * Shared by the `query` and `export` actions, which accept the same filters.
+ */
+
+import type { Client, SchemaTypes } from "@datocms/cma-client-node";
+import { deserializeResource, type ResourcePage } from "../../utils/fetchAll.js";
+import { buildFieldFilters, type FieldConditions, type FilterableField } from "./fieldFilters.js";
+import type { Item, RecordQueryParams } from "./types.js";
+
+/**
+ * The filters of a records query
+ */
+export interface RecordFilterArgs {
+  textSearch?: string;
+  ids?: string;
+  modelId?: string;
+  modelName?: string;
+  fields?: FieldConditions;
+  locale?: string;
+  order_by?: string;
+  version?: "published" | "current";
+  nested?: boolean;
+}
+
+/**
+ * Builds the list parameters (without the page) for a records query
+ * @param client The CMA client, used to load the model's fields for field filters
+ * @param args The query filters
+ * @returns The parameters
+ * @throws If field filters are given without a model, or use unsupported operators
+ */
+export async function buildRecordQueryParams(client: Client, args: RecordFilterArgs): Promise<RecordQueryParams> {
+  const { textSearch, ids, modelId, modelName, fields, locale, order_by, version = "current", nested = true } = args;
+
+  const model = modelId || modelName;
+  const hasFieldFilters = !!fields && Object.keys(fields).length > 0;
+
+  // Validate that field filtering requires a model specification
+  if (hasFieldFilters && !model) {
+    throw new Error(
+      "Field filtering requires either 'modelId' or 'modelName' to be specified. " +
+      "DatoCMS does not support cross-model field filtering. " +
+      "Please specify which model/content type you want to filter within."
+    );
+  }
+
+  // Prepare query parameters with proper typing
+  const queryParams: RecordQueryParams = {
+    version,
+    nested
+  };
+
+  // Add order_by parameter if provided
+  if (order_by) {
+    queryParams.order_by = order_by;
+  }
+
+  // Build filter object using Record<string, unknown> to avoid type issues
+  // The CMA client expects a plain object with specific properties
+  let filter: Record<string, unknown> | undefined;
+
+  // Handle filter logic following DatoCMS API constraints:
+  // - filter[ids] cannot be used with filter[type] or filter[fields]
+  // - filter[fields] requires filter[type] to name a single model (validated above)
+  if (ids) {
+    // IDs-based query - cannot combine with type or fields per API docs
+    filter = {
+      ids: Array.isArray(ids) ? ids : [ids]
+    };
+  } else if (textSearch || model) {
+    filter = {};
+    if (textSearch) {
+      filter.query = textSearch;
+    }
+    if (model) {
+      filter.type = model;
+    }
+    if (hasFieldFilters) {
+      // Field filters run on the server, so the page and total_count only
+      // count matching records. Operators are checked against the field types first.
+      const modelFields = await client.fields.list(model!) as FilterableField[];
+      filter.fields = buildFieldFilters(fields, modelFields);
+    }
+  }
+
+  // The locale applies to localized fields in text search and field filters;
+  // the CMA reads it next to the filter, not inside it
+  if (filter && locale) {
+    queryParams.locale = locale;
+  }
+
+  // Assign the filter to query params if it exists
+  if (filter) {
+    queryParams.filter = filter;
+  }
+
+  return queryParams;
+}
+
+/**
+ * Lists one page of records, with the total number of matches
+ */
+export async function listRecordsPage(client: Client, params: RecordQueryParams): Promise<ResourcePage<Item>> {
+  const body = await client.items.rawList(params as SchemaTypes.ItemInstancesHrefSchema);
+  return {
+    items: body.data.map(item => deserializeResource<Item>(item)),
+    totalCount: body.meta.total_count
+  };
+}
@@ -6,7 +6,9 @@ import {
   versionSchema as versionEnumSchema,
   returnOnlyIdsSchema,
   returnOnlyConfirmationSchema,
-  orderBySchema
+  confirmationTokenSchema,
+  orderBySchema,
+  fetchAllSchemaShape
 } from "../../utils/sharedSchemas.js";
 import { filterConditions } from "./filterCondition.js";
 
@@ -32,6 +34,45 @@ const recordEditorUrlSchema = z.object({
   environment: environmentSchema,
 });
 
+/**
+ * How read actions return Structured Text fields
+ */
+const structuredTextFormatSchema = z.enum(["dast", "markdown", "text"])
+  .optional()
+  .default("dast")
+  .describe("How to return Structured Text fields: 'dast' (the full DAST document, default), 'markdown' (blocks and inline records become placeholders like [block:ID] and [record:ID]) or 'text' (plain text, without blocks). Markdown and text use far fewer tokens.");
+
+/**
+ * Filters shared by the `query` and `export` actions
+ */
+const recordFiltersShape = {
+  textSearch: z.string().optional()
+    .describe("SIMPLE TEXT SEARCH ONLY. Enter ONLY the raw search term (like 'searchTerm') with NO additional syntax. NOT a GraphQL query. NOT a filter. ONLY the exact word or phrase you want to find across all records. Examples: 'potato', 'dog', 'content management'."),
+  ids: z.string().optional()
+    .describe("Comma-separated list of DatoCMS record IDs to fetch (with no spaces), e.g.: 'abc123,def456'. Records can be from different models."),
+  modelId: z.string().optional()
+    .describe("Model ID to restrict results to. REQUIRED when using 'fields' parameter for field filtering."),
+  modelName: z.string().optional()
+    .describe("Model name to restrict results to. REQUIRED when using 'fields' parameter for field filtering."),
+  fields: filterConditions.optional()
+    .describe("Field filters to apply within a specific model. REQUIRES 'modelId' or 'modelName' to be specified. Example: {\"modelName\": \"author\", \"fields\": {\"name\": \"Emily\"}} finds authors named Emily. Supports operators: {\"name\": {\"eq\": \"value\"}} or simple equality: {\"name\": \"value\"}. Filters run on the DatoCMS API, combined with 'order_by' and 'locale'; each operator must be supported by the field's type (e.g. 'gt' on numbers and dates, 'matches' on text). Meta fields such as 'id', '_status' and '_updated_at' can be filtered too."),
+  locale: z.string().optional()
+    .describe("Optional locale to use when filtering by localized fields. If not specified, environment's main locale will be used."),
+  order_by: orderBySchema.optional(),
+  version: versionEnumSchema,
+};
+
+/**
+ * Field filters need a model: DatoCMS doesn't filter fields across models
+ */
+const hasModelForFieldFilters = (data: { fields?: Record<string, unknown>; modelId?: string; modelName?: string }) =>
+  !(data.fields && Object.keys(data.fields).length > 0 && !data.modelId && !data.modelName);
+
+const fieldFiltersModelError = {
+  message: "Field filtering requires either 'modelId' or 'modelName' to be specified. DatoCMS does not support cross-model field filtering.",
+  path: ["fields"]
+};
+
 /**
  * Schemas for all record-related actions.
  * These schemas are extracted from the original record tool definitions
@@ -40,42 +81,48 @@ const recordEditorUrlSchema = z.object({
 export const recordsSchemas = {
   // Read operations
   query: createBaseSchema().extend({
-    textSearch: z.string().optional()
-      .describe("SIMPLE TEXT SEARCH ONLY. Enter ONLY the raw search term (like 'searchTerm') with NO additional syntax. NOT a GraphQL query. NOT a filter. ONLY the exact word or phrase you want to find across all records. Examples: 'potato', 'dog', 'content management'."),
-    ids: z.string().optional()
-      .describe("Comma-separated list of DatoCMS record IDs to fetch (with no spaces), e.g.: 'abc123,def456'. Records can be from different models."),
-    modelId: z.string().optional()
-      .describe("Model ID to restrict results to. REQUIRED when using 'fields' parameter for field filtering."),
-    modelName: z.string().optional()
-      .describe("Model name to restrict results to. REQUIRED when using 'fields' parameter for field filtering."),
-    fields: filterConditions.optional()
-      .describe("Field filters to apply within a specific model. REQUIRES 'modelId' or 'modelName' to be specified. Example: {\"modelName\": \"author\", \"fields\": {\"name\": \"Emily\"}} finds authors named Emily. Supports operators: {\"name\": {\"eq\": \"value\"}} or simple equality: {\"name\": \"value\"}. Note: Filtering is applied after fetching records from the specified model."),
-    locale: z.string().optional()
-      .describe("Optional locale to use when filtering by localized fields. If not specified, environment's main locale will be used."),
-    order_by: orderBySchema.optional(),
-    version: versionEnumSchema,
+    ...recordFiltersShape,
     returnAllLocales: z.boolean().optional().default(false)
       .describe("If true, returns all locale versions for each field instead of only the most populated locale. Default is false to save on token usage."),
+    structuredTextFormat: structuredTextFormatSchema,
     returnOnlyIds: returnOnlyIdsSchema,
     page: paginationSchema.optional(),
     nested: z.boolean().optional().default(true)
       .describe("For Modular Content, Structured Text and Single Block fields. If set to true, returns full payload for nested blocks instead of just their IDs. Default is true."),
-  }).refine((data) => {
-    // Validate that field filtering requires model specification
-    if (data.fields && Object.keys(data.fields).length > 0 && !data.modelId && !data.modelName && !data.textSearch) {
-      return false;
-    }
-    return true;
-  }, {
-    message: "Field filtering requires either 'modelId' or 'modelName' to be specified. DatoCMS does not support cross-model field filtering.",
-    path: ["fields"]
-  }),
+    ...fetchAllSchemaShape
+  }).refine(hasModelForFieldFilters, fieldFiltersModelError),
+
+  export: createBaseSchema().extend({
+    ...recordFiltersShape,
+    path: z.string()
+      .min(1)
+      .describe("Path of the file to write in the server's files directory, e.g. 'exports/articles.csv'. Relative paths are resolved against that directory, and paths outside it are rejected. Missing directories are created."),
+    format: z.enum(["csv", "json", "ndjson"])
+      .optional()
+      .describe("File format: 'csv', 'json' (an array of rows) or 'ndjson' (one JSON row per line). Defaults to the format matching the path's extension (.csv, .json, .ndjson or .jsonl)."),
+    structuredText: z.enum(["text", "dast"])
+      .optional()
+      .default("text")
+      .describe("How to export Structured Text fields: 'text' (plain text, default) or 'dast' (the DAST document as JSON)."),
+    mostPopulatedLocale: z.boolean()
+      .optional()
+      .default(false)
+      .describe("If true, each record only keeps its most populated locale and localized fields get one column each, as in 'query'; a '_locale' column names each row's locale. Default is false: one 'field[locale]' column per locale, e.g. 'title[en]' and 'title[it]'."),
+    maxRecords: z.number().int().min(1)
+      .optional()
+      .describe("Export at most this many records. Default is every matching record."),
+    overwrite: z.boolean()
+      .optional()
+      .default(false)
+      .describe("If true, replaces the file when it already exists. Default is false: the export fails instead.")
+  }).refine(hasModelForFieldFilters, fieldFiltersModelError),
 
   get: createBaseSchema().extend({ 
     itemId: recordIdSchema,
     version: versionEnumSchema.optional().default("published"),
     returnAllLocales: z.boolean().optional().default(false)
       .describe("If true, returns all locale versions for each field instead of only the most populated locale. Default is false to save on token usage."),
+    structuredTextFormat: structuredTextFormatSchema,
     nested: z.boolean().optional().default(true)
       .describe("For Modular Content, Structured Text and Single Block fields. If set to true, returns full payload for nested blocks instead of just their IDs. Default is true."),
   }),
@@ -85,6 +132,7 @@ export const recordsSchemas = {
     version: versionEnumSchema.optional().default("current"),
     returnAllLocales: z.boolean().optional().default(false)
       .describe("If true, returns all locale versions for each field instead of only the most populated locale. Default is false to save on token usage."),
+    structuredTextFormat: structuredTextFormatSchema,
     nested: z.boolean().optional().default(true)
       .describe("For Modular Content, Structured Text and Single Block fields. If set to true, returns full payload for nested blocks instead of just their IDs. Default is true."),
     returnOnlyIds: z.boolean().optional().default(true)
@@ -93,24 +141,53 @@ export const recordsSchemas = {
 
   record_url: recordEditorUrlSchema,
 
+  import: createBaseSchema().extend({
+    path: z.string()
+      .min(1)
+      .describe("Path of the CSV, JSON or NDJSON file to import in the server's files directory, e.g. 'imports/articles.csv'. Relative paths are resolved against that directory, and paths outside it are rejected. Files written by 'export' can be imported, with limits: block IDs only import back into the record they came from (new records need the blocks as JSON), and Structured Text exported as plain text can't replace existing Structured Text (export with structuredText 'dast'). The '_locale' column of a 'mostPopulatedLocale' export is read back: each row's plain columns fill the locale it names (the main locale when there is no such column)."),
+    format: z.enum(["csv", "json", "ndjson"])
+      .optional()
+      .describe("File format: 'csv' (with a header row), 'json' (an array of objects) or 'ndjson' (one JSON object per line). Defaults to the format matching the path's extension."),
+    modelId: z.string().optional()
+      .describe("ID of the model to import the records into. Either 'modelId' or 'modelName' is required."),
+    modelName: z.string().optional()
+      .describe("API key of the model to import the records into. Either 'modelId' or 'modelName' is required."),
+    mapping: z.record(z.string())
+      .optional()
+      .describe("Column → field overrides, e.g. { \"Headline\": \"title\", \"Titolo\": \"title[it]\" }. Columns not listed are mapped automatically by field API key or label (ignoring case); 'field[locale]' columns fill one locale of a localized field, and an 'id' column identifies existing records. Columns starting with '_' and unknown columns are ignored."),
+    mode: z.enum(["create", "upsert"])
+      .optional()
+      .default("create")
+      .describe("'create' (default) creates a record per row; rows with an 'id' create the record with that ID. 'upsert' updates the records whose ID is in the 'id' column, keeping the locales the file doesn't fill, and creates the others."),
+    validateOnly: z.boolean()
+      .optional()
+      .default(false)
+      .describe("If true, only maps and validates the rows and reports the problems; nothing is written.")
+  }).refine(data => !!(data.modelId || data.modelName), {
+    message: "Either 'modelId' or 'modelName' is required.",
+    path: ["modelId"]
+  }),
+
   // Create operations
   create: createBaseSchema().extend({
     itemType: z.string()
       .describe("The ID of the DatoCMS item type (model) for which to create a record."),
     data: z.record(z.unknown())
-      .describe("The field values for the new record. For localized fields, provide an object with locale codes as keys (e.g., { title: { en: 'English Title', es: 'Spanish Title' } }). For non-localized fields, provide values directly (e.g., { count: 5 }). The structure depends on the field types in your model. You can use the Schema tools to check which fields are localized. Refer to DatoCMS Content Management API documentation for field type values: https://www.datocms.com/docs/content-management-api/resources/item/create#field-type-values."),
+      .describe("The field values for the new record. For localized fields, provide an object with locale codes as keys (e.g., { title: { en: 'English Title', es: 'Spanish Title' } }). For non-localized fields, provide values directly (e.g., { count: 5 }). The structure depends on the field types in your model. You can use the Schema tools to check which fields are localized. Structured Text fields (or their locales) also accept { \"__markdown\": \"...\" } or { \"__html\": \"...\" }, converted to DAST and checked against the field's allowed nodes and marks. Blocks (in Modular Content, Single Block and Structured Text 'block'/'inlineBlock' nodes) can be given as { \"_block\": \"block_api_key\", ...block field values }, plus \"id\" to update an existing block. Refer to DatoCMS Content Management API documentation for field type values: https://www.datocms.com/docs/content-management-api/resources/item/create#field-type-values."),
     meta: z.object({
       current_version: z.string().optional(),
       status: z.enum(["draft", "updated", "published"] as const).optional()
     }).optional()
       .describe("Optional metadata for the record"),
     returnOnlyConfirmation: returnOnlyConfirmationSchema,
+    validate: z.boolean().optional().default(false)
+      .describe("If true, checks 'data' against the model before sending it, loading the model's fields, the site locales and the linked records, and reports every issue (unknown fields, locales, required fields, value types, validators, link targets) at once, each with its path, e.g. 'title[en]'. Default is false: the data is sent as is and the API reports the first problem it finds."),
   }),
 
   update: createBaseSchema().extend({
     itemId: recordIdSchema,
     data: z.record(z.unknown())
-      .describe("The field values to update. Only include fields you want to modify. For localized fields, you MUST include values for ALL locales that should be preserved, not just the ones you're updating. Example: if a field 'title' already has values for 'en' and 'es' locales, and you want to update only the 'es' value, you must provide { title: { en: 'existing English title', es: 'new Spanish title' } }, otherwise the 'en' value will be deleted. The structure depends on the field types in your model. Use the Schema tools to check which fields are localized. Refer to DatoCMS Content Management API documentation for field type values: https://www.datocms.com/docs/content-management-api/resources/item/update#updating-fields."),
+      .describe("The field values to update. Only include fields you want to modify. For localized fields, you MUST include values for ALL locales that should be preserved, not just the ones you're updating. Example: if a field 'title' already has values for 'en' and 'es' locales, and you want to update only the 'es' value, you must provide { title: { en: 'existing English title', es: 'new Spanish title' } }, otherwise the 'en' value will be deleted (set mergeLocales: true to send only the locales you're changing). The structure depends on the field types in your model. Use the Schema tools to check which fields are localized. Structured Text fields (or their locales) also accept { \"__markdown\": \"...\" } or { \"__html\": \"...\" }, converted to DAST and checked against the field's allowed nodes and marks. Blocks (in Modular Content, Single Block and Structured Text 'block'/'inlineBlock' nodes) can be given as { \"_block\": \"block_api_key\", ...block field values }, plus \"id\" to update an existing block. Refer to DatoCMS Content Management API documentation for field type values: https://www.datocms.com/docs/content-management-api/resources/item/update#updating-fields."),
     version: z.string().optional()
       .describe("Optional version for optimistic locking. If provided, the update will fail if the record has been modified since this version."),
     meta: z.object({
@@ -118,7 +195,62 @@ export const recordsSchemas = {
       stage: z.string().optional()
     }).optional()
       .describe("Optional metadata for the record update, including version and workflow stage information"),
+    mergeLocales: z.boolean().optional().default(false)
+      .describe("If true, fetches the current record and merges 'data' into it: localized fields only change the locales you provide, modular content blocks are matched by block ID (blocks you leave out are kept, new ones are appended), and SEO, file, color, location and video values are merged key by key. Structured Text values are not merged: each locale you send replaces that locale's whole document, and blocks it no longer references are deleted, so fetch the current document first. The response lists the locales that changed. Default is false: 'data' replaces the field values."),
+    returnOnlyConfirmation: returnOnlyConfirmationSchema,
+    validate: z.boolean().optional().default(false)
+      .describe("If true, checks 'data' against the model before sending it, loading the model's fields, the site locales and the linked records, and reports every issue (unknown fields, locales, required fields, value types, validators, link targets) at once, each with its path, e.g. 'title[en]'. Default is false: the data is sent as is and the API reports the first problem it finds."),
+  }),
+
+  upsert: createBaseSchema().extend({
+    itemType: z.string()
+      .describe("ID or API key of the DatoCMS item type (model) of the record."),
+    matchOn: z.string()
+      .min(1)
+      .describe("API key of the field that identifies the record, e.g. 'slug' or 'sku'. Its value is taken from 'data'. Use a field with a unique validator: the upsert fails when several records match."),
+    matchLocale: z.string()
+      .optional()
+      .describe("For a localized 'matchOn' field, the locale whose value identifies the record. Defaults to the first locale in data[matchOn]."),
+    data: z.record(z.unknown())
+      .describe("The field values of the record, including the 'matchOn' field. An existing record is updated with them (same rules as 'update': localized fields replace all their locales); otherwise a record is created with them (same rules as 'create')."),
     returnOnlyConfirmation: returnOnlyConfirmationSchema,
+    validate: z.boolean().optional().default(false)
+      .describe("If true, checks 'data' against the model before sending it, loading the model's fields, the site locales and the linked records, and reports every issue (unknown fields, locales, required fields, value types, validators, link targets) at once, each with its path, e.g. 'title[en]'. Default is false: the data is sent as is and the API reports the first problem it finds."),
+  }),
+
+  bulk_update: createBaseSchema().extend({
+    ...recordFiltersShape,
+    data: z.record(z.unknown())
+      .describe("The patch to apply to every matching record, e.g. { \"category\": \"news\" } or { \"title\": { \"it\": \"...\" } }. Only the fields given are changed."),
+    mergeLocales: z.boolean().optional().default(true)
+      .describe("If true (default), localized fields only change the locales in 'data' and modular content is merged by block ID, as with 'update' mergeLocales. Structured Text values still replace the whole document of each locale sent. If false, 'data' replaces the field values."),
+    maxRecords: z.number().int().min(1)
+      .optional()
+      .describe("Refuse to run when more records than this match, as a safety limit. Default is no limit."),
+    confirmationToken: confirmationTokenSchema,
+  }).refine(hasModelForFieldFilters, fieldFiltersModelError),
+
+  find_replace: createBaseSchema().extend({
+    modelId: z.string().optional()
+      .describe("ID of the model whose records to search. Either 'modelId' or 'modelName' is required."),
+    modelName: z.string().optional()
+      .describe("API key of the model whose records to search. Either 'modelId' or 'modelName' is required."),
+    find: z.string().min(1)
+      .describe("The text to find. Literal by default; a regular expression (JavaScript syntax) when 'regex' is true."),
+    replace: z.string()
+      .describe("The replacement text. With 'regex', $1, $2, ... insert the captured groups."),
+    regex: z.boolean().optional().default(false)
+      .describe("If true, 'find' is a regular expression. Default is false: a literal match."),
+    caseSensitive: z.boolean().optional().default(true)
+      .describe("If false, matches regardless of case. Default is true."),
+    locale: z.string().optional()
+      .describe("Only search this locale of localized fields (non-localized fields are then skipped). Default: every locale and every field."),
+    fields: z.array(z.string()).optional()
+      .describe("API keys of the fields to search. Default: every string, text, SEO and Structured Text field of the model."),
+    confirmationToken: confirmationTokenSchema,
+  }).refine(data => !!(data.modelId || data.modelName), {
+    message: "Either 'modelId' or 'modelName' is required.",
+    path: ["modelId"]
   }),
 
   duplicate: createBaseSchema().extend({
@@ -130,11 +262,13 @@ export const recordsSchemas = {
   destroy: createBaseSchema().extend({ 
     itemId: recordIdSchema,
     returnOnlyConfirmation: returnOnlyConfirmationSchema,
+    confirmationToken: confirmationTokenSchema,
   }),
 
   bulk_destroy: createBaseSchema().extend({ 
     itemIds: z.array(z.string()).min(1)
       .describe("Array of record IDs to destroy."),
+    confirmationToken: confirmationTokenSchema,
   }),
 
   // Publication operations
@@ -237,6 +371,16 @@ export const recordsSchemas = {
   version_restore: createBaseSchema().extend({ 
     itemId: recordIdSchema,
     versionId: z.string().describe("The ID of the version to restore."),
+  }),
+
+  version_diff: createBaseSchema().extend({
+    itemId: recordIdSchema,
+    from: z.string().min(1).optional().default("published")
+      .describe("The older side of the comparison: a version ID (from versions_list), 'current' or 'published'. Default is 'published', to see what changed since the last publish."),
+    to: z.string().min(1).optional().default("current")
+      .describe("The newer side of the comparison: a version ID, 'current' or 'published'. Default is 'current'. Block content is only compared between 'current' and 'published'; with a version ID, blocks are compared by ID and listed as uncomparedBlocks."),
+    locale: z.string().optional()
+      .describe("Only compare this locale of localized fields."),
   })
 };
 
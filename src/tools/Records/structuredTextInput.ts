@@ -0,0 +1,165 @@
+/**
+ * @file structuredTextInput.ts
+ * @description Converts Markdown and HTML field values to Structured Text
+ * Record payloads can set a Structured Text field (or one of its locales) to
+ * `{ "__markdown": "..." }` or `{ "__html": "..." }` instead of a DAST
+ * document. The text is converted to DAST and checked against the field's
+ * editor settings (allowed nodes, marks and heading levels) and validators
+ * before anything is sent, so models get every problem back in one error.
+ */
+
+import { htmlToStructuredText } from "../../utils/htmlToDast.js";
+import { markdownToStructuredText } from "../../utils/markdownToDast.js";
+import type { DastNode, StructuredTextValue } from "../../utils/structuredText.js";
+
+/**
+ * A field, as far as Structured Text input is concerned
+ */
+export interface StructuredTextInputField {
+  api_key: string;
+  field_type: string;
+  localized: boolean;
+  validators?: Record<string, unknown>;
+  appearance?: { parameters?: Record<string, unknown> };
+}
+
+/**
+ * A Markdown or HTML value in place of a DAST document
+ */
+type StructuredTextInput = { __markdown: string } | { __html: string };
+
+/** Nodes every document may contain, whatever the editor settings */
+const BASE_NODES = new Set(["root", "paragraph", "span", "listItem"]);
+
+/**
+ * Whether a value is a Markdown or HTML input
+ */
+function isStructuredTextInput(value: unknown): value is StructuredTextInput {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length === 1 && (keys[0] === "__markdown" || keys[0] === "__html")
+    && typeof (value as Record<string, unknown>)[keys[0]] === "string";
+}
+
+/**
+ * The values of a field value that may be inputs: the value, or each locale
+ */
+function candidateValues(value: unknown): unknown[] {
+  if (isStructuredTextInput(value) || typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [value];
+  }
+  return [value, ...Object.values(value)];
+}
+
+/**
+ * Whether a payload uses Markdown or HTML input anywhere, so the model's
+ * fields only need loading when it does
+ */
+export function hasStructuredTextInput(data: Record<string, unknown>): boolean {
+  return Object.values(data).some(value => candidateValues(value).some(isStructuredTextInput));
+}
+
+/**
+ * Reads a string list from the field's editor parameters
+ */
+function parameterList(field: StructuredTextInputField, name: string): unknown[] | undefined {
+  const value = field.appearance?.parameters?.[name];
+  return Array.isArray(value) ? value : undefined;
+}
+
+/**
+ * Checks a converted document against a field's editor settings and validators
+ * @param value The converted value
+ * @param field The Structured Text field
+ * @param name Field name for the problems (e.g. 'body[en]')
+ * @returns The problems found
+ */
+function validateAgainstField(value: StructuredTextValue, field: StructuredTextInputField, name: string): string[] {
+  const problems = new Set<string>();
+  const nodes = parameterList(field, "nodes");
+  const marks = parameterList(field, "marks");
+  const headingLevels = parameterList(field, "heading_levels");
+
+  const visit = (node: DastNode) => {
+    if (nodes && !BASE_NODES.has(node.type) && !nodes.includes(node.type)) {
+      problems.add(`${name}: '${node.type}' nodes aren't enabled on this field (enabled: ${nodes.join(", ") || "none"})`);
+    }
+    if (node.type === "heading" && headingLevels && !headingLevels.includes(node.level)) {
+      problems.add(`${name}: level ${String(node.level)} headings aren't enabled on this field (enabled: ${headingLevels.join(", ") || "none"})`);
+    }
+    for (const mark of (node.marks as string[] | undefined) ?? []) {
+      if (marks && !marks.includes(mark)) {
+        problems.add(`${name}: the '${mark}' mark isn't enabled on this field (enabled: ${marks.join(", ") || "none"})`);
+      }
+    }
+    node.children?.forEach(visit);
+  };
+  visit(value.document);
+
+  if (field.validators?.required && (value.document.children ?? []).length === 0) {
+    problems.add(`${name}: the field is required, but the converted document is empty`);
+  }
+  return [...problems];
+}
+
+/**
+ * Converts one input, collecting problems instead of throwing
+ */
+function convertInput(input: StructuredTextInput, field: StructuredTextInputField, name: string, problems: string[]): StructuredTextValue | null {
+  try {
+    const value = "__markdown" in input ? markdownToStructuredText(input.__markdown) : htmlToStructuredText(input.__html);
+    problems.push(...validateAgainstField(value, field, name));
+    // An empty document clears the field, as the editor does
+    return (value.document.children ?? []).length > 0 ? value : null;
+  } catch (error) {
+    problems.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Replaces the Markdown and HTML inputs of a record payload with DAST
+ * @param data The record payload
+ * @param fields The model's fields
+ * @returns The payload with DAST values
+ * @throws If an input isn't on a Structured Text field, can't be converted, or
+ * doesn't fit the field; the error lists every problem
+ */
+export function convertStructuredTextInputs(data: Record<string, unknown>, fields: StructuredTextInputField[]): Record<string, unknown> {
+  const byApiKey = new Map(fields.map(field => [field.api_key, field]));
+  const converted: Record<string, unknown> = {};
+  const problems: string[] = [];
+
+  for (const [apiKey, value] of Object.entries(data)) {
+    if (!candidateValues(value).some(isStructuredTextInput)) {
+      converted[apiKey] = value;
+      continue;
+    }
+
+    const field = byApiKey.get(apiKey);
+    if (field?.field_type !== "structured_text") {
+      problems.push(`${apiKey}: __markdown and __html only work on Structured Text fields${field ? `, not ${field.field_type}` : ""}`);
+      continue;
+    }
+
+    if (isStructuredTextInput(value)) {
+      if (field.localized) {
+        problems.push(`${apiKey}: the field is localized, so give the input per locale, e.g. { "en": { "__markdown": "..." } }`);
+        continue;
+      }
+      converted[apiKey] = convertInput(value, field, apiKey, problems);
+    } else {
+      converted[apiKey] = Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([locale, localeValue]) => [
+        locale,
+        isStructuredTextInput(localeValue) ? convertInput(localeValue, field, `${apiKey}[${locale}]`, problems) : localeValue
+      ]));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Can't convert the Structured Text input; nothing was sent:\n- ${problems.join("\n- ")}`);
+  }
+  return converted;
+}
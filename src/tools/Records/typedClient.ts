@@ -27,9 +27,10 @@ export class TypedRecordsClient {
    * Create a new typed client using the standard CMA client
    * @param apiToken - DatoCMS API token
    * @param environment - Optional environment name
+   * @param project - Optional project profile name
    */
-  constructor(apiToken: string, environment?: string) {
-    this.client = UnifiedClientManager.getDefaultClient(apiToken, environment) as Client;
+  constructor(apiToken?: string, environment?: string, project?: string) {
+    this.client = UnifiedClientManager.getDefaultClient(apiToken, environment, project) as Client;
   }
   
   /**
@@ -209,8 +210,9 @@ export class TypedRecordsClient {
  * Create a type-safe records client
  * @param apiToken - DatoCMS API token
  * @param environment - Optional environment name
+ * @param project - Optional project profile name
  * @returns Type-safe client for working with records
  */
-export function createTypedRecordsClient(apiToken: string, environment?: string): TypedRecordsClient {
-  return new TypedRecordsClient(apiToken, environment);
+export function createTypedRecordsClient(apiToken?: string, environment?: string, project?: string): TypedRecordsClient {
+  return new TypedRecordsClient(apiToken, environment, project);
 }
\ No newline at end of file
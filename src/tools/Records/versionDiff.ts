@@ -0,0 +1,329 @@
+/**
+ * @file versionDiff.ts
+ * @description Field-level diff between two versions of a record
+ * Comparing two raw versions means reading every field of both. The diff only
+ * lists what changed, field by field and locale by locale: a word diff for
+ * text, the added/removed/changed nodes for Structured Text (rendered as
+ * Markdown), the added and removed IDs for links, blocks and galleries, and
+ * the old and new values for everything else.
+ *
+ * Blocks keep their ID when edited, so the blocks of both versions are compared
+ * by payload when both were fetched with `nested`. When a side only holds block
+ * IDs (a version ID), the blocks kept on both sides are listed as uncompared:
+ * they may have changed.
+ */
+
+import { isDeepStrictEqual } from "node:util";
+import { structuredTextToMarkdown } from "../../utils/dastToMarkdown.js";
+import { isStructuredTextValue, type DastNode } from "../../utils/structuredText.js";
+import { diffSequences, diffText } from "../../utils/textDiff.js";
+
+/**
+ * A field, as far as diffing is concerned
+ */
+export interface DiffField {
+  api_key: string;
+  field_type: string;
+  localized: boolean;
+}
+
+/**
+ * A change to a top-level Structured Text node
+ */
+export interface NodeChange {
+  change: "added" | "removed" | "changed";
+  /** DAST node type, e.g. 'paragraph' or 'heading' */
+  type: string;
+  /** The node as Markdown (the new node when added, the old one when removed) */
+  text?: string;
+  /** Word diff of the node's Markdown, when changed */
+  diff?: string;
+}
+
+/**
+ * A change to a field, or to one locale of a localized field
+ */
+export interface FieldChange {
+  field: string;
+  locale?: string;
+  field_type: string;
+  /** 'may_have_changed' when nothing differs but blocks that couldn't be compared */
+  change: "added" | "removed" | "changed" | "may_have_changed";
+  /** Word diff, for changed text */
+  diff?: string;
+  /** Node changes, for changed Structured Text */
+  nodes?: NodeChange[];
+  /** IDs added and removed, for links, blocks and galleries */
+  added?: unknown[];
+  removed?: unknown[];
+  /** Whether the same IDs are now in another order */
+  reordered?: boolean;
+  /** Blocks on both sides whose content changed */
+  changedBlocks?: string[];
+  /** Blocks on both sides whose content couldn't be compared, because a side only holds their IDs */
+  uncomparedBlocks?: string[];
+  /** Old and new values, for other changes */
+  from?: unknown;
+  to?: unknown;
+}
+
+/** Field types diffed word by word */
+const TEXT_FIELD_TYPES = new Set(["string", "text", "slug"]);
+
+/** Field types holding lists of IDs (or uploads), diffed as sets */
+const LIST_FIELD_TYPES = new Set(["links", "rich_text", "gallery"]);
+
+/** Field types holding blocks, as IDs or (fetched with `nested`) as full payloads */
+const BLOCK_FIELD_TYPES = new Set(["rich_text", "single_block", "structured_text"]);
+
+/**
+ * Whether a value counts as empty, so setting it is an addition
+ */
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0)
+    || (isStructuredTextValue(value) && (value.document.children ?? []).length === 0);
+}
+
+/**
+ * Renders a value for the from/to of a change: Structured Text as Markdown
+ */
+function displayValue(value: unknown): unknown {
+  return isStructuredTextValue(value) ? structuredTextToMarkdown(value) : value;
+}
+
+/**
+ * What identifies an entry of a list field: the ID, the upload, or the block
+ */
+function listKey(entry: unknown): unknown {
+  if (typeof entry === "object" && entry !== null) {
+    const { id, upload_id: uploadId } = entry as { id?: unknown; upload_id?: unknown };
+    return uploadId ?? id ?? JSON.stringify(entry);
+  }
+  return entry;
+}
+
+/**
+ * The ID of a block, whether the value holds its ID or its payload
+ */
+function blockId(entry: unknown): string | undefined {
+  if (typeof entry === "string") {
+    return entry;
+  }
+  const id = typeof entry === "object" && entry !== null ? (entry as { id?: unknown }).id : undefined;
+  return typeof id === "string" ? id : undefined;
+}
+
+/**
+ * Replaces every block of a field value (Modular Content entries, the Single
+ * Block, or Structured Text block and inline block nodes)
+ */
+function mapBlocks(fieldType: string, value: unknown, map: (entry: unknown) => unknown): unknown {
+  if (fieldType === "rich_text") {
+    return Array.isArray(value) ? value.map(map) : value;
+  }
+  if (fieldType === "single_block") {
+    return value === null || value === undefined ? value : map(value);
+  }
+  if (fieldType === "structured_text" && isStructuredTextValue(value)) {
+    const mapNode = (node: DastNode): DastNode => ({
+      ...node,
+      ...((node.type === "block" || node.type === "inlineBlock") && { item: map(node.item) }),
+      ...(node.children && { children: node.children.map(mapNode) })
+    });
+    return { ...value, document: mapNode(value.document) };
+  }
+  return value;
+}
+
+/**
+ * Compares the blocks both values hold
+ * @returns The IDs of the blocks whose payload changed, and of those that only
+ * one side (or neither) has a payload for
+ */
+function compareBlocks(fieldType: string, before: unknown, after: unknown): { changed: string[]; uncompared: string[] } {
+  const collect = (value: unknown) => {
+    const blocks = new Map<string, unknown>();
+    mapBlocks(fieldType, value, entry => {
+      const id = blockId(entry);
+      if (id !== undefined) {
+        // The payload without its meta (timestamps and such), or undefined for a bare ID
+        const { meta: _meta, ...content } = typeof entry === "object" && entry !== null ? entry as Record<string, unknown> : {};
+        blocks.set(id, typeof entry === "string" ? undefined : content);
+      }
+      return entry;
+    });
+    return blocks;
+  };
+
+  const oldBlocks = collect(before);
+  const changed: string[] = [];
+  const uncompared: string[] = [];
+  for (const [id, content] of collect(after)) {
+    if (!oldBlocks.has(id)) {
+      continue;
+    }
+    const oldContent = oldBlocks.get(id);
+    if (content === undefined || oldContent === undefined) {
+      uncompared.push(id);
+    } else if (!isDeepStrictEqual(oldContent, content)) {
+      changed.push(id);
+    }
+  }
+  return { changed, uncompared };
+}
+
+/**
+ * Renders one top-level node as Markdown
+ */
+function nodeText(node: DastNode): string {
+  return structuredTextToMarkdown({ schema: "dast", document: { type: "root", children: [node] } }) ?? "";
+}
+
+/**
+ * Diffs two Structured Text documents node by node
+ * @returns The changed top-level nodes, in document order
+ */
+export function diffStructuredText(before: unknown, after: unknown): NodeChange[] {
+  const nodesOf = (value: unknown) => isStructuredTextValue(value) ? value.document.children ?? [] : [];
+  const runs = diffSequences(nodesOf(before), nodesOf(after), isDeepStrictEqual);
+  const changes: NodeChange[] = [];
+
+  for (let index = 0; index < runs.length; index++) {
+    const run = runs[index]!;
+    if (run.op === "equal") {
+      continue;
+    }
+    if (run.op === "insert") {
+      changes.push(...run.items.map(node => ({ change: "added" as const, type: node.type, text: nodeText(node) })));
+      continue;
+    }
+
+    // Removed nodes followed by added ones pair up as edits when their types match
+    const next = runs[index + 1];
+    const added = next?.op === "insert" ? next.items : [];
+    if (next?.op === "insert") {
+      index++;
+    }
+    const paired = Math.min(run.items.length, added.length);
+    for (let position = 0; position < Math.max(run.items.length, added.length); position++) {
+      const oldNode = run.items[position];
+      const newNode = added[position];
+      if (position < paired && oldNode!.type === newNode!.type) {
+        changes.push({ change: "changed", type: newNode!.type, diff: diffText(nodeText(oldNode!), nodeText(newNode!)) });
+        continue;
+      }
+      if (oldNode) {
+        changes.push({ change: "removed", type: oldNode.type, text: nodeText(oldNode) });
+      }
+      if (newNode) {
+        changes.push({ change: "added", type: newNode.type, text: nodeText(newNode) });
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Diffs one value of a field, comparing blocks by ID
+ * @returns The change, or undefined when the values are equal
+ */
+function diffFieldValue(field: DiffField, before: unknown, after: unknown, locale?: string): FieldChange | undefined {
+  if (isDeepStrictEqual(before ?? null, after ?? null) || (isEmptyValue(before) && isEmptyValue(after))) {
+    return undefined;
+  }
+  const change: FieldChange = {
+    field: field.api_key,
+    ...(locale !== undefined && { locale }),
+    field_type: field.field_type,
+    change: isEmptyValue(before) ? "added" : isEmptyValue(after) ? "removed" : "changed"
+  };
+
+  if (LIST_FIELD_TYPES.has(field.field_type) && (Array.isArray(before) || Array.isArray(after))) {
+    const oldKeys = (Array.isArray(before) ? before : []).map(listKey);
+    const newKeys = (Array.isArray(after) ? after : []).map(listKey);
+    const added = newKeys.filter(key => !oldKeys.includes(key));
+    const removed = oldKeys.filter(key => !newKeys.includes(key));
+    const kept = newKeys.filter(key => oldKeys.includes(key));
+    return {
+      ...change,
+      ...(added.length > 0 && { added }),
+      ...(removed.length > 0 && { removed }),
+      ...(!isDeepStrictEqual(kept, oldKeys.filter(key => newKeys.includes(key))) && { reordered: true })
+    };
+  }
+
+  if (change.change === "changed" && TEXT_FIELD_TYPES.has(field.field_type) && typeof before === "string" && typeof after === "string") {
+    return { ...change, diff: diffText(before, after) };
+  }
+  if (change.change === "changed" && field.field_type === "structured_text") {
+    return { ...change, nodes: diffStructuredText(before, after) };
+  }
+  return {
+    ...change,
+    ...(change.change !== "added" && { from: displayValue(before) }),
+    ...(change.change !== "removed" && { to: displayValue(after) })
+  };
+}
+
+/**
+ * Diffs one value of a field, adding the blocks whose content changed (or
+ * couldn't be compared) to the ID-level diff of block fields
+ * @returns The change, or undefined when the values are equal
+ */
+function diffValue(field: DiffField, before: unknown, after: unknown, locale?: string): FieldChange | undefined {
+  if (!BLOCK_FIELD_TYPES.has(field.field_type)) {
+    return diffFieldValue(field, before, after, locale);
+  }
+
+  const toIds = (value: unknown) => mapBlocks(field.field_type, value, entry => blockId(entry) ?? entry);
+  const change = diffFieldValue(field, toIds(before), toIds(after), locale);
+  const blocks = compareBlocks(field.field_type, before, after);
+  if (blocks.changed.length === 0 && blocks.uncompared.length === 0) {
+    return change;
+  }
+  return {
+    ...(change ?? {
+      field: field.api_key,
+      ...(locale !== undefined && { locale }),
+      field_type: field.field_type,
+      change: blocks.changed.length > 0 ? "changed" : "may_have_changed"
+    }),
+    ...(blocks.changed.length > 0 && { changedBlocks: blocks.changed }),
+    ...(blocks.uncompared.length > 0 && { uncomparedBlocks: blocks.uncompared })
+  };
+}
+
+/**
+ * Diffs the field values of two versions of a record
+ * @param before The older version (field values by API key)
+ * @param after The newer version
+ * @param fields The model's fields
+ * @param locale Only diff this locale of localized fields
+ * @returns One change per changed field, or per changed locale of a localized field
+ */
+export function diffRecordVersions(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: DiffField[],
+  locale?: string
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const oldValue = before[field.api_key];
+    const newValue = after[field.api_key];
+    if (!field.localized) {
+      const change = diffValue(field, oldValue, newValue);
+      if (change) changes.push(change);
+      continue;
+    }
+
+    const oldLocales = (oldValue ?? {}) as Record<string, unknown>;
+    const newLocales = (newValue ?? {}) as Record<string, unknown>;
+    const locales = locale !== undefined ? [locale] : [...new Set([...Object.keys(oldLocales), ...Object.keys(newLocales)])];
+    for (const code of locales) {
+      const change = diffValue(field, oldLocales[code], newLocales[code], code);
+      if (change) changes.push(change);
+    }
+  }
+  return changes;
+}
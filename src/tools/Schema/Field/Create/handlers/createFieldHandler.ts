@@ -33,7 +33,7 @@ export const createFieldHandler = createCustomHandler<CreateFieldParams, MCPResp
     handlerName: "createFieldHandler"
   }
 }, async (args) => {
-  const { apiToken, itemTypeId, environment, field_type, validators, appearance, ...restFieldData } = args;
+  const { apiToken, itemTypeId, environment, project, field_type, validators, appearance, ...restFieldData } = args;
 
   // Field-type specific validation
   if (field_type === 'rich_text' && (!validators || !validators.rich_text_blocks)) {
@@ -208,7 +208,7 @@ export const createFieldHandler = createCustomHandler<CreateFieldParams, MCPResp
   }
 
   // Build the DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment) as Client;
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project) as Client;
 
   // Prepare field data for the API. The DatoCMS client expects just the
   // attribute object and will automatically wrap it in the JSON:API format.
@@ -1,4 +1,5 @@
 import { createDeleteHandler } from "../../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../../utils/unifiedClientManager.js";
 import { schemaSchemas } from "../../../schemas.js";
 
 /**
@@ -10,6 +11,16 @@ export const deleteFieldHandler = createDeleteHandler({
   schema: schemaSchemas.delete_field,
   entityName: "Field",
   idParam: "fieldId",
+  // The preview names the field and its model, whose records lose the field's values
+  confirmationPreview: async (params) => {
+    const client = UnifiedClientManager.getDefaultClient(params.apiToken, params.environment, params.project);
+    const field = await client.fields.find(params.fieldId);
+    const model = await client.itemTypes.find(field.item_type.id);
+    return {
+      field: { id: field.id, label: field.label, api_key: field.api_key, field_type: field.field_type, localized: field.localized },
+      model: { id: model.id, name: model.name, api_key: model.api_key }
+    };
+  },
   clientAction: async (client, args) => {
     // Delete the field
     await client.fields.destroy(args.fieldId);
@@ -17,4 +28,4 @@ export const deleteFieldHandler = createDeleteHandler({
   successMessage: (args) => {
     return `Field with ID '${args.fieldId}' deleted successfully.`;
   }
-});
\ No newline at end of file
+});
@@ -21,10 +21,10 @@ export const getFieldHandler = createCustomHandler<GetFieldParams, McpResponse>(
     handlerName: "getFieldHandler"
   }
 }, async (args) => {
-  const { apiToken, fieldId, environment } = args;
+  const { apiToken, fieldId, environment, project } = args;
 
   // Build the DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
 
   // Get the field by ID
   const field = await client.fields.find(fieldId);
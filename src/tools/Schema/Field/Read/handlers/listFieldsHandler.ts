@@ -17,10 +17,10 @@ export const listFieldsHandler = createCustomHandler({
     handlerName: "listFieldsHandler"
   }
 }, async (args) => {
-  const { apiToken, itemTypeId, page, environment } = args;
+  const { apiToken, itemTypeId, page, environment, project } = args;
 
   // Build the DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
 
   // First, check if the item type exists
   try {
@@ -27,10 +27,10 @@ export const updateFieldHandler = createCustomHandler<UpdateFieldParams, MCPResp
     handlerName: "updateFieldHandler"
   }
 }, async (args) => {
-  const { apiToken, fieldId, environment, field_type, appearance, validators, fieldset_id, ...restFieldData } = args;
+  const { apiToken, fieldId, environment, project, field_type, appearance, validators, fieldset_id, ...restFieldData } = args;
 
   // Build the DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment) as Client;
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project) as Client;
 
   // First, check if the field exists and get the current field data
   const existingField = await client.fields.find(fieldId);
@@ -21,10 +21,10 @@ export const duplicateItemTypeHandler = createCustomHandler({
     handlerName: "duplicateItemTypeHandler"
   }
 }, async (args) => {
-  const { apiToken, itemTypeId, name, apiKey, environment } = args;
+  const { apiToken, itemTypeId, name, apiKey, environment, project } = args;
   
   // Initialize DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   
   // First find the item type to duplicate
   const itemType = await client.itemTypes.find(itemTypeId);
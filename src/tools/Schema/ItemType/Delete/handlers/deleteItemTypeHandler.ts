@@ -4,6 +4,7 @@
  */
 
 import { createDeleteHandler } from "../../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../../utils/unifiedClientManager.js";
 import { schemaSchemas } from "../../../schemas.js";
 
 /**
@@ -15,7 +16,19 @@ export const deleteItemTypeHandler = createDeleteHandler({
   schema: schemaSchemas.delete_item_type,
   entityName: "ItemType",
   idParam: "itemTypeId",
+  // Deleting a model deletes its records too, so the preview counts them
+  confirmationPreview: async (params) => {
+    const client = UnifiedClientManager.getDefaultClient(params.apiToken, params.environment, params.project);
+    const model = await client.itemTypes.find(params.itemTypeId);
+    const records = model.modular_block
+      ? undefined
+      : (await client.items.rawList({ filter: { type: model.id }, page: { offset: 0, limit: 1 } })).meta.total_count;
+    return {
+      model: { id: model.id, name: model.name, api_key: model.api_key, modular_block: model.modular_block },
+      ...(records !== undefined && { records })
+    };
+  },
   clientAction: async (client, args) => {
     await client.itemTypes.destroy(args.itemTypeId);
   }
-});
\ No newline at end of file
+});
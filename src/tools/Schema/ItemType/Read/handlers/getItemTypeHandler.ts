@@ -4,6 +4,7 @@
  */
 
 import { createCustomHandler } from "../../../../../utils/enhancedHandlerFactory.js";
+import { createResponse } from "../../../../../utils/responseHandlers.js";
 import { schemaSchemas } from "../../../schemas.js";
 import { UnifiedClientManager } from "../../../../../utils/unifiedClientManager.js";
 
@@ -20,26 +21,26 @@ export const getItemTypeHandler = createCustomHandler({
     handlerName: "getItemTypeHandler"
   }
 }, async (args) => {
-  const { apiToken, itemTypeId, environment } = args;
+  const { apiToken, itemTypeId, environment, project } = args;
   
   // Initialize DatoCMS client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   
   // Retrieve the item type
   const itemType = await client.itemTypes.find(itemTypeId);
   
   // Add special note if the model has all_locales_required flag
   if (itemType.all_locales_required) {
-    return {
+    return createResponse({
       success: true,
       data: itemType,
       message: "NOTE: This model requires all locales to be present for localized fields. When creating or updating records, you must provide values for all configured locales in every localized field. Check the model's fields to see which ones are localized."
-    };
+    });
   }
 
   // Return the item type data
-  return {
+  return createResponse({
     success: true,
     data: itemType
-  };
+  });
 });
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { createResponse } from "../../utils/responseHandlers.js";
 import { createErrorResponse , extractDetailedErrorInfo } from "../../utils/errorHandlers.js";
+import { countActionArgs } from "../../utils/serverConfig.js";
+import { createPolicyActionEnum, checkActionPolicy } from "../../utils/actionPolicy.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 // Import the schema action schemas and handlers
@@ -92,7 +94,11 @@ type SchemaAction = keyof typeof schemaSchemas;
  * Registers the Schema Router tool with the MCP server
  */
 export const registerSchemaRouter = (server: McpServer) => {
-  const actionEnum = z.enum(schemaActionsList as [string, ...string[]]);
+  const actionEnum = createPolicyActionEnum("schema", schemaActionsList);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
 
   server.tool(
     // Tool name
@@ -110,12 +116,18 @@ export const registerSchemaRouter = (server: McpServer) => {
     // Handler function for the schema router
     async ({ action, args = {} }) => {
       try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("schema", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
         // ALWAYS CHECK FOR PARAMETERS FIRST
         // If there are no arguments, or very few args for non-trivial operations,
         // redirect users to get_parameters first
         const shouldSuggestParams = (
           // These conditions indicate the user is likely not providing proper parameters
-          Object.keys(args).length === 0
+          countActionArgs(args) === 0
         );
 
         if (shouldSuggestParams) {
@@ -54,8 +54,8 @@ export interface SchemaClient {
 export class TypedSchemaClient implements SchemaClient {
   private client: any;
   
-  constructor(apiToken: string, environment?: string) {
-    this.client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  constructor(apiToken?: string, environment?: string, project?: string) {
+    this.client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   }
   
   // ItemType operations
@@ -142,6 +142,6 @@ export class TypedSchemaClient implements SchemaClient {
 /**
  * Factory function to create a typed schema client
  */
-export function createSchemaClient(apiToken: string, environment?: string): SchemaClient {
-  return new TypedSchemaClient(apiToken, environment);
+export function createSchemaClient(apiToken?: string, environment?: string, project?: string): SchemaClient {
+  return new TypedSchemaClient(apiToken, environment, project);
 }
\ No newline at end of file
@@ -2,11 +2,15 @@ import { z } from "zod";
 import {
   apiTokenSchema,
   environmentSchema,
+  projectSchema,
+  dryRunSchema,
+  confirmationTokenSchema,
   baseToolSchema,
   createBaseSchema,
   createListSchema,
   paginationSchema,
-  fieldTypeSchema
+  fieldTypeSchema,
+  hasFieldsToUpdate
 } from "../../utils/sharedSchemas.js";
 
 import { createValidatorsSchema } from "./fieldValidators.js";
@@ -134,7 +138,7 @@ export const schemaSchemas = {
     tree: z.boolean().optional()
       .describe("Whether the item type is structured as a tree.")
   }).refine(
-    data => Object.keys(data).length > 2, // apiToken + environment + at least one field
+    data => hasFieldsToUpdate(data, ["itemTypeId"]),
     {
       message: "At least one field to update must be provided"
     }
@@ -158,7 +162,8 @@ export const schemaSchemas = {
   ),
 
   delete_item_type: baseToolSchema.extend({
-    itemTypeId: z.string().describe("The ID of the item type to delete")
+    itemTypeId: z.string().describe("The ID of the item type to delete"),
+    confirmationToken: confirmationTokenSchema
   }),
 
   // Fieldset operations
@@ -179,7 +184,7 @@ export const schemaSchemas = {
     collapsible: z.boolean().optional().describe("Whether the fieldset can be collapsed."),
     start_collapsed: z.boolean().optional().describe("Whether the fieldset should be initially collapsed.")
   }).refine(
-    data => Object.keys(data).length > 2, // apiToken + environment + at least one field
+    data => hasFieldsToUpdate(data, ["fieldsetId"]),
     {
       message: "At least one field to update must be provided"
     }
@@ -241,7 +246,9 @@ export const schemaSchemas = {
       .describe("Whether the field is localized (translatable). Include this parameter even when using the default value."),
     fieldset_id: z.string().optional()
       .describe("The ID of the fieldset to assign the field to. Recommended for organization. You will need to include this when updating the field later."),
-    environment: environmentSchema
+    environment: environmentSchema,
+    project: projectSchema,
+    dryRun: dryRunSchema
   }).refine(
     (data) => {
       if (!data.field_type) return true;
@@ -401,7 +408,7 @@ export const schemaSchemas = {
     localized: z.boolean().optional().describe("Whether the field is localized (translatable)."),
     fieldset_id: z.string().optional().describe("The updated ID of the fieldset to assign the field to. If not provided, the existing fieldset relationship will be maintained.")
   }).refine(
-    data => Object.keys(data).length > 2, // apiToken + environment + at least one field
+    data => hasFieldsToUpdate(data, ["fieldId"]),
     {
       message: "At least one field to update must be provided"
     }
@@ -445,7 +452,8 @@ export const schemaSchemas = {
   }),
 
   delete_field: baseToolSchema.extend({
-    fieldId: z.string().describe("The ID of the field to delete")
+    fieldId: z.string().describe("The ID of the field to delete"),
+    confirmationToken: confirmationTokenSchema
   })
 };
 
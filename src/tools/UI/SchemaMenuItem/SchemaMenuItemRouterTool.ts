@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { createErrorResponse , extractDetailedErrorInfo } from "../../../utils/errorHandlers.js";
+import { countActionArgs } from "../../../utils/serverConfig.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 // Import the schema menu item action schemas and handlers
@@ -51,8 +52,8 @@ export const registerSchemaMenuItemRouter = (server: McpServer) => {
         // redirect users to get_parameters first
         const shouldSuggestParams = (
           // These conditions indicate the user is likely not providing proper parameters
-          Object.keys(args).length === 0 || 
-          (Object.keys(args).length < 3 && ['create', 'update'].includes(action))
+          countActionArgs(args) === 0 || 
+          (countActionArgs(args) < 3 && ['create', 'update'].includes(action))
         );
         
         if (shouldSuggestParams) {
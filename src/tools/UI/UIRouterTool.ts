@@ -1,5 +1,7 @@
 import { z } from "zod";
 import { createErrorResponse, extractDetailedErrorInfo } from "../../utils/errorHandlers.js";
+import { countActionArgs } from "../../utils/serverConfig.js";
+import { createPolicyActionEnum, checkActionPolicy } from "../../utils/actionPolicy.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 // Import the UI action schemas and handlers
@@ -125,7 +127,11 @@ type UIAction = keyof typeof uiSchemas;
  * Registers the UI Router tool with the MCP server
  */
 export const registerUIRouter = (server: McpServer) => {
-  const actionEnum = z.enum(uiActionsList as [string, ...string[]]);
+  const actionEnum = createPolicyActionEnum("ui", uiActionsList);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
 
   server.tool(
     // Tool name
@@ -143,10 +149,16 @@ export const registerUIRouter = (server: McpServer) => {
     // Handler function for the UI router
     async ({ action, args = {} }) => {
       try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("ui", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
         // Check if we should suggest getting parameters first
         const shouldSuggestParams = (
-          Object.keys(args).length === 0 || 
-          (Object.keys(args).length < 3 && action.includes('create') || action.includes('update'))
+          countActionArgs(args) === 0 || 
+          (countActionArgs(args) < 3 && action.includes('create') || action.includes('update'))
         );
 
         if (shouldSuggestParams) {
@@ -53,27 +53,36 @@ export interface UIClient {
   deletePlugin(id: string): Promise<void>;
 }
 
+/**
+ * ID of a to-one relationship of a deserialized resource (`{ id, type }` or null)
+ */
+function relationshipId(relationship: any): string | null {
+  return relationship?.id ?? null;
+}
+
 /**
  * Adapters to convert API responses to our strongly-typed interfaces
+ * The CMA client deserializes resources: attributes are top-level properties and
+ * relationships are `{ id, type }` objects.
  */
 export const uiAdapters = {
   // MenuItem adapters
   toMenuItem(apiMenuItem: any): MenuItem {
     // Add safety checks for undefined objects
-    if (!apiMenuItem || !apiMenuItem.attributes) {
-      throw new Error('Invalid menu item structure: missing attributes');
+    if (!apiMenuItem || typeof apiMenuItem.id !== 'string') {
+      throw new Error('Invalid menu item structure: missing id');
     }
     
     return {
       id: apiMenuItem.id,
       type: apiMenuItem.type,
-      label: apiMenuItem.attributes.label,
-      position: apiMenuItem.attributes.position,
-      external_url: apiMenuItem.attributes.external_url,
-      open_in_new_tab: apiMenuItem.attributes.open_in_new_tab,
-      parent_id: apiMenuItem.attributes.parent_id,
-      item_type_id: apiMenuItem.attributes.item_type_id,
-      item_type_filter_id: apiMenuItem.attributes.item_type_filter_id,
+      label: apiMenuItem.label,
+      position: apiMenuItem.position,
+      external_url: apiMenuItem.external_url,
+      open_in_new_tab: apiMenuItem.open_in_new_tab,
+      parent_id: relationshipId(apiMenuItem.parent),
+      item_type_id: relationshipId(apiMenuItem.item_type),
+      item_type_filter_id: relationshipId(apiMenuItem.item_type_filter),
       meta: {
         created_at: apiMenuItem.meta?.created_at,
         updated_at: apiMenuItem.meta?.updated_at
@@ -84,16 +93,16 @@ export const uiAdapters = {
   // SchemaMenuItem adapters
   toSchemaMenuItem(apiSchemaMenuItem: any): SchemaMenuItem {
     // Add safety checks for undefined objects
-    if (!apiSchemaMenuItem || !apiSchemaMenuItem.attributes) {
-      throw new Error('Invalid schema menu item structure: missing attributes');
+    if (!apiSchemaMenuItem || typeof apiSchemaMenuItem.id !== 'string') {
+      throw new Error('Invalid schema menu item structure: missing id');
     }
     
     return {
       id: apiSchemaMenuItem.id,
       type: apiSchemaMenuItem.type,
-      label: apiSchemaMenuItem.attributes.label,
-      position: apiSchemaMenuItem.attributes.position,
-      item_type_id: apiSchemaMenuItem.attributes.item_type_id,
+      label: apiSchemaMenuItem.label,
+      position: apiSchemaMenuItem.position,
+      item_type_id: relationshipId(apiSchemaMenuItem.item_type),
       meta: {
         created_at: apiSchemaMenuItem.meta?.created_at,
         updated_at: apiSchemaMenuItem.meta?.updated_at
@@ -104,16 +113,16 @@ export const uiAdapters = {
   // UploadsFilter adapters
   toUploadsFilter(apiUploadsFilter: any): UploadsFilter {
     // Add safety checks for undefined objects
-    if (!apiUploadsFilter || !apiUploadsFilter.attributes) {
-      throw new Error('Invalid uploads filter structure: missing attributes');
+    if (!apiUploadsFilter || typeof apiUploadsFilter.id !== 'string') {
+      throw new Error('Invalid uploads filter structure: missing id');
     }
     
     return {
       id: apiUploadsFilter.id,
       type: apiUploadsFilter.type,
-      name: apiUploadsFilter.attributes.name,
-      filter: apiUploadsFilter.attributes.filter,
-      shared: apiUploadsFilter.attributes.shared,
+      name: apiUploadsFilter.name,
+      filter: apiUploadsFilter.filter,
+      shared: apiUploadsFilter.shared,
       meta: {
         created_at: apiUploadsFilter.meta?.created_at,
         updated_at: apiUploadsFilter.meta?.updated_at
@@ -124,17 +133,17 @@ export const uiAdapters = {
   // ModelFilter adapters
   toModelFilter(apiModelFilter: any): ModelFilter {
     // Add safety checks for undefined objects
-    if (!apiModelFilter || !apiModelFilter.attributes) {
-      throw new Error('Invalid model filter structure: missing attributes');
+    if (!apiModelFilter || typeof apiModelFilter.id !== 'string') {
+      throw new Error('Invalid model filter structure: missing id');
     }
     
     return {
       id: apiModelFilter.id,
       type: apiModelFilter.type,
-      name: apiModelFilter.attributes.name,
-      filter: apiModelFilter.attributes.filter,
-      item_type_id: apiModelFilter.attributes.item_type_id,
-      shared: apiModelFilter.attributes.shared,
+      name: apiModelFilter.name,
+      filter: apiModelFilter.filter,
+      item_type_id: relationshipId(apiModelFilter.item_type) ?? '',
+      shared: apiModelFilter.shared,
       meta: {
         created_at: apiModelFilter.meta?.created_at,
         updated_at: apiModelFilter.meta?.updated_at
@@ -145,20 +154,20 @@ export const uiAdapters = {
   // Plugin adapters
   toPlugin(apiPlugin: any): Plugin {
     // Add safety checks for undefined objects
-    if (!apiPlugin || !apiPlugin.attributes) {
-      throw new Error('Invalid plugin structure: missing attributes');
+    if (!apiPlugin || typeof apiPlugin.id !== 'string') {
+      throw new Error('Invalid plugin structure: missing id');
     }
     
     return {
       id: apiPlugin.id,
       type: apiPlugin.type,
-      name: apiPlugin.attributes.name,
-      url: apiPlugin.attributes.url,
-      package_name: apiPlugin.attributes.package_name,
-      parameters_schema: apiPlugin.attributes.parameters_schema,
-      field_types: apiPlugin.attributes.field_types,
-      field_extensions: apiPlugin.attributes.field_extensions,
-      sidebar_extensions: apiPlugin.attributes.sidebar_extensions,
+      name: apiPlugin.name,
+      url: apiPlugin.url,
+      package_name: apiPlugin.package_name,
+      parameters_schema: apiPlugin.parameters_schema,
+      field_types: apiPlugin.field_types,
+      field_extensions: apiPlugin.field_extensions,
+      sidebar_extensions: apiPlugin.sidebar_extensions,
       meta: {
         created_at: apiPlugin.meta?.created_at,
         updated_at: apiPlugin.meta?.updated_at
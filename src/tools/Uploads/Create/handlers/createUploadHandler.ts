@@ -1,6 +1,8 @@
 import { createResponse } from "../../../../utils/responseHandlers.js";
 import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
-import fetch, { Response as FetchResponse } from "node-fetch";
+import { resolveCredentials } from "../../../../utils/serverConfig.js";
+import type { Response as FetchResponse } from "node-fetch";
+import { fetchWithRetries } from "../../../../utils/retry.js";
 import fs from "node:fs/promises";
 import path from "node:path";
 import mime from "mime-types";
@@ -56,7 +58,8 @@ export const createUploadHandler = createCustomHandler({
     tags,
     default_field_metadata,
     upload_collection,
-    environment
+    environment,
+    project
   } = args;
 
   // 1) Read file buffer
@@ -65,7 +68,7 @@ export const createUploadHandler = createCustomHandler({
   let actualFilename: string;
 
   if (url) {
-    const res = await fetch(url);
+    const res = await fetchWithRetries(url);
     if (!res.ok) {
       throw new Error(`Error fetching remote file: ${res.status} ${res.statusText}`);
     }
@@ -88,19 +91,20 @@ export const createUploadHandler = createCustomHandler({
     throw new Error("Either 'url' or 'path' must be provided.");
   }
 
-  // 2) Request upload permission
+  // 2) Request upload permission (raw request, so fill in server credentials here)
+  const credentials = resolveCredentials(apiToken, environment, project);
   let uploadRequestRes: FetchResponse;
   try {
-    uploadRequestRes = await fetch(
-      "https://site-api.datocms.com/upload-requests",
+    uploadRequestRes = await fetchWithRetries(
+      `${credentials.apiBaseUrl}/upload-requests`,
       {
         method: "POST",
         headers: {
-          Authorization: `Bearer ${apiToken}`,
+          Authorization: `Bearer ${credentials.apiToken}`,
           Accept: "application/json",
           "X-Api-Version": "3",
           "Content-Type": "application/vnd.api+json",
-          ...(environment ? { "X-Environment": environment } : {})
+          ...(credentials.environment ? { "X-Environment": credentials.environment } : {})
         },
         body: JSON.stringify({
           data: { type: "upload_request", attributes: { filename: actualFilename } }
@@ -122,7 +126,7 @@ export const createUploadHandler = createCustomHandler({
   const bucketHeaders = reqData.data.attributes.request_headers || {};
 
   // 3) Upload to bucket
-  const bucketRes = await fetch(bucketUrl, {
+  const bucketRes = await fetchWithRetries(bucketUrl, {
     method: "PUT",
     headers: { ...bucketHeaders, "Content-Type": fileContentType },
     body: fileContent
@@ -134,7 +138,7 @@ export const createUploadHandler = createCustomHandler({
   }
 
   // 4) Create upload resource
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment) as Client;
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project) as Client;
 
   const payload: UploadPayload = {
     uploadId,
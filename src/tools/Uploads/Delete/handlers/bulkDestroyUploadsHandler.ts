@@ -1,5 +1,5 @@
 import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
-import { createResponse } from "../../../../utils/responseHandlers.js";
+import { executeBulk, createBulkResponse } from "../../../../utils/bulkExecutor.js";
 import { uploadsSchemas } from "../../schemas.js";
 import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
 
@@ -13,22 +13,21 @@ export const bulkDestroyUploadsHandler = createCustomHandler({
     handlerName: "bulkDestroyUploadsHandler"
   }
 }, async (args) => {
-  const { apiToken, uploadIds, environment } = args;
+  const { apiToken, uploadIds, environment, project, debug } = args;
   
   if (!uploadIds.length) {
     throw new Error("No upload IDs provided.");
   }
-  if (uploadIds.length > 200) {
-    throw new Error("Max 200 uploads per bulk delete.");
-  }
 
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   
-  const uploadsParam: { type: "upload"; id: string }[] =
-    uploadIds.map((id: string) => ({ type: "upload", id }));
-  await client.uploads.bulkDestroy({ uploads: uploadsParam });
+  const report = await executeBulk({
+    ids: uploadIds,
+    runChunk: (ids) => client.uploads.bulkDestroy({
+      uploads: ids.map((id) => ({ type: "upload" as const, id }))
+    }),
+    runItem: (id) => client.uploads.destroy(id)
+  });
 
-  return createResponse(
-    `Successfully deleted ${uploadIds.length} upload(s).`
-  );
+  return createBulkResponse(report, "deleted", "upload(s)", debug);
 });
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { createDeleteHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
 import { uploadsSchemas } from "../../schemas.js";
 
 export const destroyUploadHandler = createDeleteHandler({
@@ -7,6 +8,16 @@ export const destroyUploadHandler = createDeleteHandler({
   schema: uploadsSchemas.destroy,
   entityName: "Upload",
   idParam: "uploadId",
+  // The preview names the file and counts the records that use it
+  confirmationPreview: async (params) => {
+    const client = UnifiedClientManager.getDefaultClient(params.apiToken, params.environment, params.project);
+    const upload = await client.uploads.find(params.uploadId);
+    const references = await client.uploads.references(upload.id);
+    return {
+      upload: { id: upload.id, filename: upload.filename, size: upload.size, url: upload.url },
+      referencingRecords: references.length
+    };
+  },
   clientAction: async (client, args) => {
     await client.uploads.destroy(args.uploadId);
   }
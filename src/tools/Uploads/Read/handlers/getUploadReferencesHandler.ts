@@ -20,10 +20,11 @@ export const getUploadReferencesHandler = createCustomHandler({
     nested,
     version,
     returnOnlyIds,
-    environment
+    environment,
+    project
   } = args;
 
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment) as Client;
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project) as Client;
 
   // Get references
   const references = await client.uploads.references(uploadId, {
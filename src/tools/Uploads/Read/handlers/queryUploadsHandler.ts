@@ -1,56 +1,83 @@
-import { createListHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
+import { createStandardMcpResponse, createStandardSuccessResponse } from "../../../../utils/standardResponse.js";
+import { createFetchAllResponse, decodeCursor, deserializeResource, fetchAllPages } from "../../../../utils/fetchAll.js";
+import { getServerConfig } from "../../../../utils/serverConfig.js";
 import { uploadsSchemas } from "../../schemas.js";
 import type { SimpleSchemaTypes } from "@datocms/cma-client-node";
 
-export const queryUploadsHandler = createListHandler({
+export const queryUploadsHandler = createCustomHandler({
   domain: "uploads",
   schemaName: "query",
   schema: uploadsSchemas.query,
-  entityName: "Upload",
-  clientAction: async (client, args) => {
-    // Prepare query parameters
-    const queryParams: any = {};
-    
-    // Handle ids - convert string to array if needed
-    if (args.ids) {
-      queryParams["filter[ids][in]"] = Array.isArray(args.ids) 
-        ? args.ids 
-        : args.ids.split(',').map((id: string) => id.trim());
-    }
-    
-    // Handle text search
-    if (args.query) {
-      queryParams["filter[query]"] = args.query;
-    }
-    
-    // Handle locale
-    if (args.locale) {
-      queryParams["filter[locale]"] = args.locale;
-    }
-    
-    // Handle ordering
-    if (args.order_by) {
-      queryParams["order_by"] = args.order_by;
-    }
-    
-    // Handle pagination
-    if (args.page) {
-      queryParams.page = args.page;
-    }
-
-    const uploads = await client.uploads.list(queryParams);
-    
-    // Handle empty results
-    if (!uploads.length) {
-      return [];
-    }
-    
-    // Handle IDs-only request
-    if (args.returnOnlyIds) {
-      return uploads.map((u: SimpleSchemaTypes.Upload) => ({ id: u.id, type: u.type }));
-    }
-    
-    // Return full uploads
-    return uploads;
+  errorContext: {
+    operation: "list",
+    resourceType: "Upload",
+    handlerName: "uploads.list.query"
   }
-});
\ No newline at end of file
+}, async (args) => {
+  const client = UnifiedClientManager.getDefaultClient(args.apiToken, args.environment, args.project);
+
+  // Prepare query parameters
+  const queryParams: any = {};
+
+  // Handle ids - convert string to array if needed
+  if (args.ids) {
+    queryParams["filter[ids][in]"] = Array.isArray(args.ids)
+      ? args.ids
+      : args.ids.split(',').map((id: string) => id.trim());
+  }
+
+  // Handle text search
+  if (args.query) {
+    queryParams["filter[query]"] = args.query;
+  }
+
+  // Handle locale
+  if (args.locale) {
+    queryParams["filter[locale]"] = args.locale;
+  }
+
+  // Handle ordering
+  if (args.order_by) {
+    queryParams["order_by"] = args.order_by;
+  }
+
+  // Handle IDs-only request
+  const present = (upload: SimpleSchemaTypes.Upload) => args.returnOnlyIds
+    ? { id: upload.id, type: upload.type }
+    : upload;
+
+  // Walk every page when asked to fetch all matching uploads
+  if (args.all || args.maxRecords !== undefined || args.cursor) {
+    const result = await fetchAllPages({
+      fetchPage: async (offset, limit) => {
+        const body = await client.uploads.rawList({ ...queryParams, page: { offset, limit } });
+        return {
+          items: body.data.map(upload => present(deserializeResource<SimpleSchemaTypes.Upload>(upload))),
+          totalCount: body.meta.total_count
+        };
+      },
+      startOffset: args.cursor ? decodeCursor(args.cursor) : args.page?.offset ?? 0,
+      maxRecords: args.maxRecords,
+      maxBytes: getServerConfig().fetchAllMaxBytes,
+      noun: "uploads"
+    });
+    return createFetchAllResponse(result, "Upload", args.debug);
+  }
+
+  // Handle pagination
+  if (args.page) {
+    queryParams.page = args.page;
+  }
+
+  const uploads = await client.uploads.list(queryParams);
+  const results = uploads.map(present);
+
+  return createStandardMcpResponse(createStandardSuccessResponse(
+    results,
+    `Found ${results.length} Upload(s)`,
+    undefined,
+    args.debug
+  ));
+});
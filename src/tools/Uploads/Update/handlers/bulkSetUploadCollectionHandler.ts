@@ -1,5 +1,5 @@
 import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
-import { createResponse } from "../../../../utils/responseHandlers.js";
+import { executeBulk, createBulkResponse } from "../../../../utils/bulkExecutor.js";
 import { uploadsSchemas } from "../../schemas.js";
 import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
 
@@ -13,19 +13,25 @@ export const bulkSetUploadCollectionHandler = createCustomHandler({
     handlerName: "bulkSetUploadCollectionHandler"
   }
 }, async (args) => {
-  const { apiToken, uploadIds, collectionId, environment } = args;
+  const { apiToken, uploadIds, collectionId, environment, project, debug } = args;
 
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
 
-  await client.uploads.bulkSetUploadCollection({
-    uploads: uploadIds.map((id: string) => ({ type: "upload", id })),
-    upload_collection: collectionId
-      ? { type: "upload_collection", id: collectionId }
-      : null
+  const uploadCollection = collectionId
+    ? { type: "upload_collection" as const, id: collectionId }
+    : null;
+
+  const report = await executeBulk({
+    ids: uploadIds,
+    runChunk: (ids) => client.uploads.bulkSetUploadCollection({
+      uploads: ids.map((id) => ({ type: "upload" as const, id })),
+      upload_collection: uploadCollection
+    }),
+    runItem: (id) => client.uploads.update(id, { upload_collection: uploadCollection })
   });
 
   const action = collectionId
     ? `assigned to collection '${collectionId}'`
     : "removed from their collection";
-  return createResponse(`Successfully ${action} ${uploadIds.length} uploads.`);
+  return createBulkResponse(report, action, "upload(s)", debug);
 });
\ No newline at end of file
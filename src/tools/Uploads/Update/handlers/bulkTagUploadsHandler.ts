@@ -1,5 +1,5 @@
 import { createCustomHandler } from "../../../../utils/enhancedHandlerFactory.js";
-import { createResponse } from "../../../../utils/responseHandlers.js";
+import { executeBulk, createBulkResponse } from "../../../../utils/bulkExecutor.js";
 import { uploadsSchemas } from "../../schemas.js";
 import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
 
@@ -13,15 +13,22 @@ export const bulkTagUploadsHandler = createCustomHandler({
     handlerName: "bulkTagUploadsHandler"
   }
 }, async (args) => {
-  const { apiToken, uploadIds, tags, environment } = args;
+  const { apiToken, uploadIds, tags, environment, project, debug } = args;
 
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
 
-  const uploadsParam: { type: "upload"; id: string }[] =
-    uploadIds.map((id: string) => ({ type: "upload", id }));
-  await client.uploads.bulkTag({ uploads: uploadsParam, tags });
+  const report = await executeBulk({
+    ids: uploadIds,
+    runChunk: (ids) => client.uploads.bulkTag({
+      uploads: ids.map((id) => ({ type: "upload" as const, id })),
+      tags
+    }),
+    // Tagging a single upload means adding the tags to the ones it already has
+    runItem: async (id) => {
+      const upload = await client.uploads.find(id);
+      await client.uploads.update(id, { tags: [...new Set([...upload.tags, ...tags])] });
+    }
+  });
 
-  return createResponse(
-    `Successfully tagged ${uploadIds.length} upload(s) with [${tags.join(", ")}].`
-  );
+  return createBulkResponse(report, `tagged with [${tags.join(", ")}]`, "upload(s)", debug);
 });
\ No newline at end of file
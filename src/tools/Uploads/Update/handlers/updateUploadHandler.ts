@@ -8,7 +8,7 @@ export const updateUploadHandler = createUpdateHandler({
   entityName: "Upload",
   idParam: "uploadId",
   clientAction: async (client, args) => {
-    const { uploadId, apiToken, environment, ...updateData } = args;
+    const { uploadId, apiToken, environment, project, ...updateData } = args;
     return await client.uploads.update(uploadId, updateData as any);
   }
 });
\ No newline at end of file
@@ -9,7 +9,7 @@ export const createUploadCollectionHandler = createCreateHandler({
   entityName: "Upload Collection",
   successMessage: (result: SimpleSchemaTypes.UploadCollection) => `Successfully created upload collection '${result.label}' with ID ${result.id}`,
   clientAction: async (client, args) => {
-    const { apiToken, environment, ...params } = args;
+    const { apiToken, environment, project, ...params } = args;
     return await client.uploadCollections.create(params);
   }
 });
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { createDeleteHandler } from "../../../../utils/enhancedHandlerFactory.js";
+import { UnifiedClientManager } from "../../../../utils/unifiedClientManager.js";
 import { uploadsSchemas } from "../../schemas.js";
 
 export const deleteUploadCollectionHandler = createDeleteHandler({
@@ -7,6 +8,18 @@ export const deleteUploadCollectionHandler = createDeleteHandler({
   schema: uploadsSchemas.delete_collection,
   entityName: "Upload Collection",
   idParam: "uploadCollectionId",
+  // The preview names the collection and its subcollections
+  confirmationPreview: async (params) => {
+    const client = UnifiedClientManager.getDefaultClient(params.apiToken, params.environment, params.project);
+    const collection = await client.uploadCollections.find(params.uploadCollectionId);
+    return {
+      collection: {
+        id: collection.id,
+        label: collection.label,
+        children: (collection.children ?? []).map(child => child.id)
+      }
+    };
+  },
   clientAction: async (client, args) => {
     await client.uploadCollections.destroy(args.uploadCollectionId);
   }
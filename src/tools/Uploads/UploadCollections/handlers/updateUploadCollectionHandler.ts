@@ -8,7 +8,7 @@ export const updateUploadCollectionHandler = createUpdateHandler({
   entityName: "Upload Collection",
   idParam: "uploadCollectionId",
   clientAction: async (client, args) => {
-    const { apiToken, uploadCollectionId, environment, ...data } = args;
+    const { apiToken, uploadCollectionId, environment, project, ...data } = args;
     if (Object.keys(data).length === 0) {
       throw new Error("At least one field must be provided for update.");
     }
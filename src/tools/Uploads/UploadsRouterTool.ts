@@ -5,6 +5,9 @@ import {
   uploadsActionsList
 } from "./schemas.js";
 import { createErrorResponse } from "../../utils/errorHandlers.js";
+import { countActionArgs } from "../../utils/serverConfig.js";
+import { createPolicyActionEnum, checkActionPolicy } from "../../utils/actionPolicy.js";
+import { withToolProgress } from "../../utils/progress.js";
 import { assertNever } from "../../utils/exhaustive.js";
 
 // Handler imports
@@ -32,7 +35,11 @@ import { deleteUploadCollectionHandler } from "./UploadCollections/handlers/dele
 type UploadAction = keyof typeof uploadsSchemas;
 
 export const registerUploadsRouter = (server: McpServer) => {
-  const actionEnum = z.enum(uploadsActionsList as [string, ...string[]]);
+  const actionEnum = createPolicyActionEnum("uploads", uploadsActionsList);
+  if (!actionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
 
   server.tool(
     "datocms_uploads",
@@ -49,9 +56,15 @@ export const registerUploadsRouter = (server: McpServer) => {
         "Unified router for all DatoCMS uploads endpoints. " +
         "Call the documentation tool first to see each action's parameters."
     },
-    async ({ action, args = {} }) => {
+    async ({ action, args = {} }, extra) => {
+      // Reject actions blocked by the server policy before anything else
+      const forbidden = checkActionPolicy("uploads", action);
+      if (forbidden) {
+        return forbidden;
+      }
+
       // Suggest documentation if no args
-      if (Object.keys(args).length === 0) {
+      if (countActionArgs(args) === 0) {
         return createErrorResponse(
           `⚠️ PARAMETERS REQUIRED for '${action}'.\n` +
           `Use 'datocms_parameters' with { resource:\"uploads\", action:\"${action}\" } first.`
@@ -76,7 +89,8 @@ export const registerUploadsRouter = (server: McpServer) => {
         case "get":
           return await getUploadByIdHandler(validated);
         case "query":
-          return await queryUploadsHandler(validated);
+          // Fetch-all queries report their progress to the client
+          return await withToolProgress(extra, () => queryUploadsHandler(validated));
         case "references":
           return await getUploadReferencesHandler(validated);
         case "create":
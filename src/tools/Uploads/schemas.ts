@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { baseToolSchema } from "../../utils/sharedSchemas.js";
+import { baseToolSchema, confirmationTokenSchema, fetchAllSchemaShape } from "../../utils/sharedSchemas.js";
 
 /**
  * Zod schemas for every uploads-related action.
@@ -94,6 +94,7 @@ export const uploadsSchemas = {
         .describe(
           "If true, return only an array of IDs instead of full objects.",
         ),
+      ...fetchAllSchemaShape,
     }),
 
   references: baseToolSchema.extend({
@@ -209,14 +210,15 @@ export const uploadsSchemas = {
         .describe(
           "If true, returns only a confirmation string, not the deleted object.",
         ),
+      confirmationToken: confirmationTokenSchema,
     }),
 
   bulk_destroy: baseToolSchema.extend({
       uploadIds: z
         .array(uploadId)
         .min(1)
-        .max(200)
-        .describe("IDs to delete (max 200)."),
+        .describe("IDs to delete. Large lists are sent in batches of 200."),
+      confirmationToken: confirmationTokenSchema,
     }),
 
   /* ─────────────────────────────── BULK OPS ───────────────────────────── */
@@ -295,6 +297,7 @@ export const uploadsSchemas = {
 
   delete_collection: baseToolSchema.extend({
       uploadCollectionId: collectionId,
+      confirmationToken: confirmationTokenSchema,
     }),
 } as const;
 
@@ -17,10 +17,10 @@ export const abortBuildHandler = createCustomHandler({
     operation: "abort"
   }
 }, async (args: any) => {
-  const { apiToken, environment, buildTriggerId } = args;
+  const { apiToken, environment, project, buildTriggerId } = args;
   
   // Initialize client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   
   // Abort the build trigger
   await client.buildTriggers.abort(buildTriggerId);
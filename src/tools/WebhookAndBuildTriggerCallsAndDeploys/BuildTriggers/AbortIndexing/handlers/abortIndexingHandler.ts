@@ -17,10 +17,10 @@ export const abortIndexingHandler = createCustomHandler({
     operation: "abortIndexing"
   }
 }, async (args: any) => {
-  const { apiToken, environment, buildTriggerId } = args;
+  const { apiToken, environment, project, buildTriggerId } = args;
   
   // Initialize client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   
   // Abort the site search indexing
   await client.buildTriggers.abortIndexing(buildTriggerId);
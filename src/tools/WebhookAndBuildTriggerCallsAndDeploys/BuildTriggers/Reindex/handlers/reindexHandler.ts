@@ -17,10 +17,10 @@ export const reindexHandler = createCustomHandler({
     operation: "reindex"
   }
 }, async (args: any) => {
-  const { apiToken, environment, buildTriggerId } = args;
+  const { apiToken, environment, project, buildTriggerId } = args;
   
   // Initialize client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   
   // Trigger site search reindexing
   const result = await client.buildTriggers.reindex(buildTriggerId);
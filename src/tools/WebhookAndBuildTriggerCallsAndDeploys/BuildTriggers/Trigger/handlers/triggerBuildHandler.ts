@@ -17,10 +17,10 @@ export const triggerBuildHandler = createCustomHandler({
     operation: "trigger"
   }
 }, async (args: any) => {
-  const { apiToken, environment, buildTriggerId } = args;
+  const { apiToken, environment, project, buildTriggerId } = args;
   
   // Initialize client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   
   // Trigger the build with proper typing
   const deployEvent = await client.buildTriggers.trigger(buildTriggerId);
@@ -36,6 +36,7 @@ import { reindexHandler } from "./BuildTriggers/Reindex/handlers/index.js";
 import { listDeployEventsHandler, retrieveDeployEventHandler } from "./DeployEvents/Read/handlers/index.js";
 
 import { createErrorResponse , extractDetailedErrorInfo } from "../../utils/errorHandlers.js";
+import { createPolicyActionEnum, checkActionPolicy } from "../../utils/actionPolicy.js";
 import { assertNever } from "../../utils/exhaustive.js";
 
 // Types for the action parameters
@@ -85,7 +86,11 @@ type DeployEventArgsMap = {
 export const registerDeliveryManagementRouter = (server: McpServer) => {
   // Combine all actions into a single enum for the tool
   const allActions = [...webhookActionsList, ...webhookCallActionsList, ...buildTriggerActionsList, ...deployEventActionsList];
-  const combinedActionEnum = z.enum([...allActions] as [string, ...string[]]);
+  const combinedActionEnum = createPolicyActionEnum("webhook_and_build_triggers", allActions);
+  if (!combinedActionEnum) {
+    // Every action is blocked by the server policy, so the tool isn't exposed
+    return;
+  }
 
   server.tool(
     // Tool name
@@ -103,6 +108,12 @@ export const registerDeliveryManagementRouter = (server: McpServer) => {
     // Handler function
     async ({ action, args = {} }) => {
       try {
+        // Reject actions blocked by the server policy before anything else
+        const forbidden = checkActionPolicy("webhook_and_build_triggers", action);
+        if (forbidden) {
+          return forbidden;
+        }
+
         // Check which type of action this is (webhook, webhook call, build trigger, or deploy event)
         const isWebhookAction = webhookActionsList.includes(action as any);
         const isWebhookCallAction = webhookCallActionsList.includes(action as any);
@@ -17,10 +17,10 @@ export const resendWebhookCallHandler = createCustomHandler({
     operation: "resend"
   }
 }, async (args: any) => {
-  const { apiToken, environment, callId } = args;
+  const { apiToken, environment, project, callId } = args;
   
   // Initialize client
-  const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   
   // Resend the webhook call
   await (client as any).webhookCalls.resend(callId);
@@ -38,9 +38,10 @@ export class TypedWebhookAndBuildTriggerClient implements WebhookAndBuildTrigger
    * 
    * @param apiToken - DatoCMS API token
    * @param environment - Optional environment to target
+   * @param project - Optional project profile name
    */
-  constructor(apiToken: string, environment?: string) {
-    this.client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+  constructor(apiToken?: string, environment?: string, project?: string) {
+    this.client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
   }
 
   /**
@@ -223,8 +224,9 @@ export class TypedWebhookAndBuildTriggerClient implements WebhookAndBuildTrigger
  * 
  * @param apiToken - DatoCMS API token
  * @param environment - Optional environment to target
+ * @param project - Optional project profile name
  * @returns Webhook and build trigger client instance
  */
-export function createWebhookAndBuildTriggerClient(apiToken: string, environment?: string): WebhookAndBuildTriggerClient {
-  return new TypedWebhookAndBuildTriggerClient(apiToken, environment);
+export function createWebhookAndBuildTriggerClient(apiToken?: string, environment?: string, project?: string): WebhookAndBuildTriggerClient {
+  return new TypedWebhookAndBuildTriggerClient(apiToken, environment, project);
 }
\ No newline at end of file
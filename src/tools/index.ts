@@ -11,6 +11,8 @@ export { registerCollaboratorRouter, registerRolesRouter } from "./Collaborators
 export { registerSchemaRouter } from "./Schema/index.js";
 export { registerDeliveryManagementRouter } from "./WebhookAndBuildTriggerCallsAndDeploys/index.js";
 export { LocalesRouterTool, registerLocalesRouter } from "./Locales/index.js";
+export { registerJobsRouter } from "./Jobs/index.js";
+export { registerGraphQLRouter } from "./GraphQL/index.js";
 export {
   registerUIRouter,
   // Export individual routers for backward compatibility
@@ -0,0 +1,161 @@
+/**
+ * @file actionPolicy.ts
+ * @description Server-level policy deciding which `resource.action` pairs the routers expose
+ * The policy comes from serverConfig.ts (read-only mode plus allow/deny patterns).
+ * Routers use it twice: to drop blocked actions from their advertised enum, and
+ * to reject blocked actions before dispatching to a handler.
+ */
+
+import { z } from "zod";
+import { getServerConfig } from "./serverConfig.js";
+import { createStandardErrorResponse, createStandardMcpResponse } from "./standardResponse.js";
+import type { Response } from "./responseHandlers.js";
+
+/**
+ * Words that mark an action as read-only (matched against the `_`-separated parts
+ * of the action name). Anything else counts as a write, so unknown actions are
+ * blocked in read-only mode. Exports write files on the server, so they count as writes.
+ */
+const READ_ACTION_WORDS = new Set([
+  "get",
+  "list",
+  "query",
+  "retrieve",
+  "references",
+  "info",
+  "status",
+  "url",
+  "profiles",
+  "diff"
+]);
+
+/**
+ * Words that mark an action as a write even when it also contains a read word
+ * (e.g. 'update_status' or 'create_upload_url')
+ */
+const WRITE_ACTION_WORDS = new Set([
+  "create",
+  "update",
+  "upsert",
+  "delete",
+  "destroy",
+  "duplicate",
+  "publish",
+  "unpublish",
+  "schedule",
+  "cancel",
+  "restore",
+  "promote",
+  "fork",
+  "rename",
+  "activate",
+  "deactivate",
+  "invite",
+  "resend",
+  "trigger",
+  "abort",
+  "reindex",
+  "import",
+  "export",
+  "replace"
+]);
+
+/**
+ * Result of checking an action against the policy
+ */
+export type PolicyDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+/**
+ * Whether an action only reads data
+ * @param action The action name (e.g. 'bulk_destroy', 'versions_list')
+ */
+export function isReadAction(action: string): boolean {
+  const words = action.split("_");
+  return words.some(word => READ_ACTION_WORDS.has(word)) && !words.some(word => WRITE_ACTION_WORDS.has(word));
+}
+
+/**
+ * Whether a `resource.action` pattern matches, treating `*` as a wildcard
+ */
+function matchesPattern(pattern: string, key: string): boolean {
+  const source = pattern.split("*").map(part => part.replace(/\./g, "\\.")).join(".*");
+  return new RegExp(`^${source}$`).test(key);
+}
+
+/**
+ * Checks an action against the server policy
+ *
+ * An action must pass every rule: it must not match a deny pattern, it must
+ * match an allow pattern when an allowlist is set, and it must be a read action
+ * when the server is read-only.
+ *
+ * @param resource The router resource (tool name without the 'datocms_' prefix)
+ * @param action The action name
+ * @returns Whether the action is allowed, with the reason when it isn't
+ */
+export function evaluateActionPolicy(resource: string, action: string): PolicyDecision {
+  const { policy } = getServerConfig();
+  const key = `${resource}.${action}`;
+
+  const deniedBy = policy.deny.find(pattern => matchesPattern(pattern, key));
+  if (deniedBy) {
+    return { allowed: false, reason: `'${key}' matches the deny rule '${deniedBy}'` };
+  }
+
+  if (policy.allow.length > 0 && !policy.allow.some(pattern => matchesPattern(pattern, key))) {
+    return { allowed: false, reason: `'${key}' is not in the server's allowlist` };
+  }
+
+  if (policy.readOnly && !isReadAction(action)) {
+    return { allowed: false, reason: `the server is in read-only mode and '${key}' modifies data` };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Filters a list of actions down to those the policy allows
+ * @param resource The router resource
+ * @param actions Every action the router supports
+ * @returns The allowed actions, in their original order
+ */
+export function filterAllowedActions<A extends string>(resource: string, actions: readonly A[]): A[] {
+  return actions.filter(action => evaluateActionPolicy(resource, action).allowed);
+}
+
+/**
+ * Builds the advertised action enum for a router, leaving out blocked actions
+ * @param resource The router resource
+ * @param actions Every action the router supports
+ * @returns The enum of allowed actions, or undefined when the policy blocks all of
+ * them (the router should then not register its tool)
+ */
+export function createPolicyActionEnum(resource: string, actions: readonly string[]): z.ZodEnum<[string, ...string[]]> | undefined {
+  const allowed = [...new Set(filterAllowedActions(resource, actions))];
+  return allowed.length > 0 ? z.enum(allowed as [string, ...string[]]) : undefined;
+}
+
+/**
+ * Checks an action before dispatch
+ * @param resource The router resource
+ * @param action The requested action
+ * @returns A "forbidden by policy" error response, or undefined when the action is allowed
+ */
+export function checkActionPolicy(resource: string, action: string): Response | undefined {
+  const decision = evaluateActionPolicy(resource, action);
+  if (decision.allowed) {
+    return undefined;
+  }
+
+  return createStandardMcpResponse(createStandardErrorResponse(
+    `Forbidden by policy: ${decision.reason}.`,
+    {
+      error_code: "FORBIDDEN_BY_POLICY",
+      resource,
+      action,
+      reason: decision.reason
+    }
+  ));
+}
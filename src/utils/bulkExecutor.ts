@@ -0,0 +1,182 @@
+/**
+ * @file bulkExecutor.ts
+ * @description Shared engine for bulk actions (bulk publish, destroy, tag, ...)
+ * Splits the IDs into chunks the CMA bulk endpoints accept, runs the chunks with
+ * bounded concurrency, and reports success or failure per ID. CMA bulk endpoints
+ * answer with an async job; the client polls the job result, so a chunk only
+ * settles once its job has finished.
+ */
+
+import { ApiError } from "@datocms/cma-client-node";
+import { createStandardErrorResponse, createStandardMcpResponse, createStandardSuccessResponse } from "./standardResponse.js";
+import type { Response } from "./responseHandlers.js";
+
+/** Maximum number of entities the CMA bulk endpoints accept per request */
+export const CMA_BULK_LIMIT = 200;
+
+/** How many chunks (or single-item fallbacks) run at the same time by default */
+export const DEFAULT_BULK_CONCURRENCY = 3;
+
+/**
+ * Outcome for a single ID
+ */
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  /** Why the operation failed for this ID */
+  error?: string;
+}
+
+/**
+ * Outcome of a bulk execution
+ */
+export interface BulkReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** Number of bulk requests sent */
+  chunks: number;
+  /** One result per ID, in input order */
+  results: BulkItemResult[];
+}
+
+/**
+ * Options for a bulk execution
+ */
+export interface BulkExecutionOptions {
+  /** IDs to process (duplicates are processed once) */
+  ids: string[];
+  /** Runs the bulk request for one chunk of IDs */
+  runChunk: (ids: string[]) => Promise<unknown>;
+  /**
+   * Runs the operation for a single ID. When given, the IDs of a failed chunk are
+   * retried one by one, so one bad ID doesn't fail the whole chunk and each
+   * failure carries its own error.
+   */
+  runItem?: (id: string) => Promise<unknown>;
+  /** Chunk size (defaults to the CMA bulk limit) */
+  chunkSize?: number;
+  /** Maximum number of requests in flight */
+  concurrency?: number;
+}
+
+/**
+ * Turns an error into a short per-item message, keeping the API error codes
+ */
+function describeBulkError(error: unknown): string {
+  if (error instanceof ApiError) {
+    const codes = error.errors.map(entity => {
+      const details = entity.attributes.details;
+      return details && Object.keys(details).length > 0
+        ? `${entity.attributes.code} ${JSON.stringify(details)}`
+        : entity.attributes.code;
+    });
+    return codes.length > 0 ? codes.join("; ") : `${error.response.status} ${error.response.statusText}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs tasks with at most `concurrency` of them in flight
+ * @param tasks The tasks to run
+ * @param concurrency Maximum number of tasks running at once
+ */
+async function runWithConcurrency(tasks: Array<() => Promise<void>>, concurrency: number): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      if (task) {
+        await task();
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), tasks.length) }, worker));
+}
+
+/**
+ * Executes a bulk operation
+ *
+ * Never throws for failed chunks or items: failures end up in the report.
+ *
+ * @param options IDs, chunk and item runners, chunk size and concurrency
+ * @returns A per-ID report
+ */
+export async function executeBulk(options: BulkExecutionOptions): Promise<BulkReport> {
+  const { runChunk, runItem, chunkSize = CMA_BULK_LIMIT, concurrency = DEFAULT_BULK_CONCURRENCY } = options;
+  const ids = [...new Set(options.ids)];
+  const outcomes = new Map<string, BulkItemResult>();
+
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    chunks.push(ids.slice(i, i + chunkSize));
+  }
+
+  const failedChunks: Array<{ ids: string[]; error: string }> = [];
+  await runWithConcurrency(chunks.map(chunk => async () => {
+    try {
+      await runChunk(chunk);
+      chunk.forEach(id => outcomes.set(id, { id, success: true }));
+    } catch (error) {
+      failedChunks.push({ ids: chunk, error: describeBulkError(error) });
+    }
+  }), concurrency);
+
+  if (runItem) {
+    // Isolate the IDs that made their chunk fail
+    const retryIds = failedChunks.flatMap(failed => failed.ids);
+    await runWithConcurrency(retryIds.map(id => async () => {
+      try {
+        await runItem(id);
+        outcomes.set(id, { id, success: true });
+      } catch (error) {
+        outcomes.set(id, { id, success: false, error: describeBulkError(error) });
+      }
+    }), concurrency);
+  } else {
+    failedChunks.forEach(failed => failed.ids.forEach(id =>
+      outcomes.set(id, { id, success: false, error: failed.error })
+    ));
+  }
+
+  const results = ids.map(id => outcomes.get(id) ?? { id, success: false, error: "Not processed" });
+  const succeeded = results.filter(result => result.success).length;
+
+  return {
+    total: ids.length,
+    succeeded,
+    failed: ids.length - succeeded,
+    chunks: chunks.length,
+    results
+  };
+}
+
+/**
+ * Builds the MCP response for a bulk report
+ *
+ * Partial failures are still a success response, so the agent sees which IDs
+ * worked; only a run where every ID failed is an error.
+ *
+ * @param report The bulk report
+ * @param verb Past-tense phrase for the message (e.g. 'published')
+ * @param noun Plural noun for the message (e.g. 'record(s)')
+ * @param requestDebug Request-level debug flag
+ * @returns The MCP response
+ */
+export function createBulkResponse(report: BulkReport, verb: string, noun: string, requestDebug?: boolean): Response {
+  const failedIds = report.results.filter(result => !result.success);
+
+  if (report.total > 0 && report.succeeded === 0) {
+    return createStandardMcpResponse(createStandardErrorResponse(
+      `The operation failed for all ${report.total} ${noun}; none were ${verb}.`,
+      { error_code: "BULK_OPERATION_FAILED", bulk: report }
+    ));
+  }
+
+  const message = failedIds.length > 0
+    ? `${report.succeeded} of ${report.total} ${noun} ${verb}; ${failedIds.length} failed (see the result for each ID).`
+    : `${report.total} ${noun} ${verb}.`;
+
+  return createStandardMcpResponse(createStandardSuccessResponse(report, message, undefined, requestDebug));
+}
@@ -0,0 +1,143 @@
+/**
+ * @file dastToMarkdown.ts
+ * @description Renders a Structured Text value (DAST document) as Markdown
+ * Uses the Markdown syntax markdownToDast.ts reads, so the output can be sent
+ * back as `__markdown`. DAST nodes that reference other records have no
+ * Markdown syntax, so they become placeholders with the record ID:
+ * `[block:ID]`, `[inline block:ID]`, `[record:ID]`, and links to records
+ * `[text](record:ID)`. Underline has no Markdown syntax either and is
+ * rendered as `<u>`.
+ */
+
+import type { DastNode } from "./structuredText.js";
+import { isStructuredTextValue } from "./structuredText.js";
+
+/** Markdown delimiters of marks, outermost first; code is handled apart */
+const MARK_DELIMITERS: Array<[mark: string, open: string, close: string]> = [
+  ["strong", "**", "**"],
+  ["emphasis", "*", "*"],
+  ["strikethrough", "~~", "~~"],
+  ["highlight", "==", "=="],
+  ["underline", "<u>", "</u>"]
+];
+
+/**
+ * ID of the record a node references: an ID, or a nested record object
+ */
+function referencedId(node: DastNode): string {
+  const item = node.item;
+  if (typeof item === "string") {
+    return item;
+  }
+  return typeof item === "object" && item !== null && typeof (item as { id?: unknown }).id === "string"
+    ? (item as { id: string }).id
+    : "unknown";
+}
+
+/**
+ * Escapes the characters Markdown would read as syntax
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/[\\*`[\]]|~~|==/g, match => `\\${match}`)
+    // Underscores inside words are plain text; only escape the ones that could open emphasis
+    .replace(/_/g, (match, offset: number, whole: string) =>
+      /[\p{L}\p{N}]/u.test(whole[offset - 1] ?? "") && /[\p{L}\p{N}]/u.test(whole[offset + 1] ?? "") ? match : `\\${match}`)
+    .replace(/\n/g, "\\\n");
+}
+
+/**
+ * Renders a span with its marks, keeping whitespace outside the delimiters
+ */
+function renderSpan(node: DastNode): string {
+  const value = node.value ?? "";
+  const marks = (node.marks as string[] | undefined) ?? [];
+  const [, leading = "", content = "", trailing = ""] = /^(\s*)([\s\S]*?)(\s*)$/.exec(value) ?? [];
+  if (content === "" || marks.length === 0) {
+    return marks.includes("code") ? value : escapeText(value);
+  }
+
+  let rendered = escapeText(content);
+  if (marks.includes("code")) {
+    const fence = content.includes("`") ? "``" : "`";
+    rendered = `${fence}${content.startsWith("`") ? " " : ""}${content}${content.endsWith("`") ? " " : ""}${fence}`;
+  }
+  for (const [mark, open, close] of [...MARK_DELIMITERS].reverse()) {
+    if (marks.includes(mark)) {
+      rendered = `${open}${rendered}${close}`;
+    }
+  }
+  return `${leading}${rendered}${trailing}`;
+}
+
+/**
+ * Renders the inline children of a paragraph, heading or link
+ */
+function renderInline(nodes: DastNode[] = []): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case "span":
+        return renderSpan(node);
+      case "link":
+        return `[${renderInline(node.children)}](${String(node.url ?? "")})`;
+      case "itemLink":
+        return `[${renderInline(node.children)}](record:${referencedId(node)})`;
+      case "inlineItem":
+        return `[record:${referencedId(node)}]`;
+      case "inlineBlock":
+        return `[inline block:${referencedId(node)}]`;
+      default:
+        return renderInline(node.children);
+    }
+  }).join("");
+}
+
+/**
+ * Prefixes the first line of a text with a marker and indents the others to match
+ */
+function prefixLines(text: string, first: string, rest: string): string {
+  return text.split("\n").map((line, index) => index === 0 ? first + line : line ? rest + line : line).join("\n");
+}
+
+/**
+ * Renders a block node
+ */
+function renderBlock(node: DastNode): string {
+  switch (node.type) {
+    case "paragraph":
+      return renderInline(node.children);
+    case "heading":
+      return `${"#".repeat(Number(node.level) || 1)} ${renderInline(node.children)}`;
+    case "code": {
+      const code = node.code ?? "";
+      const fence = code.includes("```") ? "~~~" : "```";
+      return `${fence}${typeof node.language === "string" ? node.language : ""}\n${code}\n${fence}`;
+    }
+    case "blockquote":
+      return (node.children ?? []).map(renderBlock).join("\n\n").split("\n").map(line => line ? `> ${line}` : ">").join("\n");
+    case "list":
+      return (node.children ?? []).map((item, index) => {
+        const marker = node.style === "numbered" ? `${index + 1}. ` : "- ";
+        const content = (item.children ?? []).map(renderBlock).join("\n");
+        return prefixLines(content, marker, " ".repeat(marker.length));
+      }).join("\n");
+    case "thematicBreak":
+      return "---";
+    case "block":
+      return `[block:${referencedId(node)}]`;
+    default:
+      return renderInline(node.children);
+  }
+}
+
+/**
+ * Renders a Structured Text value as Markdown
+ * @param value The field value
+ * @returns The Markdown, or null when the value is empty
+ */
+export function structuredTextToMarkdown(value: unknown): string | null {
+  if (!isStructuredTextValue(value)) {
+    return null;
+  }
+  return (value.document.children ?? []).map(renderBlock).join("\n\n");
+}
@@ -22,6 +22,7 @@ import {
   isDebugEnabled,
   isPerformanceTrackingEnabled
 } from "./debugUtils.js";
+import { trackRetries } from "./retry.js";
 
 /**
  * Debug middleware options
@@ -107,12 +108,15 @@ export function withDebugTracking(options: DebugMiddlewareOptions) {
         
         // Execute the handler
         const handlerTimer = createTimer();
-        const result = await handler(args);
+        const { result, stats: retryStats } = await trackRetries(() => handler(args));
         const handlerDuration = handlerTimer.stop();
         
         // Update performance metrics
         updatePerformance(context, 'handler', handlerDuration);
         addTrace(context, `Handler completed in ${handlerDuration}ms`);
+        if (retryStats.retries > 0) {
+          addTrace(context, `Retried ${retryStats.retries} API call(s), waiting ${retryStats.waitedMs}ms in total`);
+        }
         
         // Calculate response size if result is serializable
         let responseSize = 0;
@@ -144,6 +148,11 @@ export function withDebugTracking(options: DebugMiddlewareOptions) {
                 response: {
                   dataSize: responseSize,
                   dataType: dataType
+                },
+                api: {
+                  attempts: retryStats.attempts,
+                  retries: retryStats.retries,
+                  retryWaitMs: retryStats.waitedMs
                 }
               }, requestDebug);
               
@@ -65,6 +65,8 @@ export interface DebugData {
     method?: string;
     duration?: number;
     attempts?: number;
+    retries?: number;
+    retryWaitMs?: number;
   };
   validation?: {
     schema?: string;
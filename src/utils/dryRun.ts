@@ -0,0 +1,297 @@
+/**
+ * @file dryRun.ts
+ * @description Dry-run support for mutating handlers
+ * A dry-run client lets GET requests through (so handlers can still look up the
+ * entities they need) but captures every POST/PUT/DELETE instead of sending it.
+ * The captured requests are the exact CMA payloads the handler would have sent.
+ */
+
+import type { Client } from "@datocms/cma-client-node";
+import { UnifiedClientManager } from "./unifiedClientManager.js";
+
+/**
+ * Options accepted by the CMA client's low-level request method
+ */
+type ClientRequestOptions = Parameters<Client["request"]>[0];
+
+/**
+ * A CMA request captured during a dry run
+ */
+export interface DryRunRequest {
+  method: string;
+  url: string;
+  queryParams?: Record<string, unknown>;
+  body?: unknown;
+}
+
+/**
+ * An entity referenced by a captured request, resolved against the API
+ */
+export interface DryRunReference {
+  type: string;
+  id: string;
+  found: boolean;
+  /** Name, API key or label of the entity, when found */
+  label?: string;
+  /** Why the lookup failed, when not found */
+  error?: string;
+}
+
+/**
+ * Result of a dry run
+ */
+export interface DryRunReport {
+  dryRun: true;
+  /** Requests that would have been sent, in order */
+  requests: DryRunRequest[];
+  /** Entities the requests reference (targets and relationships) */
+  references: DryRunReference[];
+  /** Problems found while resolving references and locales */
+  issues: string[];
+}
+
+/**
+ * A dry-run client and the requests it has captured
+ */
+export interface DryRunSession {
+  client: Client;
+  requests: DryRunRequest[];
+  /** Resolves referenced entities and checks locales for the captured requests */
+  buildReport: () => Promise<DryRunReport>;
+}
+
+/**
+ * JSON:API resource type -> CMA collection path
+ */
+const RESOURCE_PATHS: Record<string, string> = {
+  item_type: "item-types",
+  field: "fields",
+  fieldset: "fieldsets",
+  item: "items",
+  upload: "uploads",
+  upload_collection: "upload-collections",
+  role: "roles",
+  access_token: "access_tokens",
+  webhook: "webhooks",
+  build_trigger: "build-triggers",
+  menu_item: "menu-items",
+  schema_menu_item: "schema-menu-items",
+  plugin: "plugins",
+  environment: "environments"
+};
+
+// CMA collection path -> JSON:API resource type
+const PATH_RESOURCES = Object.fromEntries(
+  Object.entries(RESOURCE_PATHS).map(([type, path]) => [path, type])
+);
+
+/**
+ * A serialized JSON:API resource object, as sent in request bodies
+ */
+interface JsonApiResource {
+  id?: string;
+  type?: string;
+  attributes?: Record<string, unknown>;
+  relationships?: Record<string, { data?: unknown }>;
+}
+
+/**
+ * Extracts the primary resource from a request body, if it has one
+ */
+function getBodyResource(body: unknown): JsonApiResource | undefined {
+  if (!body || typeof body !== "object" || !("data" in body)) {
+    return undefined;
+  }
+  const data = (body as { data: unknown }).data;
+  return data && typeof data === "object" && !Array.isArray(data) ? data as JsonApiResource : undefined;
+}
+
+/**
+ * Builds the response the API would plausibly return, so the handler can carry on
+ */
+function fakeResponse(options: ClientRequestOptions): unknown {
+  const resource = getBodyResource(options.body);
+  // For URLs like /items/:id/publish, the entity is the last one addressed in the URL
+  const urlRefs = collectUrlReferences(options.url);
+  const urlId = urlRefs[urlRefs.length - 1]?.id;
+
+  return {
+    data: {
+      id: resource?.id ?? urlId ?? "dry-run",
+      type: resource?.type ?? "dry_run",
+      attributes: resource?.attributes ?? {},
+      relationships: resource?.relationships ?? {}
+    }
+  };
+}
+
+/**
+ * Collects the `{ type, id }` pairs addressed in a URL, e.g. /item-types/1/fields
+ */
+function collectUrlReferences(url: string): Array<{ type: string; id: string }> {
+  const refs: Array<{ type: string; id: string }> = [];
+  const segments = url.split("/").filter(Boolean);
+  for (let i = 0; i + 1 < segments.length; i += 2) {
+    const type = PATH_RESOURCES[segments[i] ?? ""];
+    const id = segments[i + 1];
+    if (type && id) {
+      refs.push({ type, id });
+    }
+  }
+  return refs;
+}
+
+/**
+ * Picks a human-readable label from a raw JSON:API entity
+ */
+function labelOf(entity: JsonApiResource): string | undefined {
+  const attributes = entity.attributes ?? {};
+  for (const key of ["name", "api_key", "label", "title", "filename"]) {
+    if (typeof attributes[key] === "string") {
+      return attributes[key] as string;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collects the `{ type, id }` pairs referenced by a captured request:
+ * entities addressed in its URL and entities linked from its relationships
+ */
+function collectReferences(request: DryRunRequest): Array<{ type: string; id: string }> {
+  const refs = collectUrlReferences(request.url);
+
+  const relationships = getBodyResource(request.body)?.relationships ?? {};
+  for (const relationship of Object.values(relationships)) {
+    const linked = Array.isArray(relationship?.data) ? relationship.data : [relationship?.data];
+    for (const entry of linked) {
+      if (entry && typeof entry === "object" && "id" in entry && "type" in entry) {
+        const { id, type } = entry as { id: unknown; type: unknown };
+        if (typeof id === "string" && typeof type === "string" && RESOURCE_PATHS[type]) {
+          refs.push({ type, id });
+        }
+      }
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Creates a dry-run session for a request
+ *
+ * The client is a fresh, uncached instance so the request interception can't
+ * leak into other calls sharing the cached client.
+ *
+ * @param apiToken API token passed in the tool call, if any
+ * @param environment Environment passed in the tool call, if any
+ * @param project Project profile passed in the tool call, if any
+ * @returns The dry-run client, its captured requests and a report builder
+ */
+export function createDryRunSession(apiToken?: string, environment?: string, project?: string): DryRunSession {
+  const client = UnifiedClientManager.createStandaloneClient(apiToken, environment, project);
+  const sendRequest = client.request.bind(client);
+  const requests: DryRunRequest[] = [];
+
+  client.request = (async (options: ClientRequestOptions) => {
+    if (options.method === "GET") {
+      return sendRequest(options);
+    }
+
+    requests.push({
+      method: options.method,
+      url: options.url,
+      ...(options.queryParams && { queryParams: options.queryParams }),
+      ...(options.body !== undefined && { body: options.body })
+    });
+    return fakeResponse(options);
+  }) as Client["request"];
+
+  /**
+   * Fetches a raw entity, returning undefined when it doesn't exist
+   */
+  const fetchEntity = async (path: string): Promise<JsonApiResource | undefined> => {
+    const response = await sendRequest<{ data?: JsonApiResource | JsonApiResource[] }>({ method: "GET", url: path });
+    return response.data && !Array.isArray(response.data) ? response.data : undefined;
+  };
+
+  /**
+   * Checks the locales of a record payload against its model's fields and the site locales
+   */
+  const checkRecordLocales = async (request: DryRunRequest, issues: string[]): Promise<void> => {
+    const resource = getBodyResource(request.body);
+    if (resource?.type !== "item" || !resource.attributes) {
+      return;
+    }
+
+    let itemTypeId = (resource.relationships?.item_type?.data as { id?: string } | undefined)?.id;
+    const urlMatch = /^\/items\/([^/]+)$/.exec(request.url);
+    if (!itemTypeId && urlMatch?.[1]) {
+      const item = await fetchEntity(`/items/${urlMatch[1]}`);
+      itemTypeId = (item?.relationships?.item_type?.data as { id?: string } | undefined)?.id;
+    }
+    if (!itemTypeId) {
+      return;
+    }
+
+    const [site, fieldsResponse] = await Promise.all([
+      fetchEntity("/site"),
+      sendRequest<{ data: JsonApiResource[] }>({ method: "GET", url: `/item-types/${itemTypeId}/fields` })
+    ]);
+    const siteLocales = (site?.attributes?.locales as string[] | undefined) ?? [];
+    const fields = new Map(fieldsResponse.data.map(field => [field.attributes?.api_key as string, field]));
+
+    for (const [key, value] of Object.entries(resource.attributes)) {
+      if (key === "meta" || key === "creator") {
+        continue;
+      }
+      const field = fields.get(key);
+      if (!field) {
+        issues.push(`Field '${key}' does not exist on model ${itemTypeId}`);
+        continue;
+      }
+      if (field.attributes?.localized && value && typeof value === "object" && !Array.isArray(value)) {
+        const unknown = Object.keys(value).filter(locale => !siteLocales.includes(locale));
+        if (unknown.length > 0) {
+          issues.push(`Field '${key}' uses locale(s) ${unknown.join(", ")} not enabled on the site (enabled: ${siteLocales.join(", ")})`);
+        }
+      }
+    }
+  };
+
+  const buildReport = async (): Promise<DryRunReport> => {
+    const issues: string[] = [];
+    const references: DryRunReference[] = [];
+    const seen = new Set<string>();
+
+    for (const request of requests) {
+      for (const { type, id } of collectReferences(request)) {
+        const key = `${type}:${id}`;
+        // Entities created by the dry run itself have no real ID yet
+        if (seen.has(key) || id === "dry-run") {
+          continue;
+        }
+        seen.add(key);
+
+        try {
+          const entity = await fetchEntity(`/${RESOURCE_PATHS[type]}/${id}`);
+          references.push({ type, id, found: true, ...(entity && { label: labelOf(entity) }) });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          references.push({ type, id, found: false, error: message });
+          issues.push(`Referenced ${type} '${id}' could not be found`);
+        }
+      }
+
+      try {
+        await checkRecordLocales(request, issues);
+      } catch (error) {
+        issues.push(`Could not check record locales: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return { dryRun: true, requests, references, issues };
+  };
+
+  return { client, requests, buildReport };
+}
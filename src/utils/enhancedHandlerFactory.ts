@@ -5,6 +5,7 @@
  */
 
 import type { z } from "zod";
+import { randomUUID } from "node:crypto";
 import { createResponse, Response as McpResponse } from "./responseHandlers.js";
 import { UnifiedClientManager } from "./unifiedClientManager.js";
 import { withErrorHandling, ErrorContext } from "./errorHandlerWrapper.js";
@@ -13,8 +14,12 @@ import { SchemaRegistry } from "./schemaRegistry.js";
 import { withDebugTracking } from "./debugMiddleware.js";
 import { 
   createStandardSuccessResponse, 
+  createStandardErrorResponse,
   createStandardMcpResponse
 } from "./standardResponse.js";
+import { getServerConfig } from "./serverConfig.js";
+import { createDryRunSession } from "./dryRun.js";
+import { isReadAction } from "./actionPolicy.js";
 import { Client } from "@datocms/cma-client-node";
 
 // Re-export useful types
@@ -30,8 +35,9 @@ export type DatoCMSClient = Client;
  * Request context passed to client actions
  */
 export interface RequestContext {
-  apiToken: string;
+  apiToken?: string;
   environment?: string;
+  project?: string;
   debug?: boolean;
 }
 
@@ -46,13 +52,26 @@ export type ClientActionFn<T, R> = (
   context: RequestContext
 ) => Promise<R>;
 
+/**
+ * An update result with extra metadata for the success response
+ * @template R - The result type
+ */
+export class UpdateOutcome<R> {
+  constructor(
+    public readonly result: R,
+    public readonly meta?: Record<string, unknown>
+  ) {}
+}
+
 /**
  * Base parameters that all handlers must have
  */
 export interface BaseParams {
-  apiToken: string;
+  apiToken?: string;
   environment?: string;
+  project?: string;
   debug?: boolean;
+  dryRun?: boolean;
 }
 
 /**
@@ -67,6 +86,8 @@ export interface BaseHandlerOptions<T extends BaseParams> {
   schema: z.ZodType<T>;
   /** Error context for detailed error messages */
   errorContext?: ErrorContext;
+  /** Describes what a destructive action would affect, for its confirmation preview */
+  confirmationPreview?: (params: T) => Promise<Record<string, unknown>>;
 }
 
 /**
@@ -113,10 +134,10 @@ export interface UpdateHandlerOptions<T extends BaseParams, R> extends BaseHandl
   entityName: string;
   /** ID parameter name in the params object */
   idParam: keyof T;
-  /** Custom client action function */
-  clientAction: ClientActionFn<T, R>;
+  /** Custom client action function; returns an UpdateOutcome to add response metadata */
+  clientAction: ClientActionFn<T, R | UpdateOutcome<R>>;
   /** Message to display on successful update */
-  successMessage?: string | ((result: R) => string);
+  successMessage?: string | ((result: R, meta?: Record<string, unknown>) => string);
 }
 
 /**
@@ -133,6 +154,168 @@ export interface DeleteHandlerOptions<T extends BaseParams> extends BaseHandlerO
   successMessage?: string | ((id: any) => string);
 }
 
+/**
+ * Destructive actions that need a confirmation token, keyed by `domain.schemaName`
+ */
+const CONFIRMED_ACTIONS = new Set([
+  "records.destroy",
+  "records.bulk_destroy",
+  "records.bulk_update",
+  "records.find_replace",
+  "uploads.destroy",
+  "uploads.bulk_destroy",
+  "uploads.delete_collection",
+  "schema.delete_item_type",
+  "schema.delete_field",
+  "environments.delete",
+  "environments.promote",
+  "collaborators.apiTokens.destroy_token"
+]);
+
+/** How long a confirmation token stays valid */
+export const CONFIRMATION_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/** Parameters that don't identify what a destructive action affects */
+const NON_TARGET_PARAMS = ["apiToken", "environment", "project", "debug", "dryRun", "confirmationToken"];
+
+/**
+ * A preview waiting to be confirmed
+ */
+interface PendingConfirmation {
+  action: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+// Issued confirmation tokens, single-use
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+/**
+ * Serializes params with sorted keys so identical calls get identical fingerprints
+ */
+function fingerprintParams(params: Record<string, unknown>): string {
+  return JSON.stringify(params, (_key, value: unknown) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+}
+
+/**
+ * Middleware that makes a destructive action two-step
+ *
+ * Without a valid token the wrapped handler doesn't run: the call returns a
+ * preview of the targets and a short-lived, single-use confirmation token.
+ * Repeating the same call (same params, plus the token) runs the action.
+ * Runs after schema validation, so previews are only issued for valid calls.
+ *
+ * @param domain The handler domain
+ * @param schemaName The handler schema name
+ * @param handler The handler to protect
+ * @param preview Describes what the action would affect (e.g. how many records match)
+ * @returns The wrapped handler, or the handler itself for non-destructive actions
+ * @template P The validated params the preview receives
+ */
+export function withConfirmation<P = Record<string, unknown>>(
+  domain: string,
+  schemaName: string,
+  handler: Handler<unknown, McpResponse>,
+  preview?: (params: P) => Promise<Record<string, unknown>>
+): Handler<unknown, McpResponse> {
+  const action = `${domain}.${schemaName}`;
+  if (!CONFIRMED_ACTIONS.has(action)) {
+    return handler;
+  }
+
+  return async (args: unknown): Promise<McpResponse> => {
+    if (!getServerConfig().requireConfirmation) {
+      return handler(args);
+    }
+
+    const { confirmationToken, ...params } = args as Record<string, unknown> & { confirmationToken?: string };
+    const { debug, ...identity } = params;
+    const fingerprint = fingerprintParams(identity);
+    const now = Date.now();
+
+    // Drop expired tokens
+    for (const [token, pending] of pendingConfirmations) {
+      if (pending.expiresAt <= now) {
+        pendingConfirmations.delete(token);
+      }
+    }
+
+    const pending = confirmationToken ? pendingConfirmations.get(confirmationToken) : undefined;
+    if (confirmationToken && pending && pending.action === action && pending.fingerprint === fingerprint) {
+      pendingConfirmations.delete(confirmationToken);
+      return handler(params);
+    }
+
+    // Describe the targets before issuing a token, so a failing preview issues none
+    const previewData = preview ? await preview(params as P) : undefined;
+
+    const token = randomUUID();
+    const expiresAt = now + CONFIRMATION_TOKEN_TTL_MS;
+    pendingConfirmations.set(token, { action, fingerprint, expiresAt });
+
+    const target = Object.fromEntries(
+      Object.entries(params).filter(([key, value]) => !NON_TARGET_PARAMS.includes(key) && value !== undefined)
+    );
+    const invalidTokenNote = confirmationToken
+      ? "The confirmation token was invalid, expired, or issued for different arguments, so a new one was issued. "
+      : "";
+
+    return createStandardMcpResponse(createStandardSuccessResponse(
+      {
+        confirmationRequired: true,
+        action,
+        target,
+        ...(previewData && { preview: previewData }),
+        environment: params.environment ?? "(default)",
+        ...(params.project !== undefined && { project: params.project }),
+        confirmationToken: token,
+        expiresAt: new Date(expiresAt).toISOString()
+      },
+      `${invalidTokenNote}CONFIRMATION REQUIRED: '${action}' is destructive and has NOT been run. Check the target above with the user, then repeat the exact same call with "confirmationToken": "${token}" within ${CONFIRMATION_TOKEN_TTL_MS / 60000} minutes to proceed.`,
+      undefined,
+      debug as boolean | undefined
+    ));
+  };
+}
+
+/**
+ * Middleware for handlers that can't simulate their API calls
+ *
+ * Rejects `dryRun: true` on write actions, since running them would change data,
+ * and strips the flag before the handler runs so it never leaks into payloads
+ * built by spreading the params. Read actions simply ignore the flag.
+ *
+ * @param domain The handler domain
+ * @param schemaName The handler schema name
+ * @param handler The handler to guard
+ * @returns The wrapped handler
+ */
+function withDryRunGuard(
+  domain: string,
+  schemaName: string,
+  handler: Handler<unknown, McpResponse>
+): Handler<unknown, McpResponse> {
+  return async (args: unknown): Promise<McpResponse> => {
+    const { dryRun, ...params } = args as Record<string, unknown>;
+
+    if (dryRun === true && !isReadAction(schemaName)) {
+      return createStandardMcpResponse(createStandardErrorResponse(
+        `Dry run is not supported for '${domain}.${schemaName}'. Nothing was executed; call it without dryRun to run it.`,
+        {
+          error_code: "DRY_RUN_NOT_SUPPORTED",
+          action: `${domain}.${schemaName}`
+        }
+      ));
+    }
+
+    return handler(params);
+  };
+}
+
 /**
  * Function composition to apply a series of higher-order functions to a base handler
  * @param baseHandler The base handler function
@@ -166,12 +349,15 @@ function composeMiddleware<T, R>(
  * @param options Base handler options
  * @param clientAction Function to execute with the client
  * @param responseTransformer Function to transform the result into a response
+ * @param supportsDryRun Whether `dryRun: true` runs the action against a
+ * capturing client instead of the API (create/update/delete handlers)
  * @returns A fully composed handler with validation and error handling
  */
 function createBaseHandler<T extends BaseParams, R>(
   options: BaseHandlerOptions<T>,
   clientAction: ClientActionFn<T, R>,
-  responseTransformer: (result: R, requestDebug?: boolean) => any
+  responseTransformer: (result: R, requestDebug?: boolean) => any,
+  supportsDryRun = false
 ): Handler<unknown, McpResponse> {
   const { domain, schemaName, schema, errorContext } = options;
   
@@ -181,20 +367,36 @@ function createBaseHandler<T extends BaseParams, R>(
   // Define the base handler function
   const baseHandler: Handler<T, McpResponse> = async (params: T): Promise<McpResponse> => {
     // Extract client parameters - no type casting needed since T extends BaseParams
-    const { apiToken, environment, debug: requestDebug } = params;
+    const { apiToken, environment, project, debug: requestDebug, dryRun } = params;
     
     // Create request context
     const context: RequestContext = {
       apiToken,
       environment,
+      project,
       debug: requestDebug
     };
     
+    // The client action never sees dryRun, so it can't leak into spread payloads
+    const { dryRun: _dryRun, ...clientParams } = params;
+    
+    if (dryRun && supportsDryRun) {
+      // Run the action against a client that captures writes instead of sending them
+      const session = createDryRunSession(apiToken, environment, project);
+      await clientAction(session.client, clientParams as T, context);
+      const report = await session.buildReport();
+      
+      const message = report.issues.length > 0
+        ? `Dry run: no changes were made. Found ${report.issues.length} issue(s) to fix before running '${domain}.${schemaName}'.`
+        : `Dry run: no changes were made. '${domain}.${schemaName}' would send the ${report.requests.length} request(s) shown.`;
+      return createStandardMcpResponse(createStandardSuccessResponse(report, message, undefined, requestDebug));
+    }
+    
     // Get the standard DatoCMS client
-    const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+    const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
     
     // Execute the client action with context
-    const result = await clientAction(client, params, context);
+    const result = await clientAction(client, clientParams as T, context);
     
     // Transform and return the result - pass the debug flag from params
     const transformedResult = responseTransformer(result, requestDebug);
@@ -214,7 +416,16 @@ function createBaseHandler<T extends BaseParams, R>(
     // Apply error handling middleware
     (handler) => withErrorHandling(handler, errorContext),
     // Apply schema validation middleware
-    (handler) => withSchemaValidation(domain, schemaName, handler)
+    (handler) => withSchemaValidation(domain, schemaName, handler),
+    // Require a confirmation token for destructive actions (runs after validation);
+    // dry runs change nothing, so they skip it
+    (handler) => {
+      const confirmedHandler = withConfirmation(domain, schemaName, handler, options.confirmationPreview);
+      if (!supportsDryRun) {
+        return confirmedHandler;
+      }
+      return async (args: unknown) => (args as BaseParams).dryRun === true ? handler(args) : confirmedHandler(args);
+    }
   ]);
 }
 
@@ -241,7 +452,8 @@ export function createCreateHandler<T extends BaseParams, R>(options: CreateHand
   return createBaseHandler(
     { ...options, errorContext: enhancedErrorContext },
     clientAction,
-    responseTransformer
+    responseTransformer,
+    true
   );
 }
 
@@ -251,6 +463,9 @@ export function createCreateHandler<T extends BaseParams, R>(options: CreateHand
 export function createRetrieveHandler<T extends BaseParams, R>(options: RetrieveHandlerOptions<T, R>): Handler<unknown, McpResponse> {
   const { entityName, idParam, clientAction } = options;
   
+  // Register the schema if it hasn't been registered yet
+  SchemaRegistry.register(options.domain, options.schemaName, options.schema);
+  
   // Create an enhanced error context
   const enhancedErrorContext: ErrorContext = {
     ...options.errorContext,
@@ -267,17 +482,18 @@ export function createRetrieveHandler<T extends BaseParams, R>(options: Retrieve
     enhancedErrorContext.resourceId = entityId as string | number;
     
     // Extract client parameters - no type casting needed since T extends BaseParams
-    const { apiToken, environment } = params;
+    const { apiToken, environment, project } = params;
     
     // Create request context
     const context: RequestContext = {
       apiToken,
       environment,
+      project,
       debug: params.debug
     };
     
     // Get the standard DatoCMS client
-    const client = UnifiedClientManager.getDefaultClient(apiToken, environment);
+    const client = UnifiedClientManager.getDefaultClient(apiToken, environment, project);
     
     // Execute the client action
     const result = await clientAction(client, params, context);
@@ -330,16 +546,17 @@ export function createUpdateHandler<T extends BaseParams, R>(options: UpdateHand
   };
   
   // Create the response transformer function
-  const responseTransformer = (result: R, requestDebug?: boolean) => {
+  const responseTransformer = (outcome: R | UpdateOutcome<R>, requestDebug?: boolean) => {
+    const { result, meta } = outcome instanceof UpdateOutcome ? outcome : { result: outcome, meta: undefined };
     // Safely extract ID if the result has one
     const entityId = (result && typeof result === 'object' && 'id' in result) 
       ? (result as { id: string | number }).id 
       : 'unknown';
     const message = successMessage 
-      ? (typeof successMessage === 'function' ? successMessage(result) : successMessage)
+      ? (typeof successMessage === 'function' ? successMessage(result, meta) : successMessage)
       : `${entityName} ${entityId} was successfully updated.`;
       
-    return createStandardSuccessResponse(result, message, undefined, requestDebug);
+    return createStandardSuccessResponse(result, message, meta, requestDebug);
   };
   
   // Create and return the composed handler with dynamic resourceId
@@ -350,7 +567,8 @@ export function createUpdateHandler<T extends BaseParams, R>(options: UpdateHand
       enhancedErrorContext.resourceId = params[idParam] as string | number;
       return await clientAction(client, params, context);
     },
-    responseTransformer
+    responseTransformer,
+    true
   );
 }
 
@@ -387,7 +605,8 @@ export function createDeleteHandler<T extends BaseParams>(options: DeleteHandler
       await clientAction(client, params, context);
       return undefined;
     },
-    responseTransformer
+    responseTransformer,
+    true
   );
 }
 
@@ -451,7 +670,11 @@ export function createCustomHandler<T extends BaseParams, R>(
     // Apply error handling middleware
     (h) => withErrorHandling(h, errorContext),
     // Apply schema validation middleware
-    (h) => withSchemaValidation(domain, schemaName, h)
+    (h) => withSchemaValidation(domain, schemaName, h),
+    // Custom handlers can't simulate their calls, so reject dry runs of writes
+    (h) => withDryRunGuard(domain, schemaName, h),
+    // Require a confirmation token for destructive actions (runs after validation)
+    (h) => withConfirmation(domain, schemaName, h, options.confirmationPreview)
   ]);
 }
 
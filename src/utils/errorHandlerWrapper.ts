@@ -11,12 +11,14 @@ import {
   isNotFoundError,
   isValidationError,
   isVersionConflictError,
-  extractDetailedErrorInfo
+  extractDetailedErrorInfo,
+  PayloadValidationError
 } from "./errorHandlers.js";
 import { HandlerResponse, Response } from "./responseHandlers.js";
 import { 
   createStandardErrorResponse, 
-  createStandardMcpResponse 
+  createStandardMcpResponse,
+  createStandardValidationErrorResponse
 } from "./standardResponse.js";
 import { 
   isDebugEnabled,
@@ -145,6 +147,13 @@ export function withErrorHandling<Args>(
     } catch (error: unknown) {
       // Extract debug flag from args
       const requestDebug = (args as any)?.debug;
+
+      // Problems found before sending come back as a list, so they can all be fixed at once
+      if (error instanceof PayloadValidationError) {
+        return createStandardMcpResponse(
+          createStandardValidationErrorResponse(error.message, error.issues, undefined, requestDebug)
+        );
+      }
       
       // Check if debug mode is enabled and we have debug context from middleware
       if (isDebugEnabled(requestDebug) && (args as any)?._debugContext) {
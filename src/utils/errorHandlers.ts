@@ -18,6 +18,28 @@ export type DatoCMSApiError = {
   };
 };
 
+/**
+ * A problem found in input before it was sent
+ */
+export type PayloadIssue = {
+  /** Where the problem is, e.g. 'title[en]' */
+  path: string;
+  /** Kind of problem, e.g. 'VALIDATION_REQUIRED' */
+  code: string;
+  message: string;
+};
+
+/**
+ * Error for input that was checked before sending and has problems; error
+ * handling returns it as a validation error listing every issue
+ */
+export class PayloadValidationError extends Error {
+  constructor(message: string, readonly issues: PayloadIssue[]) {
+    super(`${message}\n- ${issues.map(issue => `${issue.path}: ${issue.message}`).join("\n- ")}`);
+    this.name = "PayloadValidationError";
+  }
+}
+
 /**
  * Type guard for DatoCMS API errors
  */
@@ -0,0 +1,180 @@
+/**
+ * @file fetchAll.ts
+ * @description Walks every page of a CMA list endpoint for "fetch all" queries
+ * Pages are fetched one after the other at the largest page size, reporting
+ * MCP progress after each. The walk stops at a record limit or at the response
+ * size budget, and then hands back a cursor that resumes where it stopped.
+ */
+
+import { MAX_PAGINATION_LIMIT } from "./pagination.js";
+import { reportProgress } from "./progress.js";
+import type { Response } from "./responseHandlers.js";
+import { createStandardMcpResponse, createStandardPaginatedResponse } from "./standardResponse.js";
+
+/**
+ * One page of a list endpoint
+ */
+export interface ResourcePage<T> {
+  items: T[];
+  /** Total number of matching resources (the API's meta.total_count) */
+  totalCount: number;
+}
+
+/**
+ * Options for fetchAllPages()
+ */
+export interface FetchAllOptions<T> {
+  /** Fetches the page starting at `offset` */
+  fetchPage: (offset: number, limit: number) => Promise<ResourcePage<T>>;
+  /** Offset of the first resource to fetch */
+  startOffset: number;
+  /** Stop after this many resources */
+  maxRecords?: number;
+  /** Stop before the collected resources exceed this many bytes of JSON */
+  maxBytes: number;
+  /** Plural noun for progress messages (e.g. 'records') */
+  noun: string;
+}
+
+/**
+ * Result of fetchAllPages()
+ */
+export interface FetchAllResult<T> {
+  items: T[];
+  /** Offset the walk started at */
+  startOffset: number;
+  /** Total number of matching resources */
+  totalCount: number;
+  /** Why the walk stopped before the last resource, if it did */
+  stoppedBy?: "maxRecords" | "sizeBudget";
+  /** Cursor that resumes after the last resource returned, when some are left */
+  nextCursor?: string;
+}
+
+/**
+ * Encodes a resume position as an opaque cursor
+ * @param offset Offset of the next resource to fetch
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset }), "utf8").toString("base64url");
+}
+
+/**
+ * Decodes a cursor returned by a previous fetch-all query
+ * @param cursor The cursor
+ * @returns Offset of the next resource to fetch
+ * @throws If the cursor is malformed
+ */
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor '${cursor}'. Pass the meta.pagination.next_cursor of a previous response unchanged.`);
+}
+
+/**
+ * Deserializes a JSON:API resource the way the simple CMA client does, with
+ * attributes and relationship data inlined next to the ID
+ * @param entity The raw resource
+ * @returns The simple resource
+ */
+export function deserializeResource<T>({ id, type, attributes, relationships, meta }: {
+  id?: string;
+  type?: string;
+  attributes?: object;
+  relationships?: object;
+  meta?: object;
+}): T {
+  return {
+    ...(id && { id }),
+    ...(type && { type }),
+    ...attributes,
+    ...Object.fromEntries(Object.entries(relationships ?? {}).map(([name, value]) => [name, value?.data])),
+    ...(meta && { meta })
+  } as T;
+}
+
+/**
+ * Fetches every matching resource, page by page
+ *
+ * The first resource is always returned, even when it alone exceeds the size
+ * budget, so a resumed walk always makes progress.
+ *
+ * @param options Page fetcher, start position and limits
+ * @returns The resources, the total count and where to resume
+ */
+export async function fetchAllPages<T>(options: FetchAllOptions<T>): Promise<FetchAllResult<T>> {
+  const { fetchPage, startOffset, maxRecords, maxBytes, noun } = options;
+  const items: T[] = [];
+  let offset = startOffset;
+  let bytes = 2;
+  let totalCount = 0;
+  let reported = 0;
+  let stoppedBy: FetchAllResult<T>["stoppedBy"];
+
+  while (!stoppedBy) {
+    const wanted = maxRecords === undefined ? MAX_PAGINATION_LIMIT : Math.min(MAX_PAGINATION_LIMIT, maxRecords - items.length);
+    const page = await fetchPage(offset, wanted);
+    totalCount = page.totalCount;
+
+    for (const item of page.items) {
+      const size = Buffer.byteLength(JSON.stringify(item), "utf8") + 1;
+      if (items.length > 0 && bytes + size > maxBytes) {
+        stoppedBy = "sizeBudget";
+        break;
+      }
+      items.push(item);
+      bytes += size;
+      offset++;
+    }
+
+    // Progress must strictly increase, so a page that added nothing isn't reported
+    if (items.length > reported) {
+      const target = Math.min(Math.max(totalCount - startOffset, 0), maxRecords ?? Infinity);
+      await reportProgress(items.length, target, `Fetched ${items.length} of ${target} ${noun}`);
+      reported = items.length;
+    }
+
+    if (page.items.length === 0 || offset >= totalCount) {
+      break;
+    }
+    if (!stoppedBy && maxRecords !== undefined && items.length >= maxRecords) {
+      stoppedBy = "maxRecords";
+    }
+  }
+
+  return {
+    items,
+    startOffset,
+    totalCount,
+    ...(stoppedBy && offset < totalCount && { stoppedBy, nextCursor: encodeCursor(offset) })
+  };
+}
+
+/**
+ * Builds the response of a fetch-all query, pointing at the cursor when the
+ * walk was cut off
+ * @param result The walk's result
+ * @param entityName Entity name for the message (e.g. 'Record')
+ * @param requestDebug Whether debug output was requested
+ * @returns The MCP response
+ */
+export function createFetchAllResponse<T>(result: FetchAllResult<T>, entityName: string, requestDebug?: boolean): Response {
+  const stopReason = result.stoppedBy === "sizeBudget" ? "the response size budget" : "maxRecords";
+  const message = `Fetched ${result.items.length} of ${result.totalCount} ${entityName}(s).` + (result.nextCursor
+    ? ` Stopped at ${stopReason}; pass cursor '${result.nextCursor}' to fetch the rest.`
+    : "");
+
+  return createStandardMcpResponse(createStandardPaginatedResponse(result.items, {
+    limit: result.items.length,
+    offset: result.startOffset,
+    total: result.totalCount,
+    has_more: result.nextCursor !== undefined,
+    ...(result.nextCursor && { next_cursor: result.nextCursor })
+  }, message, undefined, requestDebug));
+}
@@ -0,0 +1,305 @@
+/**
+ * @file htmlToDast.ts
+ * @description Converts HTML to a Structured Text value (DAST document)
+ * A small, forgiving parser for the HTML editors and models produce: unclosed
+ * `<p>` and `<li>` are closed implicitly, unknown elements are unwrapped, and
+ * `<script>`/`<style>` are dropped. Paragraphs, headings, lists, `<pre>` code,
+ * blockquotes and `<hr>` become the matching DAST nodes; `<strong>`, `<em>`,
+ * `<u>`, `<s>`, `<code>` and `<mark>` become marks, and `<a href>` links.
+ * Images and tables have no DAST node and are rejected.
+ *
+ * See: https://www.datocms.com/docs/structured-text/dast
+ */
+
+import type { DastMark, DastNode, StructuredTextValue } from "./structuredText.js";
+import { appendSpan, toParagraphs, toStructuredTextValue, trimInline } from "./structuredText.js";
+
+/**
+ * An element of the parsed HTML
+ */
+interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+/** Text, or an element */
+type HtmlNode = string | HtmlElement;
+
+/** Elements that have no content or closing tag */
+const VOID_ELEMENTS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+
+/** Elements whose content is dropped */
+const IGNORED_ELEMENTS = new Set(["head", "script", "style", "template", "title", "noscript"]);
+
+/** Elements that only group blocks, converted as their content */
+const CONTAINER_ELEMENTS = new Set(["html", "body", "div", "section", "article", "main", "header", "footer", "aside", "nav", "figure", "figcaption", "details", "summary"]);
+
+/** Elements that start a block, and so close an open paragraph */
+const BLOCK_ELEMENTS = new Set([
+  ...CONTAINER_ELEMENTS, "p", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "blockquote", "pre", "hr", "table"
+]);
+
+/** Marks set by inline elements */
+const MARK_ELEMENTS: Record<string, DastMark> = {
+  strong: "strong",
+  b: "strong",
+  em: "emphasis",
+  i: "emphasis",
+  u: "underline",
+  ins: "underline",
+  s: "strikethrough",
+  del: "strikethrough",
+  strike: "strikethrough",
+  code: "code",
+  kbd: "code",
+  samp: "code",
+  mark: "highlight"
+};
+
+/** Link attributes kept as DAST link meta */
+const LINK_META_ATTRIBUTES = ["target", "rel", "title"];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+  middot: "·",
+  bull: "•"
+};
+
+/**
+ * Decodes character references (`&amp;`, `&#39;`, `&#x27;`)
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (reference, name: string) => {
+    if (name.startsWith("#")) {
+      const codePoint = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? reference;
+  });
+}
+
+/**
+ * Parses the attributes of a start tag
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attributes[match[1]!.toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Parses HTML into a tree of elements and text
+ */
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { tag: "#root", attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1]!;
+  const closeTo = (tag: string) => {
+    const index = stack.map(element => element.tag).lastIndexOf(tag);
+    if (index > 0) {
+      stack.length = index;
+    }
+  };
+
+  const tags = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\/([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>/g;
+  let position = 0;
+  for (let match = tags.exec(html); match; match = tags.exec(html)) {
+    if (match.index > position) {
+      current().children.push(decodeEntities(html.slice(position, match.index)));
+    }
+    position = tags.lastIndex;
+
+    const [, closingTag, openingTag, attributes = ""] = match;
+    if (closingTag) {
+      closeTo(closingTag.toLowerCase());
+      continue;
+    }
+    if (!openingTag) {
+      // Comment or doctype
+      continue;
+    }
+
+    const tag = openingTag.toLowerCase();
+    if (IGNORED_ELEMENTS.has(tag)) {
+      // Skip the content, which may contain '<' that isn't markup
+      const end = html.toLowerCase().indexOf(`</${tag}`, position);
+      position = end < 0 ? html.length : html.indexOf(">", end) + 1 || html.length;
+      tags.lastIndex = position;
+      continue;
+    }
+
+    // Open paragraphs and list items close when a block (or the next item) starts
+    if (BLOCK_ELEMENTS.has(tag) && current().tag === "p") {
+      stack.pop();
+    }
+    if (tag === "li") {
+      const item = stack.map(element => element.tag).lastIndexOf("li");
+      const list = Math.max(stack.map(element => element.tag).lastIndexOf("ul"), stack.map(element => element.tag).lastIndexOf("ol"));
+      if (item > list && item > 0) {
+        stack.length = item;
+      }
+    }
+
+    const element: HtmlElement = { tag, attributes: parseAttributes(attributes), children: [] };
+    current().children.push(element);
+    if (!VOID_ELEMENTS.has(tag) && !match[0].endsWith("/>")) {
+      stack.push(element);
+    }
+  }
+  if (position < html.length) {
+    current().children.push(decodeEntities(html.slice(position)));
+  }
+  return root.children;
+}
+
+/**
+ * Text content of an element, as is (for `<pre>`)
+ */
+function textContent(node: HtmlNode): string {
+  if (typeof node === "string") {
+    return node;
+  }
+  return node.tag === "br" ? "\n" : node.children.map(textContent).join("");
+}
+
+/**
+ * Rejects elements DAST can't hold
+ */
+function assertSupported(element: HtmlElement): void {
+  if (element.tag === "img") {
+    throw new Error(`Images can't go in Structured Text (found <img src="${element.attributes.src ?? ""}">). Upload the image and add it to the record as a block or a file field instead.`);
+  }
+  if (element.tag === "table") {
+    throw new Error("Tables can't go in Structured Text. Use a block model for tabular content, or lists.");
+  }
+}
+
+/**
+ * Converts inline HTML into spans and links
+ * @param nodes The inline content
+ * @param marks Marks of the enclosing elements
+ * @param allowLinks False inside links, which can't be nested
+ */
+function convertInline(nodes: HtmlNode[], marks: DastMark[], allowLinks: boolean): DastNode[] {
+  const result: DastNode[] = [];
+  for (const node of nodes) {
+    if (typeof node === "string") {
+      appendSpan(result, node.replace(/\s+/g, " "), marks);
+      continue;
+    }
+    assertSupported(node);
+    if (node.tag === "br") {
+      appendSpan(result, "\n", marks);
+      continue;
+    }
+    if (node.tag === "a" && node.attributes.href && allowLinks) {
+      const meta = LINK_META_ATTRIBUTES
+        .filter(attribute => node.attributes[attribute])
+        .map(attribute => ({ id: attribute, value: node.attributes[attribute]! }));
+      result.push({
+        type: "link",
+        url: node.attributes.href,
+        ...(meta.length > 0 && { meta }),
+        children: trimInline(convertInline(node.children, marks, false))
+      });
+      continue;
+    }
+
+    // Mark elements add their mark; other inline elements are unwrapped
+    const mark = MARK_ELEMENTS[node.tag];
+    const childMarks = mark && !marks.includes(mark) ? [...marks, mark] : marks;
+    for (const child of convertInline(node.children, childMarks, allowLinks)) {
+      if (child.type === "span") {
+        appendSpan(result, child.value ?? "", (child.marks as DastMark[] | undefined) ?? []);
+      } else {
+        result.push(child);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts HTML into block nodes; loose inline content becomes paragraphs
+ */
+function convertBlocks(nodes: HtmlNode[]): DastNode[] {
+  const blocks: DastNode[] = [];
+  let inline: HtmlNode[] = [];
+  const flush = () => {
+    const children = trimInline(convertInline(inline, [], true));
+    if (children.length > 0) {
+      blocks.push({ type: "paragraph", children });
+    }
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node === "string" || !BLOCK_ELEMENTS.has(node.tag)) {
+      inline.push(node);
+      continue;
+    }
+    flush();
+    assertSupported(node);
+
+    const heading = /^h([1-6])$/.exec(node.tag);
+    if (heading) {
+      blocks.push({ type: "heading", level: Number(heading[1]), children: trimInline(convertInline(node.children, [], true)) });
+    } else if (node.tag === "ul" || node.tag === "ol") {
+      const items = node.children
+        .filter(child => typeof child !== "string" || child.trim() !== "")
+        .map(child => typeof child !== "string" && child.tag === "li" ? child.children : [child]);
+      blocks.push({
+        type: "list",
+        style: node.tag === "ol" ? "numbered" : "bulleted",
+        children: items.map(item => ({ type: "listItem", children: convertBlocks(item).flatMap(child => toParagraphs(child, true)) }))
+      });
+    } else if (node.tag === "blockquote") {
+      blocks.push({ type: "blockquote", children: convertBlocks(node.children).flatMap(child => toParagraphs(child)) });
+    } else if (node.tag === "pre") {
+      const code = node.children.find((child): child is HtmlElement => typeof child !== "string" && child.tag === "code");
+      const language = /(?:^|\s)(?:language|lang)-(\S+)/.exec(code?.attributes.class ?? "")?.[1];
+      blocks.push({ type: "code", code: textContent(node).replace(/^\n/, "").replace(/\n$/, ""), ...(language && { language }) });
+    } else if (node.tag === "hr") {
+      blocks.push({ type: "thematicBreak" });
+    } else if (node.tag === "p") {
+      inline = node.children;
+      flush();
+    } else {
+      // Containers, and list items outside a list
+      blocks.push(...convertBlocks(node.children));
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Converts HTML to a Structured Text value
+ * @param html The HTML (a fragment or a full document)
+ * @returns The value, with an empty root for blank HTML
+ * @throws If the HTML contains images or tables, which DAST can't hold
+ */
+export function htmlToStructuredText(html: string): StructuredTextValue {
+  return toStructuredTextValue(convertBlocks(parseHtml(html)));
+}
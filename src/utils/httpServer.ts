@@ -0,0 +1,260 @@
+/**
+ * @file httpServer.ts
+ * @description HTTP transport for the DatoCMS MCP server
+ * Serves the Streamable HTTP transport on /mcp and the legacy SSE transport
+ * on /sse + /messages, with one McpServer instance per client session.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse, Server } from "node:http";
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Options for the HTTP transport server
+ */
+export interface HttpServerOptions {
+  /** Host interface to bind to */
+  host: string;
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+  /** Factory creating a fresh McpServer for each session */
+  createMcpServer: () => McpServer;
+}
+
+/**
+ * A running HTTP transport server
+ */
+export interface RunningHttpServer {
+  /** The underlying Node HTTP server */
+  httpServer: Server;
+  /** The base URL the server is listening on */
+  url: string;
+  /** Closes every open session and stops listening */
+  close: () => Promise<void>;
+}
+
+/**
+ * An open MCP session, bound to its own transport and McpServer
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+}
+
+/** Path of the Streamable HTTP endpoint */
+export const STREAMABLE_HTTP_PATH = "/mcp";
+
+/** Path of the legacy SSE stream endpoint */
+export const SSE_PATH = "/sse";
+
+/** Path the legacy SSE clients POST their messages to */
+export const SSE_MESSAGES_PATH = "/messages";
+
+/** Default host for the HTTP transport (loopback only) */
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+
+/** Default port for the HTTP transport */
+export const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Reads and JSON-parses the body of an incoming request
+ * @param req The incoming request
+ * @returns The parsed body, or undefined when the body is empty
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Writes a JSON-RPC error response
+ * @param res The server response
+ * @param status HTTP status code
+ * @param code JSON-RPC error code
+ * @param message Error message
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) {
+    return;
+  }
+
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null
+  }));
+}
+
+/**
+ * Reads a single header value from an incoming request
+ */
+function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Starts the HTTP transport server
+ *
+ * Each client gets its own McpServer instance, created when the client sends
+ * its initialize request (Streamable HTTP) or opens its event stream (SSE).
+ * Sessions are dropped when the client sends DELETE /mcp, when the SSE stream
+ * closes, or when the server shuts down.
+ *
+ * @param options Host, port and McpServer factory
+ * @returns The running server with its URL and a close function
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const { host, port, createMcpServer } = options;
+  const sessions = new Map<string, Session>();
+
+  /**
+   * Closes a session's transport and server, ignoring errors from already closed ones
+   */
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch {
+      // The transport may already be closed by the client
+    }
+  };
+
+  /**
+   * Handles requests to the Streamable HTTP endpoint
+   */
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = getHeader(req, "mcp-session-id");
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (existing) {
+      if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: Session exists but uses a different transport protocol");
+        return;
+      }
+
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { transport, server });
+      }
+    });
+
+    // connect() takes over the transport's onclose, so listen on the server instead
+    server.server.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  /**
+   * Opens a legacy SSE stream with its own session
+   */
+  const handleSseStream = async (res: ServerResponse): Promise<void> => {
+    const server = createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, { transport, server });
+
+    res.on("close", () => {
+      void closeSession(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  /**
+   * Routes a legacy SSE message to its session
+   */
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const session = sessions.get(sessionId);
+
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? host}`);
+
+    const route = async (): Promise<void> => {
+      if (url.pathname === STREAMABLE_HTTP_PATH) {
+        await handleStreamableHttp(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === "GET") {
+        await handleSseStream(res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404, { "Content-Type": "text/plain" }).end("Not Found");
+      }
+    };
+
+    route().catch((error: unknown) => {
+      if (error instanceof SyntaxError) {
+        sendJsonRpcError(res, 400, -32700, "Parse error");
+        return;
+      }
+      sendJsonRpcError(res, 500, -32603, `Internal server error: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const boundPort = typeof address === "object" && address ? address.port : port;
+
+  return {
+    httpServer,
+    url: `http://${host.includes(":") ? `[${host}]` : host}:${boundPort}`,
+    close: async () => {
+      await Promise.all([...sessions.keys()].map(closeSession));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    }
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * @file jobResults.ts
+ * @description Polling for CMA async jobs (environment forks, bulk operations, ...)
+ * Endpoints that start a job answer 202 with a job ID; the job result appears at
+ * /job-results/:id once the job has finished. By default the CMA client polls for
+ * it forever, so handlers that start jobs use runJob() to either return the job
+ * ID straight away or wait with a timeout.
+ */
+
+import { ApiError, type Client, type SimpleSchemaTypes } from "@datocms/cma-client-node";
+import { UnifiedClientManager } from "./unifiedClientManager.js";
+
+/** How long to wait for a job by default, in seconds */
+export const DEFAULT_JOB_TIMEOUT_SECONDS = 60;
+
+/** Longest wait a single tool call may ask for, in seconds */
+export const MAX_JOB_TIMEOUT_SECONDS = 600;
+
+/** Longest pause between two polls, in milliseconds */
+const MAX_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Outcome of an operation that runs as a job
+ */
+export type JobOutcome<T> =
+  | { status: "completed"; result: T }
+  | {
+      status: "pending";
+      jobId: string;
+      /** Whether we waited for the job and gave up at the timeout */
+      timedOut: boolean;
+    };
+
+/**
+ * Fetches a job result once
+ * @param client The CMA client
+ * @param jobId The job ID
+ * @returns The job result, or undefined while the job is still running
+ */
+export async function findJobResult(client: Client, jobId: string): Promise<SimpleSchemaTypes.JobResult | undefined> {
+  try {
+    return await client.jobResults.find(jobId);
+  } catch (error) {
+    // The result only exists once the job has finished
+    if (error instanceof ApiError && error.response.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Polls a job result until it's available or the timeout is reached
+ * @param client The CMA client
+ * @param jobId The job ID
+ * @param timeoutMs How long to wait, in milliseconds
+ * @returns The job result, or undefined if the job didn't finish in time
+ */
+export async function waitForJobResult(
+  client: Client,
+  jobId: string,
+  timeoutMs: number
+): Promise<SimpleSchemaTypes.JobResult | undefined> {
+  const deadline = Date.now() + timeoutMs;
+
+  for (let poll = 1; ; poll++) {
+    const jobResult = await findJobResult(client, jobId);
+    const remaining = deadline - Date.now();
+    if (jobResult || remaining <= 0) {
+      return jobResult;
+    }
+
+    // Back off gradually, like the CMA client does, but never sleep past the deadline
+    await new Promise(resolve => setTimeout(resolve, Math.min(poll * 1000, MAX_POLL_INTERVAL_MS, remaining)));
+  }
+}
+
+/**
+ * Runs an operation that starts a CMA job
+ *
+ * The operation runs on a fresh client whose job fetcher either stops right
+ * after the job starts or polls with a timeout. A job that finishes with an
+ * error status still throws the usual ApiError.
+ *
+ * @param credentials Token, environment and project for the client
+ * @param operation Starts the job (e.g. `client => client.environments.fork(...)`)
+ * @param options Whether to wait, and for how long
+ * @returns The operation's result, or the job ID when it's still running
+ */
+export async function runJob<T>(
+  credentials: { apiToken?: string; environment?: string; project?: string },
+  operation: (client: Client) => Promise<T>,
+  options: { waitForCompletion: boolean; timeoutSeconds?: number }
+): Promise<JobOutcome<T>> {
+  const client = UnifiedClientManager.createStandaloneClient(credentials.apiToken, credentials.environment, credentials.project);
+  const timeoutMs = Math.min(options.timeoutSeconds ?? DEFAULT_JOB_TIMEOUT_SECONDS, MAX_JOB_TIMEOUT_SECONDS) * 1000;
+
+  // Thrown from the job fetcher to stop the client from waiting any longer
+  const stillRunning = new Error("Job still running");
+  let jobId: string | undefined;
+
+  client.jobResultsFetcher = async (startedJobId: string) => {
+    jobId = startedJobId;
+    const jobResult = options.waitForCompletion
+      ? await waitForJobResult(client, startedJobId, timeoutMs)
+      : undefined;
+    if (!jobResult) {
+      throw stillRunning;
+    }
+    return jobResult;
+  };
+
+  try {
+    return { status: "completed", result: await operation(client) };
+  } catch (error) {
+    if (error === stillRunning && jobId) {
+      return { status: "pending", jobId, timedOut: options.waitForCompletion };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @file localFiles.ts
+ * @description Resolves the local file paths used by records export and import
+ * Every path is confined to the server's files directory (DATOCMS_FILES_DIR), so a
+ * client, possibly a remote one over the HTTP transport, can't read or write any
+ * other file the server process has access to.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getServerConfig } from "./serverConfig.js";
+
+/**
+ * Whether a path lies strictly inside a directory
+ */
+function isInside(directory: string, target: string): boolean {
+  const relative = path.relative(directory, target);
+  return relative !== "" && relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolves the real path of a file, or of its closest existing ancestor when it
+ * doesn't exist yet, so symlinks inside the files directory can't point out of it
+ */
+async function realPathOfClosestAncestor(target: string): Promise<{ existing: string; rest: string }> {
+  let existing = target;
+  while (true) {
+    try {
+      return { existing: await fs.realpath(existing), rest: path.relative(existing, target) };
+    } catch {
+      const parent = path.dirname(existing);
+      if (parent === existing) {
+        return { existing, rest: path.relative(existing, target) };
+      }
+      existing = parent;
+    }
+  }
+}
+
+/**
+ * Resolves a client-supplied path against the server's files directory
+ * @param requestedPath The path from the tool call; relative paths are resolved
+ * against the files directory
+ * @returns The absolute path of the file
+ * @throws If the path, after following symlinks, lies outside the files directory
+ */
+export async function resolveLocalFilePath(requestedPath: string): Promise<string> {
+  const { filesDir } = getServerConfig();
+  const filePath = path.resolve(filesDir, requestedPath);
+  const outside = new Error(`'${requestedPath}' is outside the server's files directory. Use a path relative to it, e.g. 'exports/articles.csv'.`);
+
+  if (!isInside(filesDir, filePath)) {
+    throw outside;
+  }
+
+  const root = await realPathOfClosestAncestor(filesDir);
+  const target = await realPathOfClosestAncestor(filePath);
+  if (!isInside(path.join(root.existing, root.rest), path.join(target.existing, target.rest))) {
+    throw outside;
+  }
+  return filePath;
+}
@@ -0,0 +1,409 @@
+/**
+ * @file markdownToDast.ts
+ * @description Converts Markdown to a Structured Text value (DAST document)
+ * Supports the CommonMark blocks DAST can hold: paragraphs, ATX and setext
+ * headings, bulleted and numbered lists, fenced code, blockquotes and
+ * thematic breaks. Inline, it supports links, autolinks, code spans,
+ * **strong**, *emphasis*, ~~strikethrough~~ and ==highlight==. Indented code
+ * blocks, tables and raw HTML aren't supported; images have no DAST node and
+ * are rejected.
+ *
+ * See: https://www.datocms.com/docs/structured-text/dast
+ */
+
+import type { DastMark, DastNode, StructuredTextValue } from "./structuredText.js";
+import { appendSpan, toParagraphs, toStructuredTextValue, trimInline } from "./structuredText.js";
+
+/** Emphasis delimiters and the marks they set, longest first */
+const DELIMITERS: Array<{ delimiter: string; mark: DastMark }> = [
+  { delimiter: "**", mark: "strong" },
+  { delimiter: "__", mark: "strong" },
+  { delimiter: "~~", mark: "strikethrough" },
+  { delimiter: "==", mark: "highlight" },
+  { delimiter: "*", mark: "emphasis" },
+  { delimiter: "_", mark: "emphasis" }
+];
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const AUTOLINK = /^<([a-z][a-z0-9+.-]{1,31}:[^\s<>]*|[^\s<>@]+@[^\s<>@]+\.[^\s<>@]+)>/i;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+
+/**
+ * Whether a line starts a block other than a paragraph
+ */
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || ATX_HEADING.test(line) || THEMATIC_BREAK.test(line)
+    || BLOCKQUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+/**
+ * Removes up to `columns` leading spaces
+ */
+function dedent(line: string, columns: number): string {
+  let index = 0;
+  while (index < columns && line[index] === " ") {
+    index++;
+  }
+  return line.slice(index);
+}
+
+/**
+ * Finds the end of a link label starting at an opening bracket
+ * @returns The index of the matching closing bracket, or -1
+ */
+function findClosingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let index = open; index < text.length; index++) {
+    const character = text[index];
+    if (character === "\\") {
+      index++;
+    } else if (character === "[") {
+      depth++;
+    } else if (character === "]" && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses the `(url "title")` part of a link after its label
+ * @returns The URL and the index after the closing parenthesis, or undefined
+ */
+function parseLinkDestination(text: string, open: number): { url: string; end: number } | undefined {
+  const match = /^\(\s*(?:<([^<>\n]*)>|([^\s()]*(?:\([^\s()]*\)[^\s()]*)*))(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/.exec(text.slice(open));
+  return match ? { url: match[1] ?? match[2] ?? "", end: open + match[0].length } : undefined;
+}
+
+/**
+ * Finds the closing delimiter of an emphasis opened at `start`
+ * @returns The index of the closing delimiter, or -1
+ */
+function findClosingDelimiter(text: string, start: number, delimiter: string): number {
+  const character = delimiter[0]!;
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === "\\") {
+      index++;
+      continue;
+    }
+    if (text[index] === "`") {
+      // Delimiters inside code spans don't count
+      const run = /^`+/.exec(text.slice(index))![0];
+      const close = text.indexOf(run, index + run.length);
+      if (close >= 0) {
+        index = close + run.length - 1;
+      }
+      continue;
+    }
+    if (text[index] !== character) {
+      continue;
+    }
+    let runEnd = index;
+    while (text[runEnd] === character) {
+      runEnd++;
+    }
+    const run = runEnd - index;
+    // A run shorter than the delimiter, or a pair inside a single delimiter, belongs to a nested emphasis
+    const closes = run >= delimiter.length && !(delimiter.length === 1 && run === 2)
+      && index > start && !/\s/.test(text[index - 1]!)
+      && (character !== "_" || !/[\p{L}\p{N}]/u.test(text[runEnd] ?? ""));
+    if (closes) {
+      return runEnd - delimiter.length;
+    }
+    index = runEnd - 1;
+  }
+  return -1;
+}
+
+/**
+ * Parses inline Markdown into spans and links
+ * @param text The text of a paragraph or heading
+ * @param marks Marks of the enclosing emphasis
+ * @param allowLinks False inside links, which can't be nested
+ */
+function parseInline(text: string, marks: DastMark[], allowLinks: boolean): DastNode[] {
+  const nodes: DastNode[] = [];
+  let buffer = "";
+  const flush = () => {
+    appendSpan(nodes, buffer, marks);
+    buffer = "";
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const character = text[index]!;
+    const rest = text.slice(index);
+
+    if (character === "\\" && index + 1 < text.length) {
+      const next = text[index + 1]!;
+      if (next === "\n") {
+        buffer += "\n";
+        index += 2;
+        continue;
+      }
+      if (ESCAPABLE.test(next)) {
+        buffer += next;
+        index += 2;
+        continue;
+      }
+    }
+
+    if (character === "`") {
+      const run = /^`+/.exec(rest)![0];
+      const close = text.indexOf(run, index + run.length);
+      if (close >= 0 && text[close + run.length] !== "`") {
+        flush();
+        let code = text.slice(index + run.length, close).replace(/\n/g, " ");
+        if (/^ .*[^ ].* $/.test(code)) {
+          code = code.slice(1, -1);
+        }
+        appendSpan(nodes, code, marks.includes("code") ? marks : [...marks, "code"]);
+        index = close + run.length;
+        continue;
+      }
+      buffer += run;
+      index += run.length;
+      continue;
+    }
+
+    if (character === "!" && text[index + 1] === "[") {
+      const close = findClosingBracket(text, index + 1);
+      if (close >= 0 && parseLinkDestination(text, close + 1)) {
+        throw new Error(`Images can't go in Structured Text (found '${text.slice(index, close + 1)}(…)'). Upload the image and add it to the record as a block or a file field instead.`);
+      }
+    }
+
+    if (character === "[" && allowLinks) {
+      const close = findClosingBracket(text, index);
+      const destination = close >= 0 ? parseLinkDestination(text, close + 1) : undefined;
+      if (destination) {
+        flush();
+        nodes.push({
+          type: "link",
+          url: destination.url,
+          children: trimInline(parseInline(text.slice(index + 1, close), marks, false))
+        });
+        index = destination.end;
+        continue;
+      }
+    }
+
+    if (character === "<" && allowLinks) {
+      const autolink = AUTOLINK.exec(rest);
+      if (autolink) {
+        flush();
+        const target = autolink[1]!;
+        const url = target.includes(":") ? target : `mailto:${target}`;
+        nodes.push({ type: "link", url, children: [{ type: "span", value: target, ...(marks.length > 0 && { marks: [...marks] }) }] });
+        index += autolink[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = DELIMITERS.find(({ delimiter }) => rest.startsWith(delimiter));
+    if (emphasis) {
+      const { delimiter, mark } = emphasis;
+      const opens = !/^\s/.test(text.slice(index + delimiter.length))
+        && (delimiter[0] !== "_" || !/[\p{L}\p{N}]/u.test(text[index - 1] ?? ""));
+      const close = opens ? findClosingDelimiter(text, index + delimiter.length, delimiter) : -1;
+      if (close >= 0) {
+        flush();
+        const inner = text.slice(index + delimiter.length, close);
+        nodes.push(...parseInline(inner, marks.includes(mark) ? marks : [...marks, mark], allowLinks));
+        index = close + delimiter.length;
+        continue;
+      }
+      buffer += delimiter;
+      index += delimiter.length;
+      continue;
+    }
+
+    buffer += character;
+    index++;
+  }
+  flush();
+
+  // Spans of nested emphasis were parsed separately; merge neighbours with the same marks
+  const merged: DastNode[] = [];
+  for (const node of nodes) {
+    if (node.type === "span") {
+      appendSpan(merged, node.value ?? "", (node.marks as DastMark[] | undefined) ?? []);
+    } else {
+      merged.push(node);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Joins the lines of a paragraph: trailing double spaces and backslashes are
+ * hard line breaks, other line ends are spaces
+ */
+function joinParagraphLines(lines: string[]): string {
+  return lines.map((line, index) => {
+    const trimmed = line.trim();
+    if (index === lines.length - 1) {
+      return trimmed;
+    }
+    if (/ {2,}$/.test(line)) {
+      return `${trimmed}\n`;
+    }
+    return trimmed.endsWith("\\") && !trimmed.endsWith("\\\\") ? `${trimmed.slice(0, -1)}\n` : `${trimmed} `;
+  }).join("");
+}
+
+/**
+ * Parses the lines of a list starting at `start`
+ * @returns The list node and the index of the first line after it
+ */
+function parseList(lines: string[], start: number): { node: DastNode; next: number } {
+  const first = LIST_ITEM.exec(lines[start]!)!;
+  const ordered = /\d/.test(first[2]!);
+  const items: DastNode[] = [];
+
+  let index = start;
+  while (index < lines.length) {
+    const marker = LIST_ITEM.exec(lines[index]!);
+    if (!marker || /\d/.test(marker[2]!) !== ordered) {
+      break;
+    }
+    const spacing = marker[3]!.length;
+    const contentIndent = marker[1]!.length + marker[2]!.length + (spacing > 4 || spacing === 0 ? 1 : spacing);
+    const itemLines = [lines[index]!.slice(marker[0].length)];
+    index++;
+
+    while (index < lines.length) {
+      const line = lines[index]!;
+      if (line.trim() === "") {
+        itemLines.push("");
+      } else if (line.length - line.trimStart().length >= contentIndent) {
+        itemLines.push(dedent(line, contentIndent));
+      } else if (itemLines[itemLines.length - 1] !== "" && !startsBlock(line)) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(line.trim());
+      } else {
+        break;
+      }
+      index++;
+    }
+
+    // Blank lines between items belong to the list, not to the item
+    while (itemLines.length > 1 && itemLines[itemLines.length - 1] === "") {
+      itemLines.pop();
+    }
+    items.push({
+      type: "listItem",
+      children: parseBlocks(itemLines).flatMap(child => toParagraphs(child, true))
+    });
+
+    let next = index;
+    while (next < lines.length && lines[next]!.trim() === "") {
+      next++;
+    }
+    if (next < lines.length && LIST_ITEM.test(lines[next]!)) {
+      index = next;
+    }
+  }
+
+  return { node: { type: "list", style: ordered ? "numbered" : "bulleted", children: items }, next: index };
+}
+
+/**
+ * Parses lines of Markdown into block nodes
+ */
+function parseBlocks(lines: string[]): DastNode[] {
+  const blocks: DastNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index]!;
+
+    if (line.trim() === "") {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const indent = line.length - line.trimStart().length;
+      const marker = fence[1]!;
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}[ \\t]*$`).test(lines[index]!)) {
+        codeLines.push(dedent(lines[index]!, indent));
+        index++;
+      }
+      index++;
+      blocks.push({ type: "code", code: codeLines.join("\n"), ...(fence[2] && { language: fence[2] }) });
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1]!.length, children: trimInline(parseInline(heading[2] ?? "", [], true)) });
+      index++;
+      continue;
+    }
+
+    // Checked before lists: '* * *' is a break, not an item
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push({ type: "thematicBreak" });
+      index++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && BLOCKQUOTE.test(lines[index]!)) {
+        quoteLines.push(lines[index]!.replace(BLOCKQUOTE, ""));
+        index++;
+      }
+      blocks.push({ type: "blockquote", children: parseBlocks(quoteLines).flatMap(child => toParagraphs(child)) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { node, next } = parseList(lines, index);
+      blocks.push(node);
+      index = next;
+      continue;
+    }
+
+    const paragraphLines = [line];
+    index++;
+    let level: number | undefined;
+    while (index < lines.length && lines[index]!.trim() !== "") {
+      const underline = SETEXT_UNDERLINE.exec(lines[index]!);
+      if (underline) {
+        level = underline[1]!.startsWith("=") ? 1 : 2;
+        index++;
+        break;
+      }
+      if (startsBlock(lines[index]!)) {
+        break;
+      }
+      paragraphLines.push(lines[index]!);
+      index++;
+    }
+    const children = trimInline(parseInline(joinParagraphLines(paragraphLines), [], true));
+    blocks.push(level ? { type: "heading", level, children } : { type: "paragraph", children });
+  }
+
+  return blocks.filter(block => block.type !== "paragraph" || (block.children ?? []).length > 0);
+}
+
+/**
+ * Converts Markdown to a Structured Text value
+ * @param markdown The Markdown text
+ * @returns The value, with an empty root for blank text
+ * @throws If the Markdown contains images, which DAST can't hold
+ */
+export function markdownToStructuredText(markdown: string): StructuredTextValue {
+  const lines = markdown.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n");
+  return toStructuredTextValue(parseBlocks(lines));
+}
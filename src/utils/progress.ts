@@ -0,0 +1,72 @@
+/**
+ * @file progress.ts
+ * @description MCP progress notifications for long-running tool calls
+ * Routers run handlers inside withToolProgress(), which keeps the request's
+ * progress token for the duration of the call, so code deep in a handler can
+ * call reportProgress() without the MCP request being threaded through.
+ * Calls made without a progress token report nothing.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/** The extra argument MCP passes to tool callbacks */
+export type ToolRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Sends one progress notification
+ * @param progress Work done so far (e.g. records fetched)
+ * @param total Total work, when known
+ * @param message Human-readable status
+ */
+type ProgressSender = (progress: number, total?: number, message?: string) => Promise<void>;
+
+// Progress sender of the tool call currently running
+const progressStorage = new AsyncLocalStorage<ProgressSender>();
+
+/**
+ * Runs a handler with progress reporting for the MCP request
+ * @param extra The extra argument of the tool callback
+ * @param fn The handler call
+ * @returns The handler's result
+ */
+export async function withToolProgress<T>(extra: ToolRequestExtra | undefined, fn: () => Promise<T>): Promise<T> {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) {
+    return fn();
+  }
+
+  const send: ProgressSender = (progress, total, message) => extra.sendNotification({
+    method: "notifications/progress",
+    params: {
+      progressToken,
+      progress,
+      ...(total !== undefined && { total }),
+      ...(message && { message })
+    }
+  });
+  return progressStorage.run(send, fn);
+}
+
+/**
+ * Reports progress of the tool call currently running, if its client asked for it
+ *
+ * Notification failures are ignored: progress is informational and must never
+ * fail the call.
+ *
+ * @param progress Work done so far; must increase with every call
+ * @param total Total work, when known
+ * @param message Human-readable status
+ */
+export async function reportProgress(progress: number, total?: number, message?: string): Promise<void> {
+  const send = progressStorage.getStore();
+  if (!send) {
+    return;
+  }
+  try {
+    await send(progress, total, message);
+  } catch {
+    // The client may have gone away; the call itself carries on
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Recursively inspects a generic JSON-like structure and replaces every
+ * Structured Text value (`{ schema: "dast", document }`) with a rendering of
+ * it: Markdown or plain text.
+ *
+ * Like returnMostPopulatedLocale, this helps save on tokens in responses: a
+ * DAST tree is many times the size of the text it holds. Blocks and inline
+ * records become placeholders with their IDs in Markdown, and are left out of
+ * plain text.
+ */
+
+import { structuredTextToMarkdown } from "./dastToMarkdown.js";
+import { isStructuredTextValue, structuredTextToPlainText } from "./structuredText.js";
+
+/** How Structured Text values appear in responses */
+export type StructuredTextFormat = "dast" | "markdown" | "text";
+
+/**
+ * Produces a copy of `data` with its Structured Text values rendered
+ *
+ * @param data The source data, e.g. a record or a list of records
+ * @param format 'markdown' or 'text'; 'dast' returns the data as is
+ * @returns A copy with each DAST value replaced by a string
+ */
+export function renderStructuredText(data: unknown, format: StructuredTextFormat = "dast"): unknown {
+  if (format === "dast") return data;
+
+  const render = (node: unknown): unknown => {
+    if (isStructuredTextValue(node)) {
+      return format === "markdown" ? structuredTextToMarkdown(node) : structuredTextToPlainText(node);
+    }
+    if (Array.isArray(node)) return node.map(render);
+    if (typeof node === "object" && node !== null) {
+      return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, render(value)]));
+    }
+    return node;
+  };
+  return render(data);
+}
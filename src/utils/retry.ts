@@ -0,0 +1,279 @@
+/**
+ * @file retry.ts
+ * @description Retry layer for CMA calls and raw HTTP requests
+ * Failed calls are retried with jittered exponential backoff, waiting as long as
+ * the server asks when it sends Retry-After or X-RateLimit-Reset. Rate-limited
+ * (429) requests are always retried, since the API rejected them unprocessed;
+ * server and network errors are only retried for idempotent methods unless
+ * configured otherwise. Attempts are counted per tool call for debug output.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { ApiError, type Client } from "@datocms/cma-client-node";
+import fetch, { type RequestInfo, type RequestInit, type Response as FetchResponse } from "node-fetch";
+import { getServerConfig, type RetryConfig } from "./serverConfig.js";
+
+/**
+ * Retry counters for one tool call
+ */
+export interface RetryStats {
+  /** HTTP attempts made, including retries */
+  attempts: number;
+  /** Attempts that were retries */
+  retries: number;
+  /** Total time spent waiting between attempts, in milliseconds */
+  waitedMs: number;
+}
+
+/**
+ * Why an attempt failed, as far as retrying is concerned
+ */
+interface FailedAttempt {
+  /** HTTP status, when the server answered */
+  status?: number;
+  /** Response headers, when the server answered */
+  headers?: Record<string, string>;
+  /** Whether the API flagged the error as transient */
+  transient?: boolean;
+  /** Whether the request never got a response (timeout, connection reset, ...) */
+  networkError?: boolean;
+}
+
+/** Methods that can be repeated without changing the result */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/** Statuses worth retrying besides 429 */
+const RETRYABLE_STATUSES = new Set([408, 500, 502, 503, 504]);
+
+/** Error codes Node uses for dropped or refused connections */
+const NETWORK_ERROR_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "UND_ERR_SOCKET"]);
+
+// Counters of the tool call currently running
+const retryStatsStorage = new AsyncLocalStorage<RetryStats>();
+
+/**
+ * Runs a function while counting the HTTP attempts it makes
+ * @param fn The function to run
+ * @returns The function's result and the retry counters
+ */
+export async function trackRetries<T>(fn: () => Promise<T>): Promise<{ result: T; stats: RetryStats }> {
+  const stats: RetryStats = { attempts: 0, retries: 0, waitedMs: 0 };
+  const result = await retryStatsStorage.run(stats, fn);
+  return { result, stats };
+}
+
+/**
+ * Gets the retry counters of the tool call currently running, if any
+ */
+export function getRetryStats(): RetryStats | undefined {
+  return retryStatsStorage.getStore();
+}
+
+/**
+ * Reads a header case-insensitively
+ */
+function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * Reads how long the server asked us to wait, in milliseconds
+ *
+ * Retry-After may be a number of seconds or an HTTP date. DatoCMS sends
+ * X-RateLimit-Reset as the number of seconds until the limit resets.
+ */
+function getServerDelayMs(headers: Record<string, string> | undefined): number | undefined {
+  const retryAfter = getHeader(headers, "retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const reset = Number(getHeader(headers, "x-ratelimit-reset"));
+  if (Number.isFinite(reset) && reset >= 0) {
+    return reset * 1000;
+  }
+
+  // Out of quota without a reset hint: give the window a second to roll over
+  return getHeader(headers, "x-ratelimit-remaining") === "0" ? 1000 : undefined;
+}
+
+/**
+ * Computes the wait before the next attempt
+ * @param retry Zero-based index of the upcoming retry
+ * @param failure The failed attempt
+ * @param config Retry settings
+ * @returns The delay in milliseconds
+ */
+export function computeRetryDelay(retry: number, failure: FailedAttempt, config: RetryConfig): number {
+  const serverDelay = getServerDelayMs(failure.headers);
+  if (serverDelay !== undefined) {
+    return Math.min(serverDelay, config.maxDelayMs);
+  }
+
+  // Full jitter: a random wait up to the exponential bound, so parallel callers spread out
+  const bound = Math.min(config.baseDelayMs * 2 ** retry, config.maxDelayMs);
+  return Math.round(Math.random() * bound);
+}
+
+/**
+ * Whether a failed attempt should be retried
+ * @param method The HTTP method
+ * @param failure The failed attempt
+ * @param config Retry settings
+ */
+export function isRetryable(method: string, failure: FailedAttempt, config: RetryConfig): boolean {
+  if (failure.status === 429) {
+    return true;
+  }
+
+  const retryableFailure = failure.networkError
+    || failure.transient
+    || (failure.status !== undefined && RETRYABLE_STATUSES.has(failure.status));
+
+  return Boolean(retryableFailure) && (IDEMPOTENT_METHODS.has(method.toUpperCase()) || config.retryNonIdempotent);
+}
+
+/**
+ * Classifies an error thrown by the CMA client or fetch
+ * @returns The failure, or undefined when the error isn't about the HTTP exchange
+ */
+function describeError(error: unknown): FailedAttempt | undefined {
+  if (error instanceof ApiError) {
+    return {
+      status: error.response.status,
+      headers: error.response.headers,
+      transient: error.errors.some(entity => entity.attributes.transient)
+    };
+  }
+
+  if (error instanceof Error) {
+    const code = (error as Error & { code?: unknown }).code;
+    const causeCode = (error.cause as { code?: unknown } | undefined)?.code;
+    const isNetworkError = error.constructor.name === "TimeoutError"
+      || error.name === "FetchError"
+      || (typeof code === "string" && NETWORK_ERROR_CODES.has(code))
+      || (typeof causeCode === "string" && NETWORK_ERROR_CODES.has(causeCode));
+    return isNetworkError ? { networkError: true } : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Waits for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs an HTTP operation, retrying it while it fails in a retryable way
+ * @param method HTTP method of the operation, used to tell idempotent requests apart
+ * @param attempt Performs one attempt; resolves with a result or a failure to retry
+ * @param discard Releases the result of an attempt that is about to be retried
+ * @returns The result of the first successful attempt
+ * @throws The last error when attempts run out or the failure isn't retryable
+ */
+async function runWithRetries<T>(
+  method: string,
+  attempt: () => Promise<{ result: T; failure?: FailedAttempt }>,
+  discard?: (result: T) => Promise<void>
+): Promise<T> {
+  const config = getServerConfig().retry;
+  const stats = retryStatsStorage.getStore();
+
+  for (let retry = 0; ; retry++) {
+    if (stats) {
+      stats.attempts++;
+      if (retry > 0) {
+        stats.retries++;
+      }
+    }
+
+    let outcome: { result: T; failure?: FailedAttempt };
+    let thrown: { error: unknown; failure?: FailedAttempt } | undefined;
+    try {
+      outcome = await attempt();
+    } catch (error) {
+      thrown = { error, failure: describeError(error) };
+      outcome = { result: undefined as T, failure: thrown.failure };
+    }
+
+    const failure = outcome.failure;
+    const canRetry = retry < config.maxRetries && failure !== undefined && isRetryable(method, failure, config);
+    if (!canRetry) {
+      if (thrown) {
+        throw thrown.error;
+      }
+      return outcome.result;
+    }
+
+    if (!thrown && discard) {
+      await discard(outcome.result);
+    }
+    const delay = computeRetryDelay(retry, failure, config);
+    if (stats) {
+      stats.waitedMs += delay;
+    }
+    await sleep(delay);
+  }
+}
+
+/**
+ * Adds the retry layer to a CMA client
+ *
+ * Every resource method goes through `client.request`, so wrapping it covers
+ * the whole client. Build the client with `autoRetry: false` so the library's
+ * own retries don't multiply these.
+ *
+ * @param client The client to wrap (modified in place)
+ * @returns The same client
+ */
+export function withClientRetries<C extends Client>(client: C): C {
+  const sendRequest = client.request.bind(client);
+
+  client.request = (async (options: Parameters<Client["request"]>[0]) =>
+    runWithRetries(options.method, async () => ({ result: await sendRequest(options) }))
+  ) as Client["request"];
+
+  return client;
+}
+
+/**
+ * `fetch` with the retry layer, for raw HTTP calls outside the CMA client
+ * @param url The URL to fetch
+ * @param init Request options; the body must be re-sendable (string or Buffer)
+ * @returns The final response, which may still be an error response once retries run out
+ */
+export async function fetchWithRetries(url: RequestInfo, init: RequestInit = {}): Promise<FetchResponse> {
+  const method = init.method ?? "GET";
+
+  return runWithRetries(method, async () => {
+    const response = await fetch(url, init);
+    if (response.ok) {
+      return { result: response };
+    }
+
+    return {
+      result: response,
+      failure: {
+        status: response.status,
+        headers: Object.fromEntries(response.headers.entries())
+      }
+    };
+  }, async (response) => {
+    // An unread body keeps its connection busy, so read it before retrying
+    await response.arrayBuffer().catch(() => undefined);
+  });
+}
@@ -120,3 +120,21 @@ export function returnMostPopulatedLocale(data: unknown, keepAllLocales = false)
   if (!bestLocale) return data; // No localized content found
   return stripToLocale(data, bestLocale);
 }
+
+/**
+ * Finds the locale that carries the most non-empty values
+ * @param data The source data with potential localized fields
+ * @returns The locale returnMostPopulatedLocale() keeps, or null when no localized value is filled
+ */
+export function findMostPopulatedLocale(data: unknown): string | null {
+  return dominantLocale(data);
+}
+
+/**
+ * Returns a copy of the data structure with only the values of one locale
+ * @param data The source data with potential localized fields
+ * @param locale The locale to keep
+ */
+export function keepOnlyLocale(data: unknown, locale: string): unknown {
+  return stripToLocale(data, locale);
+}
@@ -10,6 +10,8 @@ import { uiSchemas } from "../tools/UI/schemas.js";
 import { projectSchemas } from "../tools/Project/schemas.js";
 import { uploadsSchemas } from "../tools/Uploads/schemas.js";
 import { environmentSchemas } from "../tools/Environments/schemas.js";
+import { jobSchemas } from "../tools/Jobs/schemas.js";
+import { graphqlSchemas } from "../tools/GraphQL/schemas.js";
 
 // Import webhook and build trigger schemas
 import { 
@@ -49,6 +51,12 @@ export function initializeSchemas(): void {
     // Register Environment schemas
     SchemaRegistry.registerBulk("environments", environmentSchemas);
     
+    // Register Job schemas
+    SchemaRegistry.registerBulk("jobs", jobSchemas);
+    
+    // Register GraphQL schemas
+    SchemaRegistry.registerBulk("graphql", graphqlSchemas);
+    
     // Register Webhook and Delivery schemas 
     SchemaRegistry.registerBulk("webhooks", webhookSchemas);
     SchemaRegistry.registerBulk("webhook_calls", webhookCallSchemas);
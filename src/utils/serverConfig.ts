@@ -0,0 +1,442 @@
+/**
+ * @file serverConfig.ts
+ * @description Server-side configuration for DatoCMS credentials
+ * Reads a default API token and environment from env vars or a JSON config file,
+ * so tool calls don't have to carry the token in their arguments. The config
+ * file can also define named project profiles that tool calls select with `project`,
+ * and the action policy (read-only mode, allow/deny lists) enforced by the routers,
+ * tune how CMA calls are retried and how much data a fetch-all query returns, and
+ * set the directory that records export and import are confined to.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { z } from "zod";
+import { config as loadDotenv } from "dotenv";
+
+// Load environment variables
+loadDotenv();
+
+/** Base URL of the DatoCMS Content Management API */
+export const DEFAULT_API_BASE_URL = "https://site-api.datocms.com";
+
+/** Base URL of the DatoCMS Content Delivery API (GraphQL) */
+export const DEFAULT_GRAPHQL_BASE_URL = "https://graphql.datocms.com";
+
+/** Default size budget of a fetch-all query response, in bytes of JSON (roughly 50k tokens) */
+export const DEFAULT_FETCH_ALL_MAX_BYTES = 200_000;
+
+/** Default directory for records export and import files, relative to the working directory */
+export const DEFAULT_FILES_DIR = "datocms-files";
+
+/**
+ * Schema for a named project profile in the config file
+ */
+export const projectProfileSchema = z.object({
+  apiToken: z.string().min(1)
+    .describe("DatoCMS API token for this project"),
+  environment: z.string().min(1).optional()
+    .describe("Default environment for this project"),
+  apiBaseUrl: z.string().url().optional()
+    .describe("Base URL of the Content Management API for this project (defaults to the server's)"),
+  description: z.string().optional()
+    .describe("Human-readable description shown when listing profiles")
+}).strict();
+
+/**
+ * Schema for a `resource.action` policy pattern, where either part may use `*`
+ */
+export const actionPatternSchema = z.string()
+  .regex(/^[a-z0-9_*]+\.[A-Za-z0-9_*]+$/, "Expected a 'resource.action' pattern, e.g. 'records.bulk_destroy' or 'schema.*'");
+
+/**
+ * Schema for the action policy in the config file
+ */
+export const actionPolicyConfigSchema = z.object({
+  readOnly: z.boolean().optional()
+    .describe("If true, only read actions (get, list, query, ...) are allowed"),
+  allow: z.array(actionPatternSchema).optional()
+    .describe("If set, only actions matching one of these patterns are allowed"),
+  deny: z.array(actionPatternSchema).optional()
+    .describe("Actions matching any of these patterns are blocked")
+}).strict();
+
+/**
+ * Schema for the retry settings in the config file
+ */
+export const retryConfigSchema = z.object({
+  maxRetries: z.number().int().min(0).max(10).optional()
+    .describe("How many times a failed CMA call is retried (0 disables retries)"),
+  baseDelayMs: z.number().int().min(0).optional()
+    .describe("Base delay of the exponential backoff, in milliseconds"),
+  maxDelayMs: z.number().int().min(0).optional()
+    .describe("Upper bound for a single wait between attempts, in milliseconds"),
+  retryNonIdempotent: z.boolean().optional()
+    .describe("If true, POST requests are also retried after server and network errors")
+}).strict();
+
+/**
+ * Schema for the JSON config file pointed to by DATOCMS_MCP_CONFIG
+ */
+export const serverConfigFileSchema = z.object({
+  apiToken: z.string().min(1).optional()
+    .describe("Default DatoCMS API token used when a tool call doesn't provide one"),
+  environment: z.string().min(1).optional()
+    .describe("Default DatoCMS environment used when a tool call doesn't provide one"),
+  rejectExplicitTokens: z.boolean().optional()
+    .describe("If true, tool calls that pass their own apiToken are rejected"),
+  profiles: z.record(projectProfileSchema).optional()
+    .describe("Named project profiles, selected per tool call with the 'project' argument"),
+  defaultProfile: z.string().min(1).optional()
+    .describe("Profile used when a tool call provides neither apiToken nor project"),
+  policy: actionPolicyConfigSchema.optional()
+    .describe("Which resource actions the server exposes"),
+  requireConfirmation: z.boolean().optional()
+    .describe("If false, destructive actions run without the two-step confirmation token"),
+  retry: retryConfigSchema.optional()
+    .describe("How failed CMA calls are retried"),
+  apiBaseUrl: z.string().url().optional()
+    .describe("Base URL of the Content Management API (e.g. a proxy or a local mock)"),
+  graphqlBaseUrl: z.string().url().optional()
+    .describe("Base URL of the Content Delivery API used by the GraphQL tool"),
+  fetchAllMaxBytes: z.number().int().positive().optional()
+    .describe("Size budget of a query that fetches all matching records, in bytes of JSON"),
+  filesDir: z.string().min(1).optional()
+    .describe("Directory that records export writes to and import reads from; paths outside it are rejected")
+}).strict();
+
+/**
+ * Shape of the JSON config file
+ */
+export type ServerConfigFile = z.infer<typeof serverConfigFileSchema>;
+
+/**
+ * A named project profile
+ */
+export type ProjectProfile = z.infer<typeof projectProfileSchema>;
+
+/**
+ * Resolved action policy
+ */
+export interface ActionPolicyConfig {
+  /** Whether only read actions are allowed */
+  readOnly: boolean;
+  /** Allowed `resource.action` patterns (empty means everything not denied) */
+  allow: string[];
+  /** Denied `resource.action` patterns */
+  deny: string[];
+}
+
+/**
+ * Resolved retry settings
+ */
+export interface RetryConfig {
+  /** How many times a failed call is retried */
+  maxRetries: number;
+  /** Base delay of the exponential backoff, in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single wait, in milliseconds */
+  maxDelayMs: number;
+  /** Whether non-idempotent requests are retried after server and network errors */
+  retryNonIdempotent: boolean;
+}
+
+/**
+ * A project profile as shown to clients, without its token
+ */
+export interface ProjectProfileSummary {
+  name: string;
+  environment?: string;
+  description?: string;
+  isDefault: boolean;
+}
+
+/**
+ * Resolved server configuration
+ */
+export interface ServerConfig {
+  /** Default API token, if configured */
+  apiToken?: string;
+  /** Default environment, if configured */
+  environment?: string;
+  /** Whether explicit apiToken arguments are rejected */
+  rejectExplicitTokens: boolean;
+  /** Named project profiles, keyed by name */
+  profiles: Record<string, ProjectProfile>;
+  /** Name of the profile used when a call selects none */
+  defaultProfile?: string;
+  /** Action policy enforced by the routers */
+  policy: ActionPolicyConfig;
+  /** Whether destructive actions need a confirmation token */
+  requireConfirmation: boolean;
+  /** How failed CMA calls are retried */
+  retry: RetryConfig;
+  /** Base URL of the Content Management API */
+  apiBaseUrl: string;
+  /** Base URL of the Content Delivery API (GraphQL) */
+  graphqlBaseUrl: string;
+  /** Size budget of a fetch-all query response, in bytes of JSON */
+  fetchAllMaxBytes: number;
+  /** Absolute directory that records export and import are confined to */
+  filesDir: string;
+  /** Path of the config file that was loaded, if any */
+  configFile?: string;
+}
+
+/**
+ * Credentials resolved for a single request
+ */
+export interface ResolvedCredentials {
+  apiToken: string;
+  environment?: string;
+  /** Base URL of the Content Management API to send the request to */
+  apiBaseUrl: string;
+  /** Name of the profile the credentials came from, if any */
+  project?: string;
+}
+
+// Cached configuration, loaded on first use
+let cachedConfig: ServerConfig | undefined;
+
+/**
+ * Parses a boolean env var ("true"/"1" are truthy)
+ */
+function parseBooleanEnv(value: string | undefined): boolean | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  return value === "true" || value === "1";
+}
+
+/**
+ * Parses an integer env var
+ * @param name Name of the env var
+ * @param minimum Smallest accepted value
+ * @throws If the value isn't an integer of at least `minimum`
+ */
+function parseIntegerEnv(name: string, minimum = 0): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < minimum) {
+    const expected = minimum === 0 ? "a non-negative integer" : `an integer of at least ${minimum}`;
+    throw new Error(`Invalid value '${value}' in ${name}: expected ${expected}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses a comma-separated list of `resource.action` patterns from an env var
+ * @throws If a pattern is malformed
+ */
+function parsePatternListEnv(name: string): string[] | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+
+  const patterns = value.split(",").map(pattern => pattern.trim()).filter(Boolean);
+  for (const pattern of patterns) {
+    const result = actionPatternSchema.safeParse(pattern);
+    if (!result.success) {
+      throw new Error(`Invalid pattern '${pattern}' in ${name}: ${result.error.issues[0]?.message}`);
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Reads and validates the JSON config file
+ * @param path Path of the config file
+ * @returns The validated file contents
+ */
+function readConfigFile(path: string): ServerConfigFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read DatoCMS MCP config file '${path}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = serverConfigFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ");
+    throw new Error(`Invalid DatoCMS MCP config file '${path}': ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Loads the server configuration
+ *
+ * Values come from the JSON file at DATOCMS_MCP_CONFIG (if set), and env vars
+ * take precedence over the file:
+ * - DATOCMS_API_TOKEN
+ * - DATOCMS_ENVIRONMENT
+ * - DATOCMS_REJECT_EXPLICIT_TOKENS
+ * - DATOCMS_DEFAULT_PROJECT
+ * - DATOCMS_READ_ONLY
+ * - DATOCMS_ALLOWED_ACTIONS / DATOCMS_DENIED_ACTIONS (comma-separated patterns)
+ * - DATOCMS_REQUIRE_CONFIRMATION
+ * - DATOCMS_MAX_RETRIES / DATOCMS_RETRY_NON_IDEMPOTENT
+ * - DATOCMS_API_BASE_URL / DATOCMS_GRAPHQL_BASE_URL
+ * - DATOCMS_FETCH_ALL_MAX_BYTES
+ * - DATOCMS_FILES_DIR
+ *
+ * Profiles can only be defined in the file.
+ *
+ * @returns The resolved configuration
+ * @throws If the default profile names a profile that doesn't exist, or a policy
+ * pattern or number is malformed
+ */
+export function loadServerConfig(): ServerConfig {
+  const configFile = process.env.DATOCMS_MCP_CONFIG ? resolve(process.env.DATOCMS_MCP_CONFIG) : undefined;
+  const fileConfig: ServerConfigFile = configFile ? readConfigFile(configFile) : {};
+  const profiles = fileConfig.profiles ?? {};
+  const defaultProfile = process.env.DATOCMS_DEFAULT_PROJECT || fileConfig.defaultProfile;
+
+  if (defaultProfile && !profiles[defaultProfile]) {
+    throw new Error(`Default project '${defaultProfile}' does not match any configured profile`);
+  }
+
+  return {
+    apiToken: process.env.DATOCMS_API_TOKEN || fileConfig.apiToken,
+    environment: process.env.DATOCMS_ENVIRONMENT || fileConfig.environment,
+    rejectExplicitTokens: parseBooleanEnv(process.env.DATOCMS_REJECT_EXPLICIT_TOKENS) ?? fileConfig.rejectExplicitTokens ?? false,
+    profiles,
+    defaultProfile,
+    policy: {
+      readOnly: parseBooleanEnv(process.env.DATOCMS_READ_ONLY) ?? fileConfig.policy?.readOnly ?? false,
+      allow: parsePatternListEnv("DATOCMS_ALLOWED_ACTIONS") ?? fileConfig.policy?.allow ?? [],
+      deny: parsePatternListEnv("DATOCMS_DENIED_ACTIONS") ?? fileConfig.policy?.deny ?? []
+    },
+    requireConfirmation: parseBooleanEnv(process.env.DATOCMS_REQUIRE_CONFIRMATION) ?? fileConfig.requireConfirmation ?? true,
+    retry: {
+      maxRetries: parseIntegerEnv("DATOCMS_MAX_RETRIES") ?? fileConfig.retry?.maxRetries ?? 3,
+      baseDelayMs: fileConfig.retry?.baseDelayMs ?? 500,
+      maxDelayMs: fileConfig.retry?.maxDelayMs ?? 30000,
+      retryNonIdempotent: parseBooleanEnv(process.env.DATOCMS_RETRY_NON_IDEMPOTENT) ?? fileConfig.retry?.retryNonIdempotent ?? false
+    },
+    apiBaseUrl: (process.env.DATOCMS_API_BASE_URL || fileConfig.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/$/, ""),
+    graphqlBaseUrl: (process.env.DATOCMS_GRAPHQL_BASE_URL || fileConfig.graphqlBaseUrl || DEFAULT_GRAPHQL_BASE_URL).replace(/\/$/, ""),
+    fetchAllMaxBytes: parseIntegerEnv("DATOCMS_FETCH_ALL_MAX_BYTES", 1) ?? fileConfig.fetchAllMaxBytes ?? DEFAULT_FETCH_ALL_MAX_BYTES,
+    filesDir: resolve(process.env.DATOCMS_FILES_DIR || fileConfig.filesDir || DEFAULT_FILES_DIR),
+    configFile
+  };
+}
+
+/**
+ * Gets the server configuration, loading it on first use
+ * @returns The cached configuration
+ */
+export function getServerConfig(): ServerConfig {
+  if (!cachedConfig) {
+    cachedConfig = loadServerConfig();
+  }
+  return cachedConfig;
+}
+
+/**
+ * Clears the cached configuration so the next call reloads it
+ */
+export function resetServerConfig(): void {
+  cachedConfig = undefined;
+}
+
+/**
+ * Whether the server has a default API token configured
+ */
+export function hasServerApiToken(): boolean {
+  const serverConfig = getServerConfig();
+  return Boolean(serverConfig.apiToken || serverConfig.defaultProfile);
+}
+
+/**
+ * Lists the configured project profiles without their tokens
+ * @returns One summary per profile, sorted by name
+ */
+export function listProjectProfiles(): ProjectProfileSummary[] {
+  const { profiles, defaultProfile } = getServerConfig();
+
+  return Object.keys(profiles).sort().map(name => ({
+    name,
+    environment: profiles[name]?.environment,
+    description: profiles[name]?.description,
+    isDefault: name === defaultProfile
+  }));
+}
+
+/**
+ * Looks up a profile by name
+ * @throws If the profile doesn't exist, listing the available ones
+ */
+function getProjectProfile(name: string): ProjectProfile {
+  const { profiles } = getServerConfig();
+  const profile = profiles[name];
+  if (!profile) {
+    const available = Object.keys(profiles).sort();
+    throw new Error(available.length > 0
+      ? `Unknown project '${name}'. Available projects: ${available.join(", ")}`
+      : `Unknown project '${name}'. No project profiles are configured on this server.`);
+  }
+  return profile;
+}
+
+/**
+ * Resolves the credentials for a request, filling in server defaults
+ * @param apiToken API token passed in the tool call, if any
+ * @param environment Environment passed in the tool call, if any
+ * @param project Project profile selected in the tool call, if any
+ * @returns The token, environment and CMA base URL to use
+ * @throws If explicit tokens are rejected and one was passed, the project is
+ * unknown or combined with an apiToken, or no token is available
+ */
+export function resolveCredentials(apiToken?: string, environment?: string, project?: string): ResolvedCredentials {
+  const serverConfig = getServerConfig();
+
+  if (apiToken && serverConfig.rejectExplicitTokens) {
+    throw new Error("This server does not accept apiToken arguments. Remove 'apiToken' from the call; the server uses its own configured token.");
+  }
+
+  if (apiToken && project) {
+    throw new Error("Pass either 'apiToken' or 'project', not both.");
+  }
+
+  // A selected profile wins; otherwise fall back to the default profile when no token was passed
+  const profileName = project || (apiToken ? undefined : serverConfig.defaultProfile);
+  if (profileName) {
+    const profile = getProjectProfile(profileName);
+    return {
+      apiToken: profile.apiToken,
+      environment: environment || profile.environment,
+      apiBaseUrl: profile.apiBaseUrl?.replace(/\/$/, "") ?? serverConfig.apiBaseUrl,
+      project: profileName
+    };
+  }
+
+  const resolvedToken = apiToken || serverConfig.apiToken;
+  if (!resolvedToken) {
+    throw new Error("No DatoCMS API token available. Pass 'apiToken' or 'project' in the call, or configure DATOCMS_API_TOKEN on the server.");
+  }
+
+  return {
+    apiToken: resolvedToken,
+    environment: environment || serverConfig.environment,
+    apiBaseUrl: serverConfig.apiBaseUrl
+  };
+}
+
+/**
+ * Counts the arguments of a tool call, counting apiToken as present when the
+ * server supplies it. Routers use this for their "parameters required" hints.
+ * @param args The action arguments
+ * @returns The number of arguments
+ */
+export function countActionArgs(args: Record<string, unknown>): number {
+  const count = Object.keys(args).length;
+  const hasToken = "apiToken" in args || "project" in args;
+  return !hasToken && hasServerApiToken() ? count + 1 : count;
+}
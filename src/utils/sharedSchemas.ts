@@ -9,24 +9,74 @@ import { errorMessages } from "./errorMessages.js";
 
 /**
  * API Token schema used for authentication
- * Always required and should be a non-empty string
+ * Optional: when omitted, the server-configured token is used (see serverConfig.ts)
  */
 export const apiTokenSchema = z.string()
   .min(1, { message: errorMessages.required })
+  .optional()
   .describe(
-    "DatoCMS API token for authentication. If you are not certain of one, ask for the user, do not hallucinate."
+    "DatoCMS API token for authentication. Optional if the server has a token configured; omit it in that case. Otherwise, if you are not certain of one, ask the user, do not hallucinate."
   );
 
 /**
  * Environment schema for targeting specific DatoCMS environments
- * Optional string that defaults to the primary environment
+ * Optional string that defaults to the server-configured or primary environment
  */
 export const environmentSchema = z.string()
   .optional()
   .describe(
-    "The name of the DatoCMS environment to interact with. If not provided, the primary environment will be used."
+    "The name of the DatoCMS environment to interact with. If not provided, the server's default environment (or the primary environment) will be used."
   );
 
+/**
+ * Project schema for selecting a named project profile configured on the server
+ * Used instead of apiToken; the profile supplies the token and default environment
+ */
+export const projectSchema = z.string()
+  .min(1, { message: errorMessages.required })
+  .optional()
+  .describe(
+    "Name of a project profile configured on the server. Use it instead of apiToken to target one of several DatoCMS projects; call datocms_project with action 'list_profiles' to see the available names."
+  );
+
+/**
+ * Confirmation token schema for destructive actions
+ * The first call returns a preview and a token; repeating the identical call with the token runs it
+ */
+export const confirmationTokenSchema = z.string()
+  .optional()
+  .describe(
+    "Confirmation token for this destructive action. Omit it on the first call to get a preview of what would be affected and a token; then repeat the exact same call with that token to run it. Tokens expire after a few minutes."
+  );
+
+/**
+ * Dry-run flag for mutating actions
+ * Honoured by create/update/delete handlers; other write actions reject it rather than run
+ */
+export const dryRunSchema = z.boolean()
+  .optional()
+  .describe(
+    "Preview a create, update or delete without running it. When true, the input is validated, referenced entities (models, fields, locales, ...) are resolved, and the exact CMA request payload is returned; nothing is changed. Other write actions reject dryRun."
+  );
+
+/**
+ * Timeout for actions that wait on an async CMA job, in seconds
+ */
+export const jobTimeoutSchema = z.number()
+  .int()
+  .min(1, { message: errorMessages.minValue(1) })
+  .max(600, { message: errorMessages.maxValue(600) })
+  .optional()
+  .describe("How long to wait for the job, in seconds (defaults to 60, maximum is 600). If the job is still running then, its job ID is returned instead.");
+
+/**
+ * Whether an action that starts an async CMA job waits for it to finish
+ */
+export const waitForCompletionSchema = z.boolean()
+  .optional()
+  .default(true)
+  .describe("Whether to wait for the job to finish (up to timeoutSeconds). When false, or when the wait times out, the job ID is returned; check it later with datocms_jobs action 'retrieve'.");
+
 /**
  * Consistent pagination schema for offset-based pagination
  * Used in list operations across multiple domains
@@ -40,6 +90,24 @@ export const paginationSchema = z.object({
     .describe("The maximum number of entities to return (defaults to 100, maximum is 500).")
 }).describe("Parameters to control offset-based pagination.");
 
+/**
+ * "Fetch all" options for query actions
+ * Spread into a query schema with `.extend(fetchAllSchemaShape)`
+ */
+export const fetchAllSchemaShape = {
+  all: z.boolean()
+    .optional()
+    .default(false)
+    .describe("If true, fetches every matching entity, walking all pages (page.limit is ignored; page.offset is where to start). The response stops at the server's size budget; when it does, meta.pagination.next_cursor resumes the query."),
+  maxRecords: z.number().int().min(1, { message: errorMessages.minValue(1) })
+    .optional()
+    .describe("Fetch all pages, but stop after this many entities (implies all: true). Useful to cap audits of very large collections."),
+  cursor: z.string()
+    .min(1)
+    .optional()
+    .describe("Resume a fetch-all query from the meta.pagination.next_cursor of a previous response (implies all: true). Repeat the rest of the query unchanged.")
+};
+
 /**
  * General ID schema for entity identifiers
  * Base utility for creating more specific ID schemas
@@ -144,11 +212,31 @@ export function createIdSchema(entityName: string) {
 export const baseToolSchema = z.object({
   apiToken: apiTokenSchema,
   environment: environmentSchema,
+  project: projectSchema,
   debug: z.boolean()
     .optional()
-    .describe("Enable debug output for this request. When true, returns detailed execution traces, performance metrics, and sanitized parameters.")
+    .describe("Enable debug output for this request. When true, returns detailed execution traces, performance metrics, and sanitized parameters."),
+  dryRun: dryRunSchema
 });
 
+/**
+ * Keys of baseToolSchema, which never count as fields to update
+ */
+const baseToolSchemaKeys = Object.keys(baseToolSchema.shape);
+
+/**
+ * Checks that an update payload contains at least one field to change,
+ * ignoring the base tool parameters and the entity's ID keys
+ * @param data The parsed update payload
+ * @param idKeys Keys identifying the entity (e.g. 'fieldId')
+ * @returns True if at least one other field is set
+ */
+export function hasFieldsToUpdate(data: Record<string, unknown>, idKeys: string[]): boolean {
+  return Object.entries(data).some(([key, value]) =>
+    value !== undefined && !baseToolSchemaKeys.includes(key) && !idKeys.includes(key)
+  );
+}
+
 /**
  * Create a base schema with common elements for most operations
  * @deprecated Use baseToolSchema directly or extend it instead
@@ -40,6 +40,11 @@ export interface PaginationInfo {
    * Whether there are more items beyond the current page
    */
   has_more: boolean;
+  
+  /**
+   * Cursor that resumes a fetch-all query cut off by its limits
+   */
+  next_cursor?: string;
 }
 
 /**
@@ -56,6 +61,7 @@ export interface ResponseMetadata {
    */
   validation_errors?: Array<{
     path: string;
+    code?: string;
     message: string;
   }>;
   
@@ -255,7 +261,7 @@ export function createStandardPaginatedResponse<T>(
  */
 export function createStandardValidationErrorResponse(
   message: string,
-  validationErrors: Array<{ path: string; message: string }>,
+  validationErrors: Array<{ path: string; code?: string; message: string }>,
   meta?: Omit<ResponseMetadata, 'validation_errors'>,
   requestDebug?: boolean
 ): StandardResponse<null> {
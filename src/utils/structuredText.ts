@@ -0,0 +1,165 @@
+/**
+ * @file structuredText.ts
+ * @description Helpers for Structured Text field values (DAST documents)
+ * A Structured Text value is `{ schema: "dast", document: { type: "root", children } }`.
+ * Text lives in `span` leaves (and `code` nodes); blocks, inline blocks and
+ * inline records only reference other records.
+ *
+ * See: https://www.datocms.com/docs/structured-text/dast
+ */
+
+/**
+ * A node of a DAST document, loosely typed: only what the helpers read
+ */
+export interface DastNode {
+  type: string;
+  children?: DastNode[];
+  value?: string;
+  code?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A Structured Text field value
+ */
+export interface StructuredTextValue {
+  schema: "dast";
+  document: DastNode;
+}
+
+/** Nodes whose children are separate lines of text */
+const LINE_CONTAINERS = new Set(["root", "list", "listItem", "blockquote"]);
+
+/**
+ * Whether a value is a Structured Text value
+ */
+export function isStructuredTextValue(value: unknown): value is StructuredTextValue {
+  return typeof value === "object" && value !== null
+    && (value as { schema?: unknown }).schema === "dast"
+    && typeof (value as { document?: unknown }).document === "object";
+}
+
+/**
+ * Renders a DAST node as plain text
+ */
+function nodeToPlainText(node: DastNode): string {
+  switch (node.type) {
+    case "span":
+      return node.value ?? "";
+    case "code":
+      return node.code ?? "";
+    case "block":
+    case "inlineBlock":
+    case "inlineItem":
+    case "thematicBreak":
+      return "";
+    default: {
+      const children = (node.children ?? []).map(nodeToPlainText);
+      return LINE_CONTAINERS.has(node.type)
+        ? children.filter(text => text !== "").join("\n")
+        : children.join("");
+    }
+  }
+}
+
+/**
+ * Extracts the text of a Structured Text value, one line per paragraph,
+ * heading, list item or code block. Blocks and inline records are left out.
+ * @param value The field value
+ * @returns The text, or null when the value is empty
+ */
+export function structuredTextToPlainText(value: unknown): string | null {
+  if (!isStructuredTextValue(value)) {
+    return null;
+  }
+  return nodeToPlainText(value.document);
+}
+
+/**
+ * Builds a Structured Text value from plain text, one paragraph per line
+ * @param text The text
+ * @returns The value, or null for blank text
+ */
+export function plainTextToStructuredText(text: string): StructuredTextValue | null {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== "");
+  if (lines.length === 0) {
+    return null;
+  }
+  return {
+    schema: "dast",
+    document: {
+      type: "root",
+      children: lines.map(line => ({ type: "paragraph", children: [{ type: "span", value: line }] }))
+    }
+  };
+}
+
+/** Span marks DAST supports */
+export const DAST_MARKS = ["strong", "emphasis", "underline", "strikethrough", "code", "highlight"] as const;
+
+export type DastMark = typeof DAST_MARKS[number];
+
+/**
+ * Appends text to inline nodes as a span, merging it into the previous span
+ * when that one has the same marks
+ */
+export function appendSpan(nodes: DastNode[], value: string, marks: DastMark[]): void {
+  if (value === "") {
+    return;
+  }
+  const last = nodes[nodes.length - 1];
+  const lastMarks = (last?.marks as DastMark[] | undefined) ?? [];
+  if (last?.type === "span" && lastMarks.length === marks.length && lastMarks.every(mark => marks.includes(mark))) {
+    last.value = (last.value ?? "") + value;
+    return;
+  }
+  nodes.push({ type: "span", value, ...(marks.length > 0 && { marks: [...marks] }) });
+}
+
+/**
+ * Trims the whitespace around inline nodes and around their line breaks, and
+ * drops spans left empty
+ */
+export function trimInline(nodes: DastNode[]): DastNode[] {
+  const trimmed = nodes.map(node => node.type === "span" ? { ...node, value: (node.value ?? "").replace(/[ \t]*\n[ \t]*/g, "\n") } : node);
+  const first = trimmed[0];
+  if (first?.type === "span") {
+    first.value = (first.value ?? "").replace(/^\s+/, "");
+  }
+  const last = trimmed[trimmed.length - 1];
+  if (last?.type === "span") {
+    last.value = (last.value ?? "").replace(/\s+$/, "");
+  }
+  return trimmed.filter(node => node.type !== "span" || node.value !== "");
+}
+
+/**
+ * Turns a block node into paragraphs, for containers that only hold
+ * paragraphs (blockquotes) or paragraphs and lists (list items)
+ * @param node The block node
+ * @param keepLists Keep lists as they are instead of flattening their items
+ */
+export function toParagraphs(node: DastNode, keepLists = false): DastNode[] {
+  switch (node.type) {
+    case "paragraph":
+      return [node];
+    case "heading":
+      return [{ type: "paragraph", children: node.children ?? [] }];
+    case "code":
+      return [{ type: "paragraph", children: [{ type: "span", value: node.code ?? "", marks: ["code"] }] }];
+    case "list":
+      return keepLists ? [node] : (node.children ?? []).flatMap(child => toParagraphs(child));
+    case "listItem":
+    case "blockquote":
+      return (node.children ?? []).flatMap(child => toParagraphs(child, keepLists));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Wraps root-level block nodes in a Structured Text value
+ */
+export function toStructuredTextValue(children: DastNode[]): StructuredTextValue {
+  return { schema: "dast", document: { type: "root", children } };
+}
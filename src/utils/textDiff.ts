@@ -0,0 +1,164 @@
+/**
+ * @file textDiff.ts
+ * @description Compact diffs of sequences and text
+ * Sequences are diffed on their longest common subsequence. Text is diffed
+ * word by word and rendered wdiff-style, `[-removed-]{+added+}`, with long
+ * unchanged stretches cut down to the words around each change so a diff
+ * costs a fraction of the two texts.
+ */
+
+/**
+ * A run of a diff: items both sequences share, or only one has
+ */
+export interface DiffRun<T> {
+  op: "equal" | "delete" | "insert";
+  items: T[];
+}
+
+/** Largest LCS table computed; longer inputs are diffed as a whole replacement */
+const MAX_TABLE_CELLS = 4_000_000;
+
+/** Unchanged words kept on each side of a change */
+const CONTEXT_WORDS = 6;
+
+/**
+ * Appends items to the last run when it has the same op
+ */
+function pushRun<T>(runs: Array<DiffRun<T>>, op: DiffRun<T>["op"], items: T[]): void {
+  if (items.length === 0) {
+    return;
+  }
+  const last = runs[runs.length - 1];
+  if (last?.op === op) {
+    last.items.push(...items);
+  } else {
+    runs.push({ op, items: [...items] });
+  }
+}
+
+/**
+ * Diffs two sequences
+ * @param before The old sequence
+ * @param after The new sequence
+ * @param equals Compares two items; defaults to ===
+ * @returns The runs turning `before` into `after`, deletions before insertions
+ */
+export function diffSequences<T>(before: T[], after: T[], equals: (a: T, b: T) => boolean = (a, b) => a === b): Array<DiffRun<T>> {
+  // The shared start and end need no table
+  let start = 0;
+  while (start < before.length && start < after.length && equals(before[start]!, after[start]!)) {
+    start++;
+  }
+  let end = 0;
+  while (end < before.length - start && end < after.length - start
+    && equals(before[before.length - 1 - end]!, after[after.length - 1 - end]!)) {
+    end++;
+  }
+  const oldMiddle = before.slice(start, before.length - end);
+  const newMiddle = after.slice(start, after.length - end);
+
+  const runs: Array<DiffRun<T>> = [];
+  pushRun(runs, "equal", before.slice(0, start));
+
+  const rows = oldMiddle.length;
+  const columns = newMiddle.length;
+  if (rows * columns > MAX_TABLE_CELLS) {
+    pushRun(runs, "delete", oldMiddle);
+    pushRun(runs, "insert", newMiddle);
+  } else {
+    // lengths[i * (columns + 1) + j]: LCS length of oldMiddle[i..] and newMiddle[j..]
+    const width = columns + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i * width + j] = equals(oldMiddle[i]!, newMiddle[j]!)
+          ? lengths[(i + 1) * width + j + 1]! + 1
+          : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    let deleted: T[] = [];
+    let inserted: T[] = [];
+    const flush = () => {
+      pushRun(runs, "delete", deleted);
+      pushRun(runs, "insert", inserted);
+      deleted = [];
+      inserted = [];
+    };
+    while (i < rows || j < columns) {
+      if (i < rows && j < columns && equals(oldMiddle[i]!, newMiddle[j]!)) {
+        flush();
+        pushRun(runs, "equal", [oldMiddle[i]!]);
+        i++;
+        j++;
+      } else if (j >= columns || (i < rows && lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!)) {
+        deleted.push(oldMiddle[i++]!);
+      } else {
+        inserted.push(newMiddle[j++]!);
+      }
+    }
+    flush();
+  }
+
+  pushRun(runs, "equal", before.slice(before.length - end));
+  return runs;
+}
+
+/**
+ * Splits text into words, runs of whitespace and single punctuation marks
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+/**
+ * Keeps the words of an unchanged stretch that give a change its context
+ * @param tokens The unchanged tokens
+ * @param keepStart Whether a change precedes the stretch
+ * @param keepEnd Whether a change follows it
+ */
+function trimContext(tokens: string[], keepStart: boolean, keepEnd: boolean): string {
+  const words = tokens.filter(token => /\S/.test(token)).length;
+  const kept = (keepStart ? CONTEXT_WORDS : 0) + (keepEnd ? CONTEXT_WORDS : 0);
+  if (words <= kept + 1) {
+    return tokens.join("");
+  }
+
+  // Takes tokens from one end until it has the given number of words
+  const take = (from: string[], count: number) => {
+    let seen = 0;
+    let index = 0;
+    while (index < from.length && seen < count) {
+      if (/\S/.test(from[index]!)) seen++;
+      index++;
+    }
+    return from.slice(0, index);
+  };
+  const head = keepStart ? take(tokens, CONTEXT_WORDS).join("") : "";
+  const tail = keepEnd ? take([...tokens].reverse(), CONTEXT_WORDS).reverse().join("") : "";
+  return `${head}…${tail}`;
+}
+
+/**
+ * Diffs two texts word by word
+ * @param before The old text
+ * @param after The new text
+ * @returns The new text with `[-removed-]` and `{+added+}` changes, and long
+ * unchanged stretches shortened to `…`
+ */
+export function diffText(before: string, after: string): string {
+  const runs = diffSequences(tokenize(before), tokenize(after));
+  return runs.map((run, index) => {
+    const text = run.items.join("");
+    switch (run.op) {
+      case "delete":
+        return `[-${text}-]`;
+      case "insert":
+        return `{+${text}+}`;
+      default:
+        return trimContext(run.items, index > 0, index < runs.length - 1);
+    }
+  }).join("");
+}
@@ -7,6 +7,8 @@
 import { buildClient, Client } from "@datocms/cma-client-node";
 import { TypedRecordsClient } from "../tools/Records/typedClient.js";
 import { CollaboratorsClient, createTypedCollaboratorsClient } from "../tools/CollaboratorsRolesAndAPITokens/collaboratorsClient.js";
+import { resolveCredentials, type ResolvedCredentials } from "./serverConfig.js";
+import { withClientRetries } from "./retry.js";
 
 /**
  * Client types available in the system
@@ -21,10 +23,12 @@ export enum ClientType {
  * Client configuration for creating clients
  */
 export interface ClientConfig {
-  /** DatoCMS API token */
-  apiToken: string;
+  /** DatoCMS API token (falls back to the server-configured token) */
+  apiToken?: string;
   /** Optional environment name */
   environment?: string;
+  /** Optional project profile name (used instead of apiToken) */
+  project?: string;
   /** Optional client type */
   clientType?: ClientType;
 }
@@ -41,9 +45,9 @@ export class UnifiedClientManager {
    * @param config Client configuration
    * @returns A unique cache key
    */
-  private static getCacheKey(config: ClientConfig): string {
-    const { apiToken, environment = 'primary', clientType = ClientType.DEFAULT } = config;
-    return `${apiToken}:${environment}:${clientType}`;
+  private static getCacheKey(config: ClientConfig & ResolvedCredentials): string {
+    const { apiToken, environment = 'primary', apiBaseUrl, clientType = ClientType.DEFAULT } = config;
+    return `${apiBaseUrl}:${apiToken}:${environment}:${clientType}`;
   }
 
   /**
@@ -51,12 +55,14 @@ export class UnifiedClientManager {
    * @param config Client configuration
    * @returns A new client instance
    */
-  private static createClient(config: ClientConfig): any {
-    const { apiToken, environment, clientType = ClientType.DEFAULT } = config;
+  private static createClient(config: ClientConfig & ResolvedCredentials): any {
+    const { apiToken, environment, apiBaseUrl: baseUrl, clientType = ClientType.DEFAULT } = config;
     
-    // Create the base DatoCMS client
-    const clientParameters = environment ? { apiToken, environment } : { apiToken };
-    const baseClient = buildClient(clientParameters);
+    // Create the base DatoCMS client; retries come from our own layer instead of the library's
+    const clientParameters = environment
+      ? { apiToken, environment, baseUrl, autoRetry: false }
+      : { apiToken, baseUrl, autoRetry: false };
+    const baseClient = withClientRetries(buildClient(clientParameters));
 
     // Create and return the appropriate client type
     switch (clientType) {
@@ -72,13 +78,25 @@ export class UnifiedClientManager {
     }
   }
 
+  /**
+   * Fills in the token, environment and CMA base URL from the selected project
+   * profile or the server defaults when the config omits them
+   * @param config Client configuration
+   * @returns The configuration with resolved credentials
+   */
+  private static resolveConfig(config: ClientConfig): ClientConfig & ResolvedCredentials {
+    const credentials = resolveCredentials(config.apiToken, config.environment, config.project);
+    return { ...config, ...credentials };
+  }
+
   /**
    * Gets a client instance, creating it if it doesn't exist in the cache
    * @param config Client configuration
    * @returns A client instance
    */
   public static getClient<T = Client>(config: ClientConfig): T {
-    const cacheKey = this.getCacheKey(config);
+    const resolvedConfig = this.resolveConfig(config);
+    const cacheKey = this.getCacheKey(resolvedConfig);
     
     // Check if the client already exists in the cache
     if (this.clientCache.has(cacheKey)) {
@@ -86,7 +104,7 @@ export class UnifiedClientManager {
     }
     
     // Create a new client and cache it
-    const client = this.createClient(config);
+    const client = this.createClient(resolvedConfig);
     this.clientCache.set(cacheKey, client);
     
     return client as T;
@@ -94,46 +112,69 @@ export class UnifiedClientManager {
 
   /**
    * Gets a default DatoCMS client
-   * @param apiToken DatoCMS API token
+   * @param apiToken DatoCMS API token (optional when the server has one configured)
    * @param environment Optional environment name
+   * @param project Optional project profile name
    * @returns A default DatoCMS client
    */
-  public static getDefaultClient(apiToken: string, environment?: string): Client {
+  public static getDefaultClient(apiToken?: string, environment?: string, project?: string): Client {
     return this.getClient<Client>({
       apiToken,
       environment,
+      project,
       clientType: ClientType.DEFAULT
     });
   }
 
   /**
    * Gets a typed records client
-   * @param apiToken DatoCMS API token
+   * @param apiToken DatoCMS API token (optional when the server has one configured)
    * @param environment Optional environment name
+   * @param project Optional project profile name
    * @returns A typed records client
    */
-  public static getRecordsClient(apiToken: string, environment?: string): TypedRecordsClient {
+  public static getRecordsClient(apiToken?: string, environment?: string, project?: string): TypedRecordsClient {
     return this.getClient<TypedRecordsClient>({
       apiToken,
       environment,
+      project,
       clientType: ClientType.RECORDS
     });
   }
 
   /**
    * Gets a typed collaborators client
-   * @param apiToken DatoCMS API token
+   * @param apiToken DatoCMS API token (optional when the server has one configured)
    * @param environment Optional environment name
+   * @param project Optional project profile name
    * @returns A typed collaborators client
    */
-  public static getCollaboratorsClient(apiToken: string, environment?: string): CollaboratorsClient {
+  public static getCollaboratorsClient(apiToken?: string, environment?: string, project?: string): CollaboratorsClient {
     return this.getClient<CollaboratorsClient>({
       apiToken,
       environment,
+      project,
       clientType: ClientType.COLLABORATORS
     });
   }
 
+  /**
+   * Creates a default DatoCMS client that bypasses the cache
+   * Use this when the caller needs to modify the instance (e.g. to intercept requests)
+   * @param apiToken DatoCMS API token (optional when the server has one configured)
+   * @param environment Optional environment name
+   * @param project Optional project profile name
+   * @returns A new default DatoCMS client
+   */
+  public static createStandaloneClient(apiToken?: string, environment?: string, project?: string): Client {
+    return this.createClient(this.resolveConfig({
+      apiToken,
+      environment,
+      project,
+      clientType: ClientType.DEFAULT
+    })) as Client;
+  }
+
   /**
    * Clears the client cache
    * Use this method carefully, as it will invalidate all cached clients
@@ -148,7 +189,7 @@ export class UnifiedClientManager {
    * @returns True if the client was removed, false if it wasn't in the cache
    */
   public static removeClient(config: ClientConfig): boolean {
-    const cacheKey = this.getCacheKey(config);
+    const cacheKey = this.getCacheKey(this.resolveConfig(config));
     return this.clientCache.delete(cacheKey);
   }
 }
@@ -157,6 +198,6 @@ export class UnifiedClientManager {
  * Legacy compatibility function for getClient
  * @deprecated Use UnifiedClientManager.getDefaultClient instead
  */
-export function getClient(apiToken: string, environment?: string): Client {
-  return UnifiedClientManager.getDefaultClient(apiToken, environment);
+export function getClient(apiToken?: string, environment?: string, project?: string): Client {
+  return UnifiedClientManager.getDefaultClient(apiToken, environment, project);
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+/**
+ * @file actionPolicy.test.ts
+ * @description End-to-end tests for the action policy: allow and deny lists on the
+ * advertised router enums, blocking at dispatch, and read action detection
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type TestHarness } from "../helpers/mcpHarness.js";
+import { isReadAction } from "../../src/utils/actionPolicy.js";
+import { resetServerConfig } from "../../src/utils/serverConfig.js";
+
+/**
+ * Returns the actions a tool advertises, or undefined when it isn't registered
+ */
+async function advertisedActions(harness: TestHarness, toolName: string): Promise<string[] | undefined> {
+  const { tools } = await harness.client.listTools();
+  const tool = tools.find(candidate => candidate.name === toolName);
+  const action = tool?.inputSchema.properties?.action as { enum?: string[] } | undefined;
+  return tool ? action?.enum : undefined;
+}
+
+describe("isReadAction", () => {
+  it("treats actions named after a read word as reads", () => {
+    for (const action of ["list", "get", "query", "versions_list", "version_diff", "get_field_type_info", "maintenance_status", "record_url", "list_profiles"]) {
+      assert.equal(isReadAction(action), true, action);
+    }
+  });
+
+  it("treats actions without a read word, including unknown ones, as writes", () => {
+    for (const action of ["create", "bulk_destroy", "fork", "export", "import", "find_replace", "something_new"]) {
+      assert.equal(isReadAction(action), false, action);
+    }
+  });
+
+  it("treats actions containing both a read word and a write word as writes", () => {
+    for (const action of ["update_status", "create_upload_url", "list_destroy", "get_and_delete"]) {
+      assert.equal(isReadAction(action), false, action);
+    }
+  });
+});
+
+describe("denied actions", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness({ env: { DATOCMS_DENIED_ACTIONS: "records.bulk_*,records.destroy,schema.*" } });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+  });
+
+  it("leaves denied actions out of the router enum", async () => {
+    const actions = await advertisedActions(harness, "datocms_records");
+
+    assert.ok(actions?.includes("query"));
+    assert.ok(actions?.includes("update"));
+    for (const denied of ["destroy", "bulk_destroy", "bulk_publish", "bulk_update"]) {
+      assert.equal(actions?.includes(denied), false, denied);
+    }
+  });
+
+  it("doesn't register a router whose every action is denied", async () => {
+    assert.equal(await advertisedActions(harness, "datocms_schema"), undefined);
+  });
+
+  it("rejects a denied action that reaches a router", async () => {
+    await assert.rejects(
+      harness.call("datocms_records", "destroy", { itemId: "1" }),
+      /invalid_enum_value/
+    );
+    assert.deepEqual(harness.cma.requests, []);
+  });
+});
+
+describe("allowed actions", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness({ env: { DATOCMS_ALLOWED_ACTIONS: "records.query,records.get,locales.*" } });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  it("only advertises allowlisted actions", async () => {
+    assert.deepEqual(await advertisedActions(harness, "datocms_records"), ["query", "get"]);
+    assert.ok((await advertisedActions(harness, "datocms_locales"))?.includes("list"));
+    assert.equal(await advertisedActions(harness, "datocms_environments"), undefined);
+  });
+});
+
+describe("blocking at dispatch", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  it("rejects an action the policy blocks after the routers registered it", async () => {
+    const previous = process.env.DATOCMS_DENIED_ACTIONS;
+    process.env.DATOCMS_DENIED_ACTIONS = "environments.fork";
+    resetServerConfig();
+
+    try {
+      harness.cma.reset();
+      const result = await harness.call("datocms_environments", "fork", { environmentId: "main", newId: "sandbox" });
+
+      assert.equal(result.ok, false);
+      assert.equal(result.json.meta.error_code, "FORBIDDEN_BY_POLICY");
+      assert.match(result.text, /deny rule 'environments\.fork'/);
+      assert.deepEqual(harness.cma.requests, []);
+
+      const listed = await harness.call("datocms_environments", "list", {});
+      assert.equal(listed.ok, true, listed.text);
+    } finally {
+      if (previous === undefined) {
+        delete process.env.DATOCMS_DENIED_ACTIONS;
+      } else {
+        process.env.DATOCMS_DENIED_ACTIONS = previous;
+      }
+      resetServerConfig();
+    }
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @file credentials.test.ts
+ * @description End-to-end tests for server-side credentials: project profiles
+ * selected with `project`, the default profile, and rejecting explicit tokens
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { startHarness, TEST_API_TOKEN, type TestHarness } from "../helpers/mcpHarness.js";
+import { startMockCmaServer, type MockCmaServer } from "../mocks/mockCmaServer.js";
+import { resetServerConfig } from "../../src/utils/serverConfig.js";
+
+describe("project profiles", () => {
+  let harness: TestHarness;
+  let shopCma: MockCmaServer;
+  let configDir: string;
+
+  before(async () => {
+    shopCma = await startMockCmaServer();
+    configDir = await mkdtemp(path.join(tmpdir(), "datocms-config-"));
+    const configFile = path.join(configDir, "config.json");
+    await writeFile(configFile, JSON.stringify({
+      profiles: {
+        blog: { apiToken: "blog-token", environment: "staging", description: "Marketing blog" },
+        shop: { apiToken: "shop-token", apiBaseUrl: shopCma.url, description: "E-commerce catalog" }
+      },
+      defaultProfile: "blog"
+    }));
+    harness = await startHarness({ env: { DATOCMS_MCP_CONFIG: configFile } });
+  });
+
+  after(async () => {
+    await harness.close();
+    await shopCma.close();
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+    shopCma.reset();
+    harness.cma.store.insert({ id: "staging", type: "environment", attributes: {}, meta: { status: "ready", primary: false } });
+  });
+
+  it("falls back to the default profile when a call passes neither apiToken nor project", async () => {
+    const result = await harness.call("datocms_locales", "list", {});
+
+    assert.equal(result.ok, true, result.text);
+    assert.ok(harness.cma.requests.length > 0);
+    for (const request of harness.cma.requests) {
+      assert.equal(request.apiToken, "blog-token");
+      assert.equal(request.environment, "staging");
+    }
+  });
+
+  it("uses the explicit apiToken and the server environment instead of the default profile", async () => {
+    const result = await harness.call("datocms_locales", "list", { apiToken: TEST_API_TOKEN });
+
+    assert.equal(result.ok, true, result.text);
+    for (const request of harness.cma.requests) {
+      assert.equal(request.apiToken, TEST_API_TOKEN);
+      assert.equal(request.environment, undefined);
+    }
+  });
+
+  it("lets the call's environment override the profile's", async () => {
+    const result = await harness.call("datocms_locales", "list", { project: "blog", environment: "main" });
+
+    assert.equal(result.ok, true, result.text);
+    assert.ok(harness.cma.requests.every(request => request.environment === "main"));
+  });
+
+  it("sends a profile's calls to its own base URL", async () => {
+    const result = await harness.call("datocms_locales", "list", { project: "shop" });
+
+    assert.equal(result.ok, true, result.text);
+    assert.deepEqual(harness.cma.requests, []);
+    assert.ok(shopCma.requests.length > 0);
+    for (const request of shopCma.requests) {
+      assert.equal(request.apiToken, "shop-token");
+      assert.equal(request.environment, undefined);
+    }
+  });
+
+  it("rejects an unknown profile, listing the available ones", async () => {
+    const result = await harness.call("datocms_locales", "list", { project: "nope" });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /Unknown project 'nope'\. Available projects: blog, shop/);
+    assert.deepEqual(harness.cma.requests, []);
+    assert.deepEqual(shopCma.requests, []);
+  });
+
+  it("lists the profiles without their tokens", async () => {
+    const result = await harness.call("datocms_project", "list_profiles", {});
+
+    assert.equal(result.ok, true, result.text);
+    assert.deepEqual(result.json.data.profiles.map((profile: { name: string; isDefault: boolean }) => [profile.name, profile.isDefault]), [["blog", true], ["shop", false]]);
+    assert.equal(result.json.data.defaultProfile, "blog");
+    for (const token of ["blog-token", "shop-token", TEST_API_TOKEN]) {
+      assert.equal(result.text.includes(token), false, `list_profiles leaks ${token}`);
+    }
+    assert.deepEqual(harness.cma.requests, []);
+  });
+});
+
+describe("explicit tokens", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+  });
+
+  /**
+   * Sets DATOCMS_REJECT_EXPLICIT_TOKENS for the duration of a callback
+   */
+  async function withRejectExplicitTokens(value: string, callback: () => Promise<void>): Promise<void> {
+    const previous = process.env.DATOCMS_REJECT_EXPLICIT_TOKENS;
+    process.env.DATOCMS_REJECT_EXPLICIT_TOKENS = value;
+    resetServerConfig();
+    try {
+      await callback();
+    } finally {
+      if (previous === undefined) {
+        delete process.env.DATOCMS_REJECT_EXPLICIT_TOKENS;
+      } else {
+        process.env.DATOCMS_REJECT_EXPLICIT_TOKENS = previous;
+      }
+      resetServerConfig();
+    }
+  }
+
+  it("rejects a call that passes its own apiToken when explicit tokens are rejected", async () => {
+    await withRejectExplicitTokens("true", async () => {
+      const result = await harness.call("datocms_locales", "list", { apiToken: "caller-token" });
+
+      assert.equal(result.ok, false);
+      assert.match(result.text, /does not accept apiToken arguments/);
+      assert.equal(harness.cma.requests.length, 0);
+
+      const withoutToken = await harness.call("datocms_locales", "list", {});
+      assert.equal(withoutToken.ok, true, withoutToken.text);
+      assert.ok(harness.cma.requests.every(request => request.apiToken === TEST_API_TOKEN));
+    });
+  });
+
+  it("uses the call's apiToken when explicit tokens are accepted", async () => {
+    await withRejectExplicitTokens("false", async () => {
+      const result = await harness.call("datocms_locales", "list", { apiToken: "caller-token" });
+
+      assert.equal(result.ok, true, result.text);
+      assert.ok(harness.cma.requests.length > 0);
+      assert.ok(harness.cma.requests.every(request => request.apiToken === "caller-token"));
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @file dryRun.test.ts
+ * @description End-to-end tests for dryRun on create, update and delete handlers
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type TestHarness } from "../helpers/mcpHarness.js";
+
+describe("dry runs", () => {
+  let harness: TestHarness;
+  let blogPostId: string;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+    const { store } = harness.cma;
+    blogPostId = store.addItemType({ name: "Blog post", api_key: "blog_post" }).id;
+    store.addField(blogPostId, { label: "Title", api_key: "title", field_type: "string", localized: true });
+  });
+
+  const writes = () => harness.cma.requests.filter(request => request.method !== "GET");
+
+  it("captures a create instead of sending it, and resolves its references with GETs", async () => {
+    const result = await harness.call("datocms_records", "create", {
+      itemType: blogPostId,
+      data: { title: { en: "Hello" } },
+      dryRun: true
+    });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(result.json.data.dryRun, true);
+    const [request] = result.json.data.requests;
+    assert.equal(request.method, "POST");
+    assert.match(request.url, /\/items$/);
+    assert.deepEqual(request.body.data.attributes, { title: { en: "Hello" } });
+    assert.deepEqual(result.json.data.references, [{ type: "item_type", id: blogPostId, found: true, label: "Blog post" }]);
+    assert.deepEqual(writes(), []);
+    assert.ok(harness.cma.requests.some(entry => entry.path === `/item-types/${blogPostId}`));
+    assert.equal(harness.cma.store.list("item").length, 0);
+  });
+
+  it("captures updates and deletes, skipping the delete confirmation, without changing anything", async () => {
+    const item = harness.cma.store.addItem(blogPostId, { title: { en: "Hello" } });
+
+    const updated = await harness.call("datocms_records", "update", {
+      itemId: item.id,
+      data: { title: { en: "Changed" } },
+      dryRun: true
+    });
+    assert.equal(updated.ok, true, updated.text);
+    assert.deepEqual(updated.json.data.requests.map((request: { method: string }) => request.method), ["PUT"]);
+
+    const upload = harness.cma.store.addUpload({ filename: "cover.png" });
+    const destroyed = await harness.call("datocms_uploads", "destroy", { uploadId: upload.id, dryRun: true });
+    assert.equal(destroyed.ok, true, destroyed.text);
+    assert.deepEqual(destroyed.json.data.requests.map((request: { method: string }) => request.method), ["DELETE"]);
+    assert.ok(harness.cma.store.find("upload", upload.id));
+
+    assert.deepEqual(writes(), []);
+    assert.deepEqual(harness.cma.store.find("item", item.id)?.attributes, { title: { en: "Hello" } });
+  });
+
+  it("reports references that don't exist as issues", async () => {
+    const result = await harness.call("datocms_records", "create", {
+      itemType: "missing",
+      data: { title: { en: "Hello" } },
+      dryRun: true
+    });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(result.json.data.references[0].found, false);
+    assert.ok(result.json.data.issues.length > 0);
+    assert.deepEqual(writes(), []);
+  });
+
+  it("rejects dryRun on write actions built as custom handlers", async () => {
+    const item = harness.cma.store.addItem(blogPostId, { title: { en: "Hello" } });
+
+    const result = await harness.call("datocms_records", "destroy", { itemId: item.id, dryRun: true });
+
+    assert.equal(result.ok, false);
+    assert.equal(result.json.meta.error_code, "DRY_RUN_NOT_SUPPORTED");
+    assert.deepEqual(harness.cma.requests, []);
+  });
+});
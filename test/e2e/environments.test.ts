@@ -0,0 +1,81 @@
+/**
+ * @file environments.test.ts
+ * @description End-to-end tests for the datocms_environments and datocms_jobs routers
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type TestHarness } from "../helpers/mcpHarness.js";
+
+describe("datocms_environments", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+  });
+
+  it("lists and retrieves environments", async () => {
+    const listed = await harness.call("datocms_environments", "list", {});
+    assert.equal(listed.ok, true, listed.text);
+    assert.deepEqual(listed.json.data.map((environment: { id: string }) => environment.id), ["main"]);
+
+    const retrieved = await harness.call("datocms_environments", "retrieve", { environmentId: "main" });
+    assert.equal(retrieved.ok, true, retrieved.text);
+    assert.match(retrieved.text, /"primary": true/);
+  });
+
+  it("forks an environment and waits for the job", async () => {
+    const result = await harness.call("datocms_environments", "fork", { environmentId: "main", newId: "sandbox" });
+
+    assert.equal(result.ok, true, result.text);
+    assert.match(result.text, /"id": "sandbox"/);
+    assert.ok(harness.cma.store.find("environment", "sandbox"));
+    assert.ok(harness.cma.requests.some(request => request.path.startsWith("/job-results/")));
+  });
+
+  it("returns the job ID of a fork when asked not to wait, and retrieves it later", async () => {
+    const started = await harness.call("datocms_environments", "fork", {
+      environmentId: "main",
+      newId: "sandbox",
+      waitForCompletion: false
+    });
+    assert.equal(started.ok, true, started.text);
+    assert.equal(started.json.data.status, "pending");
+
+    const job = await harness.call("datocms_jobs", "retrieve", { jobId: started.json.data.jobId });
+    assert.equal(job.ok, true, job.text);
+    assert.equal(job.json.data.status, "completed");
+    assert.equal(job.json.data.succeeded, true);
+  });
+
+  it("previews the environment a delete or promote affects", async () => {
+    const forked = await harness.call("datocms_environments", "fork", { environmentId: "main", newId: "sandbox" });
+    assert.equal(forked.ok, true, forked.text);
+
+    const deletion = await harness.call("datocms_environments", "delete", { environmentId: "sandbox" });
+    assert.equal(deletion.json?.data?.confirmationRequired, true, deletion.text);
+    assert.equal(deletion.json.data.preview.environment.id, "sandbox");
+    assert.equal(deletion.json.data.preview.environment.primary, false);
+
+    const promotion = await harness.call("datocms_environments", "promote", { environmentId: "sandbox" });
+    assert.equal(promotion.json?.data?.confirmationRequired, true, promotion.text);
+    assert.equal(promotion.json.data.preview.environment.id, "sandbox");
+    assert.equal(promotion.json.data.preview.currentPrimary, "main");
+    assert.ok(harness.cma.store.find("environment", "sandbox"));
+  });
+
+  it("reports the maintenance mode status", async () => {
+    const result = await harness.call("datocms_environments", "maintenance_status", {});
+
+    assert.equal(result.ok, true, result.text);
+    assert.match(result.text, /"active": false/);
+  });
+});
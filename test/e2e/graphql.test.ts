@@ -0,0 +1,165 @@
+/**
+ * @file graphql.test.ts
+ * @description End-to-end tests for the datocms_graphql router
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, TEST_API_TOKEN, type TestHarness } from "../helpers/mcpHarness.js";
+
+describe("datocms_graphql", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.graphql.reset();
+  });
+
+  it("runs a query with variables against the published content", async () => {
+    harness.graphql.respondWith({ body: { data: { article: { title: "Hello" } } } });
+
+    const result = await harness.call("datocms_graphql", "query", {
+      query: "query Article($slug: String) { article(filter: { slug: { eq: $slug } }) { title } }",
+      variables: { slug: "hello" }
+    });
+
+    assert.equal(result.ok, true, result.text);
+    assert.deepEqual(result.json.data, { article: { title: "Hello" } });
+    const [request] = harness.graphql.requests;
+    assert.deepEqual(request?.variables, { slug: "hello" });
+    assert.equal(request?.headers.authorization, `Bearer ${TEST_API_TOKEN}`);
+    assert.equal(request?.headers["x-include-drafts"], undefined);
+    assert.equal(harness.cma.requests.length, 0, "the CMA must not be called");
+  });
+
+  it("sends the draft, strict mode and environment headers", async () => {
+    const result = await harness.call("datocms_graphql", "query", {
+      query: "{ allArticles { id } }",
+      includeDrafts: true,
+      excludeInvalid: true,
+      environment: "staging"
+    });
+
+    assert.equal(result.ok, true, result.text);
+    const [request] = harness.graphql.requests;
+    assert.equal(request?.headers["x-include-drafts"], "true");
+    assert.equal(request?.headers["x-exclude-invalid"], "true");
+    assert.equal(request?.headers["x-environment"], "staging");
+  });
+
+  it("maps error locations back to the query", async () => {
+    harness.graphql.respondWith({
+      body: { data: null, errors: [{ message: "Field 'titl' doesn't exist on type 'ArticleRecord'", locations: [{ line: 3, column: 5 }] }] }
+    });
+
+    const result = await harness.call("datocms_graphql", "query", {
+      query: "{\n  article {\n    titl\n  }\n}"
+    });
+
+    assert.equal(result.ok, false);
+    assert.match(result.json.error, /doesn't exist on type 'ArticleRecord' \(line 3, column 5\)/);
+    const [location] = result.json.meta.error_details.errors[0].locations;
+    assert.equal(location.excerpt, "3 |     titl\n        ^");
+  });
+
+  it("returns partial data together with its errors", async () => {
+    harness.graphql.respondWith({
+      body: { data: { article: null }, errors: [{ message: "Record not accessible", path: ["article"] }] }
+    });
+
+    const result = await harness.call("datocms_graphql", "query", { query: "{ article { id } }" });
+
+    assert.equal(result.ok, true, result.text);
+    assert.deepEqual(result.json.data, { article: null });
+    assert.deepEqual(result.json.meta.graphql_errors[0].path, ["article"]);
+  });
+
+  it("explains rejected tokens", async () => {
+    const result = await harness.call("datocms_graphql", "query", { query: "{ _site { locales } }", apiToken: "invalid" });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /401 INVALID_AUTHORIZATION_HEADER/);
+  });
+
+  describe("generate_query", () => {
+    before(() => {
+      const { store } = harness.cma;
+      const author = store.addItemType({ name: "Author", api_key: "author" });
+      store.addField(author.id, { label: "Name", api_key: "name", field_type: "string" });
+      const quote = store.addItemType({ name: "Quote", api_key: "quote_block", modular_block: true });
+      store.addField(quote.id, { label: "Text", api_key: "text", field_type: "text" });
+      const mention = store.addItemType({ name: "Mention", api_key: "mention_block", modular_block: true });
+      store.addField(mention.id, { label: "Handle", api_key: "handle", field_type: "string" });
+      const post = store.addItemType({ name: "Blog post", api_key: "blog_post" });
+      store.addField(post.id, { label: "Title", api_key: "title", field_type: "string", localized: true });
+      store.addField(post.id, { label: "Cover image", api_key: "cover_image", field_type: "file" });
+      store.addField(post.id, {
+        label: "Author", api_key: "author", field_type: "link",
+        validators: { item_item_type: { item_types: [author.id] } }
+      });
+      store.addField(post.id, {
+        label: "Body", api_key: "body", field_type: "structured_text",
+        validators: {
+          structured_text_blocks: { item_types: [quote.id] },
+          structured_text_inline_blocks: { item_types: [mention.id] },
+          structured_text_links: { item_types: [author.id] }
+        }
+      });
+    });
+
+    it("expands links and blocks with a fragment per model", async () => {
+      const result = await harness.call("datocms_graphql", "generate_query", { model: "blog_post" });
+
+      assert.equal(result.ok, true, result.text);
+      const { query, typeName, rootField, variables } = result.json.data;
+      assert.equal(typeName, "BlogPostRecord");
+      assert.equal(rootField, "allBlogPosts");
+      assert.deepEqual(variables, { first: "IntType = 20", skip: "IntType = 0", locale: "SiteLocale" });
+      assert.match(query, /^query AllBlogPosts\(\$first: IntType = 20, \$skip: IntType = 0, \$locale: SiteLocale\) \{/);
+      assert.match(query, /allBlogPosts\(first: \$first, skip: \$skip, locale: \$locale\) \{/);
+      assert.match(query, /_allBlogPostsMeta \{\n\s+count/);
+      assert.match(query, /coverImage \{[^}]*responsiveImage/);
+      assert.match(query, /author \{\n\s+__typename\n\s+\.\.\. on AuthorRecord \{\n\s+id\n\s+name/);
+      assert.match(query, /blocks \{\n\s+__typename\n\s+\.\.\. on QuoteBlockRecord \{\n\s+id\n\s+text/);
+      assert.equal(harness.graphql.requests.length, 0, "the CDA must not be called");
+    });
+
+    it("selects inline blocks apart from blocks", async () => {
+      const result = await harness.call("datocms_graphql", "generate_query", { model: "blog_post" });
+
+      assert.equal(result.ok, true, result.text);
+      const { query } = result.json.data;
+      assert.match(query, /inlineBlocks \{\n\s+__typename\n\s+\.\.\. on MentionBlockRecord \{\n\s+id\n\s+handle/);
+      assert.match(query, /\bblocks \{\n\s+__typename\n\s+\.\.\. on QuoteBlockRecord \{[^}]*\}\n\s+\}/);
+    });
+
+    it("selects a single record by ID and only IDs past the depth", async () => {
+      const result = await harness.call("datocms_graphql", "generate_query", { model: "blog_post", collection: false, depth: 0, allLocales: true });
+
+      assert.equal(result.ok, true, result.text);
+      const { query, rootField } = result.json.data;
+      assert.equal(rootField, "blogPost");
+      assert.match(query, /blogPost\(filter: \{ id: \{ eq: \$id \} \}, locale: \$locale\)/);
+      assert.match(query, /_allTitleLocales \{\n\s+locale\n\s+value\n/);
+      assert.match(query, /\.\.\. on AuthorRecord \{\n\s+id\n\s+\}/);
+      assert.doesNotMatch(query, /_allBlogPostsMeta/);
+    });
+
+    it("rejects block models and unknown models", async () => {
+      const block = await harness.call("datocms_graphql", "generate_query", { model: "quote_block" });
+      assert.equal(block.ok, false);
+      assert.match(block.text, /is a block model/);
+
+      const unknown = await harness.call("datocms_graphql", "generate_query", { model: "missing" });
+      assert.equal(unknown.ok, false);
+      assert.match(unknown.text, /Available models: author, blog_post/);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @file httpServer.test.ts
+ * @description End-to-end tests for the HTTP transport: Streamable HTTP and
+ * legacy SSE clients talking to the full server over real sockets
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { createServer } from "../../src/server.js";
+import { startHttpServer, SSE_PATH, STREAMABLE_HTTP_PATH, type RunningHttpServer } from "../../src/utils/httpServer.js";
+import { startHarness, type TestHarness } from "../helpers/mcpHarness.js";
+
+describe("HTTP transport", () => {
+  let harness: TestHarness;
+  let server: RunningHttpServer;
+  const clients: Client[] = [];
+
+  /**
+   * Connects a client through a transport; it's closed after the tests
+   */
+  const connect = async (transport: Transport): Promise<Client> => {
+    const client = new Client({ name: "datocms-mcp-tests", version: "1.0.0" });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  };
+
+  /**
+   * Calls a tool that reads from the mock CMA and returns the response text
+   */
+  const readProjectInfo = async (client: Client): Promise<string> => {
+    const result = await client.callTool({ name: "datocms_project", arguments: { action: "get_info", args: {} } });
+    return (result.content as Array<{ text?: string }>).map(part => part.text ?? "").join("");
+  };
+
+  before(async () => {
+    // The harness points the server's config at the mock CMA; its in-memory client isn't used
+    harness = await startHarness();
+    server = await startHttpServer({ host: "127.0.0.1", port: 0, createMcpServer: createServer });
+  });
+
+  after(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    if (server.httpServer.listening) {
+      await server.close();
+    }
+    await harness.close();
+  });
+
+  it("listens on a free port when given port 0", () => {
+    assert.match(server.url, /^http:\/\/127\.0\.0\.1:\d+$/);
+    assert.notEqual(server.url, "http://127.0.0.1:0");
+  });
+
+  it("serves each Streamable HTTP client in its own session", async () => {
+    const first = new StreamableHTTPClientTransport(new URL(STREAMABLE_HTTP_PATH, server.url));
+    const second = new StreamableHTTPClientTransport(new URL(STREAMABLE_HTTP_PATH, server.url));
+    const [firstClient, secondClient] = [await connect(first), await connect(second)];
+
+    assert.match(await readProjectInfo(firstClient), /Mock Site/);
+    assert.match(await readProjectInfo(secondClient), /Mock Site/);
+    assert.ok(first.sessionId && second.sessionId);
+    assert.notEqual(first.sessionId, second.sessionId);
+  });
+
+  it("ends a Streamable HTTP session when the client deletes it", async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(STREAMABLE_HTTP_PATH, server.url));
+    await connect(transport);
+    const sessionId = transport.sessionId!;
+
+    await transport.terminateSession();
+
+    const response = await fetch(new URL(STREAMABLE_HTTP_PATH, server.url), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", "mcp-session-id": sessionId },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+    assert.equal(response.status, 404);
+    assert.equal((await response.json()).error.message, "Session not found");
+  });
+
+  it("serves legacy SSE clients", async () => {
+    const client = await connect(new SSEClientTransport(new URL(SSE_PATH, server.url)));
+
+    assert.match(await readProjectInfo(client), /Mock Site/);
+    const { tools } = await client.listTools();
+    assert.ok(tools.some(tool => tool.name === "datocms_records"));
+  });
+
+  it("rejects requests without a session and unknown paths", async () => {
+    const noSession = await fetch(new URL(STREAMABLE_HTTP_PATH, server.url), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+    assert.equal(noSession.status, 400);
+    await noSession.body?.cancel();
+
+    const unknown = await fetch(new URL("/missing", server.url));
+    assert.equal(unknown.status, 404);
+    await unknown.body?.cancel();
+  });
+
+  it("closes the open sessions and stops listening on close", { timeout: 10_000 }, async () => {
+    // Sessions from the earlier tests, Streamable HTTP and SSE, are still open
+    await server.close();
+
+    assert.equal(server.httpServer.listening, false);
+    await assert.rejects(fetch(new URL(STREAMABLE_HTTP_PATH, server.url), { method: "POST" }));
+  });
+});
@@ -0,0 +1,1038 @@
+/**
+ * @file records.test.ts
+ * @description End-to-end tests for the datocms_records router
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { startHarness, type TestHarness } from "../helpers/mcpHarness.js";
+
+describe("datocms_records", () => {
+  let harness: TestHarness;
+  let blogPostId: string;
+  let filesDir: string;
+
+  before(async () => {
+    filesDir = await mkdtemp(path.join(tmpdir(), "datocms-files-"));
+    harness = await startHarness({ env: { DATOCMS_FILES_DIR: filesDir } });
+  });
+
+  after(async () => {
+    await harness.close();
+    await rm(filesDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+    const { store } = harness.cma;
+    blogPostId = store.addItemType({ name: "Blog post", api_key: "blog_post" }).id;
+    store.addField(blogPostId, { label: "Title", api_key: "title", field_type: "string", localized: true, validators: { required: {} } });
+    store.addField(blogPostId, { label: "Category", api_key: "category", field_type: "string" });
+  });
+
+  it("asks for parameters when the call has none", async () => {
+    const result = await harness.callRaw("datocms_records", { action: "query" });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /PARAMETERS REQUIRED/);
+    assert.equal(harness.cma.requests.length, 0);
+  });
+
+  it("queries the records of a model and filters them by field", async () => {
+    const { store } = harness.cma;
+    const news = store.addItem(blogPostId, { title: { en: "Launch" }, category: "news" });
+    store.addItem(blogPostId, { title: { en: "How to" }, category: "tips" });
+
+    const result = await harness.call("datocms_records", "query", {
+      modelName: "blog_post",
+      version: "current",
+      fields: { category: { eq: "news" } }
+    });
+
+    assert.equal(result.ok, true, result.text);
+    assert.deepEqual(result.json.data.map((item: { id: string }) => item.id), [news.id]);
+    const listRequest = harness.cma.requests.find(request => request.path === "/items");
+    assert.equal((listRequest?.query.filter as Record<string, unknown>).type, "blog_post");
+  });
+
+  it("filters on the server, past the first page, combined with locale and order_by", async () => {
+    const { store } = harness.cma;
+    for (let index = 0; index < 8; index++) {
+      store.addItem(blogPostId, { title: { en: `Tip ${index}`, it: `Consiglio ${index}` }, category: "tips" });
+    }
+    store.addItem(blogPostId, { title: { en: "B news", it: "Notizia B" }, category: "news" });
+    const earlier = store.addItem(blogPostId, { title: { en: "A news", it: "Notizia A" }, category: "news" });
+
+    const result = await harness.call("datocms_records", "query", {
+      modelName: "blog_post",
+      fields: { title: { matches: "news" }, category: { in: ["news", "events"] } },
+      locale: "en",
+      order_by: "title_ASC",
+      page: { limit: 1 }
+    });
+
+    assert.equal(result.ok, true, result.text);
+    assert.deepEqual(result.json.data.map((item: { id: string }) => item.id), [earlier.id]);
+    assert.equal(result.json.meta.pagination.total, 2);
+    assert.equal(result.json.meta.pagination.has_more, true);
+    const listRequest = harness.cma.requests.find(request => request.path === "/items");
+    const filter = listRequest?.query.filter as Record<string, any>;
+    assert.equal(listRequest?.query.locale, "en");
+    assert.equal(filter.locale, undefined);
+    assert.deepEqual(filter.fields.category, { in: ["news", "events"] });
+  });
+
+  it("rejects operators the field type doesn't support", async () => {
+    const result = await harness.call("datocms_records", "query", {
+      modelName: "blog_post",
+      fields: { category: { gt: 3 } }
+    });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /Operator 'gt' isn't supported on 'category' \(string field\)/);
+    assert.equal(harness.cma.requests.some(request => request.path === "/items"), false);
+  });
+
+  it("fetches every matching record across pages and reports progress", async () => {
+    for (let index = 0; index < 1100; index++) {
+      harness.cma.store.addItem(blogPostId, { title: { en: `Post ${index}` }, category: "news" });
+    }
+    const progress: Progress[] = [];
+
+    const result = await harness.call("datocms_records", "query", {
+      modelName: "blog_post",
+      all: true,
+      returnOnlyIds: true
+    }, { onProgress: update => progress.push(update) });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(result.json.data.length, 1100);
+    assert.equal(result.json.meta.pagination.has_more, false);
+    assert.equal(harness.cma.requests.filter(request => request.path === "/items").length, 3);
+    assert.deepEqual(progress.map(update => update.progress), [500, 1000, 1100]);
+    assert.equal(progress.at(-1)?.total, 1100);
+  });
+
+  it("stops at maxRecords and resumes from the cursor", async () => {
+    const ids = Array.from({ length: 5 }, (_, index) =>
+      harness.cma.store.addItem(blogPostId, { title: { en: `Post ${index}` } }).id);
+
+    const first = await harness.call("datocms_records", "query", { modelName: "blog_post", maxRecords: 3, returnOnlyIds: true });
+    assert.equal(first.ok, true, first.text);
+    assert.deepEqual(first.json.data, ids.slice(0, 3));
+    const { next_cursor: cursor } = first.json.meta.pagination;
+    assert.ok(cursor, "a cut-off walk must return a cursor");
+
+    const rest = await harness.call("datocms_records", "query", { modelName: "blog_post", cursor, returnOnlyIds: true });
+    assert.equal(rest.ok, true, rest.text);
+    assert.deepEqual(rest.json.data, ids.slice(3));
+    assert.equal(rest.json.meta.pagination.next_cursor, undefined);
+  });
+
+  describe("export", () => {
+    let directory: string;
+
+    before(async () => {
+      directory = await mkdtemp(path.join(filesDir, "export-"));
+    });
+
+    after(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("writes a CSV with a column per locale, IDs for links and plain structured text", async () => {
+      const { store } = harness.cma;
+      store.addField(blogPostId, { label: "Related", api_key: "related", field_type: "links" });
+      store.addField(blogPostId, { label: "Body", api_key: "body", field_type: "structured_text" });
+      const first = store.addItem(blogPostId, {
+        title: { en: "Hello, world", it: "Ciao \"mondo\"" },
+        category: "news",
+        related: [],
+        body: { schema: "dast", document: { type: "root", children: [
+          { type: "heading", level: 2, children: [{ type: "span", value: "Intro" }] },
+          { type: "paragraph", children: [{ type: "span", value: "Some " }, { type: "span", marks: ["strong"], value: "text" }] }
+        ] } }
+      });
+      const second = store.addItem(blogPostId, { title: { en: "Second" }, category: "tips", related: [first.id], body: null });
+      const file = path.join(directory, "posts.csv");
+
+      const result = await harness.call("datocms_records", "export", { modelName: "blog_post", path: file });
+
+      assert.equal(result.ok, true, result.text);
+      assert.equal(result.json.data.rows, 2);
+      assert.equal(result.json.data.format, "csv");
+      const [header, firstRow, secondRow] = (await readFile(file, "utf8")).split("\r\n");
+      assert.equal(header, "id,_model,_status,_created_at,_updated_at,_published_at,title[en],title[it],category,related,body");
+      assert.match(firstRow!, new RegExp(`^${first.id},blog_post,draft,.*,"Hello, world","Ciao ""mondo""",news,,"Intro\\nSome text"$`));
+      assert.match(secondRow!, new RegExp(`^${second.id},blog_post,.*,Second,,tips,${first.id},$`));
+    });
+
+    it("writes NDJSON with DAST documents, keeps the most populated locale and refuses to overwrite", async () => {
+      const { store } = harness.cma;
+      store.addField(blogPostId, { label: "Body", api_key: "body", field_type: "structured_text" });
+      const body = { schema: "dast", document: { type: "root", children: [{ type: "paragraph", children: [{ type: "span", value: "Hi" }] }] } };
+      store.addItem(blogPostId, { title: { en: "", it: "Ciao" }, category: "news", body });
+      const file = path.join(directory, "nested", "posts.ndjson");
+      const args = { modelName: "blog_post", path: file, structuredText: "dast", mostPopulatedLocale: true };
+
+      const result = await harness.call("datocms_records", "export", args);
+
+      assert.equal(result.ok, true, result.text);
+      const lines = (await readFile(file, "utf8")).trim().split("\n").map(line => JSON.parse(line));
+      assert.equal(lines.length, 1);
+      assert.equal(lines[0]._locale, "it");
+      assert.equal(lines[0].title, "Ciao");
+      assert.deepEqual(lines[0].body, body);
+
+      const again = await harness.call("datocms_records", "export", args);
+      assert.equal(again.ok, false);
+      assert.match(again.text, /already exists/);
+    });
+
+    it("refuses paths outside the files directory", async () => {
+      harness.cma.store.addItem(blogPostId, { title: { en: "Hello" }, category: "news" });
+      const outside = path.join(path.dirname(filesDir), `${path.basename(filesDir)}-outside.csv`);
+
+      for (const file of ["../escape.csv", outside]) {
+        const result = await harness.call("datocms_records", "export", { modelName: "blog_post", path: file });
+
+        assert.equal(result.ok, false);
+        assert.match(result.text, /outside the server's files directory/);
+      }
+      await assert.rejects(readFile(outside, "utf8"), { code: "ENOENT" });
+      assert.equal(harness.cma.requests.length, 0);
+    });
+
+    it("resolves relative paths against the files directory", async () => {
+      harness.cma.store.addItem(blogPostId, { title: { en: "Hello" }, category: "news" });
+
+      const result = await harness.call("datocms_records", "export", { modelName: "blog_post", path: "relative/posts.json", overwrite: true });
+
+      assert.equal(result.ok, true, result.text);
+      assert.equal(JSON.parse(await readFile(path.join(filesDir, "relative", "posts.json"), "utf8")).length, 1);
+    });
+  });
+
+  describe("import", () => {
+    let directory: string;
+
+    before(async () => {
+      directory = await mkdtemp(path.join(filesDir, "import-"));
+    });
+
+    after(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("maps columns by label and override, coerces values and creates the records", async () => {
+      harness.cma.store.addField(blogPostId, { label: "Views", api_key: "views", field_type: "integer" });
+      const file = path.join(directory, "posts.csv");
+      await writeFile(file, "Title,Titolo,Category,VIEWS,Notes\r\n\"Hello, world\",Ciao,news,12,x\r\nSecond,,tips,,\r\n");
+
+      const result = await harness.call("datocms_records", "import", { modelName: "blog_post", path: file, mapping: { Titolo: "title[it]" } });
+
+      assert.equal(result.ok, true, result.text);
+      assert.equal(result.json.data.created, 2);
+      assert.deepEqual(result.json.data.ignoredColumns, ["Notes"]);
+      const [first, second] = result.json.data.results.map((row: { id: string }) => harness.cma.store.find("item", row.id)?.attributes);
+      assert.deepEqual(first, { title: { en: "Hello, world", it: "Ciao" }, category: "news", views: 12 });
+      assert.deepEqual(second, { title: { en: "Second" }, category: "tips", views: null });
+    });
+
+    it("validates every row before writing anything", async () => {
+      harness.cma.store.addField(blogPostId, { label: "Views", api_key: "views", field_type: "integer" });
+      const file = path.join(directory, "invalid.json");
+      await writeFile(file, JSON.stringify([{ title: "Fine", views: "3" }, { title: "", views: "many" }]));
+
+      const result = await harness.call("datocms_records", "import", { modelName: "blog_post", path: file });
+
+      assert.equal(result.ok, false);
+      assert.equal(result.json.meta.error_code, "IMPORT_VALIDATION_FAILED");
+      assert.deepEqual(result.json.meta.invalidRows, [{ row: 2, errors: ["views: expected an integer, got 'many'", "title[en]: required, but empty"] }]);
+      assert.equal(harness.cma.store.list("item").length, 0);
+    });
+
+    it("refuses files outside the files directory and doesn't quote unparsable files", async () => {
+      const outside = `${filesDir}-secret.json`;
+      await writeFile(outside, "{ \"token\": \"s3cret\"");
+      try {
+        for (const file of [outside, "../secret.json"]) {
+          const result = await harness.call("datocms_records", "import", { modelName: "blog_post", path: file });
+
+          assert.equal(result.ok, false);
+          assert.match(result.text, /outside the server's files directory/);
+        }
+      } finally {
+        await rm(outside, { force: true });
+      }
+
+      const file = path.join(directory, "broken.json");
+      await writeFile(file, "{ \"token\": \"s3cret\"");
+      const broken = await harness.call("datocms_records", "import", { modelName: "blog_post", path: file });
+
+      assert.equal(broken.ok, false);
+      assert.match(broken.text, /isn't valid JSON/);
+      assert.doesNotMatch(broken.text, /s3cret/);
+      assert.ok(!broken.text.includes(filesDir), broken.text);
+      assert.equal(harness.cma.requests.length, 0);
+    });
+
+    it("upserts by ID, keeping the locales the file doesn't fill", async () => {
+      const existing = harness.cma.store.addItem(blogPostId, { title: { en: "Old", it: "Vecchio" }, category: "news" });
+      const file = path.join(directory, "upsert.ndjson");
+      await writeFile(file, `${JSON.stringify({ id: existing.id, "title[en]": "New" })}\n${JSON.stringify({ "title[en]": "Fresh", category: "tips" })}\n`);
+
+      const result = await harness.call("datocms_records", "import", { modelName: "blog_post", path: file, mode: "upsert" });
+
+      assert.equal(result.ok, true, result.text);
+      assert.equal(result.json.data.updated, 1);
+      assert.equal(result.json.data.created, 1);
+      assert.deepEqual(harness.cma.store.find("item", existing.id)?.attributes.title, { en: "New", it: "Vecchio" });
+    });
+
+    it("upserts a partial set of locale columns without touching the other fields' locales", async () => {
+      const { store } = harness.cma;
+      store.addField(blogPostId, { label: "Summary", api_key: "summary", field_type: "text", localized: true });
+      const translated = store.addItem(blogPostId, { title: { en: "Hello", it: "Ciao" }, summary: { en: "Short", it: "Breve" } });
+      const english = store.addItem(blogPostId, { title: { en: "Bye" }, summary: { en: "Later" } });
+      const file = path.join(directory, "partial.csv");
+      await writeFile(file, `id,summary[it]\r\n${translated.id},Nuovo\r\n${english.id},Dopo\r\n`);
+
+      const result = await harness.call("datocms_records", "import", { modelName: "blog_post", path: file, mode: "upsert" });
+
+      assert.equal(result.ok, true, result.text);
+      assert.equal(result.json.data.updated, 2);
+      assert.deepEqual(store.find("item", translated.id)?.attributes, { title: { en: "Hello", it: "Ciao" }, summary: { en: "Short", it: "Nuovo" } });
+      assert.deepEqual(store.find("item", english.id)?.attributes, { title: { en: "Bye", it: null }, summary: { en: "Later", it: "Dopo" } });
+    });
+
+    describe("of exported files", () => {
+      const body = { schema: "dast", document: { type: "root", children: [
+        { type: "heading", level: 2, children: [{ type: "span", value: "Intro" }] },
+        { type: "paragraph", children: [{ type: "span", marks: ["strong"], value: "Bold" }] }
+      ] } };
+
+      beforeEach(() => {
+        const { store } = harness.cma;
+        store.addField(blogPostId, { label: "Related", api_key: "related", field_type: "links" });
+        store.addField(blogPostId, { label: "Body", api_key: "body", field_type: "structured_text" });
+        store.addField(blogPostId, { label: "Sections", api_key: "sections", field_type: "rich_text" });
+      });
+
+      it("round-trips an export through an upsert import", async () => {
+        const { store } = harness.cma;
+        const linked = store.addItem(blogPostId, { title: { en: "Linked", it: "Collegato" }, category: "tips" });
+        const post = store.addItem(blogPostId, {
+          title: { en: "Hello, world", it: "Ciao" }, category: "news", related: [linked.id], body, sections: ["blk1", "blk2"]
+        });
+        const original = structuredClone(post.attributes);
+        const file = path.join(directory, "roundtrip.csv");
+        const exported = await harness.call("datocms_records", "export", { modelName: "blog_post", path: file, structuredText: "dast" });
+        assert.equal(exported.ok, true, exported.text);
+
+        const result = await harness.call("datocms_records", "import", { modelName: "blog_post", path: file, mode: "upsert" });
+
+        assert.equal(result.ok, true, result.text);
+        assert.equal(result.json.data.updated, 2);
+        assert.equal(result.json.data.created, 0);
+        assert.deepEqual(store.find("item", post.id)?.attributes, original);
+        assert.deepEqual(store.find("item", linked.id)?.attributes.title, { en: "Linked", it: "Collegato" });
+      });
+
+      it("puts the values of a most populated locale export back in each row's locale", async () => {
+        const { store } = harness.cma;
+        const italian = store.addItem(blogPostId, { title: { en: "", it: "Ciao" }, category: "news" });
+        const english = store.addItem(blogPostId, { title: { en: "Hello", it: "" }, category: "news" });
+        const file = path.join(directory, "populated.csv");
+        const exported = await harness.call("datocms_records", "export", { modelName: "blog_post", path: file, mostPopulatedLocale: true });
+        assert.equal(exported.ok, true, exported.text);
+        assert.equal((await readFile(file, "utf8")).split("\r\n")[0], "id,_model,_locale,_status,_created_at,_updated_at,_published_at,title,category,related,body,sections");
+        await writeFile(file, (await readFile(file, "utf8")).replace("Ciao", "Salve").replace("Hello", "Hi"));
+
+        const result = await harness.call("datocms_records", "import", { modelName: "blog_post", path: file, mode: "upsert" });
+
+        assert.equal(result.ok, true, result.text);
+        assert.equal(result.json.data.mapping._locale, "locale");
+        assert.deepEqual(store.find("item", italian.id)?.attributes.title, { en: "", it: "Salve" });
+        assert.deepEqual(store.find("item", english.id)?.attributes.title, { en: "Hi", it: "" });
+      });
+
+      it("rejects plain text over Structured Text and block IDs in new records", async () => {
+        const { store } = harness.cma;
+        const post = store.addItem(blogPostId, { title: { en: "Hello" }, category: "news", body, sections: ["blk1"] });
+        const exportFile = path.join(directory, "plain.csv");
+        const exported = await harness.call("datocms_records", "export", { modelName: "blog_post", path: exportFile });
+        assert.equal(exported.ok, true, exported.text);
+
+        const upsert = await harness.call("datocms_records", "import", { modelName: "blog_post", path: exportFile, mode: "upsert" });
+
+        assert.equal(upsert.ok, false);
+        assert.equal(upsert.json.meta.error_code, "IMPORT_VALIDATION_FAILED");
+        assert.equal(upsert.json.meta.invalidRows.length, 1);
+        assert.match(upsert.json.meta.invalidRows[0].errors.join("\n"), /^body: plain text would replace the record's Structured Text/);
+        assert.deepEqual(store.find("item", post.id)?.attributes.body, body);
+
+        const copyFile = path.join(directory, "copy.ndjson");
+        await writeFile(copyFile, `${JSON.stringify({ "title[en]": "Copy", sections: ["blk1"] })}\n`);
+        const create = await harness.call("datocms_records", "import", { modelName: "blog_post", path: copyFile });
+
+        assert.equal(create.ok, false);
+        assert.deepEqual(create.json.meta.invalidRows, [{
+          row: 1,
+          errors: ["sections: holds IDs of existing blocks (blk1), which a new record can't reuse; give the blocks as JSON objects instead"]
+        }]);
+        assert.equal(store.list("item").length, 1);
+      });
+    });
+  });
+
+  it("gets the current version of a record", async () => {
+    const item = harness.cma.store.addItem(blogPostId, { title: { en: "Draft" }, category: "news" });
+
+    const result = await harness.call("datocms_records", "get", { itemId: item.id, version: "current" });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(result.json.data.id, item.id);
+    assert.equal(result.json.data.category, "news");
+  });
+
+  it("renders structured text as Markdown or plain text in read responses", async () => {
+    harness.cma.store.addField(blogPostId, { label: "Body", api_key: "body", field_type: "structured_text" });
+    const item = harness.cma.store.addItem(blogPostId, {
+      title: { en: "Hello" },
+      category: "news",
+      body: {
+        schema: "dast",
+        document: {
+          type: "root",
+          children: [
+            { type: "heading", level: 2, children: [{ type: "span", value: "Intro" }] },
+            {
+              type: "paragraph",
+              children: [
+                { type: "span", value: "Read " },
+                { type: "span", value: "this", marks: ["strong"] },
+                { type: "span", value: " and " },
+                { type: "inlineItem", item: "rec1" }
+              ]
+            },
+            { type: "block", item: { id: "blk1", type: "item", text: "Quote" } }
+          ]
+        }
+      }
+    });
+
+    const markdown = await harness.call("datocms_records", "get", { itemId: item.id, version: "current", structuredTextFormat: "markdown" });
+    assert.equal(markdown.ok, true, markdown.text);
+    assert.equal(markdown.json.data.body, "## Intro\n\nRead **this** and [record:rec1]\n\n[block:blk1]");
+
+    const text = await harness.call("datocms_records", "query", { modelName: "blog_post", version: "current", structuredTextFormat: "text" });
+    assert.equal(text.ok, true, text.text);
+    assert.equal(text.json.data[0].body, "Intro\nRead this and ");
+  });
+
+  it("creates a record", async () => {
+    const result = await harness.call("datocms_records", "create", {
+      itemType: blogPostId,
+      data: { title: { en: "Hello", it: "Ciao" }, category: "news" },
+      returnOnlyConfirmation: false
+    });
+
+    assert.equal(result.ok, true, result.text);
+    const [created] = harness.cma.store.list("item");
+    assert.deepEqual(created?.attributes.title, { en: "Hello", it: "Ciao" });
+    assert.equal(result.json.data.id, created?.id);
+  });
+
+  it("upserts by a field value without creating duplicates", async () => {
+    const args = { itemType: "blog_post", matchOn: "category", data: { title: { en: "First" }, category: "guides" } };
+
+    const created = await harness.call("datocms_records", "upsert", args);
+    assert.equal(created.ok, true, created.text);
+    assert.equal(created.json.meta.operation, "created");
+
+    const updated = await harness.call("datocms_records", "upsert", { ...args, data: { ...args.data, title: { en: "Again" } } });
+    assert.equal(updated.ok, true, updated.text);
+    assert.equal(updated.json.meta.operation, "updated");
+    assert.equal(updated.json.data.id, created.json.data.id);
+    const items = harness.cma.store.list("item");
+    assert.equal(items.length, 1);
+    assert.deepEqual(items[0]?.attributes.title, { en: "Again" });
+    const listRequest = harness.cma.requests.find(request => request.path === "/items" && request.method === "GET");
+    assert.deepEqual((listRequest?.query.filter as Record<string, unknown>).fields, { category: { eq: "guides" } });
+  });
+
+  it("upserts by a localized field in the matchLocale", async () => {
+    const { store } = harness.cma;
+    store.addField(blogPostId, { label: "Slug", api_key: "slug", field_type: "slug", localized: true });
+    const italian = store.addItem(blogPostId, { title: { en: "Hello", it: "Ciao" }, slug: { en: "ciao", it: "ciao" } });
+    const english = store.addItem(blogPostId, { title: { en: "Bye", it: "Addio" }, slug: { en: "bye", it: "addio" } });
+
+    const result = await harness.call("datocms_records", "upsert", {
+      itemType: "blog_post",
+      matchOn: "slug",
+      matchLocale: "it",
+      data: { title: { en: "Bye!", it: "Addio!" }, slug: { en: "bye", it: "addio" } }
+    });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(result.json.meta.operation, "updated");
+    assert.equal(result.json.data.id, english.id);
+    assert.deepEqual(store.find("item", italian.id)?.attributes.title, { en: "Hello", it: "Ciao" });
+    const listRequest = harness.cma.requests.find(request => request.path === "/items" && request.method === "GET");
+    assert.equal(listRequest?.query.locale, "it");
+    assert.equal((listRequest?.query.filter as Record<string, unknown>).locale, undefined);
+  });
+
+  it("converts structured text input and builds _block shorthands on upsert", async () => {
+    const { store } = harness.cma;
+    const ctaId = store.addItemType({ name: "CTA", api_key: "cta_block", modular_block: true }).id;
+    store.addField(ctaId, { label: "Label", api_key: "label", field_type: "string" });
+    store.addField(blogPostId, { label: "Body", api_key: "body", field_type: "structured_text" });
+    store.addField(blogPostId, { label: "Sections", api_key: "sections", field_type: "rich_text", validators: { rich_text_blocks: { item_types: [ctaId] } } });
+    const item = store.addItem(blogPostId, { title: { en: "Hello" }, category: "guides", sections: ["blk1"] });
+
+    const result = await harness.call("datocms_records", "upsert", {
+      itemType: "blog_post",
+      matchOn: "category",
+      data: {
+        category: "guides",
+        body: { __markdown: "Some **text**" },
+        sections: ["blk1", { _block: "cta_block", label: "Sign up" }]
+      }
+    });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(result.json.data.id, item.id);
+    const updateRequest = harness.cma.requests.find(request => request.method === "PUT");
+    const attributes = (updateRequest?.body as { data: { attributes: { body: { document: unknown }; sections: unknown[] } } }).data.attributes;
+    assert.deepEqual(attributes.body.document, {
+      type: "root",
+      children: [{ type: "paragraph", children: [{ type: "span", value: "Some " }, { type: "span", value: "text", marks: ["strong"] }] }]
+    });
+    assert.deepEqual(attributes.sections, ["blk1", {
+      type: "item",
+      attributes: { label: "Sign up" },
+      relationships: { item_type: { data: { type: "item_type", id: ctaId } } }
+    }]);
+  });
+
+  it("validates upsert data against the model on request, and otherwise leaves it to the API", async () => {
+    const args = { itemType: "blog_post", matchOn: "category", data: { category: "guides", subtitle: "Hi" } };
+
+    const invalid = await harness.call("datocms_records", "upsert", { ...args, validate: true });
+
+    assert.equal(invalid.ok, false);
+    assert.equal(invalid.json.meta.error_code, "VALIDATION_ERROR");
+    assert.deepEqual(
+      invalid.json.meta.validation_errors.map((issue: { path: string; code: string }) => `${issue.path} ${issue.code}`),
+      ["subtitle VALIDATION_UNKNOWN_FIELD", "title VALIDATION_REQUIRED"]
+    );
+    assert.equal(harness.cma.requests.filter(request => request.method === "POST").length, 0);
+
+    const unchecked = await harness.call("datocms_records", "upsert", args);
+    assert.equal(unchecked.ok, false);
+    assert.equal(harness.cma.requests.filter(request => request.method === "POST").length, 1);
+  });
+
+  it("refuses to upsert when several records match", async () => {
+    harness.cma.store.addItem(blogPostId, { title: { en: "A" }, category: "news" });
+    harness.cma.store.addItem(blogPostId, { title: { en: "B" }, category: "news" });
+
+    const result = await harness.call("datocms_records", "upsert", { itemType: blogPostId, matchOn: "category", data: { category: "news" } });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /2 records of 'blog_post' have category = \\"news\\"/);
+    assert.equal(harness.cma.store.list("item").length, 2);
+  });
+
+  it("leaves validation to the API by default, and surfaces its errors", async () => {
+    const result = await harness.call("datocms_records", "create", {
+      itemType: blogPostId,
+      data: { title: { fr: "Bonjour" } },
+      returnOnlyConfirmation: false
+    });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /INVALID_LOCALES/);
+    assert.equal(harness.cma.store.list("item").length, 0);
+    assert.deepEqual(harness.cma.requests.map(request => `${request.method} ${request.path}`), ["POST /items"]);
+  });
+
+  it("converts Markdown and HTML structured text input to DAST", async () => {
+    harness.cma.store.addField(blogPostId, { label: "Body", api_key: "body", field_type: "structured_text", localized: true });
+
+    const result = await harness.call("datocms_records", "create", {
+      itemType: blogPostId,
+      data: {
+        title: { en: "Hello", it: "Ciao" },
+        body: {
+          en: { __markdown: "## Intro\n\nSee **the** [docs](https://example.com).\n\n- one\n- two" },
+          it: { __html: "<p>Vedi <em>la</em> guida</p>" }
+        }
+      }
+    });
+
+    assert.equal(result.ok, true, result.text);
+    const body = harness.cma.store.list("item")[0]?.attributes.body as Record<string, { document: unknown }>;
+    assert.deepEqual(body.en?.document, {
+      type: "root",
+      children: [
+        { type: "heading", level: 2, children: [{ type: "span", value: "Intro" }] },
+        {
+          type: "paragraph",
+          children: [
+            { type: "span", value: "See " },
+            { type: "span", value: "the", marks: ["strong"] },
+            { type: "span", value: " " },
+            { type: "link", url: "https://example.com", children: [{ type: "span", value: "docs" }] },
+            { type: "span", value: "." }
+          ]
+        },
+        {
+          type: "list",
+          style: "bulleted",
+          children: [
+            { type: "listItem", children: [{ type: "paragraph", children: [{ type: "span", value: "one" }] }] },
+            { type: "listItem", children: [{ type: "paragraph", children: [{ type: "span", value: "two" }] }] }
+          ]
+        }
+      ]
+    });
+    assert.deepEqual(body.it?.document, {
+      type: "root",
+      children: [{
+        type: "paragraph",
+        children: [{ type: "span", value: "Vedi " }, { type: "span", value: "la", marks: ["emphasis"] }, { type: "span", value: " guida" }]
+      }]
+    });
+  });
+
+  it("rejects structured text input the field's editor doesn't allow", async () => {
+    harness.cma.store.addField(blogPostId, {
+      label: "Summary",
+      api_key: "summary",
+      field_type: "structured_text",
+      appearance: { editor: "structured_text", parameters: { nodes: ["link"], marks: ["strong"], heading_levels: [] } }
+    });
+    harness.cma.store.addField(blogPostId, { label: "Notes", api_key: "notes", field_type: "structured_text" });
+    const item = harness.cma.store.addItem(blogPostId, { title: { en: "Hello" }, category: "news" });
+
+    const result = await harness.call("datocms_records", "update", {
+      itemId: item.id,
+      data: { summary: { __markdown: "# Big\n\nSome *emphasis*" }, notes: { __html: "<p><img src=\"cat.png\"></p>" } }
+    });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /'heading' nodes aren't enabled on this field/);
+    assert.match(result.text, /the 'emphasis' mark isn't enabled/);
+    assert.match(result.text, /Images can't go in Structured Text/);
+    assert.equal(harness.cma.requests.filter(request => request.method === "PUT").length, 0);
+  });
+
+  it("builds blocks from the _block shorthand, keeping existing block IDs on update", async () => {
+    const { store } = harness.cma;
+    const ctaId = store.addItemType({ name: "CTA", api_key: "cta_block", modular_block: true }).id;
+    store.addField(ctaId, { label: "Label", api_key: "label", field_type: "string", validators: { required: {} } });
+    store.addField(ctaId, { label: "URL", api_key: "url", field_type: "string" });
+    store.addField(blogPostId, { label: "Sections", api_key: "sections", field_type: "rich_text", validators: { rich_text_blocks: { item_types: [ctaId] } } });
+
+    const created = await harness.call("datocms_records", "create", {
+      itemType: blogPostId,
+      data: { title: { en: "Hello" }, sections: [{ _block: "cta_block", label: "Sign up", url: "/join" }] }
+    });
+
+    assert.equal(created.ok, true, created.text);
+    const createRequest = harness.cma.requests.find(request => request.method === "POST" && request.path === "/items");
+    const sections = (createRequest?.body as { data: { attributes: { sections: unknown[] } } }).data.attributes.sections;
+    assert.deepEqual(sections, [{
+      type: "item",
+      attributes: { label: "Sign up", url: "/join" },
+      relationships: { item_type: { data: { type: "item_type", id: ctaId } } }
+    }]);
+
+    const item = store.addItem(blogPostId, { title: { en: "Existing" }, sections: ["blk1"] });
+    const updated = await harness.call("datocms_records", "update", {
+      itemId: item.id,
+      data: { sections: ["blk1", { _block: "cta_block", id: "blk1", label: "Changed" }] }
+    });
+    assert.equal(updated.ok, true, updated.text);
+    const updateRequest = harness.cma.requests.find(request => request.method === "PUT");
+    const [, changed] = (updateRequest?.body as { data: { attributes: { sections: unknown[] } } }).data.attributes.sections;
+    assert.deepEqual(changed, {
+      type: "item",
+      id: "blk1",
+      attributes: { label: "Changed" },
+      relationships: { item_type: { data: { type: "item_type", id: ctaId } } }
+    });
+  });
+
+  it("reports every invalid _block before sending anything", async () => {
+    const { store } = harness.cma;
+    const ctaId = store.addItemType({ name: "CTA", api_key: "cta_block", modular_block: true }).id;
+    store.addField(ctaId, { label: "Label", api_key: "label", field_type: "string", validators: { required: {} } });
+    store.addItemType({ name: "Quote", api_key: "quote_block", modular_block: true });
+    store.addField(blogPostId, { label: "Sections", api_key: "sections", field_type: "rich_text", validators: { rich_text_blocks: { item_types: [ctaId] } } });
+
+    const result = await harness.call("datocms_records", "create", {
+      itemType: blogPostId,
+      data: {
+        title: { en: "Hello" },
+        sections: [{ _block: "quote_block" }, { _block: "cta_block", colour: "red" }, { _block: "missing_block" }]
+      }
+    });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /sections\[0\]: 'quote_block' blocks aren't allowed in 'sections' \(allowed: cta_block\)/);
+    assert.match(result.text, /sections\[1\]: 'cta_block' has no field 'colour'/);
+    assert.match(result.text, /sections\[1\]: 'cta_block' requires 'label'/);
+    assert.match(result.text, /sections\[2\]: 'missing_block' isn't a block model/);
+    assert.equal(harness.cma.requests.filter(request => request.method === "POST").length, 0);
+  });
+
+  it("validates the data against the model on request and lists every issue before sending", async () => {
+    const { store } = harness.cma;
+    const authorId = store.addItemType({ name: "Author", api_key: "author" }).id;
+    const author = store.addItem(authorId, {});
+    const otherPost = store.addItem(blogPostId, { title: { en: "Other" } });
+    store.addField(blogPostId, { label: "Kind", api_key: "kind", field_type: "string", validators: { enum: { values: ["news", "tips"] } } });
+    store.addField(blogPostId, { label: "Rating", api_key: "rating", field_type: "integer", validators: { number_range: { min: 1, max: 5 } } });
+    store.addField(blogPostId, { label: "Slug", api_key: "slug", field_type: "slug", validators: { slug_format: { predefined_pattern: "webpage_slug" }, length: { max: 10 } } });
+    store.addField(blogPostId, { label: "Author", api_key: "author", field_type: "link", validators: { item_item_type: { item_types: [authorId] } } });
+    store.addField(blogPostId, { label: "Related", api_key: "related", field_type: "links" });
+
+    const result = await harness.call("datocms_records", "create", {
+      itemType: blogPostId,
+      data: {
+        title: { en: "", fr: "Bonjour" },
+        category: { en: "news" },
+        kind: "events",
+        rating: 7,
+        slug: "Not A Slug!",
+        author: otherPost.id,
+        related: [author.id, "missing"],
+        subtitle: "Hi"
+      },
+      validate: true
+    });
+
+    assert.equal(result.ok, false);
+    assert.equal(result.json.meta.error_code, "VALIDATION_ERROR");
+    assert.deepEqual(
+      result.json.meta.validation_errors.map((issue: { path: string; code: string }) => `${issue.path} ${issue.code}`),
+      [
+        "title[en] VALIDATION_REQUIRED",
+        "title[fr] INVALID_LOCALES",
+        "category VALIDATION_INVALID_LOCALIZED_VALUE",
+        "kind VALIDATION_ENUM",
+        "rating VALIDATION_NUMBER_RANGE",
+        "slug VALIDATION_LENGTH",
+        "subtitle VALIDATION_UNKNOWN_FIELD",
+        `author VALIDATION_LINK_ITEM_TYPE`,
+        "related[1] VALIDATION_LINK_NOT_FOUND"
+      ]
+    );
+    assert.match(result.text, /rating: must be at least 1 and at most 5/);
+    assert.equal(harness.cma.requests.filter(request => request.method === "POST").length, 0);
+  });
+
+  it("validates update data on request, and otherwise sends it as is", async () => {
+    const post = harness.cma.store.addItem(blogPostId, { title: { en: "Hello" } });
+
+    const invalid = await harness.call("datocms_records", "update", {
+      itemId: post.id,
+      data: { title: { en: 42 }, category: ["news"] },
+      validate: true
+    });
+
+    assert.equal(invalid.ok, false);
+    assert.match(invalid.text, /title\[en\]: string fields take a string, got a number/);
+    assert.match(invalid.text, /category: string fields take a string, got an array/);
+    assert.equal(harness.cma.requests.filter(request => request.method === "PUT").length, 0);
+
+    const valid = await harness.call("datocms_records", "update", {
+      itemId: post.id,
+      data: { category: "news" }
+    });
+
+    assert.equal(valid.ok, true, valid.text);
+    assert.equal(harness.cma.requests.filter(request => request.path === "/site").length, 1);
+    assert.equal(harness.cma.store.find("item", post.id)?.attributes.category, "news");
+  });
+
+  it("updates a record and keeps its version history", async () => {
+    const item = harness.cma.store.addItem(blogPostId, { title: { en: "Old" }, category: "news" });
+
+    const update = await harness.call("datocms_records", "update", {
+      itemId: item.id,
+      data: { title: { en: "New" } },
+      returnOnlyConfirmation: false
+    });
+    assert.equal(update.ok, true, update.text);
+    assert.deepEqual(harness.cma.store.find("item", item.id)?.attributes.title, { en: "New" });
+
+    const versions = await harness.call("datocms_records", "versions_list", { itemId: item.id, returnOnlyIds: true });
+    assert.equal(versions.ok, true, versions.text);
+    assert.equal(versions.json.data.length, 2);
+  });
+
+  it("diffs two versions field by field, with word and structured text node diffs", async () => {
+    const { store } = harness.cma;
+    store.addField(blogPostId, { label: "Body", api_key: "body", field_type: "structured_text" });
+    store.addField(blogPostId, { label: "Related", api_key: "related", field_type: "links" });
+    const document = (...paragraphs: string[]) => ({
+      schema: "dast",
+      document: { type: "root", children: paragraphs.map(value => ({ type: "paragraph", children: [{ type: "span", value }] })) }
+    });
+    const [first, second, third] = [1, 2, 3].map(index => store.addItem(blogPostId, { title: { en: `Post ${index}` } }).id);
+    const post = store.addItem(blogPostId, {
+      title: { en: "Hello world", it: "Ciao" },
+      category: "news",
+      body: document("Intro", "Old ending"),
+      related: [first, second]
+    }, { published: true });
+    const publishedVersion = post.meta?.current_version as string;
+
+    const update = await harness.call("datocms_records", "update", {
+      itemId: post.id,
+      data: { title: { en: "Hello brave world", it: "Ciao" }, body: document("Intro", "New ending", "Added"), related: [second, third] }
+    });
+    assert.equal(update.ok, true, update.text);
+
+    const diff = await harness.call("datocms_records", "version_diff", { itemId: post.id });
+    assert.equal(diff.ok, true, diff.text);
+    assert.deepEqual(diff.json.data.from, { version: "published", published_at: post.meta?.published_at });
+    assert.deepEqual(diff.json.data.changes, [
+      { field: "title", locale: "en", field_type: "string", change: "changed", diff: "Hello {+brave +}world" },
+      {
+        field: "body",
+        field_type: "structured_text",
+        change: "changed",
+        nodes: [
+          { change: "changed", type: "paragraph", diff: "[-Old-]{+New+} ending" },
+          { change: "added", type: "paragraph", text: "Added" }
+        ]
+      },
+      { field: "related", field_type: "links", change: "changed", added: [third], removed: [first] }
+    ]);
+    assert.match(diff.json.message, /3 of 4 field\(s\) changed/);
+
+    const byId = await harness.call("datocms_records", "version_diff", { itemId: post.id, from: publishedVersion, to: "published" });
+    assert.equal(byId.ok, true, byId.text);
+    assert.deepEqual(byId.json.data.changes, []);
+
+    const draft = await harness.call("datocms_records", "version_diff", { itemId: first });
+    assert.equal(draft.ok, false);
+    assert.match(draft.text, /isn't published/);
+  });
+
+  it("diffs the content of blocks that kept their ID, or flags them when only IDs are available", async () => {
+    const { store } = harness.cma;
+    const quoteId = store.addItemType({ name: "Quote", api_key: "quote_block", modular_block: true }).id;
+    store.addField(quoteId, { label: "Text", api_key: "text", field_type: "string" });
+    store.addField(blogPostId, { label: "Sections", api_key: "sections", field_type: "rich_text" });
+    store.addField(blogPostId, { label: "Body", api_key: "body", field_type: "structured_text" });
+    const [edited, untouched, inBody] = ["One", "Two", "Three"].map(text => store.addItem(quoteId, { text }, { published: true }).id) as [string, string, string];
+    const post = store.addItem(blogPostId, {
+      title: { en: "Hello" },
+      sections: [edited, untouched],
+      body: { schema: "dast", document: { type: "root", children: [{ type: "block", item: inBody }] } }
+    }, { published: true });
+    const publishedVersion = post.meta?.current_version as string;
+    store.find("item", edited)!.attributes = { text: "One, edited" };
+
+    const diff = await harness.call("datocms_records", "version_diff", { itemId: post.id });
+    assert.equal(diff.ok, true, diff.text);
+    assert.deepEqual(diff.json.data.changes, [
+      { field: "sections", field_type: "rich_text", change: "changed", changedBlocks: [edited] }
+    ]);
+
+    const byId = await harness.call("datocms_records", "version_diff", { itemId: post.id, from: publishedVersion });
+    assert.equal(byId.ok, true, byId.text);
+    assert.deepEqual(byId.json.data.changes, [
+      { field: "sections", field_type: "rich_text", change: "may_have_changed", uncomparedBlocks: [edited, untouched] },
+      { field: "body", field_type: "structured_text", change: "may_have_changed", uncomparedBlocks: [inBody] }
+    ]);
+    assert.match(byId.json.message, /0 of 4 field\(s\) changed.*The blocks of 2 field\(s\) were only compared by ID/);
+  });
+
+  it("merges the provided locales and blocks into the current record", async () => {
+    harness.cma.store.addField(blogPostId, { label: "Sections", api_key: "sections", field_type: "rich_text" });
+    const item = harness.cma.store.addItem(blogPostId, { title: { en: "Hello", it: "Ciao" }, category: "news", sections: ["b1", "b2"] });
+    const changedBlock = { type: "item", id: "b2", attributes: { text: "Changed" } };
+    const newBlock = { type: "item", attributes: { text: "New" }, relationships: { item_type: { data: { type: "item_type", id: "quote" } } } };
+
+    const update = await harness.call("datocms_records", "update", {
+      itemId: item.id,
+      data: { title: { it: "Salve", en: "Hello" }, sections: [changedBlock, newBlock] },
+      mergeLocales: true
+    });
+
+    assert.equal(update.ok, true, update.text);
+    assert.deepEqual(update.json.meta.changedLocales, { title: ["it"] });
+    assert.match(update.json.message, /Changed locales: title \(it\)/);
+    const request = harness.cma.requests.find(entry => entry.method === "PUT");
+    const attributes = (request?.body as { data: { attributes: Record<string, unknown> } }).data.attributes;
+    assert.deepEqual(attributes.title, { en: "Hello", it: "Salve" });
+    assert.deepEqual(attributes.sections, ["b1", changedBlock, newBlock]);
+  });
+
+  it("adds a merged locale to every localized field of the record", async () => {
+    const { store } = harness.cma;
+    store.addField(blogPostId, { label: "Subtitle", api_key: "subtitle", field_type: "string", localized: true });
+    const item = store.addItem(blogPostId, { title: { en: "Hello" }, subtitle: { en: "World" }, category: "news" });
+
+    const update = await harness.call("datocms_records", "update", {
+      itemId: item.id,
+      data: { title: { it: "Ciao" } },
+      mergeLocales: true
+    });
+
+    assert.equal(update.ok, true, update.text);
+    assert.deepEqual(update.json.meta.changedLocales, { title: ["it"] });
+    assert.deepEqual(store.find("item", item.id)?.attributes, {
+      title: { en: "Hello", it: "Ciao" },
+      subtitle: { en: "World", it: null },
+      category: "news"
+    });
+  });
+
+  it("bulk updates the records matching a query after previewing the count", async () => {
+    const { store } = harness.cma;
+    const first = store.addItem(blogPostId, { title: { en: "One", it: "Uno" }, category: "news" });
+    const second = store.addItem(blogPostId, { title: { en: "Two" }, category: "news" });
+    const other = store.addItem(blogPostId, { title: { en: "Three" }, category: "tips" });
+    const args = { modelName: "blog_post", fields: { category: { eq: "news" } }, data: { title: { it: "Notizia" }, category: "archive" } };
+
+    const preview = await harness.call("datocms_records", "bulk_update", args);
+    assert.equal(preview.ok, true, preview.text);
+    assert.equal(preview.json.data.confirmationRequired, true);
+    assert.deepEqual(preview.json.data.preview, { matchedCount: 2, sampleIds: [first.id, second.id] });
+    assert.equal(harness.cma.requests.filter(request => request.method === "PUT").length, 0);
+
+    const result = await harness.call("datocms_records", "bulk_update", { ...args, confirmationToken: preview.json.data.confirmationToken });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(result.json.data.succeeded, 2);
+    assert.deepEqual(store.find("item", first.id)?.attributes, { title: { en: "One", it: "Notizia" }, category: "archive" });
+    assert.deepEqual(store.find("item", second.id)?.attributes, { title: { en: "Two", it: "Notizia" }, category: "archive" });
+    assert.deepEqual(store.find("item", other.id)?.attributes.category, "tips");
+  });
+
+  it("finds and replaces text in strings and structured text, keeping the document structure", async () => {
+    const { store } = harness.cma;
+    store.addField(blogPostId, { label: "Body", api_key: "body", field_type: "structured_text", localized: true });
+    const body = (text: string) => ({
+      schema: "dast",
+      document: {
+        type: "root",
+        children: [{
+          type: "paragraph",
+          children: [
+            { type: "span", value: text, marks: ["strong"] },
+            { type: "link", url: "https://acme.com/about", children: [{ type: "span", value: "About us" }] }
+          ]
+        }]
+      }
+    });
+    const item = store.addItem(blogPostId, {
+      title: { en: "Acme news", it: "Notizie Acme" },
+      category: "acme",
+      body: { en: body("Welcome to Acme"), it: body("Benvenuti in Acme") }
+    });
+    const untouched = store.addItem(blogPostId, { title: { en: "Other" }, category: "tips" });
+    const args = { modelName: "blog_post", find: "Acme", replace: "Globex", locale: "en" };
+
+    const preview = await harness.call("datocms_records", "find_replace", args);
+    assert.equal(preview.ok, true, preview.text);
+    assert.equal(preview.json.data.confirmationRequired, true);
+    assert.equal(preview.json.data.preview.matchedRecords, 1);
+    assert.equal(preview.json.data.preview.replacements, 2);
+    assert.deepEqual(preview.json.data.preview.samples[1], {
+      id: item.id,
+      field: "body[en]",
+      location: "span",
+      before: "Welcome to Acme",
+      after: "Welcome to Globex"
+    });
+    assert.equal(harness.cma.requests.filter(request => request.method === "PUT").length, 0);
+
+    const result = await harness.call("datocms_records", "find_replace", { ...args, confirmationToken: preview.json.data.confirmationToken });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(result.json.data.succeeded, 1);
+    const attributes = store.find("item", item.id)?.attributes ?? {};
+    assert.deepEqual(attributes.title, { en: "Globex news", it: "Notizie Acme" });
+    assert.equal(attributes.category, "acme");
+    assert.deepEqual(attributes.body, { en: body("Welcome to Globex"), it: body("Benvenuti in Acme") });
+    assert.deepEqual(store.find("item", untouched.id)?.attributes.title, { en: "Other" });
+  });
+
+  it("rejects a find_replace pattern that matches empty text", async () => {
+    const result = await harness.call("datocms_records", "find_replace", { modelName: "blog_post", find: "x*", replace: "y", regex: true });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /matches empty text/);
+  });
+
+  it("publishes records in bulk and reports each failed ID", async () => {
+    const item = harness.cma.store.addItem(blogPostId, { title: { en: "Ready" } });
+
+    const result = await harness.call("datocms_records", "bulk_publish", { itemIds: [item.id, "missing"], recursive: false });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(result.json.data.succeeded, 1);
+    assert.equal(result.json.data.failed, 1);
+    assert.equal(result.json.data.results.find((entry: { id: string }) => entry.id === "missing").success, false);
+    assert.equal(harness.cma.store.find("item", item.id)?.meta?.status, "published");
+  });
+
+  it("destroys a record only after confirmation", async () => {
+    const item = harness.cma.store.addItem(blogPostId, { title: { en: "Doomed" } });
+
+    const first = await harness.call("datocms_records", "destroy", { itemId: item.id });
+    assert.equal(first.ok, true, first.text);
+    assert.equal(first.json.data.confirmationRequired, true);
+    assert.deepEqual(first.json.data.preview, { record: { id: item.id, title: "Doomed", model: "blog_post", status: item.meta?.status } });
+    assert.ok(harness.cma.store.find("item", item.id), "the record must survive the first call");
+
+    const confirmed = await harness.call("datocms_records", "destroy", {
+      itemId: item.id,
+      confirmationToken: first.json.data.confirmationToken
+    });
+    assert.equal(confirmed.ok, true, confirmed.text);
+    assert.equal(harness.cma.store.find("item", item.id), undefined);
+  });
+});
+
+describe("datocms_records fetch-all size budget", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness({ env: { DATOCMS_FETCH_ALL_MAX_BYTES: "1000" } });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  it("cuts the response off at the budget with a cursor", async () => {
+    const { store } = harness.cma;
+    const modelId = store.addItemType({ name: "Note", api_key: "note" }).id;
+    store.addField(modelId, { label: "Body", api_key: "body", field_type: "text" });
+    for (let index = 0; index < 20; index++) {
+      store.addItem(modelId, { body: "x".repeat(200) });
+    }
+
+    const result = await harness.call("datocms_records", "query", { modelName: "note", all: true, returnAllLocales: true });
+
+    assert.equal(result.ok, true, result.text);
+    assert.ok(result.json.data.length > 0 && result.json.data.length < 20, `got ${result.json.data.length} records`);
+    assert.equal(result.json.meta.pagination.has_more, true);
+    assert.match(result.json.message, /size budget/);
+  });
+});
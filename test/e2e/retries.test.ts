@@ -0,0 +1,113 @@
+/**
+ * @file retries.test.ts
+ * @description End-to-end tests for the retry layer: CMA client calls and raw
+ * fetches against the mock CMA, with injected failures
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { startHarness, type TestHarness } from "../helpers/mcpHarness.js";
+
+describe("retries", () => {
+  let harness: TestHarness;
+  let directory: string;
+  let filePath: string;
+
+  before(async () => {
+    harness = await startHarness({ env: { DATOCMS_MAX_RETRIES: "2" } });
+    directory = await mkdtemp(path.join(tmpdir(), "datocms-retries-"));
+    filePath = path.join(directory, "photo.png");
+    await writeFile(filePath, Buffer.from("fake image"));
+  });
+
+  after(async () => {
+    await harness.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+  });
+
+  /**
+   * Counts the requests the mock CMA received for a method and path
+   */
+  const countRequests = (method: string, requestPath: string) =>
+    harness.cma.requests.filter(request => request.method === method && request.path === requestPath).length;
+
+  it("waits the seconds given by Retry-After and reports the retries in debug output", async () => {
+    harness.cma.failNext({ method: "GET", path: "/site", status: 429, headers: { "Retry-After": "0.2" } });
+
+    const result = await harness.call("datocms_project", "get_info", { debug: true });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(countRequests("GET", "/site"), 2);
+    assert.deepEqual(result.json.meta.debug.api, { attempts: 2, retries: 1, retryWaitMs: 200 });
+    assert.ok(result.json.meta.debug.context.trace.some((line: string) => /Retried 1 API call\(s\), waiting 200ms/.test(line)));
+  });
+
+  it("waits until the HTTP date given by Retry-After", async () => {
+    const retryAt = new Date(Date.now() + 2000).toUTCString();
+    harness.cma.failNext({ method: "GET", path: "/site", status: 503, headers: { "Retry-After": retryAt } });
+
+    const result = await harness.call("datocms_project", "get_info", { debug: true });
+
+    assert.equal(result.ok, true, result.text);
+    const { retries, retryWaitMs } = result.json.meta.debug.api;
+    assert.equal(retries, 1);
+    // HTTP dates have whole seconds, so the wait is up to a second shorter
+    assert.ok(retryWaitMs > 800 && retryWaitMs <= 2000, `waited ${retryWaitMs}ms`);
+  });
+
+  it("waits for X-RateLimit-Reset when there is no Retry-After", async () => {
+    harness.cma.failNext({ method: "GET", path: "/site", status: 429, headers: { "X-RateLimit-Reset": "0.3" }, times: 2 });
+
+    const result = await harness.call("datocms_project", "get_info", { debug: true });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(countRequests("GET", "/site"), 3);
+    assert.deepEqual(result.json.meta.debug.api, { attempts: 3, retries: 2, retryWaitMs: 600 });
+  });
+
+  it("gives up once the retries run out", async () => {
+    harness.cma.failNext({ method: "GET", path: "/site", status: 503, headers: { "Retry-After": "0" }, times: 3 });
+
+    const result = await harness.call("datocms_project", "get_info", {});
+
+    assert.equal(result.ok, false);
+    assert.equal(countRequests("GET", "/site"), 3);
+  });
+
+  it("doesn't retry server errors of non-idempotent POSTs", async () => {
+    const model = harness.cma.store.addItemType({ name: "Post", api_key: "post" });
+    harness.cma.store.addField(model.id, { label: "Title", api_key: "title", field_type: "string" });
+    harness.cma.failNext({ method: "POST", path: "/items", status: 503, headers: { "Retry-After": "0" } });
+
+    const created = await harness.call("datocms_records", "create", { itemType: model.id, data: { title: "Once" } });
+
+    assert.equal(created.ok, false);
+    assert.equal(countRequests("POST", "/items"), 1);
+
+    harness.cma.failNext({ method: "POST", path: "/upload-requests", status: 503, headers: { "Retry-After": "0" } });
+
+    const uploaded = await harness.call("datocms_uploads", "create", { path: filePath });
+
+    assert.equal(uploaded.ok, false);
+    assert.match(uploaded.text, /Upload request failed: 503/);
+    assert.equal(countRequests("POST", "/upload-requests"), 1);
+  });
+
+  it("retries rate-limited raw fetches, POSTs included", async () => {
+    harness.cma.failNext({ method: "POST", path: "/upload-requests", status: 429, headers: { "Retry-After": "0.1" } });
+
+    const result = await harness.call("datocms_uploads", "create", { path: filePath, debug: true });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(countRequests("POST", "/upload-requests"), 2);
+    assert.equal(harness.cma.store.list("upload").length, 1);
+    assert.equal(result.json.meta.debug.api.retries, 1);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @file schema.test.ts
+ * @description End-to-end tests for the datocms_schema router
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type TestHarness } from "../helpers/mcpHarness.js";
+
+describe("datocms_schema", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+  });
+
+  it("creates a model and lists it", async () => {
+    const created = await harness.call("datocms_schema", "create_item_type", { name: "Article", apiKey: "article" });
+    assert.equal(created.ok, true, created.text);
+
+    const listed = await harness.call("datocms_schema", "list_item_types", {});
+    assert.equal(listed.ok, true, listed.text);
+    assert.deepEqual(listed.json.data.map((itemType: { api_key: string }) => itemType.api_key), ["article"]);
+  });
+
+  it("reports a duplicate model API key", async () => {
+    harness.cma.store.addItemType({ name: "Article", api_key: "article" });
+
+    const result = await harness.call("datocms_schema", "create_item_type", { name: "Article again", apiKey: "article" });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /VALIDATION_UNIQUE/);
+  });
+
+  it("gets a model by ID", async () => {
+    const itemType = harness.cma.store.addItemType({ name: "Author", api_key: "author" });
+
+    const result = await harness.call("datocms_schema", "get_item_type", { itemTypeId: itemType.id });
+
+    assert.equal(result.ok, true, result.text);
+    assert.match(result.text, /"api_key": "author"/);
+  });
+
+  it("creates a field and lists the model's fields", async () => {
+    const itemType = harness.cma.store.addItemType({ name: "Author", api_key: "author" });
+
+    const created = await harness.call("datocms_schema", "create_field", {
+      itemTypeId: itemType.id,
+      label: "Name",
+      api_key: "name",
+      field_type: "string",
+      validators: { required: {} },
+      appearance: { editor: "single_line", parameters: { heading: false }, addons: [] }
+    });
+    assert.equal(created.ok, true, created.text);
+
+    const listed = await harness.call("datocms_schema", "list_fields", { itemTypeId: itemType.id });
+    assert.equal(listed.ok, true, listed.text);
+    assert.match(listed.text, /"api_key": "name"/);
+    assert.equal(harness.cma.store.fieldsOf(itemType.id).length, 1);
+  });
+
+  it("deletes a model only after confirmation", async () => {
+    const itemType = harness.cma.store.addItemType({ name: "Legacy", api_key: "legacy" });
+    harness.cma.store.addItem(itemType.id, {});
+    harness.cma.store.addItem(itemType.id, {});
+
+    const first = await harness.call("datocms_schema", "delete_item_type", { itemTypeId: itemType.id });
+    assert.equal(first.json?.data?.confirmationRequired, true, first.text);
+    assert.deepEqual(first.json.data.preview, {
+      model: { id: itemType.id, name: "Legacy", api_key: "legacy", modular_block: false },
+      records: 2
+    });
+    assert.ok(harness.cma.store.find("item_type", itemType.id));
+
+    const confirmed = await harness.call("datocms_schema", "delete_item_type", {
+      itemTypeId: itemType.id,
+      confirmationToken: first.json.data.confirmationToken
+    });
+    assert.equal(confirmed.ok, true, confirmed.text);
+    assert.equal(harness.cma.store.find("item_type", itemType.id), undefined);
+  });
+
+  it("previews the field and model a field deletion affects", async () => {
+    const itemType = harness.cma.store.addItemType({ name: "Article", api_key: "article" });
+    const field = harness.cma.store.addField(itemType.id, { label: "Subtitle", api_key: "subtitle", field_type: "string", localized: true });
+
+    const first = await harness.call("datocms_schema", "delete_field", { fieldId: field.id });
+
+    assert.equal(first.json?.data?.confirmationRequired, true, first.text);
+    assert.deepEqual(first.json.data.preview, {
+      field: { id: field.id, label: "Subtitle", api_key: "subtitle", field_type: "string", localized: true },
+      model: { id: itemType.id, name: "Article", api_key: "article" }
+    });
+    assert.equal(harness.cma.store.fieldsOf(itemType.id).length, 1);
+  });
+});
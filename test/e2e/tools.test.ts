@@ -0,0 +1,134 @@
+/**
+ * @file tools.test.ts
+ * @description End-to-end tests for tool registration and the smaller routers
+ * (parameters, project, locales, roles, UI)
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type TestHarness } from "../helpers/mcpHarness.js";
+
+describe("tool registration", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+  });
+
+  it("registers every router", async () => {
+    const { tools } = await harness.client.listTools();
+    const names = tools.map(tool => tool.name);
+
+    for (const name of [
+      "datocms_parameters",
+      "datocms_records",
+      "datocms_project",
+      "datocms_uploads",
+      "datocms_environments",
+      "datocms_roles",
+      "datocms_schema",
+      "datocms_webhook_and_build_triggers",
+      "datocms_ui",
+      "datocms_locales",
+      "datocms_jobs",
+      "datocms_graphql"
+    ]) {
+      assert.ok(names.includes(name), `missing tool ${name}`);
+    }
+  });
+
+  it("describes the parameters of an action without calling the API", async () => {
+    const result = await harness.callRaw("datocms_parameters", { resource: "records", action: "create" });
+
+    assert.equal(result.ok, true, result.text);
+    assert.match(result.text, /itemType/);
+    assert.equal(harness.cma.requests.length, 0);
+  });
+
+  it("reads the project info", async () => {
+    const result = await harness.call("datocms_project", "get_info", {});
+
+    assert.equal(result.ok, true, result.text);
+    assert.match(result.text, /Mock Site/);
+  });
+
+  it("lists the locales", async () => {
+    const result = await harness.call("datocms_locales", "list", {});
+
+    assert.equal(result.ok, true, result.text);
+    assert.deepEqual(result.json.data.map((locale: { code: string }) => locale.code), ["en", "it"]);
+  });
+
+  it("lists the roles", async () => {
+    harness.cma.store.insert({ id: "10", type: "role", attributes: { name: "Editor" } });
+
+    const result = await harness.call("datocms_roles", "list_roles", {});
+
+    assert.equal(result.ok, true, result.text);
+    assert.match(result.text, /Editor/);
+  });
+
+  it("previews the API token a deletion affects", async () => {
+    harness.cma.store.insert({ id: "40", type: "access_token", attributes: { name: "Website", can_access_cda: true, can_access_cma: false } });
+
+    const result = await harness.call("datocms_api_tokens", "destroy_token", { tokenId: "40" });
+
+    assert.equal(result.json?.data?.confirmationRequired, true, result.text);
+    assert.deepEqual(result.json.data.preview, { token: { id: "40", name: "Website", role: null, can_access_cda: true, can_access_cma: false } });
+    assert.ok(harness.cma.store.find("access_token", "40"));
+  });
+
+  it("lists the menu items", async () => {
+    harness.cma.store.insert({ id: "20", type: "menu_item", attributes: { label: "Blog", position: 1 } });
+    harness.cma.store.insert({
+      id: "21",
+      type: "menu_item",
+      attributes: { label: "Posts", position: 2 },
+      relationships: { parent: { data: { id: "20", type: "menu_item" } } }
+    });
+
+    const result = await harness.call("datocms_ui", "menu_item_list", {});
+
+    assert.equal(result.ok, true, result.text);
+    assert.match(result.text, /Blog/);
+    assert.match(result.text, /"parent_id": "20"/);
+  });
+});
+
+describe("read-only mode", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness({ env: { DATOCMS_READ_ONLY: "true" } });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  it("only exposes read actions", async () => {
+    await assert.rejects(
+      harness.call("datocms_environments", "fork", { environmentId: "main", newId: "sandbox" }),
+      /invalid_enum_value/
+    );
+
+    const listed = await harness.call("datocms_environments", "list", {});
+    assert.equal(listed.ok, true, listed.text);
+    assert.ok(harness.cma.requests.every(request => request.method === "GET"));
+  });
+
+  it("blocks records export, which writes files on the server", async () => {
+    await assert.rejects(
+      harness.call("datocms_records", "export", { modelName: "blog_post", path: "posts.csv" }),
+      /invalid_enum_value/
+    );
+  });
+});
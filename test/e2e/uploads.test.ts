@@ -0,0 +1,99 @@
+/**
+ * @file uploads.test.ts
+ * @description End-to-end tests for the datocms_uploads router
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { startHarness, type TestHarness } from "../helpers/mcpHarness.js";
+
+describe("datocms_uploads", () => {
+  let harness: TestHarness;
+  let workDir: string;
+
+  before(async () => {
+    harness = await startHarness();
+    workDir = await mkdtemp(join(tmpdir(), "datocms-mcp-uploads-"));
+  });
+
+  after(async () => {
+    await harness.close();
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+  });
+
+  it("uploads a local file", async () => {
+    const filePath = join(workDir, "notes.txt");
+    await writeFile(filePath, "hello uploads");
+
+    const result = await harness.call("datocms_uploads", "create", { path: filePath, author: "Tester" });
+
+    assert.equal(result.ok, true, result.text);
+    const [upload] = harness.cma.store.list("upload");
+    assert.equal(upload?.attributes.filename, "notes.txt");
+    assert.equal(upload?.attributes.size, "hello uploads".length);
+    assert.equal(upload?.attributes.author, "Tester");
+  });
+
+  it("gets and updates an upload", async () => {
+    const upload = harness.cma.store.addUpload({ filename: "cover.png" });
+
+    const fetched = await harness.call("datocms_uploads", "get", { uploadId: upload.id });
+    assert.equal(fetched.ok, true, fetched.text);
+    assert.match(fetched.text, /cover\.png/);
+
+    const updated = await harness.call("datocms_uploads", "update", { uploadId: upload.id, notes: "Hero image" });
+    assert.equal(updated.ok, true, updated.text);
+    assert.equal(harness.cma.store.find("upload", upload.id)?.attributes.notes, "Hero image");
+  });
+
+  it("previews the upload and collection a deletion affects", async () => {
+    const { store } = harness.cma;
+    const upload = store.addUpload({ filename: "hero.png" });
+    const modelId = store.addItemType({ name: "Page", api_key: "page" }).id;
+    store.addItem(modelId, { cover: { upload_id: upload.id } });
+    const collection = store.insert({ id: "30", type: "upload_collection", attributes: { label: "Heroes", position: 1 } });
+
+    const destroy = await harness.call("datocms_uploads", "destroy", { uploadId: upload.id });
+    assert.equal(destroy.json?.data?.confirmationRequired, true, destroy.text);
+    assert.equal(destroy.json.data.preview.upload.filename, "hero.png");
+    assert.equal(destroy.json.data.preview.referencingRecords, 1);
+
+    const deleteCollection = await harness.call("datocms_uploads", "delete_collection", { uploadCollectionId: collection.id });
+    assert.equal(deleteCollection.json?.data?.confirmationRequired, true, deleteCollection.text);
+    assert.deepEqual(deleteCollection.json.data.preview, { collection: { id: "30", label: "Heroes", children: [] } });
+    assert.ok(store.find("upload", upload.id));
+  });
+
+  it("fetches all uploads up to maxRecords and resumes from the cursor", async () => {
+    const ids = ["a.png", "b.png", "c.png"].map(filename => harness.cma.store.addUpload({ filename }).id);
+
+    const first = await harness.call("datocms_uploads", "query", { maxRecords: 2, returnOnlyIds: true });
+    assert.equal(first.ok, true, first.text);
+    assert.deepEqual(first.json.data.map((upload: { id: string }) => upload.id), ids.slice(0, 2));
+    assert.equal(first.json.meta.pagination.total, 3);
+
+    const rest = await harness.call("datocms_uploads", "query", { cursor: first.json.meta.pagination.next_cursor });
+    assert.equal(rest.ok, true, rest.text);
+    assert.deepEqual(rest.json.data.map((upload: { id: string }) => upload.id), ids.slice(2));
+    assert.equal(rest.json.data[0].filename, "c.png");
+  });
+
+  it("tags uploads in bulk", async () => {
+    const first = harness.cma.store.addUpload({ filename: "a.png", tags: ["old"] });
+    const second = harness.cma.store.addUpload({ filename: "b.png" });
+
+    const result = await harness.call("datocms_uploads", "bulk_tag", { uploadIds: [first.id, second.id], tags: ["hero"] });
+
+    assert.equal(result.ok, true, result.text);
+    assert.equal(result.json.data.succeeded, 2);
+    assert.deepEqual(harness.cma.store.find("upload", first.id)?.attributes.tags, ["old", "hero"]);
+    assert.deepEqual(harness.cma.store.find("upload", second.id)?.attributes.tags, ["hero"]);
+  });
+});
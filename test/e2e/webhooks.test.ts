@@ -0,0 +1,50 @@
+/**
+ * @file webhooks.test.ts
+ * @description End-to-end tests for the datocms_webhook_and_build_triggers router
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type TestHarness } from "../helpers/mcpHarness.js";
+
+describe("datocms_webhook_and_build_triggers", () => {
+  let harness: TestHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.cma.reset();
+  });
+
+  it("creates, lists and updates a webhook", async () => {
+    const created = await harness.call("datocms_webhook_and_build_triggers", "create", {
+      name: "Deploy hook",
+      url: "https://example.com/hook",
+      events: ["publish"]
+    });
+    assert.equal(created.ok, true, created.text);
+    const [webhook] = harness.cma.store.list("webhook");
+    assert.equal(webhook?.attributes.name, "Deploy hook");
+
+    const listed = await harness.call("datocms_webhook_and_build_triggers", "list", {});
+    assert.equal(listed.ok, true, listed.text);
+    assert.match(listed.text, /Deploy hook/);
+
+    const updated = await harness.call("datocms_webhook_and_build_triggers", "update", { webhookId: webhook?.id, name: "Renamed hook" });
+    assert.equal(updated.ok, true, updated.text);
+    assert.equal(harness.cma.store.find("webhook", webhook?.id ?? "")?.attributes.name, "Renamed hook");
+  });
+
+  it("reports a missing webhook", async () => {
+    const result = await harness.call("datocms_webhook_and_build_triggers", "retrieve", { webhookId: "404" });
+
+    assert.equal(result.ok, false);
+    assert.match(result.text, /404|not found/i);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * @file mcpHarness.ts
+ * @description End-to-end harness: the full MCP server and a client connected
+ * in memory, with the CMA client pointed at the mock CMA server and the
+ * GraphQL tool at the Content Delivery API stub
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "../../src/server.js";
+import { resetServerConfig } from "../../src/utils/serverConfig.js";
+import { UnifiedClientManager } from "../../src/utils/unifiedClientManager.js";
+import { startMockCmaServer, type MockCmaServer, type MockCmaServerOptions } from "../mocks/mockCmaServer.js";
+import { startMockGraphqlServer, type MockGraphqlServer } from "../mocks/mockGraphqlServer.js";
+
+/** Token the harness configures on the server */
+export const TEST_API_TOKEN = "test-api-token";
+
+/**
+ * Result of a tool call
+ */
+export interface ToolCallResult {
+  /** The response text (chunks joined) */
+  text: string;
+  /** The response parsed as JSON, when it is JSON */
+  json?: any;
+  /** Whether the response reports success (`success: true`, `status: "success"`, or plain text without an error) */
+  ok: boolean;
+}
+
+/**
+ * Options for a single tool call
+ */
+export interface CallOptions {
+  /** Receives the call's progress notifications (sends a progress token when set) */
+  onProgress?: (progress: Progress) => void;
+}
+
+/**
+ * Options for the harness
+ */
+export interface HarnessOptions extends MockCmaServerOptions {
+  /** Extra server env vars (e.g. DATOCMS_READ_ONLY) */
+  env?: Record<string, string>;
+}
+
+/**
+ * A running harness
+ */
+export interface TestHarness {
+  /** MCP client connected to the server */
+  client: Client;
+  /** The mock CMA the server talks to */
+  cma: MockCmaServer;
+  /** The Content Delivery API stub the GraphQL tool talks to */
+  graphql: MockGraphqlServer;
+  /**
+   * Calls a router tool
+   * @param tool Tool name (e.g. 'datocms_records')
+   * @param action Router action
+   * @param args Action arguments
+   * @param options Progress listener
+   */
+  call(tool: string, action: string, args?: Record<string, unknown>, options?: CallOptions): Promise<ToolCallResult>;
+  /** Calls a tool with raw arguments */
+  callRaw(tool: string, args: Record<string, unknown>, options?: CallOptions): Promise<ToolCallResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * Parses a tool call result
+ */
+function toResult(result: Awaited<ReturnType<Client["callTool"]>>): ToolCallResult {
+  const content = (result.content ?? []) as Array<{ type: string; text?: string }>;
+  const text = content.map(part => part.text ?? "").join("");
+
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+
+  // Handlers answer with either `success: boolean` or `status: "success" | "error"`
+  let ok: boolean;
+  if (json && typeof json === "object" && "success" in json) {
+    ok = json.success === true;
+  } else if (json && typeof json === "object" && "status" in json) {
+    ok = json.status === "success";
+  } else {
+    ok = !/^(Error|Invalid|Failed)/.test(text);
+  }
+  ok = ok && !result.isError;
+  return { text, json, ok };
+}
+
+/**
+ * Starts the mock CMA, the GraphQL stub and an MCP server/client pair wired to them
+ *
+ * The server is configured through env vars, which are restored on close, and
+ * with retries disabled so injected failures surface straight away.
+ *
+ * @param options Site locales and extra env vars
+ * @returns The running harness
+ */
+export async function startHarness(options: HarnessOptions = {}): Promise<TestHarness> {
+  const cma = await startMockCmaServer(options);
+  const graphql = await startMockGraphqlServer();
+
+  const env: Record<string, string> = {
+    DATOCMS_API_TOKEN: TEST_API_TOKEN,
+    DATOCMS_API_BASE_URL: cma.url,
+    DATOCMS_GRAPHQL_BASE_URL: graphql.url,
+    DATOCMS_MAX_RETRIES: "0",
+    ...options.env
+  };
+  const previousEnv = Object.fromEntries(Object.keys(env).map(key => [key, process.env[key]]));
+  Object.assign(process.env, env);
+  resetServerConfig();
+  UnifiedClientManager.clearCache();
+
+  const server = createServer();
+  const client = new Client({ name: "datocms-mcp-tests", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  const callRaw = async (tool: string, args: Record<string, unknown>, options: CallOptions = {}) =>
+    toResult(await client.callTool({ name: tool, arguments: args }, undefined, { onprogress: options.onProgress }));
+
+  return {
+    client,
+    cma,
+    graphql,
+    callRaw,
+    call: (tool, action, args = {}, options) => callRaw(tool, { action, args }, options),
+    async close() {
+      await client.close();
+      await server.close();
+      await cma.close();
+      await graphql.close();
+      for (const [key, value] of Object.entries(previousEnv)) {
+        if (value === undefined) {
+          delete process.env[key];
+        } else {
+          process.env[key] = value;
+        }
+      }
+      resetServerConfig();
+      UnifiedClientManager.clearCache();
+    }
+  };
+}
@@ -0,0 +1,1215 @@
+/**
+ * @file mockCmaServer.ts
+ * @description In-process fake of the DatoCMS Content Management API for tests
+ * Serves JSON:API responses over a local HTTP port, so a real CMA client built with
+ * `baseUrl` (or DATOCMS_API_BASE_URL) talks to it unchanged. Covers item types,
+ * fields, fieldsets, records (with versions and publishing), uploads, environments,
+ * webhooks and the site, plus async jobs. Any other collection (roles, menu items,
+ * build triggers, ...) gets generic CRUD. Content is shared across environments.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * Reference to a resource in a JSON:API relationship
+ */
+export interface ResourceIdentifier {
+  id: string;
+  type: string;
+}
+
+/**
+ * A resource as stored and served by the mock
+ */
+export interface MockResource {
+  id: string;
+  type: string;
+  attributes: Record<string, unknown>;
+  relationships?: Record<string, { data: ResourceIdentifier | ResourceIdentifier[] | null }>;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * A request received by the mock
+ */
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  /** Query string parsed into nested objects (`filter[type]=x` becomes `{ filter: { type: "x" } }`) */
+  query: Record<string, unknown>;
+  /** Value of the X-Environment header, if sent */
+  environment?: string;
+  /** Bearer token of the Authorization header, if sent */
+  apiToken?: string;
+  body?: unknown;
+}
+
+/**
+ * A failure to return instead of the normal response
+ */
+export interface MockFailure {
+  /** Only match this method (any method when omitted) */
+  method?: string;
+  /** Exact path or pattern to match */
+  path: string | RegExp;
+  status: number;
+  /** API error code (defaults to a code matching the status) */
+  code?: string;
+  details?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  /** How many matching requests fail (defaults to 1) */
+  times?: number;
+}
+
+/**
+ * Options for the mock server
+ */
+export interface MockCmaServerOptions {
+  /** Site locales (defaults to en and it) */
+  locales?: string[];
+}
+
+/**
+ * A running mock server
+ */
+export interface MockCmaServer {
+  /** Base URL to pass to the CMA client */
+  url: string;
+  /** The data served by the mock; seed it directly in tests */
+  store: MockCmaStore;
+  /** Every request received, in order */
+  requests: RecordedRequest[];
+  /** Makes the next matching request(s) fail */
+  failNext(failure: MockFailure): void;
+  /** Clears the data, the recorded requests and pending failures */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Error raised by a route, turned into a JSON:API error response
+ */
+class MockApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(code);
+  }
+}
+
+/** Error codes used when a failure doesn't name one */
+const DEFAULT_ERROR_CODES: Record<number, string> = {
+  401: "INVALID_AUTHORIZATION_HEADER",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  422: "INVALID_FIELD",
+  429: "RATE_LIMIT_EXCEEDED",
+  500: "INTERNAL_SERVER_ERROR",
+  503: "SERVICE_UNAVAILABLE"
+};
+
+/**
+ * In-memory data of the mock CMA
+ */
+export class MockCmaStore {
+  private collections = new Map<string, Map<string, MockResource>>();
+  private lastId = 0;
+  /** Published snapshot of each record's attributes, keyed by record ID */
+  readonly publishedAttributes = new Map<string, Record<string, unknown>>();
+  /** Uploaded file sizes, keyed by upload request path */
+  readonly bucket = new Map<string, number>();
+
+  constructor(private readonly locales: string[] = ["en", "it"]) {
+    this.seedDefaults();
+  }
+
+  /**
+   * Clears every collection and restores the site and primary environment
+   */
+  reset(): void {
+    this.collections.clear();
+    this.publishedAttributes.clear();
+    this.bucket.clear();
+    this.lastId = 0;
+    this.seedDefaults();
+  }
+
+  private seedDefaults(): void {
+    this.insert({
+      id: "site",
+      type: "site",
+      attributes: { name: "Mock Site", locales: [...this.locales], timezone: "Europe/Rome", internal_domain: "mock-site.admin.datocms.com" }
+    });
+    this.insert({
+      id: "main",
+      type: "environment",
+      attributes: {},
+      meta: { status: "ready", primary: true, created_at: new Date().toISOString(), read_only_mode: false }
+    });
+    this.insert({ id: "maintenance_mode", type: "maintenance_mode", attributes: { active: false } });
+  }
+
+  /** Generates a new resource ID */
+  nextId(): string {
+    this.lastId += 1;
+    return String(this.lastId);
+  }
+
+  private collection(type: string): Map<string, MockResource> {
+    let collection = this.collections.get(type);
+    if (!collection) {
+      collection = new Map();
+      this.collections.set(type, collection);
+    }
+    return collection;
+  }
+
+  /** Lists the resources of a type, in insertion order */
+  list(type: string): MockResource[] {
+    return [...this.collection(type).values()];
+  }
+
+  /** Finds a resource by type and ID */
+  find(type: string, id: string): MockResource | undefined {
+    return this.collection(type).get(id);
+  }
+
+  /** Adds or replaces a resource */
+  insert(resource: MockResource): MockResource {
+    this.collection(resource.type).set(resource.id, resource);
+    return resource;
+  }
+
+  /** Removes a resource */
+  remove(type: string, id: string): boolean {
+    return this.collection(type).delete(id);
+  }
+
+  /** The site locales */
+  get siteLocales(): string[] {
+    return (this.find("site", "site")?.attributes.locales as string[] | undefined) ?? [];
+  }
+
+  /** Finds a model by ID or API key */
+  findItemType(idOrApiKey: string): MockResource | undefined {
+    return this.find("item_type", idOrApiKey)
+      ?? this.list("item_type").find(itemType => itemType.attributes.api_key === idOrApiKey);
+  }
+
+  /** Lists the fields of a model, by position */
+  fieldsOf(itemTypeId: string): MockResource[] {
+    return this.list("field")
+      .filter(field => relationshipId(field, "item_type") === itemTypeId)
+      .sort((a, b) => Number(a.attributes.position ?? 0) - Number(b.attributes.position ?? 0));
+  }
+
+  /**
+   * Seeds a model
+   * @param attributes Model attributes; name and api_key are required
+   */
+  addItemType(attributes: { name: string; api_key: string } & Record<string, unknown>): MockResource {
+    return this.insert({
+      id: this.nextId(),
+      type: "item_type",
+      attributes: {
+        singleton: false,
+        sortable: false,
+        modular_block: false,
+        tree: false,
+        draft_mode_active: false,
+        all_locales_required: false,
+        ...attributes
+      },
+      relationships: { fields: { data: [] }, fieldsets: { data: [] } }
+    });
+  }
+
+  /**
+   * Seeds a field on a model
+   * @param itemTypeId Model ID or API key
+   * @param attributes Field attributes; label, api_key and field_type are required
+   */
+  addField(
+    itemTypeId: string,
+    attributes: { label: string; api_key: string; field_type: string } & Record<string, unknown>
+  ): MockResource {
+    const itemType = this.findItemType(itemTypeId);
+    if (!itemType) {
+      throw new Error(`Unknown model '${itemTypeId}'`);
+    }
+    const field = this.insert({
+      id: this.nextId(),
+      type: "field",
+      attributes: {
+        localized: false,
+        validators: {},
+        appearance: { editor: "single_line", parameters: {}, addons: [] },
+        position: this.fieldsOf(itemType.id).length + 1,
+        hint: null,
+        default_value: null,
+        ...attributes
+      },
+      relationships: { item_type: { data: { id: itemType.id, type: "item_type" } }, fieldset: { data: null } }
+    });
+    this.linkField(itemType, field.id);
+    return field;
+  }
+
+  private linkField(itemType: MockResource, fieldId: string): void {
+    const fields = (itemType.relationships?.fields?.data as ResourceIdentifier[] | undefined) ?? [];
+    itemType.relationships = { ...itemType.relationships, fields: { data: [...fields, { id: fieldId, type: "field" }] } };
+  }
+
+  /**
+   * Seeds a record, bypassing validation
+   * @param itemTypeId Model ID or API key
+   * @param attributes Field values
+   * @param options Publish the record straight away
+   */
+  addItem(itemTypeId: string, attributes: Record<string, unknown>, options: { published?: boolean } = {}): MockResource {
+    const itemType = this.findItemType(itemTypeId);
+    if (!itemType) {
+      throw new Error(`Unknown model '${itemTypeId}'`);
+    }
+    const item = this.insert({
+      id: this.nextId(),
+      type: "item",
+      attributes: { ...attributes },
+      relationships: { item_type: { data: { id: itemType.id, type: "item_type" } } },
+      meta: newItemMeta()
+    });
+    this.addVersion(item);
+    if (options.published) {
+      this.publish(item);
+    }
+    return item;
+  }
+
+  /**
+   * Seeds an upload
+   * @param attributes Upload attributes; filename is required
+   */
+  addUpload(attributes: { filename: string } & Record<string, unknown>): MockResource {
+    const id = this.nextId();
+    return this.insert({
+      id,
+      type: "upload",
+      attributes: {
+        path: `/mock/${id}/${attributes.filename}`,
+        url: `https://www.datocms-assets.com/mock/${id}/${attributes.filename}`,
+        size: 1024,
+        mime_type: "image/png",
+        format: "png",
+        width: 100,
+        height: 100,
+        author: null,
+        copyright: null,
+        notes: null,
+        tags: [],
+        smart_tags: [],
+        default_field_metadata: {},
+        is_image: true,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        ...attributes
+      },
+      relationships: { upload_collection: { data: null } }
+    });
+  }
+
+  /** Records a new version of a record and makes it the current one */
+  addVersion(item: MockResource): MockResource {
+    for (const version of this.versionsOf(item.id)) {
+      version.meta = { ...version.meta, is_current: false };
+    }
+    const version = this.insert({
+      id: this.nextId(),
+      type: "item_version",
+      attributes: structuredClone(item.attributes),
+      relationships: {
+        item: { data: { id: item.id, type: "item" } },
+        item_type: { data: item.relationships?.item_type?.data ?? null },
+        editor: { data: { id: "mock-token", type: "access_token" } }
+      },
+      meta: { created_at: new Date().toISOString(), is_published: false, is_current: true, is_most_recent_published: false }
+    });
+    item.meta = { ...item.meta, current_version: version.id, updated_at: version.meta?.created_at };
+    return version;
+  }
+
+  /** Lists the versions of a record, newest first */
+  versionsOf(itemId: string): MockResource[] {
+    return this.list("item_version")
+      .filter(version => relationshipId(version, "item") === itemId)
+      .reverse();
+  }
+
+  /** Publishes a record */
+  publish(item: MockResource): void {
+    const now = new Date().toISOString();
+    this.publishedAttributes.set(item.id, structuredClone(item.attributes));
+    item.meta = {
+      ...item.meta,
+      status: "published",
+      published_at: now,
+      first_published_at: item.meta?.first_published_at ?? now
+    };
+    for (const version of this.versionsOf(item.id)) {
+      version.meta = { ...version.meta, is_published: version.id === item.meta.current_version, is_most_recent_published: version.id === item.meta.current_version };
+    }
+  }
+
+  /** Unpublishes a record */
+  unpublish(item: MockResource): void {
+    this.publishedAttributes.delete(item.id);
+    item.meta = { ...item.meta, status: "draft", published_at: null };
+  }
+}
+
+/**
+ * Reads the ID of a to-one relationship
+ */
+function relationshipId(resource: MockResource, name: string): string | undefined {
+  const data = resource.relationships?.[name]?.data;
+  return data && !Array.isArray(data) ? data.id : undefined;
+}
+
+/**
+ * Builds the meta of a new record
+ */
+function newItemMeta(): Record<string, unknown> {
+  const now = new Date().toISOString();
+  return {
+    created_at: now,
+    updated_at: now,
+    published_at: null,
+    first_published_at: null,
+    publication_scheduled_at: null,
+    unpublishing_scheduled_at: null,
+    status: "draft",
+    is_valid: true,
+    is_current_version_valid: true,
+    is_published_version_valid: true,
+    current_version: null,
+    stage: null,
+    has_children: null
+  };
+}
+
+/**
+ * Parses a query string into nested objects, following the CMA client's encoding
+ * (`a[b]=1` for objects, `a[]=1` for arrays)
+ */
+export function parseNestedQuery(params: URLSearchParams): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of params) {
+    // "filter[ids][]" becomes ["filter", "ids", ""]; a trailing "" marks an array
+    const parts = key.replace(/\]/g, "").split("[");
+    const isArray = parts.length > 1 && parts[parts.length - 1] === "";
+    const keys = isArray ? parts.slice(0, -1) : parts;
+    let target = result;
+
+    keys.forEach((part, index) => {
+      if (index === keys.length - 1) {
+        if (isArray) {
+          const list = Array.isArray(target[part]) ? target[part] as unknown[] : [];
+          list.push(value);
+          target[part] = list;
+        } else {
+          target[part] = value;
+        }
+        return;
+      }
+      if (typeof target[part] !== "object" || target[part] === null || Array.isArray(target[part])) {
+        target[part] = {};
+      }
+      target = target[part] as Record<string, unknown>;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Splits a list parameter sent either as `a,b` or `a[]=a&a[]=b`
+ */
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return typeof value === "string" ? value.split(",").map(part => part.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Checks a value against a filter[fields] condition such as `{ eq: "x" }`
+ */
+function matchesCondition(value: unknown, operator: string, expected: unknown): boolean {
+  const asComparable = (input: unknown): string | number =>
+    typeof input === "number" ? input : Number.isFinite(Number(input)) && input !== "" ? Number(input) : String(input);
+
+  switch (operator) {
+    case "eq":
+      return String(value) === String(expected);
+    case "neq":
+      return String(value) !== String(expected);
+    case "in":
+      return toList(expected).includes(String(value));
+    case "not_in":
+      return !toList(expected).includes(String(value));
+    case "any_in":
+      return Array.isArray(value) && value.some(entry => toList(expected).includes(String(entry)));
+    case "exists":
+      return (String(expected) === "true") === (value !== null && value !== undefined && value !== "");
+    case "gt":
+      return asComparable(value) > asComparable(expected);
+    case "gte":
+      return asComparable(value) >= asComparable(expected);
+    case "lt":
+      return asComparable(value) < asComparable(expected);
+    case "lte":
+      return asComparable(value) <= asComparable(expected);
+    case "matches": {
+      const pattern = typeof expected === "object" && expected !== null ? (expected as Record<string, unknown>).pattern : expected;
+      return String(value ?? "").toLowerCase().includes(String(pattern).toLowerCase());
+    }
+    default:
+      throw new MockApiError(422, "INVALID_FILTER", { operator });
+  }
+}
+
+/**
+ * Context passed to route handlers
+ */
+interface RouteContext {
+  params: string[];
+  query: Record<string, unknown>;
+  body: { data?: any } | undefined;
+  store: MockCmaStore;
+  baseUrl: string;
+  createJob: (status: number, payload: unknown) => RouteResult;
+}
+
+/**
+ * What a route handler returns
+ */
+interface RouteResult {
+  status?: number;
+  body?: unknown;
+}
+
+type Route = [method: string, pattern: RegExp, handler: (context: RouteContext) => RouteResult];
+
+/**
+ * Wraps resources in a JSON:API document
+ */
+function document(data: MockResource | MockResource[] | null, meta?: Record<string, unknown>): RouteResult {
+  return { body: meta ? { data, meta } : { data } };
+}
+
+/**
+ * Finds a resource or raises a 404
+ */
+function mustFind(store: MockCmaStore, type: string, id: string | undefined): MockResource {
+  const resource = id === undefined ? undefined : store.find(type, id);
+  if (!resource) {
+    throw new MockApiError(404, "NOT_FOUND", { type, id });
+  }
+  return resource;
+}
+
+/**
+ * Applies page[offset]/page[limit] and adds the total count
+ */
+function paginate(resources: MockResource[], query: Record<string, unknown>, defaultLimit = 30): RouteResult {
+  const page = (query.page ?? {}) as Record<string, unknown>;
+  const offset = Number(page.offset ?? 0);
+  const limit = Number(page.limit ?? defaultLimit);
+  return document(resources.slice(offset, offset + limit), { total_count: resources.length });
+}
+
+/**
+ * Turns a request body into a new resource
+ */
+function resourceFromBody(store: MockCmaStore, body: RouteContext["body"], type: string): MockResource {
+  const data = body?.data ?? {};
+  return {
+    id: data.id ?? store.nextId(),
+    type,
+    attributes: { ...(data.attributes ?? {}) },
+    relationships: { ...(data.relationships ?? {}) },
+    ...(data.meta ? { meta: { ...data.meta } } : {})
+  };
+}
+
+/**
+ * Merges a request body into an existing resource
+ */
+function mergeBody(resource: MockResource, body: RouteContext["body"]): MockResource {
+  const data = body?.data ?? {};
+  resource.attributes = { ...resource.attributes, ...(data.attributes ?? {}) };
+  resource.relationships = { ...resource.relationships, ...(data.relationships ?? {}) };
+  return resource;
+}
+
+/**
+ * Validates record attributes against the model's fields and the site locales
+ */
+function validateItemAttributes(store: MockCmaStore, itemTypeId: string, attributes: Record<string, unknown>, isCreate: boolean): void {
+  const fields = store.fieldsOf(itemTypeId);
+  const byApiKey = new Map(fields.map(field => [field.attributes.api_key as string, field]));
+  const locales = store.siteLocales;
+
+  for (const [key, value] of Object.entries(attributes)) {
+    const field = byApiKey.get(key);
+    if (!field) {
+      throw new MockApiError(422, "INVALID_FIELD", { field: key, code: "VALIDATION_UNKNOWN_FIELD", message: `Field '${key}' does not exist on this model` });
+    }
+    if (field.attributes.localized) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new MockApiError(422, "INVALID_FIELD", { field: key, code: "VALIDATION_INVALID_LOCALIZED_VALUE" });
+      }
+      const unknownLocales = Object.keys(value).filter(locale => !locales.includes(locale));
+      if (unknownLocales.length > 0) {
+        throw new MockApiError(422, "INVALID_LOCALES", { field: key, locales: unknownLocales });
+      }
+    }
+  }
+
+  if (isCreate) {
+    for (const field of fields) {
+      const validators = (field.attributes.validators ?? {}) as Record<string, unknown>;
+      const value = attributes[field.attributes.api_key as string];
+      if (validators.required && (value === undefined || value === null || value === "")) {
+        throw new MockApiError(422, "INVALID_FIELD", { field: field.attributes.api_key, code: "VALIDATION_REQUIRED" });
+      }
+    }
+  }
+}
+
+/**
+ * Checks that the localized fields of a record share one locale set, like the CMA
+ */
+function validateItemLocales(store: MockCmaStore, itemTypeId: string, attributes: Record<string, unknown>): void {
+  let expected: string | undefined;
+  for (const field of store.fieldsOf(itemTypeId)) {
+    const value = attributes[field.attributes.api_key as string];
+    if (!field.attributes.localized || typeof value !== "object" || value === null) {
+      continue;
+    }
+    const locales = Object.keys(value).sort().join(",");
+    expected ??= locales;
+    if (locales !== expected) {
+      throw new MockApiError(422, "INVALID_LOCALES", { field: field.attributes.api_key, message: "All localized fields must have the same locales" });
+    }
+  }
+}
+
+/**
+ * Replaces the block IDs of a record's Modular Content, Single Block and
+ * Structured Text fields with the blocks' full payloads, as `nested=true` does
+ * @param published Use the blocks' published content, when they have one
+ */
+function nestBlocks(store: MockCmaStore, itemTypeId: string, attributes: Record<string, unknown>, published: boolean): Record<string, unknown> {
+  const expand = (id: unknown): unknown => {
+    const block = typeof id === "string" ? store.find("item", id) : undefined;
+    if (!block) {
+      return id;
+    }
+    const blockTypeId = relationshipId(block, "item_type") ?? "";
+    const blockAttributes = (published && store.publishedAttributes.get(block.id)) || block.attributes;
+    return { ...block, attributes: nestBlocks(store, blockTypeId, blockAttributes, published) };
+  };
+  const expandNodes = (node: unknown): unknown => {
+    if (typeof node !== "object" || node === null) {
+      return node;
+    }
+    const { type, item, children } = node as { type?: string; item?: unknown; children?: unknown[] };
+    return {
+      ...node,
+      ...((type === "block" || type === "inlineBlock") && { item: expand(item) }),
+      ...(Array.isArray(children) && { children: children.map(expandNodes) })
+    };
+  };
+  const expandValue = (fieldType: unknown, value: unknown): unknown => {
+    if (fieldType === "rich_text" && Array.isArray(value)) {
+      return value.map(expand);
+    }
+    if (fieldType === "single_block") {
+      return expand(value);
+    }
+    if (fieldType === "structured_text" && typeof value === "object" && value !== null && "document" in value) {
+      return { ...value, document: expandNodes((value as { document: unknown }).document) };
+    }
+    return value;
+  };
+
+  const nested = { ...attributes };
+  for (const field of store.fieldsOf(itemTypeId)) {
+    const apiKey = field.attributes.api_key as string;
+    const value = nested[apiKey];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    nested[apiKey] = field.attributes.localized && typeof value === "object"
+      ? Object.fromEntries(Object.entries(value).map(([locale, localeValue]) => [locale, expandValue(field.attributes.field_type, localeValue)]))
+      : expandValue(field.attributes.field_type, value);
+  }
+  return nested;
+}
+
+/**
+ * Filters, sorts and paginates records like GET /items
+ */
+function listItems(store: MockCmaStore, query: Record<string, unknown>): RouteResult {
+  const filter = (query.filter ?? {}) as Record<string, unknown>;
+  const published = query.version === "published";
+  let items = store.list("item");
+
+  if (filter.ids !== undefined) {
+    const ids = toList(filter.ids);
+    items = items.filter(item => ids.includes(item.id));
+  }
+  if (filter.type !== undefined) {
+    const typeIds = toList(filter.type).map(type => store.findItemType(type)?.id);
+    items = items.filter(item => typeIds.includes(relationshipId(item, "item_type")));
+  }
+  if (published) {
+    items = items
+      .filter(item => store.publishedAttributes.has(item.id))
+      .map(item => ({ ...item, attributes: store.publishedAttributes.get(item.id) ?? {} }));
+  }
+  if (filter.query !== undefined) {
+    const text = String(filter.query).toLowerCase();
+    items = items.filter(item => JSON.stringify(item.attributes).toLowerCase().includes(text));
+  }
+  if (filter.fields !== undefined) {
+    if (filter.type === undefined) {
+      throw new MockApiError(422, "INVALID_FILTER", { message: "filter[fields] requires filter[type]" });
+    }
+    // Like the CMA, localized fields are matched in the main locale unless `locale` is given
+    const locale = typeof query.locale === "string" ? query.locale : store.siteLocales[0];
+    const conditions = filter.fields as Record<string, Record<string, unknown>>;
+    items = items.filter(item => Object.entries(conditions).every(([fieldKey, condition]) => {
+      const raw = fieldKey === "id" ? item.id : fieldKey.startsWith("_") ? item.meta?.[fieldKey.slice(1)] : item.attributes[fieldKey];
+      const value = raw && typeof raw === "object" && !Array.isArray(raw) && locale ? (raw as Record<string, unknown>)[locale] : raw;
+      return Object.entries(condition).every(([operator, expected]) => matchesCondition(value, operator, expected));
+    }));
+  }
+
+  if (typeof query.order_by === "string") {
+    const [, key = "", direction = "ASC"] = /^(.+)_(ASC|DESC)$/i.exec(query.order_by) ?? [];
+    const locale = typeof query.locale === "string" ? query.locale : store.siteLocales[0];
+    const read = (item: MockResource) => {
+      const raw = key.startsWith("_") ? item.meta?.[key.slice(1)] : item.attributes[key];
+      return raw && typeof raw === "object" && !Array.isArray(raw) && locale ? (raw as Record<string, unknown>)[locale] : raw;
+    };
+    items = [...items].sort((a, b) => {
+      const left = String(read(a) ?? "");
+      const right = String(read(b) ?? "");
+      const order = left.localeCompare(right, undefined, { numeric: true });
+      return direction.toUpperCase() === "DESC" ? -order : order;
+    });
+  }
+
+  const page = (query.page ?? {}) as Record<string, unknown>;
+  if (Number(page.limit ?? 0) > 500) {
+    throw new MockApiError(422, "INVALID_PAGINATION", { limit: page.limit });
+  }
+  return paginate(items, query);
+}
+
+/**
+ * Runs a bulk operation on records or uploads, as an async job
+ */
+function bulkJob(context: RouteContext, type: string, apply: (resource: MockResource) => void): RouteResult {
+  const relationship = type === "item" ? "items" : "uploads";
+  const ids = ((context.body?.data?.relationships?.[relationship]?.data ?? []) as ResourceIdentifier[]).map(ref => ref.id);
+  const missing = ids.filter(id => !context.store.find(type, id));
+  if (missing.length > 0) {
+    return context.createJob(422, {
+      data: missing.map(id => ({ id: `error-${id}`, type: "api_error", attributes: { code: "NOT_FOUND", details: { id } } }))
+    });
+  }
+  ids.forEach(id => apply(mustFind(context.store, type, id)));
+  return context.createJob(200, { data: [] });
+}
+
+/**
+ * Converts a collection path (e.g. 'menu-items') into its resource type ('menu_item')
+ */
+function typeFromCollection(collection: string): string {
+  return collection.replace(/-/g, "_").replace(/s$/, "");
+}
+
+/**
+ * Routes specific to the resources the mock knows about; anything else falls
+ * back to generic CRUD
+ */
+const routes: Route[] = [
+  // Site and maintenance mode
+  ["GET", /^\/site$/, ({ store }) => document(mustFind(store, "site", "site"))],
+  ["PUT", /^\/site$/, ({ store, body }) => document(mergeBody(mustFind(store, "site", "site"), body))],
+  ["GET", /^\/maintenance-mode$/, ({ store }) => document(mustFind(store, "maintenance_mode", "maintenance_mode"))],
+  ["PUT", /^\/maintenance-mode\/(activate|deactivate)$/, ({ store, params }) => {
+    const mode = mustFind(store, "maintenance_mode", "maintenance_mode");
+    mode.attributes.active = params[0] === "activate";
+    return document(mode);
+  }],
+
+  // Jobs
+  ["GET", /^\/job-results\/([^/]+)$/, ({ store, params }) => document(mustFind(store, "job_result", params[0]))],
+
+  // Environments
+  ["POST", /^\/environments\/([^/]+)\/fork$/, ({ store, params, body, createJob }) => {
+    mustFind(store, "environment", params[0]);
+    const id = body?.data?.id as string | undefined;
+    if (!id || store.find("environment", id)) {
+      throw new MockApiError(422, "INVALID_FIELD", { field: "id", code: id ? "VALIDATION_UNIQUE" : "VALIDATION_REQUIRED" });
+    }
+    const environment = store.insert({
+      id,
+      type: "environment",
+      attributes: {},
+      meta: { status: "ready", primary: false, created_at: new Date().toISOString(), forked_from: params[0], read_only_mode: false }
+    });
+    return createJob(200, { data: environment });
+  }],
+  ["PUT", /^\/environments\/([^/]+)\/promote$/, ({ store, params }) => {
+    const target = mustFind(store, "environment", params[0]);
+    store.list("environment").forEach(environment => {
+      environment.meta = { ...environment.meta, primary: environment.id === target.id };
+    });
+    return document(target);
+  }],
+  ["PUT", /^\/environments\/([^/]+)\/rename$/, ({ store, params, body }) => {
+    const environment = mustFind(store, "environment", params[0]);
+    store.remove("environment", environment.id);
+    environment.id = body?.data?.id ?? environment.id;
+    return document(store.insert(environment));
+  }],
+  ["DELETE", /^\/environments\/([^/]+)$/, ({ store, params }) => {
+    const environment = mustFind(store, "environment", params[0]);
+    if (environment.meta?.primary) {
+      throw new MockApiError(422, "CANNOT_DESTROY_PRIMARY_ENVIRONMENT");
+    }
+    store.remove("environment", environment.id);
+    return document(environment);
+  }],
+
+  // Models, fields and fieldsets
+  ["GET", /^\/item-types\/([^/]+)$/, ({ store, params }) => {
+    const itemType = store.findItemType(params[0] ?? "");
+    if (!itemType) {
+      throw new MockApiError(404, "NOT_FOUND", { type: "item_type", id: params[0] });
+    }
+    return document(itemType);
+  }],
+  ["POST", /^\/item-types$/, ({ store, body }) => {
+    const itemType = resourceFromBody(store, body, "item_type");
+    if (!itemType.attributes.name || !itemType.attributes.api_key) {
+      throw new MockApiError(422, "INVALID_FIELD", { field: itemType.attributes.name ? "api_key" : "name", code: "VALIDATION_REQUIRED" });
+    }
+    if (store.findItemType(String(itemType.attributes.api_key))) {
+      throw new MockApiError(422, "INVALID_FIELD", { field: "api_key", code: "VALIDATION_UNIQUE" });
+    }
+    const { name, api_key: apiKey, ...rest } = itemType.attributes;
+    const created = store.addItemType({ name: String(name), api_key: String(apiKey), ...rest });
+    return { status: 201, body: { data: created } };
+  }],
+  ["DELETE", /^\/item-types\/([^/]+)$/, ({ store, params }) => {
+    const itemType = mustFind(store, "item_type", params[0]);
+    store.fieldsOf(itemType.id).forEach(field => store.remove("field", field.id));
+    store.list("item").filter(item => relationshipId(item, "item_type") === itemType.id).forEach(item => store.remove("item", item.id));
+    store.remove("item_type", itemType.id);
+    return document(itemType);
+  }],
+  ["POST", /^\/item-types\/([^/]+)\/duplicate$/, ({ store, params, createJob }) => {
+    const source = mustFind(store, "item_type", params[0]);
+    const copy = store.addItemType({
+      ...source.attributes,
+      name: `${source.attributes.name} (copy)`,
+      api_key: `${source.attributes.api_key}_copy`
+    });
+    store.fieldsOf(source.id).forEach(field => {
+      const { label, api_key: apiKey, field_type: fieldType, ...rest } = field.attributes;
+      store.addField(copy.id, { label: String(label), api_key: String(apiKey), field_type: String(fieldType), ...rest });
+    });
+    return createJob(200, { data: copy });
+  }],
+  ["GET", /^\/item-types\/([^/]+)\/fields$/, ({ store, params }) => {
+    const itemType = store.findItemType(params[0] ?? "");
+    if (!itemType) {
+      throw new MockApiError(404, "NOT_FOUND", { type: "item_type", id: params[0] });
+    }
+    return document(store.fieldsOf(itemType.id));
+  }],
+  ["POST", /^\/item-types\/([^/]+)\/fields$/, ({ store, params, body }) => {
+    const itemType = mustFind(store, "item_type", params[0]);
+    const { label, api_key: apiKey, field_type: fieldType, ...rest } = (body?.data?.attributes ?? {}) as Record<string, unknown>;
+    if (!label || !apiKey || !fieldType) {
+      throw new MockApiError(422, "INVALID_FIELD", { field: !label ? "label" : !apiKey ? "api_key" : "field_type", code: "VALIDATION_REQUIRED" });
+    }
+    if (store.fieldsOf(itemType.id).some(field => field.attributes.api_key === apiKey)) {
+      throw new MockApiError(422, "INVALID_FIELD", { field: "api_key", code: "VALIDATION_UNIQUE" });
+    }
+    const field = store.addField(itemType.id, { label: String(label), api_key: String(apiKey), field_type: String(fieldType), ...rest });
+    const fieldset = body?.data?.relationships?.fieldset;
+    if (fieldset) {
+      field.relationships = { ...field.relationships, fieldset };
+    }
+    return { status: 201, body: { data: field } };
+  }],
+  ["GET", /^\/item-types\/([^/]+)\/fieldsets$/, ({ store, params }) =>
+    document(store.list("fieldset").filter(fieldset => relationshipId(fieldset, "item_type") === params[0]))],
+  ["POST", /^\/item-types\/([^/]+)\/fieldsets$/, ({ store, params, body }) => {
+    const itemType = mustFind(store, "item_type", params[0]);
+    const fieldset = resourceFromBody(store, body, "fieldset");
+    fieldset.relationships = { item_type: { data: { id: itemType.id, type: "item_type" } } };
+    return { status: 201, body: { data: store.insert(fieldset) } };
+  }],
+  ["DELETE", /^\/fields\/([^/]+)$/, ({ store, params }) => {
+    const field = mustFind(store, "field", params[0]);
+    store.remove("field", field.id);
+    const itemType = store.find("item_type", relationshipId(field, "item_type") ?? "");
+    if (itemType) {
+      const fields = (itemType.relationships?.fields?.data as ResourceIdentifier[] | undefined) ?? [];
+      itemType.relationships = { ...itemType.relationships, fields: { data: fields.filter(ref => ref.id !== field.id) } };
+    }
+    return document(field);
+  }],
+
+  // Records
+  ["GET", /^\/items$/, ({ store, query }) => listItems(store, query)],
+  ["POST", /^\/items$/, ({ store, body }) => {
+    const data = body?.data ?? {};
+    const itemTypeId = data.relationships?.item_type?.data?.id as string | undefined;
+    const itemType = itemTypeId ? store.findItemType(itemTypeId) : undefined;
+    if (!itemType) {
+      throw new MockApiError(422, "INVALID_FIELD", { field: "item_type", code: itemTypeId ? "VALIDATION_INVALID" : "VALIDATION_REQUIRED" });
+    }
+    const attributes = (data.attributes ?? {}) as Record<string, unknown>;
+    validateItemAttributes(store, itemType.id, attributes, true);
+    validateItemLocales(store, itemType.id, attributes);
+    const item = store.addItem(itemType.id, attributes);
+    if (data.id) {
+      store.remove("item", item.id);
+      item.id = data.id;
+      store.insert(item);
+    }
+    return { status: 201, body: { data: item } };
+  }],
+  ["POST", /^\/items\/bulk\/(publish|unpublish|destroy)$/, context => bulkJob(context, "item", item => {
+    const operation = context.params[0];
+    if (operation === "publish") {
+      context.store.publish(item);
+    } else if (operation === "unpublish") {
+      context.store.unpublish(item);
+    } else {
+      context.store.remove("item", item.id);
+    }
+  })],
+  ["GET", /^\/items\/([^/]+)$/, ({ store, params, query }) => {
+    const item = mustFind(store, "item", params[0]);
+    const published = query.version === "published";
+    const attributes = published ? store.publishedAttributes.get(item.id) : item.attributes;
+    if (!attributes) {
+      throw new MockApiError(404, "NOT_FOUND", { type: "item", id: item.id, version: "published" });
+    }
+    const nested = query.nested === "true" ? nestBlocks(store, relationshipId(item, "item_type") ?? "", attributes, published) : attributes;
+    return document({ ...item, attributes: nested });
+  }],
+  ["PUT", /^\/items\/([^/]+)$/, ({ store, params, body }) => {
+    const item = mustFind(store, "item", params[0]);
+    const data = body?.data ?? {};
+    const expectedVersion = data.meta?.current_version;
+    if (expectedVersion && expectedVersion !== item.meta?.current_version) {
+      throw new MockApiError(422, "STALE_ITEM_VERSION", { current_version: item.meta?.current_version });
+    }
+    const attributes = (data.attributes ?? {}) as Record<string, unknown>;
+    validateItemAttributes(store, relationshipId(item, "item_type") ?? "", attributes, false);
+    validateItemLocales(store, relationshipId(item, "item_type") ?? "", { ...item.attributes, ...attributes });
+    item.attributes = { ...item.attributes, ...attributes };
+    store.addVersion(item);
+    if (item.meta?.status === "published") {
+      item.meta = { ...item.meta, status: "updated" };
+    }
+    return document(item);
+  }],
+  ["DELETE", /^\/items\/([^/]+)$/, ({ store, params }) => {
+    const item = mustFind(store, "item", params[0]);
+    store.remove("item", item.id);
+    store.publishedAttributes.delete(item.id);
+    return document(item);
+  }],
+  ["PUT", /^\/items\/([^/]+)\/publish$/, ({ store, params }) => {
+    const item = mustFind(store, "item", params[0]);
+    store.publish(item);
+    return document(item);
+  }],
+  ["PUT", /^\/items\/([^/]+)\/unpublish$/, ({ store, params }) => {
+    const item = mustFind(store, "item", params[0]);
+    store.unpublish(item);
+    return document(item);
+  }],
+  ["POST", /^\/items\/([^/]+)\/duplicate$/, ({ store, params, createJob }) => {
+    const source = mustFind(store, "item", params[0]);
+    const copy = store.addItem(relationshipId(source, "item_type") ?? "", structuredClone(source.attributes));
+    return createJob(200, { data: copy });
+  }],
+  ["GET", /^\/items\/([^/]+)\/references$/, ({ store, params }) => {
+    const item = mustFind(store, "item", params[0]);
+    return document(store.list("item").filter(other => other.id !== item.id && JSON.stringify(other.attributes).includes(`"${item.id}"`)));
+  }],
+  ["GET", /^\/items\/([^/]+)\/versions$/, ({ store, params, query }) => {
+    mustFind(store, "item", params[0]);
+    return paginate(store.versionsOf(params[0] ?? ""), query);
+  }],
+  ["GET", /^\/versions\/([^/]+)$/, ({ store, params }) => document(mustFind(store, "item_version", params[0]))],
+  ["POST", /^\/versions\/([^/]+)\/restore$/, ({ store, params, createJob }) => {
+    const version = mustFind(store, "item_version", params[0]);
+    const item = mustFind(store, "item", relationshipId(version, "item"));
+    item.attributes = structuredClone(version.attributes);
+    const restored = store.addVersion(item);
+    return createJob(200, { data: [item, restored] });
+  }],
+
+  // Uploads
+  ["POST", /^\/upload-requests$/, ({ store, baseUrl, body }) => {
+    const filename = String(body?.data?.attributes?.filename ?? "file");
+    const path = `/mock/${store.nextId()}/${filename}`;
+    return {
+      status: 201,
+      body: { data: { id: path, type: "upload_request", attributes: { url: `${baseUrl}/_bucket${path}`, request_headers: {} } } }
+    };
+  }],
+  ["POST", /^\/uploads$/, ({ store, body, createJob }) => {
+    const attributes = { ...(body?.data?.attributes ?? {}) } as Record<string, unknown>;
+    const path = String(attributes.path ?? "");
+    const size = store.bucket.get(path);
+    if (size === undefined) {
+      return createJob(422, { data: [{ id: "error", type: "api_error", attributes: { code: "INVALID_FIELD", details: { field: "path", code: "VALIDATION_INVALID" } } }] });
+    }
+    const filename = path.slice(path.lastIndexOf("/") + 1);
+    delete attributes.skip_creation_if_already_exists;
+    const upload = store.addUpload({ ...attributes, filename, size });
+    upload.attributes.path = path;
+    const collection = body?.data?.relationships?.upload_collection;
+    if (collection) {
+      upload.relationships = { upload_collection: collection };
+    }
+    return createJob(201, { data: upload });
+  }],
+  ["POST", /^\/uploads\/bulk\/(tag|set-upload-collection|destroy)$/, context => bulkJob(context, "upload", upload => {
+    const operation = context.params[0];
+    const attributes = context.body?.data?.attributes ?? {};
+    if (operation === "tag") {
+      upload.attributes.tags = [...new Set([...(upload.attributes.tags as string[]), ...(attributes.tags ?? [])])];
+    } else if (operation === "set-upload-collection") {
+      upload.relationships = { upload_collection: context.body?.data?.relationships?.upload_collection ?? { data: null } };
+    } else {
+      context.store.remove("upload", upload.id);
+    }
+  })],
+  ["GET", /^\/uploads\/([^/]+)\/references$/, ({ store, params }) => {
+    mustFind(store, "upload", params[0]);
+    return document(store.list("item").filter(item => JSON.stringify(item.attributes).includes(`"${params[0]}"`)));
+  }],
+  ["GET", /^\/uploads$/, ({ store, query }) => {
+    const filter = (query.filter ?? {}) as Record<string, unknown>;
+    let uploads = store.list("upload");
+    if (filter.ids !== undefined) {
+      const ids = toList(filter.ids);
+      uploads = uploads.filter(upload => ids.includes(upload.id));
+    }
+    if (filter.query !== undefined) {
+      const text = String(filter.query).toLowerCase();
+      uploads = uploads.filter(upload => JSON.stringify(upload.attributes).toLowerCase().includes(text));
+    }
+    return paginate(uploads, query);
+  }]
+];
+
+/**
+ * Generic CRUD for collections without a specific route
+ */
+function genericRoute(method: string, path: string, context: RouteContext): RouteResult | undefined {
+  const match = /^\/([a-z_-]+)(?:\/([^/]+))?$/.exec(path);
+  if (!match?.[1]) {
+    return undefined;
+  }
+  const type = typeFromCollection(match[1]);
+  const id = match[2];
+
+  if (id === undefined) {
+    if (method === "GET") {
+      return paginate(context.store.list(type), context.query, 500);
+    }
+    if (method === "POST") {
+      return { status: 201, body: { data: context.store.insert(resourceFromBody(context.store, context.body, type)) } };
+    }
+    return undefined;
+  }
+
+  const resource = mustFind(context.store, type, id);
+  switch (method) {
+    case "GET":
+      return document(resource);
+    case "PUT":
+      return document(mergeBody(resource, context.body));
+    case "DELETE":
+      context.store.remove(type, id);
+      return document(resource);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reads a request body
+ */
+async function readBody(request: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Writes a JSON:API error response
+ */
+function sendError(response: ServerResponse, status: number, code: string, details: Record<string, unknown> = {}, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { "content-type": "application/json", ...headers });
+  response.end(JSON.stringify({
+    data: [{ id: `mock-error-${status}`, type: "api_error", attributes: { code, details, transient: status >= 500 } }]
+  }));
+}
+
+/**
+ * Starts the mock CMA on a random local port
+ * @param options Site locales
+ * @returns The running server
+ */
+export async function startMockCmaServer(options: MockCmaServerOptions = {}): Promise<MockCmaServer> {
+  const store = new MockCmaStore(options.locales);
+  const requests: RecordedRequest[] = [];
+  let failures: MockFailure[] = [];
+  let baseUrl = "";
+
+  const createJob = (status: number, payload: unknown): RouteResult => {
+    const job = store.insert({ id: `job-${store.nextId()}`, type: "job_result", attributes: { status, payload } });
+    return { status: 202, body: { data: { id: job.id, type: "job" } } };
+  };
+
+  const server = createServer((request, response) => {
+    void (async () => {
+      const url = new URL(request.url ?? "/", baseUrl);
+      const method = (request.method ?? "GET").toUpperCase();
+      const raw = await readBody(request);
+
+      // Presigned bucket uploads carry the file, not JSON
+      if (url.pathname.startsWith("/_bucket/") && method === "PUT") {
+        store.bucket.set(url.pathname.slice("/_bucket".length), raw.length);
+        response.writeHead(200);
+        response.end();
+        return;
+      }
+
+      let body: RouteContext["body"];
+      try {
+        body = raw.length > 0 ? JSON.parse(raw.toString("utf8")) : undefined;
+      } catch {
+        sendError(response, 422, "INVALID_FORMAT");
+        return;
+      }
+
+      const environment = request.headers["x-environment"];
+      const query = parseNestedQuery(url.searchParams);
+      const authorization = request.headers.authorization ?? "";
+      const apiToken = /^Bearer (.+)$/.exec(authorization)?.[1];
+      requests.push({
+        method,
+        path: url.pathname,
+        query,
+        body,
+        ...(typeof environment === "string" ? { environment } : {}),
+        ...(apiToken ? { apiToken } : {})
+      });
+
+      if (!/^Bearer .+/.test(authorization) || authorization === "Bearer invalid") {
+        sendError(response, 401, "INVALID_AUTHORIZATION_HEADER");
+        return;
+      }
+      if (typeof environment === "string" && !store.find("environment", environment)) {
+        sendError(response, 404, "ENVIRONMENT_NOT_FOUND", { environment });
+        return;
+      }
+
+      const failure = failures.find(candidate =>
+        (!candidate.method || candidate.method.toUpperCase() === method)
+        && (typeof candidate.path === "string" ? candidate.path === url.pathname : candidate.path.test(url.pathname)));
+      if (failure) {
+        failure.times = (failure.times ?? 1) - 1;
+        if (failure.times <= 0) {
+          failures = failures.filter(candidate => candidate !== failure);
+        }
+        sendError(response, failure.status, failure.code ?? DEFAULT_ERROR_CODES[failure.status] ?? "MOCK_FAILURE", failure.details, failure.headers);
+        return;
+      }
+
+      const context: RouteContext = { params: [], query, body, store, baseUrl, createJob };
+      try {
+        let result: RouteResult | undefined;
+        for (const [routeMethod, pattern, handler] of routes) {
+          const match = routeMethod === method ? pattern.exec(url.pathname) : null;
+          if (match) {
+            context.params = match.slice(1).map(param => decodeURIComponent(param ?? ""));
+            result = handler(context);
+            break;
+          }
+        }
+        result ??= genericRoute(method, url.pathname, context);
+
+        if (!result) {
+          sendError(response, 404, "NOT_FOUND", { method, path: url.pathname });
+          return;
+        }
+        response.writeHead(result.status ?? 200, { "content-type": "application/json" });
+        response.end(JSON.stringify(result.body ?? {}));
+      } catch (error) {
+        if (error instanceof MockApiError) {
+          sendError(response, error.status, error.code, error.details);
+          return;
+        }
+        sendError(response, 500, "INTERNAL_SERVER_ERROR", { message: error instanceof Error ? error.message : String(error) });
+      }
+    })();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    store,
+    requests,
+    failNext(failure: MockFailure) {
+      failures.push({ ...failure });
+    },
+    reset() {
+      store.reset();
+      requests.length = 0;
+      failures = [];
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close(error => (error ? reject(error) : resolve()));
+      });
+    }
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * @file mockGraphqlServer.ts
+ * @description Local stub of the DatoCMS Content Delivery API (GraphQL endpoint)
+ * It doesn't execute queries: tests queue the result each request should get and
+ * inspect the recorded requests (query, variables and CDA headers). Requests
+ * without a Bearer token, or with "Bearer invalid", get the CDA's 401 error.
+ */
+
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * A GraphQL request received by the stub
+ */
+export interface RecordedGraphqlRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+  /** Request headers, lower-cased */
+  headers: Record<string, string>;
+}
+
+/**
+ * What the stub answers to a request
+ */
+export interface GraphqlStubResponse {
+  status?: number;
+  body: unknown;
+}
+
+/**
+ * A running stub
+ */
+export interface MockGraphqlServer {
+  /** Base URL to configure as DATOCMS_GRAPHQL_BASE_URL */
+  url: string;
+  /** Every request received, in order */
+  requests: RecordedGraphqlRequest[];
+  /**
+   * Sets the answer to the next requests (the last one set stays in place)
+   * @param response A fixed response, or a function of the request
+   */
+  respondWith(response: GraphqlStubResponse | ((request: RecordedGraphqlRequest) => GraphqlStubResponse)): void;
+  /** Clears the recorded requests and answers `{ data: {} }` again */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Reads a request body
+ */
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Starts the stub on a free local port
+ * @returns The running stub
+ */
+export async function startMockGraphqlServer(): Promise<MockGraphqlServer> {
+  const requests: RecordedGraphqlRequest[] = [];
+  const defaultResponder = (): GraphqlStubResponse => ({ body: { data: {} } });
+  let responder: (request: RecordedGraphqlRequest) => GraphqlStubResponse = defaultResponder;
+
+  const server = createServer((request, response) => {
+    void (async () => {
+      const send = ({ status = 200, body }: GraphqlStubResponse) => {
+        response.writeHead(status, { "content-type": "application/json" });
+        response.end(JSON.stringify(body));
+      };
+
+      let payload: { query?: string; variables?: Record<string, unknown>; operationName?: string };
+      try {
+        payload = JSON.parse(await readBody(request));
+      } catch {
+        send({ status: 400, body: { errors: [{ message: "Body must be JSON" }] } });
+        return;
+      }
+
+      const headers = Object.fromEntries(Object.entries(request.headers)
+        .map(([name, value]) => [name.toLowerCase(), Array.isArray(value) ? value.join(",") : value ?? ""]));
+      const recorded: RecordedGraphqlRequest = {
+        query: payload.query ?? "",
+        ...(payload.variables && { variables: payload.variables }),
+        ...(payload.operationName && { operationName: payload.operationName }),
+        headers
+      };
+      requests.push(recorded);
+
+      const authorization = headers.authorization ?? "";
+      if (request.method !== "POST" || !/^Bearer .+/.test(authorization) || authorization === "Bearer invalid") {
+        send({
+          status: 401,
+          body: { data: [{ id: "error", type: "api_error", attributes: { code: "INVALID_AUTHORIZATION_HEADER", details: {} } }] }
+        });
+        return;
+      }
+
+      send(responder(recorded));
+    })();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    respondWith(response) {
+      responder = typeof response === "function" ? response : () => response;
+    },
+    reset() {
+      requests.length = 0;
+      responder = defaultResponder;
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}